@@ -0,0 +1,77 @@
+// Service worker for offline quiz taking.
+// Pages are fetched from the network first and fall back to the cached app shell; the app's own
+// build assets are served from the cache once fetched. Files the app put in the offline file cache
+// (attached assignment files, KaTeX fonts; see src/lib/offlineQuiz.ts) are served from there when
+// the network fails. API requests are never cached.
+const APP_CACHE = "homework-hub-app-v1";
+const FILE_CACHE = "homework-hub-files";
+const APP_SHELL = ["/", "/index.html", "/favicon.ico"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(APP_CACHE).then((cache) => cache.addAll(APP_SHELL)));
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key !== APP_CACHE && key !== FILE_CACHE).map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirstPage = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(APP_CACHE);
+      cache.put("/index.html", response.clone());
+    }
+    return response;
+  } catch (error) {
+    // Client-side routes all render from the same index.html
+    return (await caches.match("/index.html")) || Response.error();
+  }
+};
+
+const cacheFirstAsset = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(APP_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const offlineFile = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cache = await caches.open(FILE_CACHE);
+    const cached = await cache.match(request.url);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith("/assets/")) {
+    // Vite build assets have content hashes in their names, so a cached copy is never stale
+    event.respondWith(cacheFirstAsset(request));
+  } else if (!url.pathname.includes("/rest/") && !url.pathname.includes("/functions/") && !url.pathname.includes("/auth/")) {
+    event.respondWith(offlineFile(request));
+  }
+});
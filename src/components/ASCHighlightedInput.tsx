@@ -1,5 +1,6 @@
-import { useRef, useEffect, useState } from "react";
+import { useRef, useEffect, useMemo, useState } from "react";
 import { cn } from "@/lib/utils";
+import { ASCDiagnostic, ASCToken, ASCTokenType, analyzeASC } from "@/lib/ascParser";
 
 interface ASCHighlightedInputProps {
   value: string;
@@ -9,94 +10,55 @@ interface ASCHighlightedInputProps {
   className?: string;
 }
 
-function tokenizeASC(input: string): { type: 'prefix' | 'mcq' | 'frq' | 'frq-content' | 'error' | 'whitespace'; value: string }[] {
-  const tokens: { type: 'prefix' | 'mcq' | 'frq' | 'frq-content' | 'error' | 'whitespace'; value: string }[] = [];
-  
-  const colonIndex = input.indexOf(':');
-  if (colonIndex === -1) {
-    tokens.push({ type: 'error', value: input });
-    return tokens;
+const tokenColors: Record<ASCTokenType, string> = {
+  prefix: "text-muted-foreground",
+  mcq: "text-accent-foreground bg-accent/60 rounded-sm",
+  'mcq-multi': "text-purple-600 dark:text-purple-400 bg-accent/60 rounded-sm",
+  frq: "text-blue-600 dark:text-blue-400",
+  'frq-content': "text-blue-500 dark:text-blue-300",
+  sa: "text-green-600 dark:text-green-400",
+  'sa-content': "text-green-500 dark:text-green-300",
+  numeric: "text-orange-600 dark:text-orange-400",
+  'numeric-content': "text-orange-500 dark:text-orange-300",
+  points: "text-muted-foreground bg-muted rounded-sm",
+  section: "text-primary bg-primary/10 rounded-sm",
+};
+
+interface Segment {
+  start: number;
+  end: number;
+  token?: ASCToken;
+  diagnostic?: ASCDiagnostic;
+}
+
+// Cuts the input at every token and diagnostic boundary so each piece has one color and one underline.
+// Errors win over warnings where they overlap.
+function segmentASC(input: string, tokens: ASCToken[], diagnostics: ASCDiagnostic[]): Segment[] {
+  const boundaries = new Set([0, input.length]);
+  for (const { start, end } of [...tokens, ...diagnostics]) {
+    boundaries.add(start);
+    boundaries.add(end);
   }
-  
-  // Add prefix (count + colon)
-  tokens.push({ type: 'prefix', value: input.substring(0, colonIndex + 1) });
-  
-  const answerPart = input.substring(colonIndex + 1);
-  let i = 0;
-  
-  while (i < answerPart.length) {
-    const char = answerPart[i];
-    
-    // Whitespace
-    if (/\s/.test(char)) {
-      tokens.push({ type: 'whitespace', value: char });
-      i++;
-      continue;
-    }
-    
-    // MCQ: digits 1-5
-    if (/[1-5]/.test(char)) {
-      tokens.push({ type: 'mcq', value: char });
-      i++;
-      continue;
-    }
-    
-    // Invalid digit
-    if (/[0-9]/.test(char)) {
-      tokens.push({ type: 'error', value: char });
-      i++;
-      continue;
-    }
-    
-    // FRQ: F or F(answer)
-    if (char === 'F' || char === 'f') {
-      const nextIndex = i + 1;
-      
-      if (nextIndex < answerPart.length && answerPart[nextIndex] === '(') {
-        // Find balanced closing parenthesis
-        let depth = 0;
-        let endIndex = nextIndex;
-        
-        for (let j = nextIndex; j < answerPart.length; j++) {
-          if (answerPart[j] === '(') depth++;
-          else if (answerPart[j] === ')') {
-            depth--;
-            if (depth === 0) {
-              endIndex = j;
-              break;
-            }
-          }
-        }
-        
-        if (depth === 0) {
-          tokens.push({ type: 'frq', value: char });
-          tokens.push({ type: 'frq-content', value: answerPart.substring(nextIndex, endIndex + 1) });
-          i = endIndex + 1;
-        } else {
-          // Unbalanced - mark F as frq and rest as error
-          tokens.push({ type: 'frq', value: char });
-          tokens.push({ type: 'error', value: answerPart.substring(nextIndex) });
-          break;
-        }
-      } else {
-        tokens.push({ type: 'frq', value: char });
-        i++;
-      }
-      continue;
-    }
-    
-    // Unknown character
-    tokens.push({ type: 'error', value: char });
-    i++;
+  const points = [...boundaries].sort((a, b) => a - b);
+  const segments: Segment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const covering = diagnostics.filter(d => d.start <= start && start < d.end);
+    segments.push({
+      start,
+      end: points[i + 1],
+      token: tokens.find(t => t.start <= start && start < t.end),
+      diagnostic: covering.find(d => d.severity === 'error') ?? covering[0],
+    });
   }
-  
-  return tokens;
+  return segments;
 }
 
 export const ASCHighlightedInput = ({ value, onChange, onEnter, placeholder, className }: ASCHighlightedInputProps) => {
   const inputRef = useRef<HTMLInputElement>(null);
   const highlightRef = useRef<HTMLDivElement>(null);
   const [scrollLeft, setScrollLeft] = useState(0);
+  const [hovered, setHovered] = useState<{ diagnostic: ASCDiagnostic; left: number } | null>(null);
 
   useEffect(() => {
     if (highlightRef.current) {
@@ -111,57 +73,80 @@ export const ASCHighlightedInput = ({ value, onChange, onEnter, placeholder, cla
     }
   };
 
-  const tokens = value ? tokenizeASC(value) : [];
+  const analysis = useMemo(() => analyzeASC(value), [value]);
+  const segments = value ? segmentASC(value, analysis.tokens, analysis.diagnostics) : [];
+  const errorCount = analysis.diagnostics.filter(d => d.severity === 'error').length;
+
+  // The highlight layer ignores the pointer, so find the underlined piece under the mouse by position
+  const handleMouseMove = (e: React.MouseEvent<HTMLInputElement>) => {
+    const container = e.currentTarget.parentElement?.getBoundingClientRect();
+    const spans = highlightRef.current?.querySelectorAll<HTMLSpanElement>("[data-segment]") ?? [];
+    for (const span of spans) {
+      const rect = span.getBoundingClientRect();
+      const segment = segments[Number(span.dataset.segment)];
+      if (segment?.diagnostic && e.clientX >= rect.left && e.clientX < rect.right) {
+        setHovered({ diagnostic: segment.diagnostic, left: rect.left - (container?.left ?? 0) });
+        return;
+      }
+    }
+    setHovered(null);
+  };
 
   return (
-    <div className={cn("relative font-mono", className)}>
-      {/* Highlighted layer */}
-      <div 
-        ref={highlightRef}
-        className="absolute inset-0 pointer-events-none overflow-hidden whitespace-pre px-3 py-2 text-sm border border-transparent"
-        aria-hidden="true"
-      >
-        {tokens.map((token, i) => {
-          let colorClass = "";
-          switch (token.type) {
-            case 'prefix':
-              colorClass = "text-muted-foreground";
-              break;
-            case 'mcq':
-              colorClass = "text-accent-foreground bg-accent/60 rounded-sm";
-              break;
-            case 'frq':
-              colorClass = "text-blue-600 dark:text-blue-400";
-              break;
-            case 'frq-content':
-              colorClass = "text-blue-500 dark:text-blue-300";
-              break;
-            case 'error':
-              colorClass = "text-destructive bg-destructive/20 rounded-sm";
-              break;
-            case 'whitespace':
-              colorClass = "";
-              break;
-          }
-          return (
-            <span key={i} className={colorClass}>
-              {token.value}
+    <div className={cn("space-y-1", className)}>
+      <div className="relative font-mono">
+        {/* Highlighted layer */}
+        <div 
+          ref={highlightRef}
+          className="absolute inset-0 pointer-events-none overflow-hidden whitespace-pre px-3 py-2 text-sm border border-transparent"
+          aria-hidden="true"
+        >
+          {segments.map((segment, i) => (
+            <span
+              key={i}
+              data-segment={segment.diagnostic ? i : undefined}
+              className={cn(
+                segment.token && tokenColors[segment.token.type],
+                segment.diagnostic?.severity === 'error' && "text-destructive underline decoration-wavy decoration-destructive",
+                segment.diagnostic?.severity === 'warning' && "underline decoration-wavy decoration-yellow-500",
+              )}
+            >
+              {value.substring(segment.start, segment.end)}
             </span>
-          );
-        })}
+          ))}
+        </div>
+        
+        {/* Actual input (transparent text) */}
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHovered(null)}
+          placeholder={placeholder}
+          className="w-full px-3 py-2 text-sm border border-input rounded-md bg-transparent text-transparent caret-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+        />
+
+        {hovered && (
+          <div
+            role="tooltip"
+            className="absolute top-full z-50 mt-1 max-w-sm rounded-md border bg-popover px-3 py-1.5 font-sans text-xs text-popover-foreground shadow-md"
+            style={{ left: hovered.left }}
+          >
+            {hovered.diagnostic.message}
+          </div>
+        )}
       </div>
-      
-      {/* Actual input (transparent text) */}
-      <input
-        ref={inputRef}
-        type="text"
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        onKeyDown={handleKeyDown}
-        onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
-        placeholder={placeholder}
-        className="w-full px-3 py-2 text-sm border border-input rounded-md bg-transparent text-transparent caret-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-      />
+
+      {analysis.expectedCount !== null && (
+        <p className={cn("text-xs", analysis.answerCount === analysis.expectedCount ? "text-muted-foreground" : "text-yellow-600 dark:text-yellow-400")}>
+          정답 {analysis.answerCount}/{analysis.expectedCount}개 입력
+          {errorCount > 0 && <span className="text-destructive"> · 오류 {errorCount}개</span>}
+        </p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,48 @@
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AnswerRevealConfig, AnswerRevealPolicy, answerRevealPolicyLabels } from "@/lib/answerReveal";
+
+interface AnswerRevealSettingsProps {
+  value: AnswerRevealConfig;
+  onChange: (value: AnswerRevealConfig) => void;
+}
+
+const revealParts: { key: Exclude<keyof AnswerRevealConfig, 'policy'>; label: string }[] = [
+  { key: 'correctness', label: "정답 여부 (맞음/틀림)" },
+  { key: 'correctOption', label: "정답 선택지" },
+  { key: 'explanation', label: "해설" },
+  { key: 'modelAnswer', label: "서술형 모범답안" },
+];
+
+export const AnswerRevealSettings = ({ value, onChange }: AnswerRevealSettingsProps) => {
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>정답 공개</Label>
+        <Select value={value.policy} onValueChange={policy => onChange({ ...value, policy: policy as AnswerRevealPolicy })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(answerRevealPolicyLabels) as AnswerRevealPolicy[]).map(policy => (
+              <SelectItem key={policy} value={policy}>{answerRevealPolicyLabels[policy]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.policy !== 'never' && <div className="space-y-2 pl-6">
+          <p className="text-xs text-muted-foreground">공개 시 학생에게 보여줄 항목</p>
+          {revealParts.map(({ key, label }) => (
+            <div key={key} className="flex items-center space-x-2">
+              <Checkbox id={`reveal-${key}`} checked={value[key]} onCheckedChange={checked => onChange({ ...value, [key]: checked as boolean })} />
+              <Label htmlFor={`reveal-${key}`} className="text-sm font-normal leading-none">
+                {label}
+              </Label>
+            </div>
+          ))}
+        </div>}
+    </div>
+  );
+};
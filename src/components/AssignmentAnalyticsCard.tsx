@@ -8,6 +8,8 @@ import { BookOpen, ClipboardList, CalendarIcon, Users, TrendingUp } from "lucide
 import { cn } from "@/lib/utils";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { ChevronDown } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { QuestionType, isGradedByCorrectness, questionTypeLabels } from "@/lib/questionTypes";
 
 interface AssignmentAnalyticsCardProps {
   assignment: {
@@ -31,6 +33,17 @@ interface ScoreDistribution {
   percentage: number;
 }
 
+interface QuestionStats {
+  questionId: string;
+  number: number;
+  questionType: QuestionType;
+  answered: number;
+  // Average credit (0-100) over graded answers
+  averageCredit: number;
+  // Answers that earned full credit (multiple-select answers may also earn partial credit)
+  fullCredit: number;
+}
+
 interface AssignmentStats {
   totalSubmissions: number;
   completedSubmissions: number;
@@ -38,6 +51,7 @@ interface AssignmentStats {
   averageScore: number;
   scoreDistribution: ScoreDistribution[];
   totalAssigned: number;
+  questionStats: QuestionStats[];
 }
 
 export const AssignmentAnalyticsCard = ({
@@ -58,7 +72,7 @@ export const AssignmentAnalyticsCard = ({
       // Fetch submissions for this assignment
       const { data: submissions, error: subError } = await supabase
         .from("submissions")
-        .select("id, score, total_questions, student_id")
+        .select("id, score, max_score, student_id")
         .eq("assignment_id", assignment.id);
 
       if (subError) throw subError;
@@ -73,7 +87,7 @@ export const AssignmentAnalyticsCard = ({
 
       const completedSubmissions = submissions?.filter(s => s.score !== null) || [];
       const scores = completedSubmissions.map(s => 
-        s.score !== null ? Math.round((s.score / s.total_questions) * 100) : 0
+        s.score !== null ? Math.round((s.score / s.max_score) * 100) : 0
       );
 
       // Create histogram bins
@@ -103,6 +117,10 @@ export const AssignmentAnalyticsCard = ({
           : 0
       }));
 
+      const questionStats = assignment.assignment_type === "quiz"
+        ? await fetchQuestionStats((submissions || []).map(s => s.id))
+        : [];
+
       const uniqueStudents = new Set(submissions?.map(s => s.student_id) || []).size;
       const totalAssigned = studentAssignments?.length || 0;
 
@@ -112,7 +130,8 @@ export const AssignmentAnalyticsCard = ({
         completionRate: totalAssigned > 0 ? Math.round((uniqueStudents / totalAssigned) * 100) : 0,
         averageScore: scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0,
         scoreDistribution: chartData,
-        totalAssigned
+        totalAssigned,
+        questionStats
       });
     } catch (error) {
       console.error("Failed to fetch assignment stats:", error);
@@ -121,6 +140,47 @@ export const AssignmentAnalyticsCard = ({
     }
   };
 
+  // Per-question credit as a share of the question's points: MCQ counts is_correct,
+  // multiple-select and graded FRQ use points_earned
+  const fetchQuestionStats = async (submissionIds: string[]): Promise<QuestionStats[]> => {
+    const { data: questions, error: questionsError } = await supabase
+      .from("questions")
+      .select("id, order_number, question_type, points")
+      .eq("assignment_id", assignment.id)
+      .order("order_number");
+
+    if (questionsError) throw questionsError;
+
+    let answers: { question_id: string; is_correct: boolean | null; points_earned: number | null }[] = [];
+    if (submissionIds.length > 0) {
+      const { data, error: answersError } = await supabase
+        .from("student_answers")
+        .select("question_id, is_correct, points_earned")
+        .in("submission_id", submissionIds);
+
+      if (answersError) throw answersError;
+      answers = data || [];
+    }
+
+    return (questions || []).map((question, index) => {
+      const credits = answers
+        .filter(a => a.question_id === question.id)
+        .map(a => isGradedByCorrectness(question.question_type) ? (a.is_correct ? 1 : 0) : a.points_earned === null ? null : Math.min(a.points_earned / question.points, 1))
+        .filter((credit): credit is number => credit !== null);
+
+      return {
+        questionId: question.id,
+        number: index + 1,
+        questionType: question.question_type,
+        answered: credits.length,
+        averageCredit: credits.length > 0
+          ? Math.round((credits.reduce((a, b) => a + b, 0) / credits.length) * 100)
+          : 0,
+        fullCredit: credits.filter(credit => credit === 1).length
+      };
+    });
+  };
+
   const isCompleted = assignment.due_date 
     ? new Date(assignment.due_date) < new Date() 
     : false;
@@ -259,6 +319,31 @@ export const AssignmentAnalyticsCard = ({
                   </div>
                 )}
 
+                {/* Per-question credit - Only for quiz type */}
+                {!isNonQuiz && stats.completedSubmissions > 0 && stats.questionStats.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">문항별 정답률</h4>
+                    <div className="space-y-1.5">
+                      {stats.questionStats.map(question => (
+                        <div key={question.questionId} className="flex items-center gap-3 text-sm">
+                          <span className="w-10 text-muted-foreground">Q{question.number}</span>
+                          <Badge variant="outline" className="w-16 justify-center text-xs">
+                            {questionTypeLabels[question.questionType]}
+                          </Badge>
+                          <Progress value={question.averageCredit} className="h-2 flex-1" />
+                          <span className="w-32 text-right text-xs text-muted-foreground">
+                            {question.answered > 0
+                              ? question.questionType === "multiple_select"
+                                ? `평균 ${question.averageCredit}% · 만점 ${question.fullCredit}명`
+                                : `${question.averageCredit}% (${question.answered}명)`
+                              : "채점 전"}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {!isNonQuiz && stats.completedSubmissions === 0 && (
                   <p className="text-center text-muted-foreground py-4">
                     아직 채점된 제출이 없습니다
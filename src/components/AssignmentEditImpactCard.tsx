@@ -0,0 +1,67 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import { ExistingSubmission, SubmissionImpact } from "@/lib/assignmentChanges";
+
+interface AssignmentEditImpactCardProps {
+  submissions: ExistingSubmission[];
+  impacts: SubmissionImpact[];
+}
+
+export const AssignmentEditImpactCard = ({ submissions, impacts }: AssignmentEditImpactCardProps) => {
+  return (
+    <Card>
+      <CardHeader variant="accent">
+        <CardTitle>제출 영향</CardTitle>
+        <CardDescription>변경사항이 기존 제출에 미치는 영향을 확인하세요</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 mt-2">
+        {submissions.length === 0 ? (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>
+              아직 제출이 없습니다. 자유롭게 수정할 수 있습니다.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                이 과제에는 이미 {submissions.length}개의 제출이 있습니다.
+                {impacts.length > 0
+                  ? ` 현재 변경사항은 ${impacts.length}개 제출에 영향을 줍니다.`
+                  : " 현재 변경사항은 채점 결과에 영향을 주지 않습니다."}
+              </AlertDescription>
+            </Alert>
+
+            {impacts.length > 0 && (
+              <ScrollArea className="h-72 pr-3">
+                <div className="space-y-2">
+                  {impacts.map(({ submission, reasons }) => (
+                    <div key={submission.id} className="p-3 border rounded-lg text-sm space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{submission.student?.full_name || "알 수 없음"}</span>
+                        <Badge variant="secondary" className="font-normal">
+                          {submission.score ?? "-"}/{submission.max_score}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(submission.submitted_at).toLocaleString()}
+                      </p>
+                      <ul className="text-xs text-muted-foreground list-disc pl-4">
+                        {reasons.map((reason, i) => <li key={i}>{reason}</li>)}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,32 @@
+import { Badge } from "@/components/ui/badge";
+import { AvailabilityState, availabilityStateLabels, getAvailabilityState } from "@/lib/availability";
+
+interface AvailabilityBadgeProps {
+  assignment: {
+    available_from: string | null;
+    available_until: string | null;
+  };
+}
+
+const stateVariants: Record<AvailabilityState, "default" | "secondary" | "outline"> = {
+  scheduled: "outline",
+  open: "default",
+  closed: "secondary",
+};
+
+export const AvailabilityBadge = ({ assignment }: AvailabilityBadgeProps) => {
+  const state = getAvailabilityState(assignment);
+  // The next change of state, if one is scheduled
+  const boundary = state === 'scheduled' ? assignment.available_from : state === 'open' ? assignment.available_until : null;
+
+  return (
+    <div className="space-y-1">
+      <Badge variant={stateVariants[state]}>{availabilityStateLabels[state]}</Badge>
+      {boundary && (
+        <p className="text-xs text-muted-foreground">
+          {new Date(boundary).toLocaleString()} {state === 'scheduled' ? "공개" : "종료"}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AvailabilityWindow } from "@/lib/availability";
+
+interface AvailabilitySettingsProps {
+  value: AvailabilityWindow;
+  onChange: (value: AvailabilityWindow) => void;
+}
+
+const windowParts: { key: keyof AvailabilityWindow; label: string }[] = [
+  { key: 'from', label: "공개 시작" },
+  { key: 'until', label: "공개 종료" },
+];
+
+export const AvailabilitySettings = ({ value, onChange }: AvailabilitySettingsProps) => {
+  return (
+    <div className="space-y-2">
+      <Label>공개 기간 (선택사항)</Label>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {windowParts.map(({ key, label }) => (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={`availability-${key}`} className="text-sm font-normal">
+              {label}
+            </Label>
+            <Input id={`availability-${key}`} type="datetime-local" value={value[key]} onChange={e => onChange({ ...value, [key]: e.target.value })} />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        공개 시작 전에는 학생이 문제를 볼 수 없고, 공개 종료 후에는 더 이상 제출할 수 없습니다. 비워두면 제한 없이 공개됩니다
+      </p>
+    </div>
+  );
+};
@@ -5,33 +5,46 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Info, Plus, Eye, EyeOff } from "lucide-react";
-import { MathDisplay } from "./MathDisplay";
+import { RichContent } from "./RichContent";
 import { parseASC } from "@/lib/ascParser";
+import { parseGIFT } from "@/lib/giftParser";
+import { parseAiken } from "@/lib/aikenParser";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { ASCHighlightedInput } from "./ASCHighlightedInput";
+import { QuestionSheetImport } from "./QuestionSheetImport";
+import { QtiPackageImport } from "./QtiPackageImport";
+import { MAX_OPTIONS, MIN_OPTIONS, createDefaultOptions, hasOptionText, stripOptionMarker } from "@/lib/questionOptions";
+import { AnswerKeyFields, QuestionType, defaultAnswerKeyFields, questionTypeLabels } from "@/lib/questionTypes";
+import { findInvalidPattern } from "@/lib/shortAnswer";
+import { formatTolerance } from "@/lib/numericAnswer";
 
-export interface ParsedQuestion {
+export interface ParsedQuestion extends AnswerKeyFields {
   text: string;
   options: string[];
   correctAnswer: number | null;
+  points: number;
   explanation: string;
-  questionType: 'multiple_choice' | 'free_response';
+  questionType: QuestionType;
   modelAnswer: string;
 }
 
+type InputMode = "traditional" | "asc" | "gift" | "aiken" | "sheet" | "qti";
+
 interface BulkQuestionInputProps {
   onAddQuestions: (questions: ParsedQuestion[]) => void;
 }
 
-const DEFAULT_OPTIONS = ["1", "2", "3", "4", "5"];
-
 export const BulkQuestionInput = ({ onAddQuestions }: BulkQuestionInputProps) => {
-  const [inputMode, setInputMode] = useState<"traditional" | "asc">("traditional");
+  const [inputMode, setInputMode] = useState<InputMode>("traditional");
   const [bulkText, setBulkText] = useState("");
   const [ascInput, setAscInput] = useState("");
+  const [giftInput, setGiftInput] = useState("");
+  const [aikenInput, setAikenInput] = useState("");
   const [showPreview, setShowPreview] = useState(false);
   const [parsedQuestions, setParsedQuestions] = useState<ParsedQuestion[]>([]);
   const [parseError, setParseError] = useState<string | null>(null);
+  // Remounts the file imports so they forget the added file
+  const [fileImportKey, setFileImportKey] = useState(0);
 
   const parseQuestions = (text: string): ParsedQuestion[] => {
     const questions: ParsedQuestion[] = [];
@@ -43,10 +56,37 @@ export const BulkQuestionInput = ({ onAddQuestions }: BulkQuestionInputProps) =>
 
       const firstLine = lines[0].trim();
       
-      // Check if it's a free response question
+      // Check if it's a free response or short answer question
       const isFreeResponse = firstLine.startsWith("[서술형]") || firstLine.startsWith("[FR]");
+      const isShortAnswer = firstLine.startsWith("[단답형]") || firstLine.startsWith("[SA]");
       
-      if (isFreeResponse) {
+      if (isShortAnswer) {
+        // Short answer question format:
+        // [단답형] Question text
+        // One accepted answer per line; /.../ lines are regular expressions
+        const questionText = firstLine.replace(/^\[단답형\]|\[SA\]/, "").trim();
+        const keyLines = lines.slice(1).map(line => line.trim());
+        const answerPatterns = keyLines.filter(line => /^\/.+\/$/.test(line)).map(line => line.slice(1, -1));
+        const acceptedAnswers = keyLines.filter(line => !/^\/.+\/$/.test(line));
+
+        const invalidPattern = findInvalidPattern(answerPatterns);
+        if (invalidPattern !== null) {
+          throw new Error(`문제 "${questionText}"의 정규식 패턴이 올바르지 않습니다: /${invalidPattern}/`);
+        }
+
+        questions.push({
+          text: questionText,
+          options: createDefaultOptions(),
+          correctAnswer: null,
+          ...defaultAnswerKeyFields,
+          points: 1,
+          acceptedAnswers,
+          answerPatterns,
+          explanation: "",
+          questionType: 'short_answer',
+          modelAnswer: "",
+        });
+      } else if (isFreeResponse) {
         // Free response question format:
         // [서술형] Question text
         // Model answer (can include LaTeX)
@@ -55,8 +95,10 @@ export const BulkQuestionInput = ({ onAddQuestions }: BulkQuestionInputProps) =>
 
         questions.push({
           text: questionText,
-          options: [...DEFAULT_OPTIONS],
+          options: createDefaultOptions(),
           correctAnswer: null,
+          ...defaultAnswerKeyFields,
+          points: 1,
           explanation: "",
           questionType: 'free_response',
           modelAnswer,
@@ -64,19 +106,28 @@ export const BulkQuestionInput = ({ onAddQuestions }: BulkQuestionInputProps) =>
       } else {
         // Multiple choice question format:
         // Question text
-        // Correct answer number (1-5)
+        // Option lines (optional, 2-10 of them; without them the options are 1-5)
+        // Correct answer number
         const questionText = firstLine;
-        const correctAnswerLine = lines[1].trim();
-        const correctAnswer = parseInt(correctAnswerLine) - 1; // Convert 1-5 to 0-4
+        const optionLines = lines.slice(1, -1).map(stripOptionMarker);
+        const options = optionLines.length > 0 ? optionLines : createDefaultOptions();
+        const correctAnswerLine = lines[lines.length - 1].trim();
+        const correctAnswer = parseInt(correctAnswerLine) - 1; // Convert 1-based to 0-based
+
+        if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+          throw new Error(`문제 "${questionText}"의 선택지는 ${MIN_OPTIONS}~${MAX_OPTIONS}개여야 합니다. (현재 ${options.length}개)`);
+        }
 
-        if (isNaN(correctAnswer) || correctAnswer < 0 || correctAnswer > 4) {
-          throw new Error(`문제 "${questionText}"의 정답 번호 "${correctAnswerLine}"이(가) 올바르지 않습니다. 1-5 사이여야 합니다.`);
+        if (isNaN(correctAnswer) || correctAnswer < 0 || correctAnswer >= options.length) {
+          throw new Error(`문제 "${questionText}"의 정답 번호 "${correctAnswerLine}"이(가) 올바르지 않습니다. 1-${options.length} 사이여야 합니다.`);
         }
 
         questions.push({
           text: questionText,
-          options: [...DEFAULT_OPTIONS],
+          options,
           correctAnswer,
+          ...defaultAnswerKeyFields,
+          points: 1,
           explanation: "",
           questionType: 'multiple_choice',
           modelAnswer: "",
@@ -89,6 +140,16 @@ export const BulkQuestionInput = ({ onAddQuestions }: BulkQuestionInputProps) =>
 
   const handlePreview = () => {
     setParseError(null);
+    if (inputMode === "gift" || inputMode === "aiken") {
+      const result = inputMode === "gift" ? parseGIFT(giftInput) : parseAiken(aikenInput);
+      if (result.success === false) {
+        setParseError(result.error);
+        return;
+      }
+      setParsedQuestions(result.questions);
+      setShowPreview(true);
+      return;
+    }
     try {
       const parsed = parseQuestions(bulkText);
       if (parsed.length === 0) {
@@ -113,19 +174,27 @@ export const BulkQuestionInput = ({ onAddQuestions }: BulkQuestionInputProps) =>
     setShowPreview(true);
   };
 
+  const handleFilePreview = (questions: ParsedQuestion[]) => {
+    setParsedQuestions(questions);
+    setShowPreview(questions.length > 0);
+  };
+
   const handleAdd = () => {
     if (parsedQuestions.length > 0) {
       onAddQuestions(parsedQuestions);
       setBulkText("");
       setAscInput("");
+      setGiftInput("");
+      setAikenInput("");
       setParsedQuestions([]);
       setShowPreview(false);
+      setFileImportKey(key => key + 1);
     }
   };
 
   const handleModeChange = (value: string) => {
     if (value) {
-      setInputMode(value as "traditional" | "asc");
+      setInputMode(value as InputMode);
       setShowPreview(false);
       setParsedQuestions([]);
       setParseError(null);
@@ -140,17 +209,29 @@ export const BulkQuestionInput = ({ onAddQuestions }: BulkQuestionInputProps) =>
           문제 일괄 추가
         </CardTitle>
         <CardDescription>
-          객관식 및 서술형 문제를 한 번에 추가하세요
+          객관식, 단답형 및 서술형 문제를 한 번에 추가하거나 CSV·Excel 파일이나 QTI 패키지에서 가져오세요
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4 flex-1 flex flex-col">
-        <ToggleGroup type="single" value={inputMode} onValueChange={handleModeChange} className="justify-start">
+        <ToggleGroup type="single" value={inputMode} onValueChange={handleModeChange} className="justify-start flex-wrap">
           <ToggleGroupItem value="traditional" aria-label="기존 방식">
             기존 방식
           </ToggleGroupItem>
           <ToggleGroupItem value="asc" aria-label="정답 코드 (ASC)">
             정답 코드 (ASC)
           </ToggleGroupItem>
+          <ToggleGroupItem value="gift" aria-label="GIFT">
+            GIFT
+          </ToggleGroupItem>
+          <ToggleGroupItem value="aiken" aria-label="Aiken">
+            Aiken
+          </ToggleGroupItem>
+          <ToggleGroupItem value="sheet" aria-label="파일 (CSV/Excel)">
+            파일 (CSV/Excel)
+          </ToggleGroupItem>
+          <ToggleGroupItem value="qti" aria-label="QTI 패키지">
+            QTI 패키지
+          </ToggleGroupItem>
         </ToggleGroup>
 
         {inputMode === "traditional" ? (
@@ -159,11 +240,17 @@ export const BulkQuestionInput = ({ onAddQuestions }: BulkQuestionInputProps) =>
               <Info className="h-4 w-4" />
               <AlertDescription className="text-sm space-y-2">
                 <div>
-                  <strong>객관식:</strong> 첫 줄에 문제, 둘째 줄에 정답 번호(1-5)
+                  <strong>객관식:</strong> 첫 줄에 문제, 마지막 줄에 정답 번호
+                </div>
+                <div>
+                  그 사이 줄에 선택지를 {MIN_OPTIONS}~{MAX_OPTIONS}개 적을 수 있습니다 (수식은 <code>$...$</code>). 생략하면 1-5번 선택지
                 </div>
                 <div>
                   <strong>서술형:</strong> <code>[서술형]</code> 접두사와 문제, 둘째 줄에 모범답안 (LaTeX 지원)
                 </div>
+                <div>
+                  <strong>단답형:</strong> <code>[단답형]</code> 접두사와 문제, 다음 줄부터 한 줄에 정답 하나 (<code>/.../</code>로 감싸면 정규식)
+                </div>
               </AlertDescription>
             </Alert>
 
@@ -173,9 +260,19 @@ export const BulkQuestionInput = ({ onAddQuestions }: BulkQuestionInputProps) =>
                 placeholder={`프랑스의 수도는 무엇인가요?
 3
 
+$x^2 = 4$의 해는?
+1) $x = 2$
+2) $x = -2$
+3) $x = \\pm 2$
+3
+
 [서술형] x²의 미분값을 구하시오.
 2x
 
+[단답형] 대한민국의 수도는?
+서울
+서울특별시
+
 가장 큰 행성은 무엇인가요?
 4
 
@@ -187,6 +284,86 @@ x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a}`}
               />
             </div>
           </>
+        ) : inputMode === "gift" ? (
+          <>
+            <Alert className="bg-muted/50">
+              <Info className="h-4 w-4" />
+              <AlertDescription className="text-sm space-y-2">
+                <div>
+                  Moodle GIFT 형식: 문제 사이는 빈 줄, 정답은 <code>{"{...}"}</code> 안에 적습니다
+                </div>
+                <div>
+                  <strong>객관식:</strong> <code>{"{=정답 ~오답 ~오답}"}</code>, <strong>복수선택:</strong> <code>{"{~%50%답1 ~%50%답2 ~%-100%오답}"}</code>
+                </div>
+                <div>
+                  <strong>단답형:</strong> <code>{"{=서울 =서울특별시}"}</code>, <strong>수치형:</strong> <code>{"{#3.14:0.01}"}</code>, <strong>참/거짓:</strong> <code>{"{T}"}</code>, <strong>서술형:</strong> <code>{"{}"}</code>
+                </div>
+                <div>
+                  수식의 <code>{"{ } = ~ # :"}</code>는 <code>\</code>로 이스케이프하세요 (예: <code>{"$\\frac\\{1\\}\\{2\\}$"}</code>). <code>{"####해설"}</code>은 해설이 됩니다
+                </div>
+              </AlertDescription>
+            </Alert>
+
+            <div className="space-y-2 flex-1 flex flex-col">
+              <Label>GIFT 붙여넣기</Label>
+              <Textarea
+                placeholder={`::Q1:: 프랑스의 수도는? {=파리 ~런던 ~베를린 ####파리는 프랑스의 수도입니다}
+
+$x^2 \\= 4$의 해를 모두 고르시오. {
+~%50%$x \\= 2$
+~%50%$x \\= -2$
+~%-100%$x \\= 4$
+}
+
+대한민국의 수도는? {=서울 =서울특별시}
+
+$\\pi$를 소수 둘째 자리까지 쓰시오. {#3.14:0.005}
+
+이차방정식의 근의 공식을 유도하시오. {}`}
+                value={giftInput}
+                onChange={(e) => setGiftInput(e.target.value)}
+                className="font-mono text-sm flex-1 min-h-[200px]"
+              />
+            </div>
+          </>
+        ) : inputMode === "aiken" ? (
+          <>
+            <Alert className="bg-muted/50">
+              <Info className="h-4 w-4" />
+              <AlertDescription className="text-sm space-y-2">
+                <div>
+                  Moodle Aiken 형식: 문제 한 줄, <code>A.</code> 또는 <code>A)</code>로 시작하는 선택지, 마지막에 <code>ANSWER: 정답기호</code>
+                </div>
+                <div>
+                  정답이 여러 개면 <code>ANSWER: A, C</code>처럼 적으면 복수선택 문제가 됩니다
+                </div>
+              </AlertDescription>
+            </Alert>
+
+            <div className="space-y-2 flex-1 flex flex-col">
+              <Label>Aiken 붙여넣기</Label>
+              <Textarea
+                placeholder={`프랑스의 수도는?
+A. 런던
+B. 파리
+C. 베를린
+ANSWER: B
+
+$x^2 = 4$의 해를 모두 고르시오.
+A) $x = 2$
+B) $x = -2$
+C) $x = 4$
+ANSWER: A, B`}
+                value={aikenInput}
+                onChange={(e) => setAikenInput(e.target.value)}
+                className="font-mono text-sm flex-1 min-h-[200px]"
+              />
+            </div>
+          </>
+        ) : inputMode === "sheet" ? (
+          <QuestionSheetImport key={fileImportKey} onPreview={handleFilePreview} />
+        ) : inputMode === "qti" ? (
+          <QtiPackageImport key={fileImportKey} onPreview={handleFilePreview} />
         ) : (
           <>
             <Alert className="bg-muted/50">
@@ -196,14 +373,32 @@ x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a}`}
                   <strong>형식:</strong> <code>문제수: 정답코드</code>
                 </div>
                 <div>
-                  <strong>MCQ:</strong> 숫자 1-5 (정답 번호)
+                  <strong>MCQ:</strong> 숫자 1-5 (정답 번호), 선택지 수를 바꾸려면 <code>정답/선택지수</code> (예: <code>7/8</code>, <code>2/10</code>)
                 </div>
                 <div>
                   <strong>FRQ:</strong> <code>F</code> (빈 답안) 또는 <code>F(모범답안)</code>
                 </div>
+                <div>
+                  <strong>단답형:</strong> <code>S(정답)</code>, 정답이 여러 개면 <code>S(서울|서울특별시)</code>
+                </div>
+                <div>
+                  <strong>복수 정답:</strong> <code>[13]</code> (1번과 3번), 10번이 있으면 쉼표로 <code>[1,10]/10</code>
+                </div>
+                <div>
+                  <strong>수치형:</strong> <code>N(3.14)</code>, 허용 오차는 <code>N(3.14±0.01)</code> 또는 <code>N(100±5%)</code>
+                </div>
+                <div>
+                  <strong>배점:</strong> 정답 뒤에 <code>*점수</code> (예: <code>3*2</code>, <code>F(2x)*5</code>), 뒤에 숫자가 오면 띄어 쓰세요
+                </div>
+                <div>
+                  <strong>구역:</strong> <code>|</code>로 나누면 문제 이름이 "문제 1-1", "문제 2-1"처럼 붙습니다
+                </div>
                 <div className="text-muted-foreground">
                   예: <code>10: 12F(2x)34F(99)5F(a^2)FF</code>
                 </div>
+                <div className="text-muted-foreground">
+                  예: <code>6: 12[13]*2 7/8 | N(3.14±0.01)F(2x)*5</code>
+                </div>
               </AlertDescription>
             </Alert>
 
@@ -227,12 +422,12 @@ x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a}`}
         )}
 
         <div className="flex gap-2">
-          {inputMode === "traditional" && (
+          {(inputMode === "traditional" || inputMode === "gift" || inputMode === "aiken") && (
             <Button
               type="button"
               variant="outline"
               onClick={handlePreview}
-              disabled={!bulkText.trim()}
+              disabled={!{ traditional: bulkText, gift: giftInput, aiken: aikenInput }[inputMode].trim()}
             >
               {showPreview ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
               {showPreview ? "미리보기 숨기기" : "문제 미리보기"}
@@ -258,17 +453,30 @@ x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a}`}
                         ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300' 
                         : 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300'
                     }`}>
-                      {q.questionType === 'free_response' ? '서술형' : '객관식'}
+                      {questionTypeLabels[q.questionType]}
                     </span>
                   </div>
-                  <div className="font-medium">Q{i + 1}: {q.text}</div>
+                  <div className="font-medium">Q{i + 1}: <RichContent content={q.text} inline /></div>
                   {q.questionType === 'multiple_choice' ? (
                     <div className="text-muted-foreground mt-1">
-                      정답: 선택지 {(q.correctAnswer ?? 0) + 1}
+                      정답: 선택지 {(q.correctAnswer ?? 0) + 1} / {q.options.length}
+                      {hasOptionText(q.options) && <> — <RichContent content={q.options[q.correctAnswer ?? 0]} inline /></>}
+                    </div>
+                  ) : q.questionType === 'multiple_select' ? (
+                    <div className="text-muted-foreground mt-1">
+                      정답: 선택지 {q.correctAnswers.map(index => index + 1).join(", ")} / {q.options.length}
+                    </div>
+                  ) : q.questionType === 'numeric' ? (
+                    <div className="text-muted-foreground mt-1">
+                      정답: {q.numericAnswer} {formatTolerance(q.numericTolerance, q.toleranceType)}
+                    </div>
+                  ) : q.questionType === 'short_answer' ? (
+                    <div className="text-muted-foreground mt-1">
+                      정답: {[...q.acceptedAnswers, ...q.answerPatterns.map(p => `/${p}/`)].join(", ")}
                     </div>
                   ) : (
                     <div className="text-muted-foreground mt-1">
-                      모범답안: <MathDisplay latex={q.modelAnswer} />
+                      모범답안: <RichContent content={q.modelAnswer} inline legacyLatex />
                     </div>
                   )}
                 </div>
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarIcon, Copy, Loader2, X } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { StudentSelector } from "./StudentSelector";
+
+interface DuplicateAssignmentDialogProps {
+  assignment: {
+    id: string;
+    title: string;
+    due_date: string | null;
+  };
+  // Owner of the copy unless an admin picks someone else from `instructors`
+  instructorId: string;
+  // Admins only: accounts the copy can be created in
+  instructors?: { id: string; full_name: string }[];
+  onDuplicated: (assignmentId: string) => void;
+}
+
+export const DuplicateAssignmentDialog = ({ assignment, instructorId, instructors, onDuplicated }: DuplicateAssignmentDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [title, setTitle] = useState("");
+  const [dueDate, setDueDate] = useState<Date>();
+  const [targetInstructorId, setTargetInstructorId] = useState(instructorId);
+  const [studentIds, setStudentIds] = useState<string[]>([]);
+
+  // Start from the original's settings and students so only the changes need to be picked
+  const handleOpenChange = async (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) return;
+    setTitle(`${assignment.title} (사본)`);
+    setDueDate(assignment.due_date ? new Date(assignment.due_date) : undefined);
+    setTargetInstructorId(instructorId);
+    setStudentIds([]);
+    const { data } = await supabase.from("student_assignments").select("student_id").eq("assignment_id", assignment.id);
+    setStudentIds((data || []).map(a => a.student_id));
+  };
+
+  const handleDuplicate = async () => {
+    if (!title.trim()) {
+      toast.error("과제 제목을 입력해주세요");
+      return;
+    }
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("duplicate_assignment", {
+        _assignment_id: assignment.id,
+        _instructor_id: targetInstructorId,
+        _title: title.trim(),
+        _due_date: dueDate?.toISOString() ?? null,
+        _student_ids: studentIds,
+      });
+
+      if (error) throw error;
+      toast.success("과제가 복제되었습니다");
+      onDuplicated(data);
+      setOpen(false);
+    } catch (error) {
+      toast.error("과제 복제 실패: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Copy className="h-4 w-4 mr-1" />
+          복제
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>과제 복제</DialogTitle>
+          <DialogDescription>
+            "{assignment.title}"의 설정, 첨부파일과 문제를 새 과제로 복사합니다. 제출 기록은 복사되지 않습니다
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`duplicate-${assignment.id}-title`}>과제 제목</Label>
+            <Input id={`duplicate-${assignment.id}-title`} value={title} onChange={e => setTitle(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>마감일</Label>
+            <div className="flex gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className={cn("flex-1 justify-start text-left font-normal", !dueDate && "text-muted-foreground")}>
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {dueDate ? format(dueDate, "PPP") : "마감일 없음"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar mode="single" selected={dueDate} onSelect={setDueDate} initialFocus className="pointer-events-auto" />
+                </PopoverContent>
+              </Popover>
+              {dueDate && (
+                <Button variant="ghost" size="icon" aria-label="마감일 지우기" onClick={() => setDueDate(undefined)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {instructors && (
+            <div className="space-y-2">
+              <Label>담당 강사</Label>
+              <Select value={targetInstructorId} onValueChange={setTargetInstructorId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="강사 선택" />
+                </SelectTrigger>
+                <SelectContent>
+                  {instructors.map(instructor => (
+                    <SelectItem key={instructor.id} value={instructor.id}>{instructor.full_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <StudentSelector selectedStudentIds={studentIds} onSelectionChange={setStudentIds} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>취소</Button>
+          <Button onClick={handleDuplicate} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            복제
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -17,8 +17,10 @@ import {
 } from "@/components/ui/dialog";
 import { Loader2, CheckCircle, XCircle, PenLine, Save } from "lucide-react";
 import { MathDisplay } from "@/components/MathDisplay";
+import { RichContent } from "@/components/RichContent";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
+import { orderQuestions } from "@/lib/shuffle";
 
 interface StudentAnswer {
   id: string;
@@ -31,13 +33,24 @@ interface StudentAnswer {
   graded_at: string | null;
   question: {
     id: string;
+    assignment_id: string;
     text: string;
     question_type: string;
     model_answer: string | null;
+    accepted_answers: string[] | null;
+    points: number;
     order_number: number;
   };
 }
 
+const isShortAnswer = (answer: StudentAnswer) => answer.question.question_type === 'short_answer';
+
+// Short answers are worth all or nothing, so their credit follows is_correct
+const shortAnswerPoints = (answer: StudentAnswer) => answer.is_correct ? answer.question.points : 0;
+
+// Partial credit is entered as a share of the question's own points
+const pointsForShare = (answer: StudentAnswer, share: number) => Math.round(answer.question.points * share * 100) / 100;
+
 interface FRQGradingDialogProps {
   submissionId: string;
   studentName: string;
@@ -54,6 +67,8 @@ export const FRQGradingDialog = ({
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [frqAnswers, setFrqAnswers] = useState<StudentAnswer[]>([]);
+  // Question numbers as the student saw them, which differ from order_number with pools or shuffling
+  const [questionNumbers, setQuestionNumbers] = useState<{ [questionId: string]: number }>({});
   const [gradingState, setGradingState] = useState<{
     [answerId: string]: {
       pointsEarned: number | null;
@@ -83,9 +98,12 @@ export const FRQGradingDialog = ({
           graded_at,
           question:questions!question_id(
             id,
+            assignment_id,
             text,
             question_type,
             model_answer,
+            accepted_answers,
+            points,
             order_number
           )
         `)
@@ -93,10 +111,13 @@ export const FRQGradingDialog = ({
 
       if (error) throw error;
 
-      // Filter for FRQ answers only
+      const numbers = await fetchQuestionNumbers(data?.[0]?.question?.assignment_id);
+      setQuestionNumbers(numbers);
+
+      // FRQ answers are graded here; auto-graded short answers can be overridden
       const frqOnly = (data || [])
-        .filter((a: any) => a.question?.question_type === 'free_response')
-        .sort((a: any, b: any) => a.question.order_number - b.question.order_number);
+        .filter((a: any) => a.question?.question_type === 'free_response' || a.question?.question_type === 'short_answer')
+        .sort((a: any, b: any) => numbers[a.question.id] - numbers[b.question.id]);
 
       setFrqAnswers(frqOnly as StudentAnswer[]);
 
@@ -104,7 +125,7 @@ export const FRQGradingDialog = ({
       const initialState: typeof gradingState = {};
       frqOnly.forEach((answer: any) => {
         initialState[answer.id] = {
-          pointsEarned: answer.points_earned,
+          pointsEarned: isShortAnswer(answer) ? shortAnswerPoints(answer) : answer.points_earned,
           feedback: answer.feedback || "",
         };
       });
@@ -116,6 +137,23 @@ export const FRQGradingDialog = ({
     }
   };
 
+  // Rebuilds the student's question order from the attempt the submission came from
+  const fetchQuestionNumbers = async (assignmentId: string | undefined) => {
+    if (!assignmentId) return {};
+    const [{ data: attempt }, { data: questions, error }] = await Promise.all([
+      supabase.from("assignment_attempts").select("question_ids, question_seed").eq("submission_id", submissionId).maybeSingle(),
+      supabase.from("questions").select("id, order_number").eq("assignment_id", assignmentId),
+    ]);
+    if (error) throw error;
+
+    const asked = (questions || []).filter(q => !attempt?.question_ids || attempt.question_ids.includes(q.id));
+    const numbers: { [questionId: string]: number } = {};
+    orderQuestions(asked, attempt?.question_seed ?? null).forEach((q, index) => {
+      numbers[q.id] = index + 1;
+    });
+    return numbers;
+  };
+
   const handlePointsChange = (answerId: string, points: number) => {
     setGradingState(prev => ({
       ...prev,
@@ -144,12 +182,16 @@ export const FRQGradingDialog = ({
       // Update each FRQ answer
       for (const answer of frqAnswers) {
         const grading = gradingState[answer.id];
+        // Untouched short answers stay auto-graded; setting graded_by keeps the override through regrades
+        if (isShortAnswer(answer) && grading.pointsEarned === shortAnswerPoints(answer) && grading.feedback === (answer.feedback || "")) {
+          continue;
+        }
         if (grading.pointsEarned !== null) {
           const { error } = await supabase
             .from("student_answers")
             .update({
               points_earned: grading.pointsEarned,
-              is_correct: grading.pointsEarned === 1, // Full credit = correct
+              is_correct: grading.pointsEarned >= answer.question.points, // Full credit = correct
               feedback: grading.feedback || null,
               graded_by: user.id,
               graded_at: new Date().toISOString(),
@@ -175,39 +217,18 @@ export const FRQGradingDialog = ({
 
   const recalculateSubmissionScore = async () => {
     try {
-      // Fetch all answers for this submission
-      const { data: allAnswers, error: answersError } = await supabase
-        .from("student_answers")
-        .select("is_correct, points_earned, question:questions!question_id(question_type)")
-        .eq("submission_id", submissionId);
-
-      if (answersError) throw answersError;
-
-      // Calculate total score:
-      // - MCQ: 1 point if correct, 0 otherwise
-      // - FRQ: use points_earned (0-1 scale)
-      let totalScore = 0;
-      (allAnswers || []).forEach((a: any) => {
-        if (a.question?.question_type === 'free_response') {
-          totalScore += a.points_earned || 0;
-        } else {
-          totalScore += a.is_correct ? 1 : 0;
-        }
+      // Scoring rules live in the recalculate_submission_score database function
+      const { error } = await supabase.rpc("recalculate_submission_score", {
+        _submission_id: submissionId,
       });
 
-      // Update submission score (round to handle floating point)
-      const { error: updateError } = await supabase
-        .from("submissions")
-        .update({ score: Math.round(totalScore * 100) / 100 })
-        .eq("id", submissionId);
-
-      if (updateError) throw updateError;
+      if (error) throw error;
     } catch (error: any) {
       console.error("Score recalculation failed:", error);
     }
   };
 
-  const ungradedCount = frqAnswers.filter(a => gradingState[a.id]?.pointsEarned === null).length;
+  const ungradedCount = frqAnswers.filter(a => !isShortAnswer(a) && gradingState[a.id]?.pointsEarned === null).length;
   const allGraded = ungradedCount === 0 && frqAnswers.length > 0;
 
   return (
@@ -222,10 +243,10 @@ export const FRQGradingDialog = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <PenLine className="h-5 w-5" />
-            서술형 문제 채점
+            서술형·단답형 문제 채점
           </DialogTitle>
           <DialogDescription>
-            {studentName}님의 서술형 답변을 채점하세요
+            {studentName}님의 서술형 답변을 채점하고, 자동 채점된 단답형 결과를 필요하면 수정하세요
           </DialogDescription>
         </DialogHeader>
 
@@ -235,31 +256,33 @@ export const FRQGradingDialog = ({
           </div>
         ) : frqAnswers.length === 0 ? (
           <p className="text-center text-muted-foreground py-8">
-            이 제출에는 서술형 문제가 없습니다
+            이 제출에는 서술형 또는 단답형 문제가 없습니다
           </p>
         ) : (
           <div className="space-y-6">
             {frqAnswers.map((answer, index) => {
               const points = gradingState[answer.id]?.pointsEarned;
-              const pointsDisplay = points !== null ? Math.round(points * 100) : null;
+              const maxPoints = answer.question.points;
+              const pointsDisplay = points !== null ? Math.round(points / maxPoints * 100) : null;
               
               return (
               <Card key={answer.id} className={cn(
                 "border-2 transition-colors",
-                points === 1 && "border-green-500/50 bg-green-500/5",
-                points !== null && points > 0 && points < 1 && "border-yellow-500/50 bg-yellow-500/5",
+                points === maxPoints && "border-green-500/50 bg-green-500/5",
+                points !== null && points > 0 && points < maxPoints && "border-yellow-500/50 bg-yellow-500/5",
                 points === 0 && "border-red-500/50 bg-red-500/5",
                 points === null && "border-purple-500/50 bg-purple-500/5"
               )}>
                 <CardHeader className="pb-3">
                   <CardTitle className="text-base flex items-center justify-between">
                     <div className="flex items-center gap-2">
-                      <Badge variant="secondary">문제 {answer.question.order_number + 1}</Badge>
-                      <span>{answer.question.text}</span>
+                      <Badge variant="secondary">문제 {questionNumbers[answer.question.id] ?? answer.question.order_number + 1}</Badge>
+                      {isShortAnswer(answer) && <Badge variant="outline">단답형</Badge>}
+                      <RichContent content={answer.question.text} inline />
                     </div>
                     {pointsDisplay !== null && (
-                      <Badge variant={points === 1 ? "default" : points === 0 ? "destructive" : "secondary"}>
-                        {pointsDisplay}%
+                      <Badge variant={points === maxPoints ? "default" : points === 0 ? "destructive" : "secondary"}>
+                        {points}/{maxPoints}점 ({pointsDisplay}%)
                       </Badge>
                     )}
                   </CardTitle>
@@ -270,7 +293,7 @@ export const FRQGradingDialog = ({
                     <Label className="text-sm font-medium">학생 답변</Label>
                     <div className="p-3 bg-muted rounded-md">
                       {answer.text_answer ? (
-                        <MathDisplay latex={answer.text_answer} />
+                        isShortAnswer(answer) ? <span>{answer.text_answer}</span> : <MathDisplay latex={answer.text_answer} />
                       ) : (
                         <span className="text-muted-foreground italic">답변 없음</span>
                       )}
@@ -282,14 +305,53 @@ export const FRQGradingDialog = ({
                     <div className="space-y-2">
                       <Label className="text-sm font-medium">모범답안</Label>
                       <div className="p-3 bg-green-100 dark:bg-green-950 rounded-md">
-                        <MathDisplay latex={answer.question.model_answer} />
+                        <RichContent content={answer.question.model_answer} legacyLatex />
                       </div>
                     </div>
                   )}
 
-                  {/* Partial Scoring Slider */}
+                  {/* Accepted Answers */}
+                  {isShortAnswer(answer) && answer.question.accepted_answers && answer.question.accepted_answers.length > 0 && (
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">정답 목록</Label>
+                      <div className="p-3 bg-green-100 dark:bg-green-950 rounded-md text-sm">
+                        {answer.question.accepted_answers.join(", ")}
+                      </div>
+                    </div>
+                  )}
+
+                  {isShortAnswer(answer) ? (
+                    <div className="space-y-3">
+                      <Label className="text-sm font-medium">
+                        채점 결과 <span className="font-normal text-muted-foreground">(자동 채점: {answer.is_correct ? "정답" : "오답"})</span>
+                      </Label>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handlePointsChange(answer.id, maxPoints)}
+                          className={cn(points === maxPoints && "bg-green-100 border-green-500")}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          정답
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handlePointsChange(answer.id, 0)}
+                          className={cn(points === 0 && "bg-red-100 border-red-500")}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          오답
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                  /* Partial Scoring Slider */
                   <div className="space-y-3">
-                    <Label className="text-sm font-medium">점수: {pointsDisplay ?? 0}%</Label>
+                    <Label className="text-sm font-medium">점수: {points ?? 0}/{maxPoints}점 ({pointsDisplay ?? 0}%)</Label>
                     <div className="flex items-center gap-4">
                       <Button
                         type="button"
@@ -299,12 +361,12 @@ export const FRQGradingDialog = ({
                         className={cn(points === 0 && "bg-red-100 border-red-500")}
                       >
                         <XCircle className="h-4 w-4 mr-1" />
-                        0%
+                        0점
                       </Button>
                       <div className="flex-1">
                         <Slider
-                          value={[points !== null ? points * 100 : 0]}
-                          onValueChange={(value) => handlePointsChange(answer.id, value[0] / 100)}
+                          value={[points !== null ? points / maxPoints * 100 : 0]}
+                          onValueChange={(value) => handlePointsChange(answer.id, pointsForShare(answer, value[0] / 100))}
                           max={100}
                           step={5}
                           className="cursor-pointer"
@@ -314,11 +376,11 @@ export const FRQGradingDialog = ({
                         type="button"
                         variant="outline"
                         size="sm"
-                        onClick={() => handlePointsChange(answer.id, 1)}
-                        className={cn(points === 1 && "bg-green-100 border-green-500")}
+                        onClick={() => handlePointsChange(answer.id, maxPoints)}
+                        className={cn(points === maxPoints && "bg-green-100 border-green-500")}
                       >
                         <CheckCircle className="h-4 w-4 mr-1" />
-                        100%
+                        {maxPoints}점
                       </Button>
                     </div>
                     <div className="flex justify-center gap-2">
@@ -328,17 +390,18 @@ export const FRQGradingDialog = ({
                           type="button"
                           variant="ghost"
                           size="sm"
-                          onClick={() => handlePointsChange(answer.id, preset)}
+                          onClick={() => handlePointsChange(answer.id, pointsForShare(answer, preset))}
                           className={cn(
                             "text-xs",
-                            points === preset && "bg-accent"
+                            points === pointsForShare(answer, preset) && "bg-accent"
                           )}
                         >
-                          {preset * 100}%
+                          {pointsForShare(answer, preset)}점 ({preset * 100}%)
                         </Button>
                       ))}
                     </div>
                   </div>
+                  )}
 
                   {/* Feedback */}
                   <div className="space-y-2">
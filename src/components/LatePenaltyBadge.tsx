@@ -0,0 +1,21 @@
+import { Badge } from "@/components/ui/badge";
+import { formatLatePenalty } from "@/lib/latePolicy";
+
+interface LatePenaltyBadgeProps {
+  submission: {
+    days_late: number;
+    late_penalty: number;
+  };
+}
+
+// Shown next to a score; renders nothing for on-time submissions
+export const LatePenaltyBadge = ({ submission }: LatePenaltyBadgeProps) => {
+  const label = formatLatePenalty(submission);
+  if (!label) return null;
+
+  return (
+    <Badge variant="outline" className="border-orange-300 text-orange-600 whitespace-nowrap">
+      {label}
+    </Badge>
+  );
+};
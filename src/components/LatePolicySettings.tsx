@@ -0,0 +1,37 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LatePolicy, LatePolicyConfig, latePolicyLabels } from "@/lib/latePolicy";
+
+interface LatePolicySettingsProps {
+  value: LatePolicyConfig;
+  onChange: (value: LatePolicyConfig) => void;
+}
+
+export const LatePolicySettings = ({ value, onChange }: LatePolicySettingsProps) => {
+  return (
+    <div className="space-y-2">
+      <Label>마감 후 제출</Label>
+      <Select value={value.policy} onValueChange={policy => onChange({ ...value, policy: policy as LatePolicy })}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(latePolicyLabels) as LatePolicy[]).map(policy => (
+            <SelectItem key={policy} value={policy}>{latePolicyLabels[policy]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value.policy === 'penalty' && <div className="flex items-center gap-2 pl-6">
+          <Label htmlFor="late-penalty-per-day" className="text-sm font-normal">하루당</Label>
+          <Input id="late-penalty-per-day" type="number" min={1} max={100} step={1} className="w-20" value={value.penaltyPerDay} onChange={e => onChange({ ...value, penaltyPerDay: parseFloat(e.target.value) || 0 })} />
+          <span className="text-sm">% 감점</span>
+        </div>}
+
+      <p className="text-xs text-muted-foreground">
+        마감일이 지난 뒤의 제출에 적용됩니다. 학생별로 연장한 마감일이 있으면 그 날짜를 기준으로 합니다
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { RichContent } from "./RichContent";
+import { MAX_OPTIONS, MIN_OPTIONS } from "@/lib/questionOptions";
+import { ScoringMode, scoringModeLabels } from "@/lib/questionTypes";
+
+interface MultipleChoiceOptionsEditorProps {
+  options: string[];
+  // Indexes of the correct options; exactly one unless `multiple` is set
+  correctAnswers: number[];
+  onChange: (options: string[], correctAnswers: number[]) => void;
+  idPrefix: string;
+  multiple?: boolean;
+  scoringMode?: ScoringMode;
+  onScoringModeChange?: (mode: ScoringMode) => void;
+}
+
+export const MultipleChoiceOptionsEditor = ({
+  options,
+  correctAnswers,
+  onChange,
+  idPrefix,
+  multiple = false,
+  scoringMode = 'all_or_nothing',
+  onScoringModeChange
+}: MultipleChoiceOptionsEditorProps) => {
+  const updateOption = (index: number, value: string) => {
+    onChange(options.map((option, i) => i === index ? value : option), correctAnswers);
+  };
+
+  const toggleCorrect = (index: number, checked: boolean) => {
+    const next = checked ? [...correctAnswers, index] : correctAnswers.filter(i => i !== index);
+    onChange(options, next.sort((a, b) => a - b));
+  };
+
+  const addOption = () => {
+    if (options.length >= MAX_OPTIONS) return;
+    onChange([...options, String(options.length + 1)], correctAnswers);
+  };
+
+  const removeOption = (index: number) => {
+    if (options.length <= MIN_OPTIONS) return;
+    // Keep the key pointing at the same options after the removal
+    const shifted = correctAnswers.filter(i => i !== index).map(i => i > index ? i - 1 : i);
+    onChange(options.filter((_, i) => i !== index), !multiple && shifted.length === 0 ? [0] : shifted);
+  };
+
+  const renderOption = (option: string, oIndex: number) => {
+    const isCorrect = correctAnswers.includes(oIndex);
+    return <div key={oIndex} className="space-y-1">
+        <div className="flex items-center gap-2">
+          {multiple ? <Checkbox id={`${idPrefix}-o${oIndex}`} checked={isCorrect} onCheckedChange={checked => toggleCorrect(oIndex, checked as boolean)} className="shrink-0" /> : <RadioGroupItem value={oIndex.toString()} id={`${idPrefix}-o${oIndex}`} className="shrink-0" />}
+          <div className="flex-1">
+            <Input placeholder={`선택지 ${oIndex + 1} (수식은 $...$)`} value={option} onChange={e => updateOption(oIndex, e.target.value)} />
+          </div>
+          {isCorrect && <span className="text-xs text-green-600 dark:text-green-400 font-medium shrink-0">
+              ✓ 정답
+            </span>}
+          <Button type="button" variant="ghost" size="sm" className="shrink-0" onClick={() => removeOption(oIndex)} disabled={options.length <= MIN_OPTIONS}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        {/[$*_`<[~]/.test(option) && <div className="pl-6 text-sm text-muted-foreground">
+            <RichContent content={option} inline />
+          </div>}
+      </div>;
+  };
+
+  return (
+    <div className="space-y-2">
+      {multiple ? <div className="space-y-2">{options.map(renderOption)}</div> : <RadioGroup value={(correctAnswers[0] ?? 0).toString()} onValueChange={value => onChange(options, [parseInt(value)])}>
+          {options.map(renderOption)}
+        </RadioGroup>}
+      <Button type="button" variant="outline" size="sm" onClick={addOption} disabled={options.length >= MAX_OPTIONS}>
+        <Plus className="h-4 w-4 mr-1" />
+        선택지 추가 ({options.length}/{MAX_OPTIONS})
+      </Button>
+      {multiple && onScoringModeChange && <div className="space-y-2 pt-2">
+          <Label>채점 방식</Label>
+          <Select value={scoringMode} onValueChange={mode => onScoringModeChange(mode as ScoringMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(scoringModeLabels) as ScoringMode[]).map(mode => (
+                <SelectItem key={mode} value={mode}>{scoringModeLabels[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToleranceType, parseNumericAnswer, toleranceTypeLabels } from "@/lib/numericAnswer";
+import { AnswerKeyFields } from "@/lib/questionTypes";
+
+interface NumericAnswerEditorProps {
+  value: AnswerKeyFields;
+  onChange: (field: keyof AnswerKeyFields, value: AnswerKeyFields[keyof AnswerKeyFields]) => void;
+  idPrefix: string;
+}
+
+export const NumericAnswerEditor = ({ value, onChange, idPrefix }: NumericAnswerEditorProps) => {
+  const parsed = parseNumericAnswer(value.numericAnswer, true);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-numeric`}>정답 값</Label>
+        <Input id={`${idPrefix}-numeric`} inputMode="decimal" placeholder="예: 0.75, 3/4, 1.2e-3" value={value.numericAnswer} onChange={e => onChange("numericAnswer", e.target.value)} />
+        {value.numericAnswer.trim() && (parsed === null ? <p className="text-xs text-destructive">숫자로 인식할 수 없습니다</p> : <p className="text-xs text-muted-foreground">= {parsed}</p>)}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-tolerance`}>허용 오차</Label>
+          <Input id={`${idPrefix}-tolerance`} type="number" min={0} step="any" value={value.numericTolerance} onChange={e => onChange("numericTolerance", Math.max(0, parseFloat(e.target.value) || 0))} />
+        </div>
+        <div className="space-y-2">
+          <Label>오차 방식</Label>
+          <Select value={value.toleranceType} onValueChange={type => onChange("toleranceType", type as ToleranceType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(toleranceTypeLabels) as ToleranceType[]).map(type => (
+                <SelectItem key={type} value={type}>{toleranceTypeLabels[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox id={`${idPrefix}-fractions`} checked={value.acceptFractions} onCheckedChange={checked => onChange("acceptFractions", checked as boolean)} />
+        <Label htmlFor={`${idPrefix}-fractions`} className="text-sm font-normal leading-none">
+          분수 답안 허용 (예: 3/4, 1 1/2)
+        </Label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { FileDown, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { ParsedQuestion } from "./BulkQuestionInput";
+import { buildQtiPackage } from "@/lib/qti";
+import { fromAnswerKeyColumns } from "@/lib/questionTypes";
+import { downloadBlob } from "@/lib/utils";
+
+interface QtiExportButtonProps {
+  assignment: {
+    id: string;
+    title: string;
+  };
+}
+
+// Downloads the assignment's questions as a QTI 2.1 content package
+export const QtiExportButton = ({ assignment }: QtiExportButtonProps) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const { data, error } = await supabase
+        .from("questions")
+        .select("*")
+        .eq("assignment_id", assignment.id)
+        .order("order_number");
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        toast.error("내보낼 문제가 없습니다");
+        return;
+      }
+
+      const questions: ParsedQuestion[] = data.map(q => ({
+        text: q.text,
+        options: Array.isArray(q.options) ? q.options as string[] : JSON.parse(q.options as string),
+        correctAnswer: q.correct_answer,
+        ...fromAnswerKeyColumns(q),
+        points: q.points,
+        explanation: q.explanation || "",
+        questionType: q.question_type,
+        modelAnswer: q.model_answer || "",
+      }));
+      const fileName = `${assignment.title.replace(/[\\/:*?"<>|]/g, "_")}_qti.zip`;
+      downloadBlob(fileName, buildQtiPackage(assignment.title, questions));
+    } catch (error) {
+      toast.error("QTI 내보내기 실패: " + (error as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleExport} disabled={exporting}>
+      {exporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FileDown className="h-4 w-4 mr-1" />}
+      QTI
+    </Button>
+  );
+};
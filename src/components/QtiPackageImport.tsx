@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, Info } from "lucide-react";
+import type { ParsedQuestion } from "./BulkQuestionInput";
+import { UnsupportedQtiItem, readQtiPackage } from "@/lib/qti";
+
+interface QtiPackageImportProps {
+  // Called with the importable questions whenever a package is loaded
+  onPreview: (questions: ParsedQuestion[]) => void;
+}
+
+export const QtiPackageImport = ({ onPreview }: QtiPackageImportProps) => {
+  const [unsupported, setUnsupported] = useState<UnsupportedQtiItem[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    setFileError(null);
+    setUnsupported([]);
+    onPreview([]);
+    if (!file) return;
+
+    try {
+      const result = await readQtiPackage(await file.arrayBuffer());
+      if (result.questions.length === 0 && result.unsupported.length === 0) {
+        setFileError("패키지에서 QTI 문항을 찾을 수 없습니다");
+        return;
+      }
+      setUnsupported(result.unsupported);
+      onPreview(result.questions);
+    } catch (error) {
+      console.error("Error reading QTI package:", error);
+      setFileError(error instanceof Error ? error.message : "파일을 읽을 수 없습니다");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Alert className="bg-muted/50">
+        <Info className="h-4 w-4" />
+        <AlertDescription className="text-sm space-y-2">
+          <div>
+            다른 프로그램에서 내보낸 IMS QTI 2.1 콘텐츠 패키지(.zip)를 올리세요
+          </div>
+          <div>
+            객관식·복수선택(choice), 수치형·단답형(text entry), 서술형(extended text) 문항을 가져옵니다. 그 밖의 문항은 목록으로 알려드립니다
+          </div>
+        </AlertDescription>
+      </Alert>
+
+      <div className="space-y-2">
+        <Label htmlFor="qti-package">QTI 패키지</Label>
+        <Input
+          id="qti-package"
+          type="file"
+          accept=".zip"
+          onChange={e => handleFile(e.target.files?.[0])}
+        />
+      </div>
+
+      {fileError && (
+        <Alert variant="destructive">
+          <AlertDescription>{fileError}</AlertDescription>
+        </Alert>
+      )}
+
+      {unsupported.length > 0 && (
+        <div className="space-y-2 p-4 bg-destructive/10 rounded-lg">
+          <h4 className="font-semibold text-sm flex items-center gap-2 text-destructive">
+            <AlertTriangle className="h-4 w-4" />
+            가져올 수 없는 문항 ({unsupported.length}개)
+          </h4>
+          <ul className="space-y-1 max-h-48 overflow-y-auto text-sm">
+            {unsupported.map((item, i) => (
+              <li key={i}>
+                <span className="font-medium">{item.item}:</span> {item.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search } from "lucide-react";
+import { BankFilters, Difficulty, difficultyLabels } from "@/lib/questionBank";
+
+// Radix Select items cannot have an empty value, so "all" stands for no filter
+const ALL = "all";
+
+interface QuestionBankFiltersProps {
+  filters: BankFilters;
+  onChange: (filters: BankFilters) => void;
+  topics: string[];
+  units: string[];
+}
+
+export const QuestionBankFilters = ({ filters, onChange, topics, units }: QuestionBankFiltersProps) => (
+  <div className="grid gap-2 sm:grid-cols-3">
+    <div className="relative sm:col-span-3">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input placeholder="문제, 주제, 단원으로 검색..." value={filters.search} onChange={e => onChange({ ...filters, search: e.target.value })} className="pl-9" />
+    </div>
+    <Select value={filters.topic || ALL} onValueChange={topic => onChange({ ...filters, topic: topic === ALL ? "" : topic })}>
+      <SelectTrigger>
+        <SelectValue placeholder="주제" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>모든 주제</SelectItem>
+        {topics.map(topic => <SelectItem key={topic} value={topic}>{topic}</SelectItem>)}
+      </SelectContent>
+    </Select>
+    <Select value={filters.unit || ALL} onValueChange={unit => onChange({ ...filters, unit: unit === ALL ? "" : unit })}>
+      <SelectTrigger>
+        <SelectValue placeholder="단원" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>모든 단원</SelectItem>
+        {units.map(unit => <SelectItem key={unit} value={unit}>{unit}</SelectItem>)}
+      </SelectContent>
+    </Select>
+    <Select value={filters.difficulty || ALL} onValueChange={difficulty => onChange({ ...filters, difficulty: difficulty === ALL ? null : difficulty as Difficulty })}>
+      <SelectTrigger>
+        <SelectValue placeholder="난이도" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>모든 난이도</SelectItem>
+        {(Object.keys(difficultyLabels) as Difficulty[]).map(difficulty => (
+          <SelectItem key={difficulty} value={difficulty}>{difficultyLabels[difficulty]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { History, Library, Loader2, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { QuestionBankFilters } from "./QuestionBankFilters";
+import { BankTags, Difficulty, QuestionBankItem, bankTagValues, difficultyLabels, emptyBankFilters, filterBankItems } from "@/lib/questionBank";
+import { questionTypeLabels } from "@/lib/questionTypes";
+
+interface BankItemUsage {
+  assignment_id: string;
+  assignment_title: string;
+  question_id: string;
+  used_at: string;
+  answer_count: number;
+  graded_count: number;
+  average_credit: number | null;
+}
+
+interface QuestionBankManagerProps {
+  instructorId: string;
+}
+
+export const QuestionBankManager = ({ instructorId }: QuestionBankManagerProps) => {
+  const [items, setItems] = useState<QuestionBankItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState(emptyBankFilters);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTags, setEditTags] = useState<BankTags & { points: number }>({ topic: "", unit: "", difficulty: null, points: 1 });
+  const [usageItemId, setUsageItemId] = useState<string | null>(null);
+  const [usage, setUsage] = useState<BankItemUsage[]>([]);
+  const [loadingUsage, setLoadingUsage] = useState(false);
+
+  const fetchItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("question_bank_items")
+        .select("*")
+        .eq("instructor_id", instructorId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setItems(data || []);
+    } catch (error) {
+      toast.error("문제 은행을 불러오는데 실패했습니다: " + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [instructorId]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const filteredItems = useMemo(() => filterBankItems(items, filters), [items, filters]);
+
+  const startEdit = (item: QuestionBankItem) => {
+    setEditingId(item.id);
+    setEditTags({ topic: item.topic || "", unit: item.unit || "", difficulty: item.difficulty as Difficulty | null, points: item.points });
+  };
+
+  const saveEdit = async (itemId: string) => {
+    if (!(editTags.points > 0)) {
+      toast.error("배점은 0보다 커야 합니다");
+      return;
+    }
+    try {
+      const { error } = await supabase
+        .from("question_bank_items")
+        .update({
+          topic: editTags.topic.trim() || null,
+          unit: editTags.unit.trim() || null,
+          difficulty: editTags.difficulty,
+          points: editTags.points,
+        })
+        .eq("id", itemId);
+
+      if (error) throw error;
+      setEditingId(null);
+      fetchItems();
+    } catch (error) {
+      toast.error("태그 저장에 실패했습니다: " + (error as Error).message);
+    }
+  };
+
+  const deleteItem = async (itemId: string) => {
+    try {
+      const { error } = await supabase.from("question_bank_items").delete().eq("id", itemId);
+      if (error) throw error;
+      toast.success("문제 은행에서 삭제되었습니다");
+      fetchItems();
+    } catch (error) {
+      toast.error("삭제에 실패했습니다: " + (error as Error).message);
+    }
+  };
+
+  const toggleUsage = async (itemId: string) => {
+    if (usageItemId === itemId) {
+      setUsageItemId(null);
+      return;
+    }
+    setUsageItemId(itemId);
+    setLoadingUsage(true);
+    try {
+      const { data, error } = await supabase.rpc("get_question_bank_usage", { _item_id: itemId });
+      if (error) throw error;
+      setUsage(data || []);
+    } catch (error) {
+      toast.error("사용 기록을 불러오는데 실패했습니다: " + (error as Error).message);
+      setUsage([]);
+    } finally {
+      setLoadingUsage(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader variant="accent">
+        <CardTitle className="flex items-center gap-2">
+          <Library className="h-5 w-5" />
+          문제 은행
+        </CardTitle>
+        <CardDescription>과제 문제 카드의 "은행에 저장"으로 문제를 모으고, 과제를 만들 때 다시 가져와 쓰세요</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <QuestionBankFilters filters={filters} onChange={setFilters} topics={bankTagValues(items, 'topic')} units={bankTagValues(items, 'unit')} />
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : filteredItems.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            {items.length === 0 ? "문제 은행에 저장된 문제가 없습니다" : "조건에 맞는 문제가 없습니다"}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {filteredItems.map(item => (
+              <div key={item.id} className="rounded-md border p-4 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="text-sm">{item.text}</p>
+                    {editingId !== item.id && (
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="secondary">{questionTypeLabels[item.question_type]}</Badge>
+                        <Badge variant="outline">{item.points}점</Badge>
+                        {item.topic && <Badge variant="outline">{item.topic}</Badge>}
+                        {item.unit && <Badge variant="outline">{item.unit}</Badge>}
+                        {item.difficulty && <Badge variant="outline">{difficultyLabels[item.difficulty as Difficulty]}</Badge>}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => toggleUsage(item.id)}>
+                      <History className="h-4 w-4 mr-1" />
+                      사용 기록
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => startEdit(item)}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      태그 수정
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive hover:bg-destructive/10">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>문제 은행에서 삭제할까요?</AlertDialogTitle>
+                          <AlertDialogDescription>이미 과제에 추가된 문제는 그대로 남지만, 사용 기록은 더 이상 볼 수 없습니다.</AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>취소</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteItem(item.id)}>삭제</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+
+                {editingId === item.id && (
+                  <div className="grid gap-2 sm:grid-cols-5 items-center">
+                    <Input placeholder="주제" value={editTags.topic} onChange={e => setEditTags({ ...editTags, topic: e.target.value })} />
+                    <Input placeholder="단원" value={editTags.unit} onChange={e => setEditTags({ ...editTags, unit: e.target.value })} />
+                    <Select value={editTags.difficulty ?? undefined} onValueChange={difficulty => setEditTags({ ...editTags, difficulty: difficulty as Difficulty })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="난이도" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(difficultyLabels) as Difficulty[]).map(difficulty => (
+                          <SelectItem key={difficulty} value={difficulty}>{difficultyLabels[difficulty]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input type="number" min={0} step="any" aria-label="배점" value={editTags.points} onChange={e => setEditTags({ ...editTags, points: parseFloat(e.target.value) || 0 })} />
+                    <div className="flex gap-1">
+                      <Button size="sm" onClick={() => saveEdit(item.id)}>저장</Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>취소</Button>
+                    </div>
+                  </div>
+                )}
+
+                {usageItemId === item.id && (
+                  loadingUsage ? (
+                    <div className="flex justify-center py-4">
+                      <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : usage.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">아직 이 문제를 사용한 과제가 없습니다</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>과제</TableHead>
+                          <TableHead>생성일</TableHead>
+                          <TableHead>응답 수</TableHead>
+                          <TableHead>평균 득점률</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {usage.map(use => (
+                          <TableRow key={use.question_id}>
+                            <TableCell className="font-medium">{use.assignment_title}</TableCell>
+                            <TableCell>{new Date(use.used_at).toLocaleDateString()}</TableCell>
+                            <TableCell>
+                              {use.answer_count}
+                              {use.graded_count < use.answer_count && <span className="text-muted-foreground"> (채점 {use.graded_count})</span>}
+                            </TableCell>
+                            <TableCell>{use.average_credit !== null ? `${Math.round(use.average_credit * 100)}%` : "-"}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Library, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { QuestionBankFilters } from "./QuestionBankFilters";
+import { BankQuestion, Difficulty, QuestionBankItem, bankTagValues, difficultyLabels, emptyBankFilters, filterBankItems, fromBankItem } from "@/lib/questionBank";
+import { questionTypeLabels } from "@/lib/questionTypes";
+
+interface QuestionBankPickerProps {
+  instructorId: string;
+  onInsert: (questions: BankQuestion[]) => void;
+}
+
+export const QuestionBankPicker = ({ instructorId, onInsert }: QuestionBankPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [items, setItems] = useState<QuestionBankItem[]>([]);
+  const [filters, setFilters] = useState(emptyBankFilters);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const fetchItems = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("question_bank_items")
+        .select("*")
+        .eq("instructor_id", instructorId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setItems(data || []);
+    } catch (error) {
+      toast.error("문제 은행을 불러오는데 실패했습니다: " + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [instructorId]);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedIds([]);
+      fetchItems();
+    }
+  }, [open, fetchItems]);
+
+  const filteredItems = useMemo(() => filterBankItems(items, filters), [items, filters]);
+
+  const toggleItem = (itemId: string) => {
+    setSelectedIds(prev => prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]);
+  };
+
+  const handleInsert = () => {
+    // Keep the bank's order rather than the click order
+    onInsert(items.filter(item => selectedIds.includes(item.id)).map(fromBankItem));
+    toast.success(`문제 은행에서 ${selectedIds.length}개 문제를 추가했습니다`);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1">
+          <Library className="h-4 w-4 mr-2" />
+          문제 은행에서 가져오기
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Library className="h-5 w-5" />
+            문제 은행
+          </DialogTitle>
+          <DialogDescription>과제에 추가할 문제를 선택하세요. 추가된 문제는 과제 안에서 따로 수정할 수 있습니다</DialogDescription>
+        </DialogHeader>
+
+        <QuestionBankFilters filters={filters} onChange={setFilters} topics={bankTagValues(items, 'topic')} units={bankTagValues(items, 'unit')} />
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : filteredItems.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            {items.length === 0 ? "문제 은행에 저장된 문제가 없습니다" : "조건에 맞는 문제가 없습니다"}
+          </p>
+        ) : (
+          <ScrollArea className="h-[420px] pr-3">
+            <div className="space-y-2">
+              {filteredItems.map(item => {
+                const selected = selectedIds.includes(item.id);
+                return (
+                  <label key={item.id} className={cn("flex items-start gap-3 rounded-md border p-3 cursor-pointer transition-colors hover:bg-muted/50", selected && "border-primary bg-primary/5")}>
+                    <Checkbox checked={selected} onCheckedChange={() => toggleItem(item.id)} className="mt-0.5" />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="text-sm line-clamp-2">{item.text}</p>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="secondary">{questionTypeLabels[item.question_type]}</Badge>
+                        <Badge variant="outline">{item.points}점</Badge>
+                        {item.topic && <Badge variant="outline">{item.topic}</Badge>}
+                        {item.unit && <Badge variant="outline">{item.unit}</Badge>}
+                        {item.difficulty && <Badge variant="outline">{difficultyLabels[item.difficulty as Difficulty]}</Badge>}
+                      </div>
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>취소</Button>
+          <Button onClick={handleInsert} disabled={selectedIds.length === 0}>
+            선택한 문제 추가 ({selectedIds.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
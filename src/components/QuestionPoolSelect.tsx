@@ -0,0 +1,25 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { QuestionPoolForm } from "@/lib/questionPools";
+
+// Radix Select items cannot have an empty value, so "always" stands for no pool
+const ALWAYS = "always";
+
+interface QuestionPoolSelectProps {
+  pools: QuestionPoolForm[];
+  value?: string;
+  onChange: (poolKey: string | undefined) => void;
+}
+
+export const QuestionPoolSelect = ({ pools, value, onChange }: QuestionPoolSelectProps) => (
+  <Select value={value ?? ALWAYS} onValueChange={key => onChange(key === ALWAYS ? undefined : key)}>
+    <SelectTrigger className="w-36 h-8" aria-label="문제 묶음">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={ALWAYS}>항상 출제</SelectItem>
+      {pools.map(pool => (
+        <SelectItem key={pool.key} value={pool.key}>{pool.name.trim() || "이름 없는 묶음"}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
@@ -0,0 +1,57 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Shuffle, Trash2 } from "lucide-react";
+import { PooledQuestion, QuestionPoolForm, createPool, poolSize, questionsPerStudent } from "@/lib/questionPools";
+
+interface QuestionPoolsEditorProps {
+  pools: QuestionPoolForm[];
+  questions: PooledQuestion[];
+  onChange: (pools: QuestionPoolForm[]) => void;
+  // Called with the removed pool's key so its questions can be taken out of it
+  onRemove: (key: string) => void;
+}
+
+export const QuestionPoolsEditor = ({ pools, questions, onChange, onRemove }: QuestionPoolsEditorProps) => {
+  const updatePool = (index: number, pool: QuestionPoolForm) => {
+    onChange(pools.map((p, i) => i === index ? pool : p));
+  };
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <p className="font-medium flex items-center gap-2">
+            <Shuffle className="h-4 w-4" />
+            문제 묶음 (선택사항)
+          </p>
+          <p className="text-sm text-muted-foreground">
+            묶음에 넣은 문제 중 일부만 학생마다 무작위로 출제합니다. 묶음에 넣지 않은 문제는 모든 학생에게 출제됩니다
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => onChange([...pools, createPool(pools.length)])}>
+          <Plus className="h-4 w-4 mr-2" />
+          묶음 추가
+        </Button>
+      </div>
+
+      {pools.map((pool, index) => (
+        <div key={pool.key} className="flex flex-wrap items-center gap-2">
+          <Input aria-label="묶음 이름" className="w-40" value={pool.name} onChange={e => updatePool(index, { ...pool, name: e.target.value })} />
+          <span className="text-sm text-muted-foreground">{poolSize(pool, questions)}문제 중</span>
+          <Input id={`pool-${pool.key}-draw`} type="number" min={1} step={1} className="w-20" value={pool.drawCount} onChange={e => updatePool(index, { ...pool, drawCount: parseInt(e.target.value) || 0 })} />
+          <Label htmlFor={`pool-${pool.key}-draw`} className="text-sm font-normal">개 출제</Label>
+          <Button variant="ghost" size="sm" className="ml-auto text-destructive hover:text-destructive hover:bg-destructive/10" onClick={() => onRemove(pool.key)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {pools.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          학생마다 {questionsPerStudent(pools, questions)}문제가 출제됩니다 (전체 {questions.length}문제)
+        </p>
+      )}
+    </div>
+  );
+};
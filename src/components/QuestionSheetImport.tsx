@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Download, Info } from "lucide-react";
+import type { ParsedQuestion } from "./BulkQuestionInput";
+import {
+  ColumnMapping,
+  SheetRowResult,
+  guessColumnMapping,
+  parseQuestionRows,
+  questionSheetTemplate,
+  sheetFieldLabels,
+  sheetFields,
+} from "@/lib/questionSheet";
+import { SheetRows, downloadCsv, readSpreadsheet } from "@/lib/spreadsheet";
+
+const NO_COLUMN = "none";
+
+interface QuestionSheetImportProps {
+  // Called with the questions from every valid row whenever the file or the mapping changes
+  onPreview: (questions: ParsedQuestion[]) => void;
+}
+
+export const QuestionSheetImport = ({ onPreview }: QuestionSheetImportProps) => {
+  const [rows, setRows] = useState<SheetRows | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [results, setResults] = useState<SheetRowResult[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const applyMapping = (sheetRows: SheetRows, columnMapping: ColumnMapping) => {
+    const parsed = parseQuestionRows(sheetRows, columnMapping);
+    setResults(parsed);
+    onPreview(parsed.flatMap(result => (result.question ? [result.question] : [])));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setFileError(null);
+    setRows(null);
+    setMapping(null);
+    setResults([]);
+    onPreview([]);
+    if (!file) return;
+
+    try {
+      const sheetRows = await readSpreadsheet(file);
+      if (sheetRows.length < 2) {
+        setFileError("머리글 행 아래에 문제가 없습니다");
+        return;
+      }
+      const guessed = guessColumnMapping(sheetRows[0]);
+      setRows(sheetRows);
+      setMapping(guessed);
+      applyMapping(sheetRows, guessed);
+    } catch (error) {
+      console.error("Error reading question sheet:", error);
+      setFileError(error instanceof Error ? error.message : "파일을 읽을 수 없습니다");
+    }
+  };
+
+  const handleMappingChange = (field: keyof ColumnMapping, value: string) => {
+    if (!rows || !mapping) return;
+    const updated = { ...mapping, [field]: value === NO_COLUMN ? null : Number(value) };
+    setMapping(updated);
+    applyMapping(rows, updated);
+  };
+
+  const headers = rows?.[0] ?? [];
+  const invalidRows = results.filter(result => result.errors.length > 0);
+
+  return (
+    <div className="space-y-4">
+      <Alert className="bg-muted/50">
+        <Info className="h-4 w-4" />
+        <AlertDescription className="text-sm space-y-2">
+          <div>
+            첫 행은 머리글, 그 아래로 한 행에 문제 하나를 적은 CSV 또는 Excel(.xlsx) 파일을 올리세요
+          </div>
+          <div>
+            <strong>선택지:</strong> <code>|</code> 또는 줄바꿈으로 구분. <strong>정답:</strong> 객관식은 번호, 복수선택은 <code>1,3</code>,
+            숫자형은 <code>3.14±0.01</code>, 단답형은 <code>서울|서울특별시</code>
+          </div>
+        </AlertDescription>
+      </Alert>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-2 flex-1 min-w-[200px]">
+          <Label htmlFor="question-sheet">문제 파일</Label>
+          <Input
+            id="question-sheet"
+            type="file"
+            accept=".csv,.tsv,.txt,.xlsx"
+            onChange={e => handleFile(e.target.files?.[0])}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => downloadCsv("문제_양식.csv", questionSheetTemplate())}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          양식 다운로드
+        </Button>
+      </div>
+
+      {fileError && (
+        <Alert variant="destructive">
+          <AlertDescription>{fileError}</AlertDescription>
+        </Alert>
+      )}
+
+      {mapping && (
+        <div className="space-y-2">
+          <Label>열 지정</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {sheetFields.map(field => (
+              <div key={field} className="flex items-center gap-2">
+                <span className="text-sm w-16 shrink-0">{sheetFieldLabels[field]}</span>
+                <Select
+                  value={mapping[field] === null ? NO_COLUMN : String(mapping[field])}
+                  onValueChange={value => handleMappingChange(field, value)}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_COLUMN}>(없음)</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header.trim() || `${index + 1}열`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {mapping && results.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {results.length}개 행 중 {results.length - invalidRows.length}개를 추가할 수 있습니다
+        </p>
+      )}
+
+      {invalidRows.length > 0 && (
+        <div className="space-y-2 p-4 bg-destructive/10 rounded-lg">
+          <h4 className="font-semibold text-sm flex items-center gap-2 text-destructive">
+            <AlertTriangle className="h-4 w-4" />
+            오류가 있는 행 ({invalidRows.length}개, 추가되지 않음)
+          </h4>
+          <ul className="space-y-1 max-h-48 overflow-y-auto text-sm">
+            {invalidRows.map(result => (
+              <li key={result.row}>
+                <span className="font-medium">{result.row}행:</span> {result.errors.join(", ")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
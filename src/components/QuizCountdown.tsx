@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState } from "react";
+import { Timer } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatRemainingTime } from "@/lib/timeLimit";
+
+interface QuizCountdownProps {
+  // Server-side deadline of the attempt
+  deadline: string;
+  // Called once when the time runs out
+  onExpire: () => void;
+}
+
+export const QuizCountdown = ({ deadline, onExpire }: QuizCountdownProps) => {
+  const [remainingMs, setRemainingMs] = useState(() => new Date(deadline).getTime() - Date.now());
+  const expired = useRef(false);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    expired.current = false;
+    const tick = () => {
+      const remaining = new Date(deadline).getTime() - Date.now();
+      setRemainingMs(remaining);
+      if (remaining <= 0 && !expired.current) {
+        expired.current = true;
+        onExpireRef.current();
+      }
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  const lastMinute = remainingMs <= 60 * 1000;
+
+  return (
+    <div
+      role="timer"
+      aria-label="남은 시간"
+      className={cn(
+        "flex items-center gap-1 rounded-md border px-3 py-1 font-mono text-sm font-semibold tabular-nums",
+        lastMinute ? "border-red-300 text-red-600 animate-pulse" : "text-foreground"
+      )}
+    >
+      <Timer className="h-4 w-4" />
+      {formatRemainingTime(remainingMs)}
+    </div>
+  );
+};
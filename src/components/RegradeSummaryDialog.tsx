@@ -0,0 +1,98 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface RegradeResult {
+  submission_id: string;
+  student_id: string;
+  student_name: string | null;
+  old_score: number | null;
+  new_score: number;
+  old_total_questions: number;
+  new_total_questions: number;
+  old_max_score: number;
+  new_max_score: number;
+}
+
+interface RegradeSummaryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  assignmentTitle: string;
+  results: RegradeResult[];
+}
+
+export const RegradeSummaryDialog = ({ open, onOpenChange, assignmentTitle, results }: RegradeSummaryDialogProps) => {
+  const changed = results.filter(
+    r => Number(r.old_score ?? 0) !== Number(r.new_score) || Number(r.old_max_score) !== Number(r.new_max_score)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RefreshCw className="h-5 w-5" />
+            재채점 결과
+          </DialogTitle>
+          <DialogDescription>
+            {assignmentTitle} - 제출 {results.length}개를 재채점했으며 {changed.length}개의 점수가 변경되었습니다
+          </DialogDescription>
+        </DialogHeader>
+
+        {changed.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            점수가 변경된 학생이 없습니다
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>학생</TableHead>
+                <TableHead>이전 점수</TableHead>
+                <TableHead>새 점수</TableHead>
+                <TableHead>변동</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changed.map(r => {
+                const delta = Math.round((Number(r.new_score) - Number(r.old_score ?? 0)) * 100) / 100;
+                return (
+                  <TableRow key={r.submission_id}>
+                    <TableCell className="font-medium">{r.student_name || "알 수 없음"}</TableCell>
+                    <TableCell>{r.old_score ?? "-"}/{r.old_max_score}</TableCell>
+                    <TableCell>{r.new_score}/{r.new_max_score}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          delta > 0 && "border-green-500/50 text-green-600",
+                          delta < 0 && "border-red-500/50 text-red-600"
+                        )}
+                      >
+                        {delta > 0 ? `+${delta}` : delta}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>확인</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,91 @@
+import { Fragment, useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { BlockNode, InlineNode, parseInline, parseMarkdown } from "@/lib/markdown";
+import { MathDisplay } from "./MathDisplay";
+
+interface RichContentProps {
+  content: string | null | undefined;
+  // Options and other one-line content: no paragraphs, headings or lists
+  inline?: boolean;
+  // Model answers were saved as bare LaTeX before Markdown; without any $ they still render as one expression
+  legacyLatex?: boolean;
+  className?: string;
+}
+
+const renderInline = (nodes: InlineNode[]) =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={i}>{node.text}</Fragment>;
+      case 'math':
+        // $$...$$ inside a line stays a span so it can sit in a paragraph
+        return node.display
+          ? <MathDisplay key={i} latex={`\\displaystyle ${node.latex}`} className="my-2 block text-center" />
+          : <MathDisplay key={i} latex={node.latex} />;
+      case 'code':
+        return <code key={i} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">{node.text}</code>;
+      case 'strong':
+        return <strong key={i} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={i}>{renderInline(node.children)}</del>;
+      case 'sub':
+        return <sub key={i}>{renderInline(node.children)}</sub>;
+      case 'sup':
+        return <sup key={i}>{renderInline(node.children)}</sup>;
+      case 'u':
+        return <u key={i}>{renderInline(node.children)}</u>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'image':
+        return <img key={i} src={node.src} alt={node.alt} className="inline-block max-w-full rounded-md" />;
+      case 'break':
+        return <br key={i} />;
+    }
+  });
+
+const headingClasses = ["text-xl font-bold", "text-lg font-bold", "text-base font-semibold"];
+
+const renderBlocks = (blocks: BlockNode[]) =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={i}>{renderInline(block.children)}</p>;
+      case 'heading':
+        return <p key={i} className={headingClasses[Math.min(block.level, headingClasses.length) - 1]}>{renderInline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j} className="space-y-1">{renderBlocks(item)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal space-y-1 pl-6">{items}</ol>
+          : <ul key={i} className="list-disc space-y-1 pl-6">{items}</ul>;
+      }
+      case 'blockquote':
+        return <blockquote key={i} className="space-y-2 border-l-2 pl-3 text-muted-foreground">{renderBlocks(block.children)}</blockquote>;
+      case 'code':
+        return <pre key={i} className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-[0.9em]">{block.text}</pre>;
+      case 'math':
+        return <MathDisplay key={i} latex={block.latex} block />;
+      case 'rule':
+        return <hr key={i} className="border-border" />;
+    }
+  });
+
+// Question text, options, explanations, model answers and feedback: Markdown with $...$ and $$...$$ math.
+// Everything is built as React elements, so HTML in the content shows as text instead of running.
+export const RichContent = ({ content, inline = false, legacyLatex = false, className }: RichContentProps) => {
+  const text = content ?? "";
+  const rendered = useMemo(() => {
+    if (legacyLatex && !text.includes("$")) return null;
+    return inline ? renderInline(parseInline(text)) : renderBlocks(parseMarkdown(text));
+  }, [text, inline, legacyLatex]);
+
+  if (!text.trim()) return null;
+  if (!rendered) return <MathDisplay latex={text} block={!inline} className={className} />;
+  if (inline) return <span className={className}>{rendered}</span>;
+  return <div className={cn("space-y-2 break-words", className)}>{rendered}</div>;
+};
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookmarkPlus, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { BankQuestion, BankTags, Difficulty, difficultyLabels, emptyBankTags, toBankItemColumns } from "@/lib/questionBank";
+
+interface SaveToQuestionBankDialogProps {
+  question: BankQuestion;
+  instructorId: string;
+  onSaved: (itemId: string) => void;
+  idPrefix: string;
+}
+
+export const SaveToQuestionBankDialog = ({ question, instructorId, onSaved, idPrefix }: SaveToQuestionBankDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [tags, setTags] = useState<BankTags>(emptyBankTags);
+  const [suggestions, setSuggestions] = useState<{ topics: string[]; units: string[] }>({ topics: [], units: [] });
+
+  // Offer the instructor's existing tags so the bank stays consistent
+  const fetchSuggestions = useCallback(async () => {
+    const { data } = await supabase.from("question_bank_items").select("topic, unit").eq("instructor_id", instructorId);
+    setSuggestions({
+      topics: [...new Set((data || []).map(d => d.topic).filter(Boolean))],
+      units: [...new Set((data || []).map(d => d.unit).filter(Boolean))],
+    });
+  }, [instructorId]);
+
+  useEffect(() => {
+    if (open) {
+      setTags(emptyBankTags);
+      fetchSuggestions();
+    }
+  }, [open, fetchSuggestions]);
+
+  const handleSave = async () => {
+    if (!question.text.trim()) {
+      toast.error("문제 텍스트를 입력한 후 저장하세요");
+      return;
+    }
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("question_bank_items")
+        .insert({ instructor_id: instructorId, ...toBankItemColumns(question, tags) })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      toast.success("문제 은행에 저장되었습니다");
+      onSaved(data.id);
+      setOpen(false);
+    } catch (error) {
+      toast.error("문제 은행 저장에 실패했습니다: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <BookmarkPlus className="h-4 w-4 mr-2" />
+          {question.bankItemId ? "은행에 새로 저장" : "은행에 저장"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>문제 은행에 저장</DialogTitle>
+          <DialogDescription>이 문제를 다른 과제에서도 쓸 수 있도록 저장합니다. 태그는 검색과 필터에 사용됩니다</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-bank-topic`}>주제</Label>
+            <Input id={`${idPrefix}-bank-topic`} list={`${idPrefix}-bank-topics`} placeholder="예: 이차방정식" value={tags.topic} onChange={e => setTags({ ...tags, topic: e.target.value })} />
+            <datalist id={`${idPrefix}-bank-topics`}>
+              {suggestions.topics.map(topic => <option key={topic} value={topic} />)}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-bank-unit`}>단원</Label>
+            <Input id={`${idPrefix}-bank-unit`} list={`${idPrefix}-bank-units`} placeholder="예: 3단원" value={tags.unit} onChange={e => setTags({ ...tags, unit: e.target.value })} />
+            <datalist id={`${idPrefix}-bank-units`}>
+              {suggestions.units.map(unit => <option key={unit} value={unit} />)}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label>난이도</Label>
+            <Select value={tags.difficulty ?? undefined} onValueChange={difficulty => setTags({ ...tags, difficulty: difficulty as Difficulty })}>
+              <SelectTrigger>
+                <SelectValue placeholder="선택 안 함" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(difficultyLabels) as Difficulty[]).map(difficulty => (
+                  <SelectItem key={difficulty} value={difficulty}>{difficultyLabels[difficulty]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>취소</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            저장
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
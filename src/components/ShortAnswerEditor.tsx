@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { findInvalidPattern, isShortAnswerCorrect } from "@/lib/shortAnswer";
+import { AnswerKeyFields } from "@/lib/questionTypes";
+
+interface ShortAnswerEditorProps {
+  value: AnswerKeyFields;
+  onChange: (field: keyof AnswerKeyFields, value: AnswerKeyFields[keyof AnswerKeyFields]) => void;
+  idPrefix: string;
+}
+
+export const ShortAnswerEditor = ({ value, onChange, idPrefix }: ShortAnswerEditorProps) => {
+  const [testAnswer, setTestAnswer] = useState("");
+  // Always offer one answer field so a new question can be filled in right away
+  const acceptedAnswers = value.acceptedAnswers.length > 0 ? value.acceptedAnswers : [""];
+
+  const updateItem = (field: "acceptedAnswers" | "answerPatterns", index: number, text: string) => {
+    const items = field === "acceptedAnswers" ? acceptedAnswers : value.answerPatterns;
+    onChange(field, items.map((item, i) => i === index ? text : item));
+  };
+
+  const removeItem = (field: "acceptedAnswers" | "answerPatterns", index: number) => {
+    onChange(field, value[field].filter((_, i) => i !== index));
+  };
+
+  const testResult = testAnswer.trim()
+    ? isShortAnswerCorrect(testAnswer, value.acceptedAnswers.filter(a => a.trim()), value.answerPatterns.filter(p => p.trim()), value)
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>정답 목록</Label>
+        {acceptedAnswers.map((answer, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input placeholder={`정답 ${index + 1}`} value={answer} onChange={e => updateItem("acceptedAnswers", index, e.target.value)} />
+            <Button type="button" variant="ghost" size="sm" className="shrink-0" onClick={() => removeItem("acceptedAnswers", index)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange("acceptedAnswers", [...acceptedAnswers, ""])}>
+          <Plus className="h-4 w-4 mr-1" />
+          정답 추가
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>정규식 패턴 (선택사항)</Label>
+        <p className="text-xs text-muted-foreground">정리된 답안 전체와 일치해야 합니다. 예: <code>(서울|seoul)(특별시)?</code></p>
+        {value.answerPatterns.map((pattern, index) => {
+          const invalid = pattern.trim() !== "" && findInvalidPattern([pattern]) !== null;
+          return (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Input placeholder={`패턴 ${index + 1}`} value={pattern} onChange={e => updateItem("answerPatterns", index, e.target.value)} className={cn("font-mono", invalid && "border-destructive")} />
+                <Button type="button" variant="ghost" size="sm" className="shrink-0" onClick={() => removeItem("answerPatterns", index)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {invalid && <p className="text-xs text-destructive">올바른 정규식이 아닙니다</p>}
+            </div>
+          );
+        })}
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange("answerPatterns", [...value.answerPatterns, ""])}>
+          <Plus className="h-4 w-4 mr-1" />
+          패턴 추가
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Checkbox id={`${idPrefix}-case`} checked={value.caseSensitive} onCheckedChange={checked => onChange("caseSensitive", checked as boolean)} />
+          <Label htmlFor={`${idPrefix}-case`} className="text-sm font-normal leading-none">대소문자 구분</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox id={`${idPrefix}-whitespace`} checked={value.normalizeWhitespace} onCheckedChange={checked => onChange("normalizeWhitespace", checked as boolean)} />
+          <Label htmlFor={`${idPrefix}-whitespace`} className="text-sm font-normal leading-none">앞뒤 공백 제거 및 연속 공백을 하나로</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox id={`${idPrefix}-spacing`} checked={value.ignoreSpacing} onCheckedChange={checked => onChange("ignoreSpacing", checked as boolean)} />
+          <Label htmlFor={`${idPrefix}-spacing`} className="text-sm font-normal leading-none">띄어쓰기 무시 (예: "대한 민국" = "대한민국")</Label>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-test`}>답안 테스트</Label>
+        <div className="flex items-center gap-2">
+          <Input id={`${idPrefix}-test`} placeholder="학생 답안을 입력해 채점 결과를 확인하세요" value={testAnswer} onChange={e => setTestAnswer(e.target.value)} />
+          {testResult !== null && (
+            <span className={cn("text-xs font-medium shrink-0", testResult ? "text-green-600 dark:text-green-400" : "text-destructive")}>
+              {testResult ? "✓ 정답" : "✕ 오답"}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
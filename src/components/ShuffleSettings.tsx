@@ -0,0 +1,32 @@
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ShuffleConfig } from "@/lib/shuffle";
+
+interface ShuffleSettingsProps {
+  value: ShuffleConfig;
+  onChange: (value: ShuffleConfig) => void;
+}
+
+const shuffleParts: { key: keyof ShuffleConfig; label: string }[] = [
+  { key: 'questions', label: "문제 순서 섞기" },
+  { key: 'options', label: "객관식 선택지 순서 섞기" },
+];
+
+export const ShuffleSettings = ({ value, onChange }: ShuffleSettingsProps) => {
+  return (
+    <div className="space-y-2">
+      <Label>순서 섞기</Label>
+      {shuffleParts.map(({ key, label }) => (
+        <div key={key} className="flex items-center space-x-2">
+          <Checkbox id={`shuffle-${key}`} checked={value[key]} onCheckedChange={checked => onChange({ ...value, [key]: checked as boolean })} />
+          <Label htmlFor={`shuffle-${key}`} className="text-sm font-normal leading-none">
+            {label}
+          </Label>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        학생과 시도마다 순서가 달라지며, 결과 화면에서도 학생이 본 순서대로 표시됩니다. 선택지 내용이 없는 답안지형 문제는 섞지 않습니다
+      </p>
+    </div>
+  );
+};
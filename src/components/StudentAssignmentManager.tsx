@@ -6,8 +6,10 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Users, UserPlus, UserMinus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Loader2, Users, UserPlus, UserMinus, X } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { fromDateTimeLocal, toDateTimeLocal } from "@/lib/dateTimeLocal";
 
 interface Student {
   id: string;
@@ -23,6 +25,12 @@ interface StudentAssignmentManagerProps {
 export const StudentAssignmentManager = ({ assignmentId, assignmentTitle }: StudentAssignmentManagerProps) => {
   const [students, setStudents] = useState<Student[]>([]);
   const [assignedStudentIds, setAssignedStudentIds] = useState<Set<string>>(new Set());
+  // Per-student due date extensions as datetime-local values, keyed by student id
+  const [extensions, setExtensions] = useState<Record<string, string>>({});
+  const [savedExtensions, setSavedExtensions] = useState<Record<string, string>>({});
+  // Extra minutes on timed attempts, keyed by student id
+  const [extraTimes, setExtraTimes] = useState<Record<string, string>>({});
+  const [savedExtraTimes, setSavedExtraTimes] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [open, setOpen] = useState(false);
@@ -65,12 +73,18 @@ export const StudentAssignmentManager = ({ assignmentId, assignmentTitle }: Stud
       // Fetch assigned students for this assignment
       const { data: assignedData, error: assignedError } = await supabase
         .from("student_assignments")
-        .select("student_id")
+        .select("student_id, extended_due_date, extra_time_minutes")
         .eq("assignment_id", assignmentId);
 
       if (assignedError) throw assignedError;
 
       setAssignedStudentIds(new Set((assignedData || []).map(a => a.student_id)));
+      const loadedExtensions = Object.fromEntries((assignedData || []).map(a => [a.student_id, toDateTimeLocal(a.extended_due_date)]));
+      setExtensions(loadedExtensions);
+      setSavedExtensions(loadedExtensions);
+      const loadedExtraTimes = Object.fromEntries((assignedData || []).map(a => [a.student_id, a.extra_time_minutes ? String(a.extra_time_minutes) : ""]));
+      setExtraTimes(loadedExtraTimes);
+      setSavedExtraTimes(loadedExtraTimes);
     } catch (error: any) {
       toast.error("학생 목록을 불러오는데 실패했습니다: " + error.message);
     } finally {
@@ -102,6 +116,11 @@ export const StudentAssignmentManager = ({ assignmentId, assignmentTitle }: Stud
           next.delete(studentId);
           return next;
         });
+        // The extension and extra time were stored on the removed row
+        setExtensions(prev => ({ ...prev, [studentId]: "" }));
+        setSavedExtensions(prev => ({ ...prev, [studentId]: "" }));
+        setExtraTimes(prev => ({ ...prev, [studentId]: "" }));
+        setSavedExtraTimes(prev => ({ ...prev, [studentId]: "" }));
         toast.success("학생이 과제에서 제외되었습니다");
       } else {
         // Add assignment
@@ -121,6 +140,57 @@ export const StudentAssignmentManager = ({ assignmentId, assignmentTitle }: Stud
     }
   };
 
+  const saveExtension = async (studentId: string, value: string) => {
+    if ((savedExtensions[studentId] || "") === value) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("student_assignments")
+        .update({ extended_due_date: fromDateTimeLocal(value) })
+        .eq("assignment_id", assignmentId)
+        .eq("student_id", studentId);
+
+      if (error) throw error;
+
+      setExtensions(prev => ({ ...prev, [studentId]: value }));
+      setSavedExtensions(prev => ({ ...prev, [studentId]: value }));
+      toast.success(value ? "마감일이 연장되었습니다" : "마감일 연장이 취소되었습니다");
+    } catch (error) {
+      toast.error("마감일 연장 실패: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveExtraTime = async (studentId: string, value: string) => {
+    if ((savedExtraTimes[studentId] || "") === value) return;
+    const minutes = value === "" ? 0 : parseInt(value);
+    if (!(Number.isInteger(minutes) && minutes >= 0)) {
+      toast.error("추가 시간은 0분 이상의 정수여야 합니다");
+      setExtraTimes(prev => ({ ...prev, [studentId]: savedExtraTimes[studentId] || "" }));
+      return;
+    }
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("student_assignments")
+        .update({ extra_time_minutes: minutes })
+        .eq("assignment_id", assignmentId)
+        .eq("student_id", studentId);
+
+      if (error) throw error;
+
+      const saved = minutes ? String(minutes) : "";
+      setExtraTimes(prev => ({ ...prev, [studentId]: saved }));
+      setSavedExtraTimes(prev => ({ ...prev, [studentId]: saved }));
+      toast.success("추가 시간이 저장되었습니다");
+    } catch (error) {
+      toast.error("추가 시간 저장 실패: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const assignAll = async () => {
     setSaving(true);
     try {
@@ -156,6 +226,10 @@ export const StudentAssignmentManager = ({ assignmentId, assignmentTitle }: Stud
       if (error) throw error;
 
       setAssignedStudentIds(new Set());
+      setExtensions({});
+      setSavedExtensions({});
+      setExtraTimes({});
+      setSavedExtraTimes({});
       toast.success("모든 학생이 과제에서 제외되었습니다");
     } catch (error: any) {
       toast.error("학생 제외 실패: " + error.message);
@@ -172,11 +246,11 @@ export const StudentAssignmentManager = ({ assignmentId, assignmentTitle }: Stud
           학생 할당
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-hidden flex flex-col">
         <DialogHeader>
           <DialogTitle>학생 과제 할당 관리</DialogTitle>
           <DialogDescription>
-            "{assignmentTitle}" 과제에 접근할 수 있는 학생을 선택하세요
+            "{assignmentTitle}" 과제에 접근할 수 있는 학생을 선택하세요. 할당된 학생은 마감일 연장과 제한 시간 과제의 추가 시간을 따로 정할 수 있습니다
           </DialogDescription>
         </DialogHeader>
 
@@ -224,6 +298,8 @@ export const StudentAssignmentManager = ({ assignmentId, assignmentTitle }: Stud
                       <TableHead className="w-12">할당</TableHead>
                       <TableHead>이름</TableHead>
                       <TableHead>이메일</TableHead>
+                      <TableHead>마감 연장</TableHead>
+                      <TableHead>추가 시간</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -240,6 +316,52 @@ export const StudentAssignmentManager = ({ assignmentId, assignmentTitle }: Stud
                         <TableCell className="text-muted-foreground">
                           {student.email || "이메일 없음"}
                         </TableCell>
+                        <TableCell>
+                          {assignedStudentIds.has(student.id) && (
+                            <div className="flex items-center gap-1">
+                              <Input
+                                type="datetime-local"
+                                aria-label={`${student.full_name || "학생"} 마감 연장`}
+                                className="h-8 w-48"
+                                value={extensions[student.id] || ""}
+                                onChange={(e) => setExtensions(prev => ({ ...prev, [student.id]: e.target.value }))}
+                                onBlur={(e) => saveExtension(student.id, e.target.value)}
+                                disabled={saving}
+                              />
+                              {savedExtensions[student.id] && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  aria-label="마감 연장 취소"
+                                  onClick={() => saveExtension(student.id, "")}
+                                  disabled={saving}
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {assignedStudentIds.has(student.id) && (
+                            <div className="flex items-center gap-1">
+                              <Input
+                                type="number"
+                                min={0}
+                                step={1}
+                                aria-label={`${student.full_name || "학생"} 추가 시간`}
+                                className="h-8 w-20"
+                                placeholder="0"
+                                value={extraTimes[student.id] || ""}
+                                onChange={(e) => setExtraTimes(prev => ({ ...prev, [student.id]: e.target.value }))}
+                                onBlur={(e) => saveExtraTime(student.id, e.target.value)}
+                                disabled={saving}
+                              />
+                              <span className="text-sm text-muted-foreground">분</span>
+                            </div>
+                          )}
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
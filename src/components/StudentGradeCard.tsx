@@ -31,12 +31,12 @@ export const StudentGradeCard = ({
       const {
         data: submissions,
         error
-      } = await supabase.from("submissions").select("score, total_questions, submitted_at").eq("student_id", studentId).order("submitted_at", {
+      } = await supabase.from("submissions").select("score, max_score, submitted_at").eq("student_id", studentId).order("submitted_at", {
         ascending: false
       });
       if (error) throw error;
       const gradedSubmissions = submissions?.filter(s => s.score !== null) || [];
-      const scores = gradedSubmissions.map(s => Math.round(s.score! / s.total_questions * 100));
+      const scores = gradedSubmissions.map(s => Math.round(s.score! / s.max_score * 100));
       const averageScore = scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0;
 
       // Calculate trend (compare recent 3 vs older 3)
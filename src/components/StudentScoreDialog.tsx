@@ -16,6 +16,8 @@ import { Input } from "@/components/ui/input";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from "recharts";
 import { User, TrendingUp, Award, Target, Search, BookOpen, ClipboardList, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { FRQGradingDialog } from "./FRQGradingDialog";
+import { LatePenaltyBadge } from "./LatePenaltyBadge";
 
 interface StudentScoreDialogProps {
   studentId: string;
@@ -27,8 +29,12 @@ interface StudentSubmission {
   id: string;
   assignment_id: string;
   score: number | null;
-  total_questions: number;
+  max_score: number;
+  days_late: number;
+  late_penalty: number;
   submitted_at: string;
+  submitted_at_reported: boolean;
+  received_at: string;
   assignment: {
     title: string;
     assignment_type: string;
@@ -73,8 +79,12 @@ export const StudentScoreDialog = ({ studentId, studentName, trigger }: StudentS
           id,
           assignment_id,
           score,
-          total_questions,
+          max_score,
+          days_late,
+          late_penalty,
           submitted_at,
+          submitted_at_reported,
+          received_at,
           assignment:assignments(title, assignment_type, due_date)
         `)
         .eq("student_id", studentId)
@@ -105,7 +115,7 @@ export const StudentScoreDialog = ({ studentId, studentName, trigger }: StudentS
   // Calculate statistics
   const gradedSubmissions = submissions.filter(s => s.score !== null);
   const scores = gradedSubmissions.map(s => 
-    Math.round((s.score! / s.total_questions) * 100)
+    Math.round((s.score! / s.max_score) * 100)
   );
   
   const averageScore = scores.length > 0 
@@ -120,7 +130,7 @@ export const StudentScoreDialog = ({ studentId, studentName, trigger }: StudentS
     .sort((a, b) => new Date(a.submitted_at).getTime() - new Date(b.submitted_at).getTime())
     .map((s, index) => ({
       name: `${index + 1}`,
-      score: Math.round((s.score! / s.total_questions) * 100),
+      score: Math.round((s.score! / s.max_score) * 100),
       assignment: s.assignment.title
     }));
 
@@ -314,12 +324,13 @@ export const StudentScoreDialog = ({ studentId, studentName, trigger }: StudentS
                         <TableHead>점수</TableHead>
                         <TableHead>백분율</TableHead>
                         <TableHead>제출일</TableHead>
+                        <TableHead></TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {filteredSubmissions.map((submission) => {
                         const percentage = submission.score !== null 
-                          ? Math.round((submission.score / submission.total_questions) * 100) 
+                          ? Math.round((submission.score / submission.max_score) * 100) 
                           : null;
                         return (
                           <TableRow key={submission.id}>
@@ -334,9 +345,12 @@ export const StudentScoreDialog = ({ studentId, studentName, trigger }: StudentS
                               </Badge>
                             </TableCell>
                             <TableCell>
-                              {submission.score !== null 
-                                ? `${submission.score}/${submission.total_questions}` 
-                                : "채점 대기"}
+                              <div className="flex items-center gap-2">
+                                {submission.score !== null 
+                                  ? `${submission.score}/${submission.max_score}` 
+                                  : "채점 대기"}
+                                <LatePenaltyBadge submission={submission} />
+                              </div>
                             </TableCell>
                             <TableCell>
                               {percentage !== null ? (
@@ -348,7 +362,28 @@ export const StudentScoreDialog = ({ studentId, studentName, trigger }: StudentS
                               )}
                             </TableCell>
                             <TableCell>
-                              {new Date(submission.submitted_at).toLocaleDateString()}
+                              <div className="flex items-center gap-2">
+                                {new Date(submission.submitted_at).toLocaleDateString()}
+                                {/* Queued offline: judged by the time the device reported, not by arrival */}
+                                {submission.submitted_at_reported && (
+                                  <Badge
+                                    variant="outline"
+                                    className="whitespace-nowrap"
+                                    title={`도착: ${new Date(submission.received_at).toLocaleString()}`}
+                                  >
+                                    오프라인 제출
+                                  </Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              {submission.assignment.assignment_type === 'quiz' && (
+                                <FRQGradingDialog
+                                  submissionId={submission.id}
+                                  studentName={studentName}
+                                  onGradingComplete={fetchStudentData}
+                                />
+                              )}
                             </TableCell>
                           </TableRow>
                         );
@@ -0,0 +1,23 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface TimeLimitSettingsProps {
+  // Minutes per attempt; null means untimed
+  value: number | null;
+  onChange: (value: number | null) => void;
+}
+
+export const TimeLimitSettings = ({ value, onChange }: TimeLimitSettingsProps) => {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="time-limit">제한 시간 (선택사항)</Label>
+      <div className="flex items-center gap-2">
+        <Input id="time-limit" type="number" min={1} step={1} className="w-28" placeholder="제한 없음" value={value ?? ""} onChange={e => onChange(e.target.value === "" ? null : parseInt(e.target.value))} />
+        <span className="text-sm">분</span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        학생이 과제를 시작한 순간부터 시간이 흐르며, 시간이 다 되면 작성한 답안이 자동으로 제출됩니다. 학생별 추가 시간은 학생 할당에서 정할 수 있습니다
+      </p>
+    </div>
+  );
+};
@@ -46,12 +46,28 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         supabase.from("user_roles").select("*").eq("user_id", userId),
       ]);
 
+      // Without a connection, fall back to the copy kept from the last successful load so
+      // students can keep taking quizzes offline
+      const cacheKey = `offline-user-data:${userId}`;
+      if (profileResult.error && rolesResult.error && !navigator.onLine) {
+        const cached = localStorage.getItem(cacheKey);
+        if (cached) {
+          const { profile: cachedProfile, roles: cachedRoles } = JSON.parse(cached);
+          setProfile(cachedProfile);
+          setRoles(cachedRoles);
+        }
+        return;
+      }
+
       if (profileResult.data) {
         setProfile(profileResult.data);
       }
       if (rolesResult.data) {
         setRoles(rolesResult.data);
       }
+      if (profileResult.data && rolesResult.data) {
+        localStorage.setItem(cacheKey, JSON.stringify({ profile: profileResult.data, roles: rolesResult.data }));
+      }
     } catch (error) {
       console.error("Error fetching user data:", error);
     }
@@ -101,6 +117,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   const signOut = async () => {
     try {
+      if (user) localStorage.removeItem(`offline-user-data:${user.id}`);
       await supabase.auth.signOut();
       setProfile(null);
       setRoles([]);
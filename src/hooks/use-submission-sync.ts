@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { SubmissionResults } from "@/lib/answerReveal";
+import {
+  QueuedSubmission,
+  clearOfflineAttempt,
+  getQueuedSubmissions,
+  isNetworkError,
+  queueSubmission,
+  removeQueuedSubmission,
+} from "@/lib/offlineQuiz";
+
+const sendQueuedSubmission = async (submission: QueuedSubmission) => {
+  const { data, error } = await supabase.functions.invoke<SubmissionResults>("submit-assignment", {
+    body: {
+      assignment_id: submission.assignment_id,
+      answers: submission.answers,
+      submitted_at: submission.submitted_at,
+      attempt_id: submission.attempt_id,
+    },
+  });
+  if (!error || isNetworkError(error)) return { data, error, code: undefined };
+
+  // Non-2xx responses carry the reason in the response body
+  const body = await error.context?.json?.().catch(() => null);
+  if (body) console.error("Queued submission failed:", body);
+  return { data, error, code: body?.code as string | undefined, message: body?.error as string | undefined };
+};
+
+// Sends submissions queued offline whenever the connection comes back. errorMessages maps the
+// submit-assignment error codes to what the student is told when a queued submission is refused;
+// only a refusal with one of those codes drops a submission from the queue.
+export function useSubmissionSync(
+  userId: string | undefined,
+  errorMessages: Record<string, string>,
+  onSynced: () => void,
+) {
+  const [online, setOnline] = useState(navigator.onLine);
+  const [queued, setQueued] = useState<QueuedSubmission[]>([]);
+  const syncing = useRef(false);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const sync = useCallback(async () => {
+    if (!userId || syncing.current || !navigator.onLine) return;
+    syncing.current = true;
+    let sent = false;
+    try {
+      for (const submission of getQueuedSubmissions(userId)) {
+        let response = await sendQueuedSubmission(submission);
+        if (response.error && !isNetworkError(response.error) && !errorMessages[response.code ?? ""]) {
+          // An expired session (401), a server error or a body without a code says nothing about
+          // the submission itself; refresh the session and send it once more
+          await supabase.auth.refreshSession();
+          response = await sendQueuedSubmission(submission);
+        }
+        const { data, error, code } = response;
+
+        if (error && isNetworkError(error)) {
+          // Still offline after all; try again on the next reconnect
+          break;
+        }
+
+        if (error && !errorMessages[code ?? ""]) {
+          // Keep it queued and try again on the next reconnect or visit
+          console.error("Queued submission not sent:", error);
+          toast.error(
+            `오프라인에서 제출한 '${submission.assignment_title}'을(를) 아직 보내지 못했습니다. 나중에 다시 시도합니다`,
+          );
+          break;
+        }
+
+        // Sent, or refused for good: either way it leaves the queue
+        removeQueuedSubmission(userId, submission.assignment_id);
+        clearOfflineAttempt(userId, submission.assignment_id);
+        sent = true;
+
+        if (error) {
+          toast.error(
+            `오프라인에서 제출한 '${submission.assignment_title}'이(가) 반영되지 않았습니다: ` +
+              (errorMessages[code ?? ""] || response.message || error.message),
+            { duration: 10000 },
+          );
+        } else if (data?.time_expired) {
+          // Arrived after the attempt's time limit: the server graded its last autosave instead
+          toast.warning(
+            `오프라인에서 제출한 '${submission.assignment_title}'이(가) 제한 시간이 지난 뒤 도착해, ` +
+              "이 기기의 답안 대신 서버에 마지막으로 자동 저장된 답안으로 채점되었습니다",
+            { duration: 10000 },
+          );
+        } else {
+          toast.success(`오프라인에서 제출한 '${submission.assignment_title}'이(가) 제출되었습니다`);
+        }
+      }
+    } finally {
+      syncing.current = false;
+      setQueued(getQueuedSubmissions(userId));
+    }
+    if (sent) onSyncedRef.current();
+  }, [userId, errorMessages]);
+
+  useEffect(() => {
+    setQueued(userId ? getQueuedSubmissions(userId) : []);
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    sync();
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [userId, sync]);
+
+  const queue = useCallback(
+    (submission: QueuedSubmission) => {
+      if (!userId) return;
+      queueSubmission(userId, submission);
+      setQueued(getQueuedSubmissions(userId));
+    },
+    [userId],
+  );
+
+  return { online, queued, queue, sync };
+}
@@ -14,6 +14,70 @@ export type Database = {
   }
   public: {
     Tables: {
+      assignment_attempts: {
+        Row: {
+          assignment_id: string
+          created_at: string
+          deadline: string | null
+          draft_answers: Json
+          id: string
+          option_seed: number | null
+          question_ids: string[] | null
+          question_seed: number | null
+          saved_at: string | null
+          student_id: string
+          submission_id: string | null
+        }
+        Insert: {
+          assignment_id: string
+          created_at?: string
+          deadline?: string | null
+          draft_answers?: Json
+          id?: string
+          option_seed?: number | null
+          question_ids?: string[] | null
+          question_seed?: number | null
+          saved_at?: string | null
+          student_id: string
+          submission_id?: string | null
+        }
+        Update: {
+          assignment_id?: string
+          created_at?: string
+          deadline?: string | null
+          draft_answers?: Json
+          id?: string
+          option_seed?: number | null
+          question_ids?: string[] | null
+          question_seed?: number | null
+          saved_at?: string | null
+          student_id?: string
+          submission_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_attempts_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_attempts_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_attempts_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: true
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       assignment_completions: {
         Row: {
           assignment_id: string
@@ -58,7 +122,10 @@ export type Database = {
       }
       assignments: {
         Row: {
+          answer_reveal_policy: string
           assignment_type: string
+          available_from: string | null
+          available_until: string | null
           created_at: string
           description: string | null
           due_date: string | null
@@ -67,12 +134,24 @@ export type Database = {
           id: string
           instructor_id: string
           is_resubmittable: boolean
+          late_penalty_per_day: number
+          late_policy: string
           max_attempts: number | null
+          reveal_correct_option: boolean
+          reveal_correctness: boolean
+          reveal_explanation: boolean
+          reveal_model_answer: boolean
+          shuffle_options: boolean
+          shuffle_questions: boolean
+          time_limit_minutes: number | null
           title: string
           updated_at: string
         }
         Insert: {
+          answer_reveal_policy?: string
           assignment_type?: string
+          available_from?: string | null
+          available_until?: string | null
           created_at?: string
           description?: string | null
           due_date?: string | null
@@ -81,12 +160,24 @@ export type Database = {
           id?: string
           instructor_id: string
           is_resubmittable?: boolean
+          late_penalty_per_day?: number
+          late_policy?: string
           max_attempts?: number | null
+          reveal_correct_option?: boolean
+          reveal_correctness?: boolean
+          reveal_explanation?: boolean
+          reveal_model_answer?: boolean
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          time_limit_minutes?: number | null
           title: string
           updated_at?: string
         }
         Update: {
+          answer_reveal_policy?: string
           assignment_type?: string
+          available_from?: string | null
+          available_until?: string | null
           created_at?: string
           description?: string | null
           due_date?: string | null
@@ -95,7 +186,16 @@ export type Database = {
           id?: string
           instructor_id?: string
           is_resubmittable?: boolean
+          late_penalty_per_day?: number
+          late_policy?: string
           max_attempts?: number | null
+          reveal_correct_option?: boolean
+          reveal_correctness?: boolean
+          reveal_explanation?: boolean
+          reveal_model_answer?: boolean
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          time_limit_minutes?: number | null
           title?: string
           updated_at?: string
         }
@@ -136,42 +236,211 @@ export type Database = {
         }
         Relationships: []
       }
+      question_bank_items: {
+        Row: {
+          accept_fractions: boolean
+          accepted_answers: string[] | null
+          answer_patterns: string[] | null
+          case_sensitive: boolean
+          correct_answer: number | null
+          correct_answers: number[] | null
+          created_at: string
+          difficulty: string | null
+          explanation: string | null
+          id: string
+          ignore_spacing: boolean
+          instructor_id: string
+          model_answer: string | null
+          normalize_whitespace: boolean
+          numeric_answer: number | null
+          numeric_tolerance: number
+          options: Json
+          points: number
+          question_type: Database["public"]["Enums"]["question_type"]
+          scoring_mode: string
+          text: string
+          tolerance_type: string
+          topic: string | null
+          unit: string | null
+          updated_at: string
+        }
+        Insert: {
+          accept_fractions?: boolean
+          accepted_answers?: string[] | null
+          answer_patterns?: string[] | null
+          case_sensitive?: boolean
+          correct_answer?: number | null
+          correct_answers?: number[] | null
+          created_at?: string
+          difficulty?: string | null
+          explanation?: string | null
+          id?: string
+          ignore_spacing?: boolean
+          instructor_id: string
+          model_answer?: string | null
+          normalize_whitespace?: boolean
+          numeric_answer?: number | null
+          numeric_tolerance?: number
+          options?: Json
+          points?: number
+          question_type?: Database["public"]["Enums"]["question_type"]
+          scoring_mode?: string
+          text: string
+          tolerance_type?: string
+          topic?: string | null
+          unit?: string | null
+          updated_at?: string
+        }
+        Update: {
+          accept_fractions?: boolean
+          accepted_answers?: string[] | null
+          answer_patterns?: string[] | null
+          case_sensitive?: boolean
+          correct_answer?: number | null
+          correct_answers?: number[] | null
+          created_at?: string
+          difficulty?: string | null
+          explanation?: string | null
+          id?: string
+          ignore_spacing?: boolean
+          instructor_id?: string
+          model_answer?: string | null
+          normalize_whitespace?: boolean
+          numeric_answer?: number | null
+          numeric_tolerance?: number
+          options?: Json
+          points?: number
+          question_type?: Database["public"]["Enums"]["question_type"]
+          scoring_mode?: string
+          text?: string
+          tolerance_type?: string
+          topic?: string | null
+          unit?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_bank_items_instructor_id_fkey"
+            columns: ["instructor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_pools: {
+        Row: {
+          assignment_id: string
+          created_at: string
+          draw_count: number
+          id: string
+          name: string
+          order_number: number
+        }
+        Insert: {
+          assignment_id: string
+          created_at?: string
+          draw_count: number
+          id?: string
+          name: string
+          order_number?: number
+        }
+        Update: {
+          assignment_id?: string
+          created_at?: string
+          draw_count?: number
+          id?: string
+          name?: string
+          order_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_pools_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       questions: {
         Row: {
+          accept_fractions: boolean
+          accepted_answers: string[] | null
+          answer_patterns: string[] | null
           assignment_id: string
+          bank_item_id: string | null
+          case_sensitive: boolean
           correct_answer: number | null
+          correct_answers: number[] | null
           created_at: string
           explanation: string | null
           id: string
+          ignore_spacing: boolean
           model_answer: string | null
+          normalize_whitespace: boolean
+          numeric_answer: number | null
+          numeric_tolerance: number
           options: Json
           order_number: number
+          points: number
+          pool_id: string | null
           question_type: Database["public"]["Enums"]["question_type"]
+          scoring_mode: string
           text: string
+          tolerance_type: string
         }
         Insert: {
+          accept_fractions?: boolean
+          accepted_answers?: string[] | null
+          answer_patterns?: string[] | null
           assignment_id: string
+          bank_item_id?: string | null
+          case_sensitive?: boolean
           correct_answer?: number | null
+          correct_answers?: number[] | null
           created_at?: string
           explanation?: string | null
           id?: string
+          ignore_spacing?: boolean
           model_answer?: string | null
+          normalize_whitespace?: boolean
+          numeric_answer?: number | null
+          numeric_tolerance?: number
           options: Json
           order_number: number
+          points?: number
+          pool_id?: string | null
           question_type?: Database["public"]["Enums"]["question_type"]
+          scoring_mode?: string
           text: string
+          tolerance_type?: string
         }
         Update: {
+          accept_fractions?: boolean
+          accepted_answers?: string[] | null
+          answer_patterns?: string[] | null
           assignment_id?: string
+          bank_item_id?: string | null
+          case_sensitive?: boolean
           correct_answer?: number | null
+          correct_answers?: number[] | null
           created_at?: string
           explanation?: string | null
           id?: string
+          ignore_spacing?: boolean
           model_answer?: string | null
+          normalize_whitespace?: boolean
+          numeric_answer?: number | null
+          numeric_tolerance?: number
           options?: Json
           order_number?: number
+          points?: number
+          pool_id?: string | null
           question_type?: Database["public"]["Enums"]["question_type"]
+          scoring_mode?: string
           text?: string
+          tolerance_type?: string
         }
         Relationships: [
           {
@@ -181,6 +450,20 @@ export type Database = {
             referencedRelation: "assignments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "questions_bank_item_id_fkey"
+            columns: ["bank_item_id"]
+            isOneToOne: false
+            referencedRelation: "question_bank_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questions_pool_id_fkey"
+            columns: ["pool_id"]
+            isOneToOne: false
+            referencedRelation: "question_pools"
+            referencedColumns: ["id"]
+          },
         ]
       }
       student_answers: {
@@ -193,6 +476,7 @@ export type Database = {
           points_earned: number | null
           question_id: string
           selected_answer: number | null
+          selected_answers: number[] | null
           submission_id: string
           text_answer: string | null
         }
@@ -205,6 +489,7 @@ export type Database = {
           points_earned?: number | null
           question_id: string
           selected_answer?: number | null
+          selected_answers?: number[] | null
           submission_id: string
           text_answer?: string | null
         }
@@ -217,6 +502,7 @@ export type Database = {
           points_earned?: number | null
           question_id?: string
           selected_answer?: number | null
+          selected_answers?: number[] | null
           submission_id?: string
           text_answer?: string | null
         }
@@ -241,18 +527,24 @@ export type Database = {
         Row: {
           assigned_at: string
           assignment_id: string
+          extended_due_date: string | null
+          extra_time_minutes: number
           id: string
           student_id: string
         }
         Insert: {
           assigned_at?: string
           assignment_id: string
+          extended_due_date?: string | null
+          extra_time_minutes?: number
           id?: string
           student_id: string
         }
         Update: {
           assigned_at?: string
           assignment_id?: string
+          extended_due_date?: string | null
+          extra_time_minutes?: number
           id?: string
           student_id?: string
         }
@@ -269,26 +561,44 @@ export type Database = {
       submissions: {
         Row: {
           assignment_id: string
+          days_late: number
           id: string
+          late_penalty: number
+          max_score: number
+          received_at: string
           score: number | null
           student_id: string
           submitted_at: string
+          submitted_at_reported: boolean
+          time_expired: boolean
           total_questions: number
         }
         Insert: {
           assignment_id: string
+          days_late?: number
           id?: string
+          late_penalty?: number
+          max_score?: number
+          received_at?: string
           score?: number | null
           student_id: string
           submitted_at?: string
+          submitted_at_reported?: boolean
+          time_expired?: boolean
           total_questions: number
         }
         Update: {
           assignment_id?: string
+          days_late?: number
           id?: string
+          late_penalty?: number
+          max_score?: number
+          received_at?: string
           score?: number | null
           student_id?: string
           submitted_at?: string
+          submitted_at_reported?: boolean
+          time_expired?: boolean
           total_questions?: number
         }
         Relationships: [
@@ -334,21 +644,100 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      answer_key_released: {
+        Args: { _assignment_id: string; _student_id: string }
+        Returns: boolean
+      }
+      assert_assignment_open: {
+        Args: { _assignment_id: string; _at?: string }
+        Returns: undefined
+      }
+      assert_not_past_due: {
+        Args: { _assignment_id: string; _at?: string; _student_id: string }
+        Returns: undefined
+      }
+      assignment_availability: {
+        Args: { _assignment_id: string }
+        Returns: string
+      }
+      assignment_has_pools: {
+        Args: { _assignment_id: string }
+        Returns: boolean
+      }
+      assignment_question_count: {
+        Args: { _assignment_id: string }
+        Returns: number
+      }
+      can_manage_assignment: {
+        Args: { _assignment_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_answer_key: {
+        Args: { _assignment_id: string; _user_id: string }
+        Returns: boolean
+      }
+      draw_attempt_questions: {
+        Args: { _assignment_id: string }
+        Returns: string[]
+      }
+      duplicate_assignment: {
+        Args: {
+          _assignment_id: string
+          _due_date: string
+          _instructor_id: string
+          _student_ids: string[]
+          _title: string
+        }
+        Returns: string
+      }
       get_assignment_questions: {
-        Args: { _assignment_id: string; _include_answers?: boolean }
+        Args: {
+          _assignment_id: string
+          _include_answers?: boolean
+          _submission_id?: string
+        }
         Returns: {
+          accept_fractions: boolean
+          accepted_answers: string[]
+          answer_patterns: string[]
           assignment_id: string
+          case_sensitive: boolean
           correct_answer: number
+          correct_answers: number[]
           created_at: string
           explanation: string
           id: string
+          ignore_spacing: boolean
           model_answer: string
+          normalize_whitespace: boolean
+          numeric_answer: number
+          numeric_tolerance: number
           options: Json
           order_number: number
+          points: number
+          pool_id: string
           question_type: Database["public"]["Enums"]["question_type"]
+          scoring_mode: string
           text: string
+          tolerance_type: string
+        }[]
+      }
+      get_question_bank_usage: {
+        Args: { _item_id: string }
+        Returns: {
+          answer_count: number
+          assignment_id: string
+          assignment_title: string
+          average_credit: number
+          graded_count: number
+          question_id: string
+          used_at: string
         }[]
       }
+      get_submission_results: {
+        Args: { _submission_id: string }
+        Returns: Json
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -356,10 +745,129 @@ export type Database = {
         }
         Returns: boolean
       }
+      multiple_select_points: {
+        Args: { _key: number[]; _scoring_mode: string; _selected: number[] }
+        Returns: number
+      }
+      normalize_short_answer: {
+        Args: {
+          _case_sensitive: boolean
+          _ignore_spacing: boolean
+          _normalize_whitespace: boolean
+          _text: string
+        }
+        Returns: string
+      }
+      numeric_answer_correct: {
+        Args: {
+          _accept_fractions: boolean
+          _expected: number
+          _text: string
+          _tolerance: number
+          _tolerance_type: string
+        }
+        Returns: boolean
+      }
+      option_indexes_valid: {
+        Args: { _indexes: number[]; _option_count: number }
+        Returns: boolean
+      }
+      parse_numeric_answer: {
+        Args: { _accept_fractions: boolean; _text: string }
+        Returns: number
+      }
+      record_submission: {
+        Args: {
+          _answers: Json
+          _assignment_id: string
+          _attempt_id?: string
+          _student_id: string
+          _submitted_at?: string
+        }
+        Returns: Json
+      }
+      recalculate_submission_score: {
+        Args: { _submission_id: string }
+        Returns: number
+      }
+      regrade_assignment: {
+        Args: { _assignment_id: string }
+        Returns: {
+          new_max_score: number
+          new_score: number
+          new_total_questions: number
+          old_max_score: number
+          old_score: number
+          old_total_questions: number
+          student_id: string
+          student_name: string
+          submission_id: string
+        }[]
+      }
+      save_attempt_draft: {
+        Args: { _answers: Json; _assignment_id: string }
+        Returns: string
+      }
+      short_answer_correct: {
+        Args: {
+          _accepted: string[]
+          _case_sensitive: boolean
+          _ignore_spacing: boolean
+          _normalize_whitespace: boolean
+          _patterns: string[]
+          _text: string
+        }
+        Returns: boolean
+      }
+      start_assignment_attempt: {
+        Args: { _assignment_id: string }
+        Returns: {
+          attempt_id: string
+          deadline: string
+          draft_answers: Json
+          option_seed: number
+          question_ids: string[]
+          question_seed: number
+          saved_at: string
+        }[]
+      }
+      student_due_date: {
+        Args: { _assignment_id: string; _student_id: string }
+        Returns: string
+      }
+      submission_question_ids: {
+        Args: { _submission_id: string }
+        Returns: string[]
+      }
+      update_assignment: {
+        Args: {
+          _assignment: Json
+          _assignment_id: string
+          _pools: Json
+          _questions: Json
+          _regrade?: boolean
+        }
+        Returns: {
+          new_max_score: number
+          new_score: number
+          new_total_questions: number
+          old_max_score: number
+          old_score: number
+          old_total_questions: number
+          student_id: string
+          student_name: string
+          submission_id: string
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "instructor" | "student"
-      question_type: "multiple_choice" | "free_response"
+      question_type:
+        | "multiple_choice"
+        | "free_response"
+        | "multiple_select"
+        | "numeric"
+        | "short_answer"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -488,7 +996,13 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "instructor", "student"],
-      question_type: ["multiple_choice", "free_response"],
+      question_type: [
+        "multiple_choice",
+        "free_response",
+        "multiple_select",
+        "numeric",
+        "short_answer",
+      ],
     },
   },
 } as const
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { parseAiken } from "./aikenParser";
+
+const errorAt = (input: string) => {
+  const result = parseAiken(input);
+  if (result.success) throw new Error("expected a parse error");
+  return result;
+};
+
+describe("parseAiken", () => {
+  it("reads single and multiple answers", () => {
+    const result = parseAiken("프랑스의 수도는?\nA. 런던\nB) 파리\nANSWER: B\n\n소수를 고르시오.\nA. 2\nB. 3\nC. 4\nANSWER: a, B\n");
+    if (result.success === false) throw new Error(result.error);
+    expect(result.questions.map(q => [q.questionType, q.options, q.correctAnswer, q.correctAnswers])).toEqual([
+      ['multiple_choice', ["런던", "파리"], 1, []],
+      ['multiple_select', ["2", "3", "4"], null, [0, 1]],
+    ]);
+  });
+
+  it("points at the answer letter that names no option", () => {
+    expect(errorAt("Q\nA. x\nB. y\nANSWER: C")).toMatchObject({
+      line: 4,
+      column: 9,
+      error: '4행 9열: 정답 "C"은(는) A-B 중 하나여야 합니다',
+    });
+    expect(errorAt("Q\nA. x\nB. y\nC. z\nANSWER: A, D")).toMatchObject({ line: 5, column: 12 });
+    expect(errorAt("Q\nA. x\nB. y\nANSWER:   ")).toMatchObject({ line: 4, column: 11, error: "4행 11열: 정답 기호가 비어 있습니다" });
+  });
+
+  it("points at an option letter out of sequence, after its indentation", () => {
+    expect(errorAt("Q\nA. x\n  C. y\nANSWER: A")).toMatchObject({
+      line: 3,
+      column: 3,
+      error: "3행 3열: 선택지 기호는 B여야 합니다 (현재 C)",
+    });
+  });
+
+  it("reports a question without an ANSWER line where it starts", () => {
+    expect(errorAt("Q1\r\nA. x\r\nB. y\r\nANSWER: A\r\n\r\nQ2\r\nA. x\r\nB. y\r\n")).toMatchObject({
+      line: 6,
+      column: 1,
+      error: "6행 1열: 이 문제에 ANSWER: 줄이 없습니다",
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import type { ParsedQuestion } from "@/components/BulkQuestionInput";
+import { MAX_OPTIONS, MIN_OPTIONS } from "@/lib/questionOptions";
+import { defaultAnswerKeyFields } from "@/lib/questionTypes";
+
+// Moodle Aiken format: the question, then lettered options ("A." or "A)"), then "ANSWER: B".
+// "ANSWER: A, C" is also accepted and makes a multiple-select question.
+//
+//   프랑스의 수도는?
+//   A. 런던
+//   B. 파리
+//   ANSWER: B
+
+export interface AikenParseResult {
+  success: true;
+  questions: ParsedQuestion[];
+}
+
+export interface AikenParseError {
+  success: false;
+  error: string;
+  // 1-based position in the input
+  line: number;
+  column: number;
+}
+
+const OPTION_LINE = /^(\s*)([A-Za-z])[.)]\s+(.*)$/;
+const ANSWER_LINE = /^(\s*ANSWER\s*:\s*)(.*)$/i;
+
+export function parseAiken(input: string): AikenParseResult | AikenParseError {
+  const lines = input.replace(/\r\n?/g, "\n").split("\n");
+  const questions: ParsedQuestion[] = [];
+  const fail = (line: number, column: number, message: string): AikenParseError => ({
+    success: false,
+    error: `${line}행 ${column}열: ${message}`,
+    line,
+    column,
+  });
+
+  let textLines: string[] = [];
+  let textStartLine = 0;
+  let options: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    const line = lines[i];
+    const answer = line.match(ANSWER_LINE);
+    const option = line.match(OPTION_LINE);
+
+    if (answer) {
+      if (textLines.length === 0) return fail(lineNumber, 1, "ANSWER: 앞에 문제가 없습니다");
+      if (options.length < MIN_OPTIONS) {
+        return fail(lineNumber, 1, `선택지는 ${MIN_OPTIONS}개 이상이어야 합니다 (현재 ${options.length}개)`);
+      }
+      if (!answer[2].replace(/,/g, "").trim()) return fail(lineNumber, answer[1].length + 1, "정답 기호가 비어 있습니다");
+      const correct: number[] = [];
+      let column = answer[1].length + 1;
+      for (const letter of answer[2].split(/([\s,]+)/)) {
+        if (letter && !/^[\s,]+$/.test(letter)) {
+          const index = letter.length === 1 ? letter.toUpperCase().charCodeAt(0) - 65 : -1;
+          if (index < 0 || index >= options.length) {
+            const last = String.fromCharCode(64 + options.length);
+            return fail(lineNumber, column, `정답 "${letter}"은(는) A-${last} 중 하나여야 합니다`);
+          }
+          if (!correct.includes(index)) correct.push(index);
+        }
+        column += letter.length;
+      }
+
+      const multiple = correct.length > 1;
+      questions.push({
+        text: textLines.join("\n").trim(),
+        options,
+        correctAnswer: multiple ? null : correct[0],
+        ...defaultAnswerKeyFields,
+        correctAnswers: multiple ? correct.sort((a, b) => a - b) : [],
+        points: 1,
+        explanation: "",
+        questionType: multiple ? 'multiple_select' : 'multiple_choice',
+        modelAnswer: "",
+      });
+      textLines = [];
+      options = [];
+      continue;
+    }
+
+    if (option && textLines.length > 0) {
+      const expected = String.fromCharCode(65 + options.length);
+      const letter = option[2].toUpperCase();
+      // Question text may itself start like an option ("A) ..."), so only the expected letter counts
+      if (letter === expected) {
+        if (options.length === MAX_OPTIONS) {
+          return fail(lineNumber, option[1].length + 1, `선택지는 ${MAX_OPTIONS}개까지만 쓸 수 있습니다`);
+        }
+        options.push(option[3].trim());
+        continue;
+      }
+      if (options.length > 0) {
+        return fail(lineNumber, option[1].length + 1, `선택지 기호는 ${expected}여야 합니다 (현재 ${option[2]})`);
+      }
+    }
+
+    if (!line.trim()) {
+      if (options.length > 0) continue;
+      if (textLines.length > 0) textLines.push("");
+      continue;
+    }
+    if (options.length > 0) {
+      return fail(lineNumber, 1, `선택지 뒤에는 다음 선택지(${String.fromCharCode(65 + options.length)}.)나 ANSWER: 줄이 와야 합니다`);
+    }
+    if (textLines.length === 0) textStartLine = lineNumber;
+    textLines.push(line.trim());
+  }
+
+  if (textLines.length > 0) {
+    return fail(textStartLine, 1, "이 문제에 ANSWER: 줄이 없습니다");
+  }
+  if (questions.length === 0) {
+    return fail(1, 1, "문제를 찾을 수 없습니다.");
+  }
+  return { success: true, questions };
+}
@@ -0,0 +1,85 @@
+export type AnswerRevealPolicy = 'never' | 'immediately' | 'after_due_date' | 'after_last_attempt';
+
+export interface AnswerRevealConfig {
+  policy: AnswerRevealPolicy;
+  correctness: boolean;
+  correctOption: boolean;
+  explanation: boolean;
+  modelAnswer: boolean;
+}
+
+export const defaultAnswerRevealConfig: AnswerRevealConfig = {
+  policy: 'immediately',
+  correctness: true,
+  correctOption: true,
+  explanation: true,
+  modelAnswer: true,
+};
+
+export const answerRevealPolicyLabels: Record<AnswerRevealPolicy, string> = {
+  never: "공개하지 않음",
+  immediately: "제출 직후 공개",
+  after_due_date: "마감일 이후 공개",
+  after_last_attempt: "마지막 제출 이후 공개",
+};
+
+// Maps the config to the assignments table columns
+export const toAnswerRevealColumns = (config: AnswerRevealConfig) => ({
+  answer_reveal_policy: config.policy,
+  reveal_correctness: config.correctness,
+  reveal_correct_option: config.correctOption,
+  reveal_explanation: config.explanation,
+  reveal_model_answer: config.modelAnswer,
+});
+
+export const fromAnswerRevealColumns = (assignment: {
+  answer_reveal_policy: string;
+  reveal_correctness: boolean;
+  reveal_correct_option: boolean;
+  reveal_explanation: boolean;
+  reveal_model_answer: boolean;
+}): AnswerRevealConfig => ({
+  policy: assignment.answer_reveal_policy as AnswerRevealPolicy,
+  correctness: assignment.reveal_correctness,
+  correctOption: assignment.reveal_correct_option,
+  explanation: assignment.reveal_explanation,
+  modelAnswer: assignment.reveal_model_answer,
+});
+
+// What get_submission_results allows the student to see for one submission
+export interface SubmissionReveal {
+  policy: AnswerRevealPolicy;
+  released: boolean;
+  correctness: boolean;
+  correct_option: boolean;
+  explanation: boolean;
+  model_answer: boolean;
+}
+
+export interface SubmissionResults {
+  submission_id: string;
+  score: number;
+  total_questions: number;
+  max_score: number;
+  // Lateness recorded at submission; score already has late_penalty percent taken off
+  days_late: number;
+  late_penalty: number;
+  // Submitted after the attempt's time limit ran out; the answers were discarded
+  time_expired: boolean;
+  // Shuffle seeds of the attempt the submission came from
+  question_seed: number | null;
+  option_seed: number | null;
+  reveal: SubmissionReveal;
+  results: {
+    question_id: string;
+    question_type: string;
+    selected_answer: number | null;
+    selected_answers: number[] | null;
+    text_answer: string | null;
+    is_correct: boolean | null;
+    points: number;
+    points_earned: number | null;
+    feedback: string | null;
+    graded_at: string | null;
+  }[];
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { analyzeASC, parseASC } from "./ascParser";
+
+const questionsOf = (input: string) => {
+  const result = parseASC(input);
+  if (result.success === false) throw new Error(result.error);
+  return result.questions;
+};
+
+describe("parseASC", () => {
+  it("reads points, option counts and each question type", () => {
+    const questions = questionsOf("7: 3*2 7/8 [13] [1,10]/10*1.5 N(3.14±0.01) S(서울 | 서울특별시) F(2x)*5");
+    expect(questions.map(q => [q.questionType, q.points])).toEqual([
+      ['multiple_choice', 2],
+      ['multiple_choice', 1],
+      ['multiple_select', 1],
+      ['multiple_select', 1.5],
+      ['numeric', 1],
+      ['short_answer', 1],
+      ['free_response', 5],
+    ]);
+    expect([questions[0].options.length, questions[0].correctAnswer]).toEqual([5, 2]);
+    expect([questions[1].options.length, questions[1].correctAnswer]).toEqual([8, 6]);
+    expect(questions[2].correctAnswers).toEqual([0, 2]);
+    expect([questions[3].options.length, questions[3].correctAnswers]).toEqual([10, [0, 9]]);
+    expect([questions[4].numericAnswer, questions[4].numericTolerance, questions[4].toleranceType]).toEqual(["3.14", 0.01, 'absolute']);
+    expect(questions[5].acceptedAnswers).toEqual(["서울", "서울특별시"]);
+    expect(questions[6].modelAnswer).toBe("2x");
+  });
+
+  it("reads relative tolerances and fractions in numeric answers", () => {
+    const [relative, fraction] = questionsOf("2: N(100±5%) N(1/3)");
+    expect([relative.numericAnswer, relative.numericTolerance, relative.toleranceType]).toEqual(["100", 5, 'relative']);
+    expect([fraction.numericAnswer, fraction.numericTolerance]).toEqual(["1/3", 0]);
+  });
+
+  it("needs a space between a points weight and the next answer", () => {
+    expect(questionsOf("2: 3*2 5").map(q => [q.correctAnswer, q.points])).toEqual([[2, 2], [4, 1]]);
+    expect(parseASC("2: 3*25").success).toBe(false);
+  });
+
+  it("reads \"10\" as one answer only when an option count follows", () => {
+    expect(questionsOf("1: 10/10")[0].correctAnswer).toBe(9);
+    expect(analyzeASC("2: 10").answerCount).toBe(2);
+    expect(parseASC("2: 10").success).toBe(false);
+  });
+
+  it("numbers questions within their sections", () => {
+    expect(questionsOf("4: 12 | 3 F").map(q => q.text)).toEqual(["문제 1-1", "문제 1-2", "문제 2-1", "문제 2-2"]);
+  });
+});
+
+const spans = (items: { start: number; end: number }[]) => items.map(item => [item.start, item.end]);
+
+describe("analyzeASC", () => {
+  it("tokenizes each part of an answer code by its offsets", () => {
+    const analysis = analyzeASC("  4: 3*2 [13] S(a|b) N(1/2)");
+    expect(analysis.tokens.map(token => [token.type, token.start, token.end])).toEqual([
+      ['prefix', 2, 4],
+      ['mcq', 5, 6],
+      ['points', 6, 8],
+      ['mcq-multi', 9, 13],
+      ['sa', 14, 15],
+      ['sa-content', 15, 20],
+      ['numeric', 21, 22],
+      ['numeric-content', 22, 27],
+    ]);
+    expect(analysis.diagnostics).toEqual([]);
+    expect([analysis.expectedCount, analysis.answerCount, analysis.questions.length]).toEqual([4, 4, 4]);
+  });
+
+  it("keeps going past errors and marks each where it is", () => {
+    const { diagnostics, answerCount, questions } = analyzeASC("3: 6 N(x) *2 Q");
+    expect(spans(diagnostics)).toEqual([[3, 4], [6, 9], [10, 12], [13, 14], [0, 1]]);
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      '잘못된 MCQ 정답입니다: "6". 1-5 사이의 숫자만 가능합니다. 선택지가 5개보다 많으면 "6/6"처럼 선택지 수를 지정해주세요.',
+      '문제 2의 수치 정답이 올바르지 않습니다: "x"',
+      "배점(*N)은 문제 정답 바로 뒤에 붙여 써야 합니다. (예: 3*2)",
+      '알 수 없는 문자입니다: "Q"',
+      "정답 개수가 일치하지 않습니다. 입력: 2개, 예상: 3개",
+    ]);
+    expect([answerCount, questions.length]).toEqual([2, 0]);
+  });
+
+  it("marks extra answers themselves and missing ones on the count", () => {
+    expect(spans(analyzeASC("2: 1 2 3 4").diagnostics)).toEqual([[7, 10]]);
+    expect(spans(analyzeASC("3: 1 2").diagnostics)).toEqual([[0, 1]]);
+  });
+
+  it("runs an unclosed bracket or parenthesis to the end of the input", () => {
+    const analysis = analyzeASC("2: 1 S(a");
+    expect(analysis.tokens.at(-1)).toEqual({ type: 'sa-content', start: 6, end: 8 });
+    expect(spans(analysis.diagnostics)).toEqual([[6, 8]]);
+    expect(spans(analyzeASC("2: 1 [23").diagnostics)).toEqual([[5, 8]]);
+  });
+
+  it("marks empty sections at their section break", () => {
+    expect(spans(analyzeASC("2: 1 || 2").diagnostics)).toEqual([[6, 7]]);
+    expect(spans(analyzeASC("1: 1 |").diagnostics)).toEqual([[5, 6]]);
+  });
+
+  it("only warns about a multiple-select answer with one choice", () => {
+    const { diagnostics, questions } = analyzeASC("1: [3]");
+    expect(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.start, diagnostic.end])).toEqual([['warning', 3, 6]]);
+    expect(questions[0].correctAnswers).toEqual([2]);
+  });
+
+  it("marks the whole input when the count prefix is missing", () => {
+    const analysis = analyzeASC("12345");
+    expect(spans(analysis.diagnostics)).toEqual([[0, 5]]);
+    expect(analysis.expectedCount).toBeNull();
+  });
+});
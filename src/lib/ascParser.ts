@@ -1,4 +1,17 @@
 import type { ParsedQuestion } from "@/components/BulkQuestionInput";
+import { DEFAULT_OPTION_COUNT, MAX_OPTIONS, MIN_OPTIONS, createDefaultOptions } from "@/lib/questionOptions";
+import { defaultAnswerKeyFields } from "@/lib/questionTypes";
+import { parseNumericAnswer, splitNumericTolerance } from "@/lib/numericAnswer";
+
+// ASC (answer code): "N:" with the number of questions, then one token per question.
+//   3           multiple choice, answer 3 of 5 options
+//   7/8         answer 7 of 8 options (2-10)
+//   [13]        multiple select, answers 1 and 3; [1,10]/10 when an answer is 10
+//   F, F(2x)    free response, with an optional model answer
+//   S(a|b)      short answer with its accepted answers
+//   N(3.14±0.01) numeric, with an optional absolute or % tolerance
+// Any question may end in *points (3*2, F(2x)*5); "|" starts a new section. A digit after a
+// points weight needs a space: "3*2 5".
 
 export interface ASCParseResult {
   success: true;
@@ -8,9 +21,93 @@ export interface ASCParseResult {
 export interface ASCParseError {
   success: false;
   error: string;
+  // Offsets of the offending span in the input (end is exclusive)
+  start: number;
+  end: number;
+}
+
+export type ASCTokenType =
+  | 'prefix' | 'mcq' | 'mcq-multi' | 'frq' | 'frq-content' | 'sa' | 'sa-content'
+  | 'numeric' | 'numeric-content' | 'points' | 'section';
+
+export interface ASCToken {
+  type: ASCTokenType;
+  start: number; // offset in the input
+  end: number; // exclusive
+}
+
+export interface ASCDiagnostic {
+  // Errors keep the code from being parsed; warnings only flag likely mistakes
+  severity: 'error' | 'warning';
+  message: string;
+  start: number;
+  end: number; // exclusive
+}
+
+export interface ASCAnalysis {
+  tokens: ASCToken[];
+  diagnostics: ASCDiagnostic[];
+  expectedCount: number | null; // null when the "N:" prefix is missing or invalid
+  answerCount: number; // answers entered so far, valid or not
+  questions: ParsedQuestion[];
+}
+
+interface MCQToken {
+  answer: number; // 1-based
+  optionCount: number | null; // null when no "/n" suffix was given
+  endIndex: number; // index of the last character of the token
+}
+
+// Reads an optional "/n" option count at slashIndex; NaN when the slash has no count after it
+function readOptionCountSuffix(input: string, slashIndex: number): { optionCount: number | null; endIndex: number } {
+  if (input[slashIndex] !== '/') return { optionCount: null, endIndex: slashIndex - 1 };
+  const countText = input.startsWith('10', slashIndex + 1) ? '10' : input[slashIndex + 1];
+  if (countText === undefined || !/^[0-9]+$/.test(countText)) {
+    return { optionCount: NaN, endIndex: slashIndex };
+  }
+  return { optionCount: parseInt(countText, 10), endIndex: slashIndex + countText.length };
+}
+
+// Reads an MCQ answer at startIndex: "3" or "7/8" (answer 7 of 8 options). The answer
+// may only be "10" when an option count follows, so "10" alone stays answers 1 and 0.
+function readMCQToken(input: string, startIndex: number): MCQToken | null {
+  let answerText = input[startIndex];
+  if (!/[0-9]/.test(answerText)) return null;
+  if (input.startsWith('10/', startIndex)) answerText = '10';
+
+  const { optionCount, endIndex } = readOptionCountSuffix(input, startIndex + answerText.length);
+  return { answer: parseInt(answerText, 10), optionCount, endIndex };
+}
+
+interface MultiAnswerToken {
+  answers: number[] | null; // 1-based; null when the brackets hold anything but answer numbers
+  optionCount: number | null;
+  endIndex: number; // -1 when the bracket is never closed
+}
+
+// Reads a multi-answer MCQ at startIndex: "[13]" (answers 1 and 3), "[1,10]/10" when an answer
+// has two digits
+function readMultiAnswerToken(input: string, startIndex: number): MultiAnswerToken | null {
+  if (input[startIndex] !== '[') return null;
+  const closeIndex = input.indexOf(']', startIndex);
+  if (closeIndex === -1) return { answers: null, optionCount: null, endIndex: -1 };
+
+  const content = input.substring(startIndex + 1, closeIndex);
+  const parts = content.includes(',') ? content.split(',').map(part => part.trim()) : content.replace(/\s+/g, '').split('');
+  const answers = parts.every(part => /^[0-9]+$/.test(part)) && parts.length > 0
+    ? [...new Set(parts.map(part => parseInt(part, 10)))].sort((a, b) => a - b)
+    : null;
+  const { optionCount, endIndex } = readOptionCountSuffix(input, closeIndex + 1);
+  return { answers, optionCount, endIndex };
 }
 
-const DEFAULT_OPTIONS = ["1", "2", "3", "4", "5"];
+// Reads a "*points" weight at startIndex, e.g. "*2" or "*1.5"; points is NaN when no number follows
+function readPointsToken(input: string, startIndex: number): { points: number; endIndex: number } | null {
+  if (input[startIndex] !== '*') return null;
+  const match = input.substring(startIndex + 1).match(/^\d+(\.\d+)?/);
+  if (!match) return { points: NaN, endIndex: startIndex };
+  return { points: Number(match[0]), endIndex: startIndex + match[0].length };
+}
 
 function parseBalancedParentheses(input: string, startIndex: number): { content: string; endIndex: number } | null {
   if (input[startIndex] !== '(') return null;
@@ -38,106 +135,244 @@ function parseBalancedParentheses(input: string, startIndex: number): { content:
   return null; // Unbalanced parentheses
 }
 
-export function parseASC(input: string): ASCParseResult | ASCParseError {
-  const trimmed = input.trim();
-  
+// Tokenizes and validates an answer code in one pass. It keeps going past errors so the input can
+// highlight every problem while the user types; the questions are complete only when no error was found.
+export function analyzeASC(input: string): ASCAnalysis {
+  const tokens: ASCToken[] = [];
+  const diagnostics: ASCDiagnostic[] = [];
+  const error = (start: number, end: number, message: string) => diagnostics.push({ severity: 'error', message, start, end });
+  const warn = (start: number, end: number, message: string) => diagnostics.push({ severity: 'warning', message, start, end });
+
   // Extract count prefix (e.g., "10:")
-  const colonIndex = trimmed.indexOf(':');
+  const colonIndex = input.indexOf(':');
   if (colonIndex === -1) {
-    return { success: false, error: "형식 오류: 'N:' 형식으로 문제 개수를 지정해주세요. (예: 10: 12345)" };
+    error(0, input.length, "형식 오류: 'N:' 형식으로 문제 개수를 지정해주세요. (예: 10: 12345)");
+    return { tokens, diagnostics, expectedCount: null, answerCount: 0, questions: [] };
   }
-  
-  const countStr = trimmed.substring(0, colonIndex).trim();
-  const expectedCount = parseInt(countStr, 10);
-  
+
+  const prefixStart = Math.min(input.search(/\S/), colonIndex);
+  tokens.push({ type: 'prefix', start: prefixStart, end: colonIndex + 1 });
+  let expectedCount: number | null = parseInt(input.substring(0, colonIndex).trim(), 10);
   if (isNaN(expectedCount) || expectedCount <= 0) {
-    return { success: false, error: "문제 개수가 올바르지 않습니다. 양의 정수를 입력해주세요." };
+    error(prefixStart, colonIndex + 1, "문제 개수가 올바르지 않습니다. 양의 정수를 입력해주세요.");
+    expectedCount = null;
   }
-  
-  const answerPart = trimmed.substring(colonIndex + 1).trim();
-  const questions: ParsedQuestion[] = [];
-  
-  let i = 0;
-  while (i < answerPart.length) {
-    const char = answerPart[i];
+
+  // One entry per answer entered, with its question when the answer is valid
+  const answers: { start: number; end: number; section: number; question: ParsedQuestion | null }[] = [];
+  let section = 0;
+  let lastSectionBreak = -1;
+
+  const addAnswer = (start: number, end: number, fields: Partial<ParsedQuestion> | null) => {
+    answers.push({
+      start,
+      end,
+      section,
+      question: fields && {
+        text: `문제 ${answers.length + 1}`,
+        options: createDefaultOptions(),
+        correctAnswer: null,
+        ...defaultAnswerKeyFields,
+        points: 1,
+        explanation: "",
+        questionType: 'multiple_choice',
+        modelAnswer: "",
+        ...fields,
+      },
+    });
+  };
+
+  const isValidOptionCount = (optionCount: number) =>
+    !isNaN(optionCount) && optionCount >= MIN_OPTIONS && optionCount <= MAX_OPTIONS;
+  const optionCountError = (start: number, end: number) =>
+    error(start, end, `선택지 수가 올바르지 않습니다: "${input.substring(start, end)}". ${MIN_OPTIONS}-${MAX_OPTIONS} 사이여야 합니다.`);
+
+  let i = colonIndex + 1;
+  while (i < input.length) {
+    const char = input[i];
     
     // Skip whitespace
     if (/\s/.test(char)) {
       i++;
       continue;
     }
-    
-    // MCQ: digits 1-5
-    if (/[1-5]/.test(char)) {
-      questions.push({
-        text: `문제 ${questions.length + 1}`,
-        options: [...DEFAULT_OPTIONS],
-        correctAnswer: parseInt(char, 10) - 1, // Convert 1-5 to 0-4
-        explanation: "",
-        questionType: 'multiple_choice',
-        modelAnswer: "",
-      });
+
+    // Section break
+    if (char === '|') {
+      tokens.push({ type: 'section', start: i, end: i + 1 });
+      if (answers.length === 0 || answers[answers.length - 1].section !== section) {
+        error(i, i + 1, "구역 구분(|) 사이에 문제가 없습니다.");
+      }
+      section++;
+      lastSectionBreak = i;
       i++;
       continue;
     }
-    
-    // Invalid MCQ digit
-    if (/[0-9]/.test(char)) {
-      return { success: false, error: `잘못된 MCQ 정답입니다: "${char}". 1-5 사이의 숫자만 가능합니다.` };
+
+    // Points for the answer right before: "*2", "*1.5"
+    const points = readPointsToken(input, i);
+    if (points) {
+      const end = points.endIndex + 1;
+      const last = answers[answers.length - 1];
+      tokens.push({ type: 'points', start: i, end });
+      if (!last || last.end !== i) {
+        error(i, end, "배점(*N)은 문제 정답 바로 뒤에 붙여 써야 합니다. (예: 3*2)");
+      } else if (isNaN(points.points) || points.points <= 0) {
+        error(i, end, `배점이 올바르지 않습니다: "${input.substring(i, end)}". 0보다 큰 숫자여야 합니다.`);
+      } else if (last.question) {
+        last.question.points = points.points;
+      }
+      i = end;
+      continue;
     }
     
-    // FRQ: F or F(answer)
-    if (char === 'F' || char === 'f') {
-      const nextIndex = i + 1;
-      
-      // Check if followed by parentheses
-      if (nextIndex < answerPart.length && answerPart[nextIndex] === '(') {
-        const result = parseBalancedParentheses(answerPart, nextIndex);
-        
-        if (!result) {
-          return { success: false, error: "괄호가 올바르게 닫히지 않았습니다." };
-        }
-        
-        questions.push({
-          text: `문제 ${questions.length + 1}`,
-          options: [...DEFAULT_OPTIONS],
-          correctAnswer: null,
-          explanation: "",
-          questionType: 'free_response',
-          modelAnswer: result.content,
+    // MCQ: a digit 1-5, or "answer/optionCount" for 2-10 options
+    const mcq = readMCQToken(input, i);
+    if (mcq) {
+      const end = mcq.endIndex + 1;
+      const optionCount = mcq.optionCount ?? DEFAULT_OPTION_COUNT;
+      tokens.push({ type: 'mcq', start: i, end });
+      if (!isValidOptionCount(optionCount)) {
+        optionCountError(i, end);
+        addAnswer(i, end, null);
+      } else if (mcq.answer < 1 || mcq.answer > optionCount) {
+        const hint = mcq.optionCount === null && mcq.answer > DEFAULT_OPTION_COUNT
+          ? ` 선택지가 ${DEFAULT_OPTION_COUNT}개보다 많으면 "${mcq.answer}/${Math.max(mcq.answer, 6)}"처럼 선택지 수를 지정해주세요.`
+          : "";
+        error(i, end, `잘못된 MCQ 정답입니다: "${input.substring(i, end)}". 1-${optionCount} 사이의 숫자만 가능합니다.${hint}`);
+        addAnswer(i, end, null);
+      } else {
+        addAnswer(i, end, {
+          options: createDefaultOptions(optionCount),
+          correctAnswer: mcq.answer - 1, // Convert to 0-based
         });
-        
-        i = result.endIndex + 1;
+      }
+      i = end;
+      continue;
+    }
+
+    // Multi-answer MCQ: [13], [1,10]/10
+    const multi = readMultiAnswerToken(input, i);
+    if (multi) {
+      if (multi.endIndex === -1) {
+        tokens.push({ type: 'mcq-multi', start: i, end: input.length });
+        error(i, input.length, "대괄호가 올바르게 닫히지 않았습니다.");
+        addAnswer(i, input.length, null);
+        break;
+      }
+      const end = multi.endIndex + 1;
+      const optionCount = multi.optionCount ?? DEFAULT_OPTION_COUNT;
+      tokens.push({ type: 'mcq-multi', start: i, end });
+      if (!isValidOptionCount(optionCount)) {
+        optionCountError(i, end);
+        addAnswer(i, end, null);
+      } else if (!multi.answers || multi.answers.some(answer => answer < 1 || answer > optionCount)) {
+        error(i, end, `잘못된 복수 정답입니다: "${input.substring(i, end)}". 1-${optionCount} 사이의 번호를 적어주세요. 10번은 [1,10]/10처럼 쉼표로 구분합니다.`);
+        addAnswer(i, end, null);
       } else {
-        // FRQ without model answer
-        questions.push({
-          text: `문제 ${questions.length + 1}`,
-          options: [...DEFAULT_OPTIONS],
-          correctAnswer: null,
-          explanation: "",
-          questionType: 'free_response',
-          modelAnswer: "",
+        if (multi.answers.length === 1) {
+          warn(i, end, `정답이 하나뿐인 복수 선택 문제입니다. 객관식이면 괄호 없이 ${multi.answers[0]}처럼 적어주세요.`);
+        }
+        addAnswer(i, end, {
+          options: createDefaultOptions(optionCount),
+          correctAnswers: multi.answers.map(answer => answer - 1),
+          questionType: 'multiple_select',
         });
+      }
+      i = end;
+      continue;
+    }
+
+    // FRQ: F or F(answer); short answer: S(answer|answer); numeric: N(answer±tolerance)
+    if ('FfSsNn'.includes(char)) {
+      const kind = char.toUpperCase() === 'F' ? 'frq' : char.toUpperCase() === 'S' ? 'sa' : 'numeric';
+      tokens.push({ type: kind, start: i, end: i + 1 });
+
+      if (input[i + 1] !== '(') {
+        if (kind === 'frq') {
+          // FRQ without model answer
+          addAnswer(i, i + 1, { questionType: 'free_response' });
+        } else {
+          error(i, i + 1, kind === 'sa'
+            ? "단답형은 S(정답) 형식으로 정답을 함께 적어주세요."
+            : "수치형은 N(정답) 형식으로 정답을 함께 적어주세요.");
+          addAnswer(i, i + 1, null);
+        }
         i++;
+        continue;
       }
+
+      const result = parseBalancedParentheses(input, i + 1);
+      if (!result) {
+        tokens.push({ type: `${kind}-content`, start: i + 1, end: input.length });
+        error(i + 1, input.length, "괄호가 올바르게 닫히지 않았습니다.");
+        addAnswer(i, input.length, null);
+        break;
+      }
+      const end = result.endIndex + 1;
+      const questionNumber = answers.length + 1;
+      tokens.push({ type: `${kind}-content`, start: i + 1, end });
+
+      if (kind === 'frq') {
+        addAnswer(i, end, { questionType: 'free_response', modelAnswer: result.content });
+      } else if (kind === 'sa') {
+        const acceptedAnswers = result.content.split('|').map(answer => answer.trim()).filter(answer => answer);
+        if (acceptedAnswers.length === 0) {
+          error(i, end, `문제 ${questionNumber}의 단답형 정답이 비어 있습니다.`);
+        }
+        addAnswer(i, end, acceptedAnswers.length > 0 ? { questionType: 'short_answer', acceptedAnswers } : null);
+      } else {
+        const { answer, tolerance, toleranceType } = splitNumericTolerance(result.content);
+        if (parseNumericAnswer(answer, true) === null) {
+          error(i + 1, end, `문제 ${questionNumber}의 수치 정답이 올바르지 않습니다: "${result.content}"`);
+          addAnswer(i, end, null);
+        } else if (isNaN(tolerance)) {
+          error(i + 1, end, `문제 ${questionNumber}의 허용 오차가 올바르지 않습니다: "${result.content}"`);
+          addAnswer(i, end, null);
+        } else {
+          addAnswer(i, end, { questionType: 'numeric', numericAnswer: answer, numericTolerance: tolerance, toleranceType });
+        }
+      }
+      i = end;
       continue;
     }
     
     // Unknown character
-    return { success: false, error: `알 수 없는 문자입니다: "${char}"` };
+    error(i, i + 1, `알 수 없는 문자입니다: "${char}"`);
+    i++;
   }
-  
-  // Validate count
-  if (questions.length !== expectedCount) {
-    return { 
-      success: false, 
-      error: `정답 개수가 일치하지 않습니다. 입력: ${questions.length}개, 예상: ${expectedCount}개` 
-    };
+
+  if (section > 0 && (answers.length === 0 || answers[answers.length - 1].section !== section)) {
+    error(lastSectionBreak, lastSectionBreak + 1, "마지막 구역 구분(|) 뒤에 문제가 없습니다.");
   }
-  
-  if (questions.length === 0) {
-    return { success: false, error: "문제를 찾을 수 없습니다." };
+
+  // Validate count: extra answers are marked themselves, missing ones on the count
+  if (expectedCount !== null && answers.length !== expectedCount) {
+    const message = `정답 개수가 일치하지 않습니다. 입력: ${answers.length}개, 예상: ${expectedCount}개`;
+    if (answers.length > expectedCount) {
+      error(answers[expectedCount].start, answers[answers.length - 1].end, message);
+    } else {
+      error(prefixStart, colonIndex, message);
+    }
+  }
+
+  const questions = answers.map(answer => answer.question).filter(question => question !== null);
+  // With sections, questions are numbered within their section: "문제 2-3"
+  if (section > 0 && questions.length === answers.length) {
+    answers.forEach((answer, index) => {
+      const number = answers.slice(0, index + 1).filter(a => a.section === answer.section).length;
+      answer.question.text = `문제 ${answer.section + 1}-${number}`;
+    });
+  }
+
+  return { tokens, diagnostics, expectedCount, answerCount: answers.length, questions };
+}
+
+export function parseASC(input: string): ASCParseResult | ASCParseError {
+  const { diagnostics, questions } = analyzeASC(input);
+  const firstError = diagnostics.find(diagnostic => diagnostic.severity === 'error');
+  if (firstError) {
+    return { success: false, error: firstError.message, start: firstError.start, end: firstError.end };
   }
-  
   return { success: true, questions };
 }
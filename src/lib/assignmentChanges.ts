@@ -0,0 +1,173 @@
+import { AnswerKeyFields, QuestionType, sameAnswerSet, scoreMultipleSelect } from "./questionTypes";
+import { isNumericAnswerCorrect, parseNumericAnswer } from "./numericAnswer";
+import { isShortAnswerCorrect } from "./shortAnswer";
+
+export interface EditableQuestion extends AnswerKeyFields {
+  id?: string;
+  text: string;
+  options: string[];
+  correctAnswer: number | null;
+  points: number;
+  questionType: QuestionType;
+}
+
+export interface ExistingSubmission {
+  id: string;
+  student_id: string;
+  score: number | null;
+  max_score: number;
+  submitted_at: string;
+  student: {
+    full_name: string | null;
+  } | null;
+  student_answers: {
+    question_id: string;
+    selected_answer: number | null;
+    selected_answers: number[] | null;
+    text_answer: string | null;
+  }[];
+}
+
+export interface QuestionChanges {
+  // Questions whose answer key or type changed (grading-relevant)
+  answerKeyChanged: string[];
+  // Questions whose point weight changed while the key stayed the same
+  pointsChanged: string[];
+  // Questions deleted from the assignment (their answers are deleted too)
+  removed: string[];
+  // Number of newly added questions
+  added: number;
+  // Questions whose wording or options changed without affecting grading
+  contentChanged: string[];
+}
+
+export interface SubmissionImpact {
+  submission: ExistingSubmission;
+  reasons: string[];
+}
+
+type ExistingAnswer = ExistingSubmission["student_answers"][number];
+
+const nonBlank = (items: string[]) => items.filter(item => item.trim());
+
+// Whether an all-or-nothing answer is correct under the given key, as grade_submission_answers() decides
+function isAnswerCorrect(answer: ExistingAnswer, question: EditableQuestion): boolean {
+  if (question.questionType === 'numeric') {
+    const expected = parseNumericAnswer(question.numericAnswer, true);
+    return expected !== null &&
+      isNumericAnswerCorrect(answer.text_answer, expected, question.numericTolerance, question.toleranceType, question.acceptFractions);
+  }
+  if (question.questionType === 'short_answer') {
+    return isShortAnswerCorrect(answer.text_answer, nonBlank(question.acceptedAnswers), nonBlank(question.answerPatterns), question);
+  }
+  return answer.selected_answer === question.correctAnswer;
+}
+
+export function diffQuestions(original: EditableQuestion[], edited: EditableQuestion[]): QuestionChanges {
+  const editedById = new Map(edited.filter(q => q.id).map(q => [q.id!, q]));
+  const changes: QuestionChanges = {
+    answerKeyChanged: [],
+    pointsChanged: [],
+    removed: [],
+    added: edited.filter(q => !q.id).length,
+    contentChanged: [],
+  };
+
+  original.forEach(q => {
+    if (!q.id) return;
+    const next = editedById.get(q.id);
+    if (!next) {
+      changes.removed.push(q.id);
+      return;
+    }
+    const keyChanged = next.questionType !== q.questionType ||
+      (q.questionType === 'multiple_choice' && next.correctAnswer !== q.correctAnswer) ||
+      (q.questionType === 'multiple_select' &&
+        (!sameAnswerSet(next.correctAnswers, q.correctAnswers) || next.scoringMode !== q.scoringMode)) ||
+      (q.questionType === 'numeric' &&
+        (parseNumericAnswer(next.numericAnswer, true) !== parseNumericAnswer(q.numericAnswer, true) ||
+          next.numericTolerance !== q.numericTolerance ||
+          next.toleranceType !== q.toleranceType ||
+          next.acceptFractions !== q.acceptFractions)) ||
+      (q.questionType === 'short_answer' &&
+        (nonBlank(next.acceptedAnswers).join("\u0000") !== nonBlank(q.acceptedAnswers).join("\u0000") ||
+          nonBlank(next.answerPatterns).join("\u0000") !== nonBlank(q.answerPatterns).join("\u0000") ||
+          next.caseSensitive !== q.caseSensitive ||
+          next.normalizeWhitespace !== q.normalizeWhitespace ||
+          next.ignoreSpacing !== q.ignoreSpacing));
+    if (keyChanged) {
+      changes.answerKeyChanged.push(q.id);
+    } else if (next.points !== q.points) {
+      changes.pointsChanged.push(q.id);
+    } else if (next.text !== q.text || next.options.join("\u0000") !== q.options.join("\u0000")) {
+      changes.contentChanged.push(q.id);
+    }
+  });
+
+  return changes;
+}
+
+export function hasGradingChanges(changes: QuestionChanges): boolean {
+  return changes.answerKeyChanged.length > 0 || changes.pointsChanged.length > 0 || changes.removed.length > 0 || changes.added > 0;
+}
+
+// Works out, per existing submission, how an edit would change its stored answers or grade
+export function getSubmissionImpacts(
+  original: EditableQuestion[],
+  edited: EditableQuestion[],
+  submissions: ExistingSubmission[]
+): SubmissionImpact[] {
+  const changes = diffQuestions(original, edited);
+  if (!hasGradingChanges(changes)) return [];
+
+  const originalById = new Map(original.filter(q => q.id).map(q => [q.id!, q]));
+  const editedById = new Map(edited.filter(q => q.id).map(q => [q.id!, q]));
+  const questionNumber = (id: string) => original.findIndex(q => q.id === id) + 1;
+
+  return submissions.map(submission => {
+    const reasons: string[] = [];
+    const answers = new Map(submission.student_answers.map(a => [a.question_id, a]));
+
+    changes.answerKeyChanged.forEach(id => {
+      const before = originalById.get(id)!;
+      const after = editedById.get(id)!;
+      const answer = answers.get(id);
+      if (!answer) return;
+      if (before.questionType !== after.questionType) {
+        reasons.push(`문제 ${questionNumber(id)}: 문제 유형 변경`);
+        return;
+      }
+      if (after.questionType === 'multiple_select') {
+        const wasPoints = Math.round(scoreMultipleSelect(answer.selected_answers, before.correctAnswers, before.scoringMode) * before.points * 100) / 100;
+        const isPoints = Math.round(scoreMultipleSelect(answer.selected_answers, after.correctAnswers, after.scoringMode) * after.points * 100) / 100;
+        if (wasPoints !== isPoints) {
+          reasons.push(`문제 ${questionNumber(id)}: ${wasPoints}점 → ${isPoints}점`);
+        }
+        return;
+      }
+      const wasCorrect = isAnswerCorrect(answer, before);
+      const isCorrect = isAnswerCorrect(answer, after);
+      if (wasCorrect !== isCorrect) {
+        reasons.push(`문제 ${questionNumber(id)}: ${wasCorrect ? "정답 → 오답" : "오답 → 정답"}`);
+      }
+    });
+
+    changes.pointsChanged.forEach(id => {
+      if (answers.has(id)) {
+        reasons.push(`문제 ${questionNumber(id)}: 배점 ${originalById.get(id)!.points}점 → ${editedById.get(id)!.points}점`);
+      }
+    });
+
+    changes.removed.forEach(id => {
+      if (answers.has(id)) {
+        reasons.push(`문제 ${questionNumber(id)}: 문제 삭제로 답안 제거`);
+      }
+    });
+
+    if (changes.added > 0) {
+      reasons.push(`새 문제 ${changes.added}개 미응답`);
+    }
+
+    return { submission, reasons };
+  }).filter(impact => impact.reasons.length > 0);
+}
@@ -0,0 +1,56 @@
+import { isTextAnswerQuestion } from "./questionTypes";
+import { toCanonicalOption, toDisplayOption } from "./shuffle";
+
+// One answer as submit-assignment and save_attempt_draft take it; options are canonical indexes
+export interface AttemptAnswer {
+  question_id: string;
+  selected_answer: number | null;
+  selected_answers: number[] | null;
+  text_answer: string | null;
+}
+
+// The quiz screen's answer state, keyed by the question's position in the attempt
+export interface AnswerState {
+  selectedAnswers: { [key: number]: number };
+  selectedAnswerSets: { [key: number]: number[] };
+  textAnswers: { [key: number]: string };
+}
+
+interface DraftQuestion {
+  id: string;
+  question_type: string;
+  option_order?: number[];
+}
+
+// Delay between the last answer change and the autosave
+export const AUTOSAVE_DELAY_MS = 1000;
+
+export const toAttemptAnswers = (questions: DraftQuestion[], state: AnswerState): AttemptAnswer[] =>
+  questions.map((question, index) => ({
+    question_id: question.id,
+    selected_answer: question.question_type === 'multiple_choice' && state.selectedAnswers[index] !== undefined
+      ? toCanonicalOption(question, state.selectedAnswers[index])
+      : null,
+    selected_answers: question.question_type === 'multiple_select'
+      ? (state.selectedAnswerSets[index] || []).map(i => toCanonicalOption(question, i))
+      : null,
+    text_answer: isTextAnswerQuestion(question.question_type) ? state.textAnswers[index] ?? null : null,
+  }));
+
+// Puts saved answers back into the quiz screen's state; answers to questions no longer in the
+// attempt are dropped
+export const fromAttemptAnswers = (questions: DraftQuestion[], answers: AttemptAnswer[]): AnswerState => {
+  const state: AnswerState = { selectedAnswers: {}, selectedAnswerSets: {}, textAnswers: {} };
+  questions.forEach((question, index) => {
+    const answer = answers.find(a => a.question_id === question.id);
+    if (!answer) return;
+    if (question.question_type === 'multiple_choice' && answer.selected_answer != null) {
+      state.selectedAnswers[index] = toDisplayOption(question, answer.selected_answer);
+    } else if (question.question_type === 'multiple_select' && answer.selected_answers?.length) {
+      state.selectedAnswerSets[index] = answer.selected_answers.map(i => toDisplayOption(question, i));
+    } else if (isTextAnswerQuestion(question.question_type) && answer.text_answer != null) {
+      state.textAnswers[index] = answer.text_answer;
+    }
+  });
+  return state;
+};
@@ -0,0 +1,48 @@
+import { fromDateTimeLocal, toDateTimeLocal } from "./dateTimeLocal";
+
+export type AvailabilityState = 'scheduled' | 'open' | 'closed';
+
+// Form values are datetime-local input strings in the browser's time zone; empty means no limit
+export interface AvailabilityWindow {
+  from: string;
+  until: string;
+}
+
+export const defaultAvailabilityWindow: AvailabilityWindow = {
+  from: "",
+  until: "",
+};
+
+export const availabilityStateLabels: Record<AvailabilityState, string> = {
+  scheduled: "공개 예정",
+  open: "진행 중",
+  closed: "종료됨",
+};
+
+// Maps the window to the assignments table columns
+export const toAvailabilityColumns = (availability: AvailabilityWindow) => ({
+  available_from: fromDateTimeLocal(availability.from),
+  available_until: fromDateTimeLocal(availability.until),
+});
+
+export const fromAvailabilityColumns = (assignment: { available_from: string | null; available_until: string | null }): AvailabilityWindow => ({
+  from: toDateTimeLocal(assignment.available_from),
+  until: toDateTimeLocal(assignment.available_until),
+});
+
+export const findAvailabilityError = (availability: AvailabilityWindow): string | null => {
+  if (availability.from && availability.until && new Date(availability.until) <= new Date(availability.from)) {
+    return "공개 종료 시각은 공개 시작 시각보다 뒤여야 합니다";
+  }
+  return null;
+};
+
+// Mirrors assignment_availability on the server
+export const getAvailabilityState = (
+  assignment: { available_from: string | null; available_until: string | null },
+  now: Date = new Date(),
+): AvailabilityState => {
+  if (assignment.available_from && now < new Date(assignment.available_from)) return 'scheduled';
+  if (assignment.available_until && now >= new Date(assignment.available_until)) return 'closed';
+  return 'open';
+};
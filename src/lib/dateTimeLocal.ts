@@ -0,0 +1,11 @@
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// "YYYY-MM-DDTHH:mm" in the browser's time zone, the format datetime-local inputs use
+export const toDateTimeLocal = (timestamp: string | null) => {
+  if (!timestamp) return "";
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Empty input means no timestamp
+export const fromDateTimeLocal = (value: string) => value ? new Date(value).toISOString() : null;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseGIFT } from "./giftParser";
+
+const errorAt = (input: string) => {
+  const result = parseGIFT(input);
+  if (result.success) throw new Error("expected a parse error");
+  return result;
+};
+
+describe("parseGIFT", () => {
+  it("reads each question type", () => {
+    const result = parseGIFT(
+      "// 지리\n" +
+      "$CATEGORY: 수도\n" +
+      "::Capital:: 프랑스의 수도는? {=파리 ~런던 ~베를린}\n\n" +
+      "$\\pi$는? {#3.14:0.01}\n\n" +
+      "대한민국의 수도는? {=서울 =서울특별시}\n\n" +
+      "소수를 모두 고르시오. {~%50%2 ~%50%3 ~%-100%4}\n\n" +
+      "설명하시오. {}\n"
+    );
+    if (result.success === false) throw new Error(result.error);
+    expect(result.questions.map(q => q.questionType)).toEqual([
+      'multiple_choice', 'numeric', 'short_answer', 'multiple_select', 'free_response',
+    ]);
+    const [choice, numeric, short, select] = result.questions;
+    expect([choice.options, choice.correctAnswer]).toEqual([["파리", "런던", "베를린"], 0]);
+    expect([numeric.text, numeric.numericAnswer, numeric.numericTolerance]).toEqual(["$\\pi$는?", "3.14", 0.01]);
+    expect(short.acceptedAnswers).toEqual(["서울", "서울특별시"]);
+    expect([select.correctAnswers, select.scoringMode]).toEqual([[0, 1], 'partial']);
+  });
+
+  it("reports the line and column of an unclosed answer block after comments and other questions", () => {
+    expect(errorAt("// comment\n::T1:: Question one {=a ~b}\n\nSecond question {~a ~b\n")).toMatchObject({
+      line: 4,
+      column: 17,
+      error: "4행 17열: 답안 블록이 }로 닫히지 않았습니다",
+    });
+  });
+
+  it("points at the answer itself inside the block", () => {
+    expect(errorAt("Pi?\n{#abc}")).toMatchObject({ line: 2, column: 3, error: '2행 3열: 수치 정답이 올바르지 않습니다: "abc"' });
+    expect(errorAt("Q {x =a}")).toMatchObject({ line: 1, column: 4, error: '1행 4열: 답안은 = 또는 ~로 시작해야 합니다: "x"' });
+    expect(errorAt("Q {=\\frac{1}{2} ~b}")).toMatchObject({ line: 1, column: 10, error: "1행 10열: 답안 블록 안의 {는 \\{로 적어야 합니다" });
+  });
+
+  it("counts Windows line breaks as one", () => {
+    expect(errorAt("Q1 {=a ~b}\r\n\r\nQ2 {~a ~b}")).toMatchObject({
+      line: 3,
+      column: 5,
+      error: "3행 5열: 정답(= 또는 양수 %가중치%) 선택지가 없습니다",
+    });
+  });
+
+  it("reports input without questions at its start", () => {
+    expect(errorAt("// only a comment\n")).toMatchObject({ line: 1, column: 1 });
+  });
+});
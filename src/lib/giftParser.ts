@@ -0,0 +1,333 @@
+import type { ParsedQuestion } from "@/components/BulkQuestionInput";
+import { MAX_OPTIONS, MIN_OPTIONS, createDefaultOptions } from "@/lib/questionOptions";
+import { defaultAnswerKeyFields } from "@/lib/questionTypes";
+
+// Moodle GIFT format. Questions are separated by blank lines and have their answers in a
+// {...} block: {=right ~wrong} multiple choice, {~%50%a ~%50%b ~%-100%c} multiple select,
+// {=a =b} short answer, {#3.14:0.01} or {#1..5} numeric, {T}/{F} true-false and {} essay.
+// ~ = # { } : are escaped with a backslash, so LaTeX braces are written \{ \}. Math between
+// $...$, $$...$$, \(...\) or \[...\] becomes our inline $...$ form.
+
+export interface GIFTParseResult {
+  success: true;
+  questions: ParsedQuestion[];
+}
+
+export interface GIFTParseError {
+  success: false;
+  error: string;
+  // 1-based position in the input
+  line: number;
+  column: number;
+}
+
+const GIFT_SPECIAL_CHARACTERS = "~=#{}:";
+
+class GIFTSyntaxError extends Error {
+  constructor(message: string, public offset: number) {
+    super(message);
+  }
+}
+
+// A question's text with the input offset of each of its characters, so errors can point back
+// at the line and column they came from
+interface Chunk {
+  text: string;
+  offsets: number[];
+}
+
+const isEscaped = (text: string, index: number) => {
+  let backslashes = 0;
+  for (let i = index - 1; i >= 0 && text[i] === "\\"; i--) backslashes++;
+  return backslashes % 2 === 1;
+};
+
+// Index of the first unescaped occurrence of token at or after from, or -1
+const findUnescaped = (text: string, token: string, from = 0) => {
+  for (let i = text.indexOf(token, from); i !== -1; i = text.indexOf(token, i + 1)) {
+    if (!isEscaped(text, i)) return i;
+  }
+  return -1;
+};
+
+const MATH_DELIMITERS: [string, string][] = [["$$", "$$"], ["\\(", "\\)"], ["\\[", "\\]"], ["$", "$"]];
+
+// Resolves GIFT escapes and rewrites math delimiters as $...$. Inside math only the GIFT special
+// characters are unescaped, so commands such as \neq are not mistaken for the \n line break.
+export const unescapeGIFT = (text: string): string => {
+  let result = "";
+  let mathEnd: string | null = null;
+  let i = 0;
+  while (i < text.length) {
+    if (mathEnd !== null && text.startsWith(mathEnd, i) && (mathEnd.startsWith("\\") || !isEscaped(text, i))) {
+      result += "$";
+      i += mathEnd.length;
+      mathEnd = null;
+      continue;
+    }
+    if (mathEnd === null) {
+      const opening = MATH_DELIMITERS.find(([open, close]) =>
+        text.startsWith(open, i) && (open.startsWith("\\") || !isEscaped(text, i)) && text.indexOf(close, i + open.length) !== -1
+      );
+      if (opening) {
+        result += "$";
+        i += opening[0].length;
+        mathEnd = opening[1];
+        continue;
+      }
+    }
+
+    const char = text[i];
+    const next = text[i + 1];
+    if (char === "\\" && next !== undefined && GIFT_SPECIAL_CHARACTERS.includes(next)) {
+      result += next;
+      i += 2;
+    } else if (char === "\\" && next === "\\") {
+      result += "\\";
+      i += 2;
+    } else if (mathEnd === null && char === "\\" && next === "n") {
+      result += "\n";
+      i += 2;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result.trim();
+};
+
+// Question text in [html] format loses its markup
+const stripTextFormat = (text: string) => {
+  const match = text.match(/^\s*\[(html|moodle|plain|markdown)\]/i);
+  if (!match) return text;
+  const rest = text.slice(match[0].length);
+  return match[1].toLowerCase() === "html"
+    ? rest.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "").replace(/&nbsp;/g, " ").replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&")
+    : rest;
+};
+
+interface AnswerItem {
+  marker: "=" | "~";
+  weight: number | null;
+  text: string;
+  // Offset of the marker within the chunk
+  start: number;
+}
+
+// Splits the inside of an answer block at unescaped = and ~ markers, dropping per-answer #feedback
+const readAnswerItems = (block: string, blockStart: number): AnswerItem[] => {
+  const items: AnswerItem[] = [];
+  const markers: number[] = [];
+  for (let i = 0; i < block.length; i++) {
+    if ((block[i] === "=" || block[i] === "~") && !isEscaped(block, i)) markers.push(i);
+  }
+  const leading = block.slice(0, markers[0] ?? block.length).trim();
+  if (leading) {
+    throw new GIFTSyntaxError(`답안은 = 또는 ~로 시작해야 합니다: "${leading}"`, blockStart);
+  }
+
+  markers.forEach((markerIndex, n) => {
+    let text = block.slice(markerIndex + 1, markers[n + 1] ?? block.length);
+    const feedback = findUnescaped(text, "#");
+    if (feedback !== -1) text = text.slice(0, feedback);
+
+    let weight: number | null = null;
+    const weightMatch = text.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    if (weightMatch) {
+      weight = Number(weightMatch[1]);
+      text = text.slice(weightMatch[0].length);
+    }
+    items.push({ marker: block[markerIndex] as "=" | "~", weight, text: unescapeGIFT(text), start: blockStart + markerIndex });
+  });
+  return items;
+};
+
+const baseQuestion = (text: string, explanation: string): ParsedQuestion => ({
+  text,
+  options: createDefaultOptions(),
+  correctAnswer: null,
+  ...defaultAnswerKeyFields,
+  points: 1,
+  explanation,
+  questionType: 'multiple_choice',
+  modelAnswer: "",
+});
+
+// "3.14:0.01" or "1..5" -> answer and absolute tolerance
+const readNumericAnswer = (text: string, offset: number) => {
+  const range = text.match(/^\s*(-?[\d.]+(?:e-?\d+)?)\s*\.\.\s*(-?[\d.]+(?:e-?\d+)?)\s*$/i);
+  if (range) {
+    const min = Number(range[1]);
+    const max = Number(range[2]);
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min > max) {
+      throw new GIFTSyntaxError(`수치 범위가 올바르지 않습니다: "${text.trim()}"`, offset);
+    }
+    return { answer: String((min + max) / 2), tolerance: (max - min) / 2 };
+  }
+  const [answer, tolerance = "0"] = text.split(":").map(part => part.trim());
+  if (!answer || !Number.isFinite(Number(answer)) || !Number.isFinite(Number(tolerance)) || Number(tolerance) < 0) {
+    throw new GIFTSyntaxError(`수치 정답이 올바르지 않습니다: "${text.trim()}"`, offset);
+  }
+  return { answer, tolerance: Number(tolerance) };
+};
+
+const parseQuestion = (chunk: Chunk): ParsedQuestion => {
+  const source = chunk.text;
+
+  // ::Title:: is only used when the question has no other text
+  let title = "";
+  let textStart = 0;
+  if (source.trimStart().startsWith("::")) {
+    const open = source.indexOf("::");
+    const close = findUnescaped(source, "::", open + 2);
+    if (close === -1) throw new GIFTSyntaxError("제목(::...::)이 닫히지 않았습니다", open);
+    title = unescapeGIFT(source.slice(open + 2, close));
+    textStart = close + 2;
+  }
+
+  const blockOpen = findUnescaped(source, "{", textStart);
+  if (blockOpen === -1) throw new GIFTSyntaxError("답안 블록 {...}이 없습니다", textStart);
+  const blockClose = findUnescaped(source, "}", blockOpen + 1);
+  if (blockClose === -1) throw new GIFTSyntaxError("답안 블록이 }로 닫히지 않았습니다", blockOpen);
+  const nestedOpen = findUnescaped(source, "{", blockOpen + 1);
+  if (nestedOpen !== -1 && nestedOpen < blockClose) {
+    throw new GIFTSyntaxError("답안 블록 안의 {는 \\{로 적어야 합니다", nestedOpen);
+  }
+  const extraBlock = findUnescaped(source, "{", blockClose + 1);
+  if (extraBlock !== -1) throw new GIFTSyntaxError("한 문제에 답안 블록은 하나만 쓸 수 있습니다", extraBlock);
+
+  // Missing-word questions keep a blank where the answer block was
+  const before = stripTextFormat(source.slice(textStart, blockOpen));
+  const after = source.slice(blockClose + 1);
+  const text = unescapeGIFT(after.trim() ? `${before.trimEnd()} _____ ${after.trimStart()}` : before) || title;
+  if (!text) throw new GIFTSyntaxError("문제 내용이 비어 있습니다", textStart);
+
+  // General feedback (####) becomes the explanation
+  let block = source.slice(blockOpen + 1, blockClose);
+  let explanation = "";
+  const generalFeedback = findUnescaped(block, "####");
+  if (generalFeedback !== -1) {
+    explanation = unescapeGIFT(block.slice(generalFeedback + 4));
+    block = block.slice(0, generalFeedback);
+  }
+  const blockStart = blockOpen + 1;
+  const question = baseQuestion(text, explanation);
+  const trimmed = block.trim();
+
+  // Essay
+  if (!trimmed) {
+    question.questionType = 'free_response';
+    return question;
+  }
+
+  // True/false
+  const trueFalse = trimmed.split(/(?<!\\)#/)[0].trim().toUpperCase();
+  if (["T", "TRUE", "F", "FALSE"].includes(trueFalse)) {
+    question.options = ["참", "거짓"];
+    question.correctAnswer = trueFalse.startsWith("T") ? 0 : 1;
+    return question;
+  }
+
+  // Numeric: {#answer:tolerance}, {#min..max} or {#=answer:tolerance =%50%answer:tolerance}
+  if (trimmed.startsWith("#")) {
+    const numericStart = blockStart + block.indexOf("#") + 1;
+    const body = block.slice(block.indexOf("#") + 1);
+    const alternatives = findUnescaped(body, "=") === -1
+      ? [{ text: body.split(/(?<!\\)#/)[0], weight: null as number | null, start: numericStart }]
+      : readAnswerItems(body, numericStart);
+    const best = alternatives.find(item => item.weight === null || item.weight === 100) ?? alternatives[0];
+    if (!best) throw new GIFTSyntaxError("수치 정답이 없습니다", numericStart);
+    const { answer, tolerance } = readNumericAnswer(best.text, best.start);
+    question.questionType = 'numeric';
+    question.numericAnswer = answer;
+    question.numericTolerance = tolerance;
+    question.toleranceType = 'absolute';
+    return question;
+  }
+
+  const items = readAnswerItems(block, blockStart);
+  if (items.some(item => item.marker === "=" && findUnescaped(item.text, "->") !== -1) && items.every(item => item.marker === "=")) {
+    throw new GIFTSyntaxError("짝짓기(matching) 문항은 지원하지 않습니다", blockStart);
+  }
+
+  // Short answer: only = answers; those worth partial credit are not accepted as correct
+  if (items.every(item => item.marker === "=")) {
+    const accepted = items.filter(item => item.weight === null || item.weight >= 100).map(item => item.text).filter(Boolean);
+    if (accepted.length === 0) throw new GIFTSyntaxError("만점으로 인정되는 단답형 정답이 없습니다", blockStart);
+    question.questionType = 'short_answer';
+    question.acceptedAnswers = accepted;
+    return question;
+  }
+
+  if (items.length < MIN_OPTIONS || items.length > MAX_OPTIONS) {
+    throw new GIFTSyntaxError(`선택지는 ${MIN_OPTIONS}~${MAX_OPTIONS}개여야 합니다 (현재 ${items.length}개)`, blockStart);
+  }
+  question.options = items.map(item => item.text);
+  const correct = items
+    .map((item, i) => (item.marker === "=" || (item.weight !== null && item.weight > 0) ? i : -1))
+    .filter(i => i !== -1);
+  if (correct.length === 0) throw new GIFTSyntaxError("정답(= 또는 양수 %가중치%) 선택지가 없습니다", blockStart);
+
+  if (correct.length === 1 && items.every(item => item.weight === null || item.weight <= 0 || item.weight === 100)) {
+    question.correctAnswer = correct[0];
+  } else {
+    question.questionType = 'multiple_select';
+    question.correctAnswers = correct;
+    // Weighted answers give partial credit in Moodle too
+    question.scoringMode = items.some(item => item.weight !== null) ? 'partial' : 'all_or_nothing';
+  }
+  return question;
+};
+
+// Blank-line separated chunks with // comments and $CATEGORY lines removed
+const splitChunks = (input: string): Chunk[] => {
+  const chunks: Chunk[] = [];
+  let current: Chunk | null = null;
+  let offset = 0;
+  for (const line of input.split("\n")) {
+    const lineStart = offset;
+    offset += line.length + 1;
+    if (line.trimStart().startsWith("//") || /^\s*\$CATEGORY:/i.test(line)) continue;
+    if (!line.trim()) {
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { text: "", offsets: [] };
+      chunks.push(current);
+    } else {
+      current.text += "\n";
+      current.offsets.push(lineStart - 1);
+    }
+    current.text += line;
+    for (let i = 0; i < line.length; i++) current.offsets.push(lineStart + i);
+  }
+  return chunks;
+};
+
+const lineAndColumn = (input: string, offset: number) => {
+  const before = input.slice(0, offset);
+  const line = before.split("\n").length;
+  return { line, column: offset - before.lastIndexOf("\n") };
+};
+
+export function parseGIFT(input: string): GIFTParseResult | GIFTParseError {
+  const normalized = input.replace(/\r\n?/g, "\n");
+  const questions: ParsedQuestion[] = [];
+
+  for (const chunk of splitChunks(normalized)) {
+    try {
+      questions.push(parseQuestion(chunk));
+    } catch (error) {
+      if (!(error instanceof GIFTSyntaxError)) throw error;
+      const offset = chunk.offsets[Math.min(error.offset, chunk.offsets.length - 1)] ?? 0;
+      const { line, column } = lineAndColumn(normalized, offset);
+      return { success: false, error: `${line}행 ${column}열: ${error.message}`, line, column };
+    }
+  }
+
+  if (questions.length === 0) {
+    return { success: false, error: "문제를 찾을 수 없습니다.", line: 1, column: 1 };
+  }
+  return { success: true, questions };
+}
@@ -0,0 +1,60 @@
+export type LatePolicy = 'accept' | 'penalty' | 'close';
+
+export interface LatePolicyConfig {
+  policy: LatePolicy;
+  // Percent of the score taken off per started day past the due date
+  penaltyPerDay: number;
+}
+
+export const defaultLatePolicyConfig: LatePolicyConfig = {
+  policy: 'accept',
+  penaltyPerDay: 10,
+};
+
+export const latePolicyLabels: Record<LatePolicy, string> = {
+  accept: "감점 없이 제출 허용",
+  penalty: "하루당 감점 후 제출 허용",
+  close: "마감 후 제출 불가",
+};
+
+// Maps the config to the assignments table columns
+export const toLatePolicyColumns = (config: LatePolicyConfig) => ({
+  late_policy: config.policy,
+  late_penalty_per_day: config.policy === 'penalty' ? config.penaltyPerDay : 0,
+});
+
+export const fromLatePolicyColumns = (assignment: { late_policy: string; late_penalty_per_day: number }): LatePolicyConfig => ({
+  policy: assignment.late_policy as LatePolicy,
+  penaltyPerDay: assignment.late_policy === 'penalty' ? Number(assignment.late_penalty_per_day) : defaultLatePolicyConfig.penaltyPerDay,
+});
+
+export const findLatePolicyError = (config: LatePolicyConfig): string | null => {
+  if (config.policy === 'penalty' && !(config.penaltyPerDay > 0 && config.penaltyPerDay <= 100)) {
+    return "하루당 감점은 0보다 크고 100 이하여야 합니다";
+  }
+  return null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Started days past the due date; mirrors record_submission
+export const daysLate = (dueDate: string | null, at: Date = new Date()) =>
+  dueDate ? Math.max(0, Math.ceil((at.getTime() - new Date(dueDate).getTime()) / DAY_MS)) : 0;
+
+// Percent a submission made now would lose, or null when it would not be accepted at all
+export const latePenaltyFor = (
+  assignment: { due_date: string | null; late_policy: string; late_penalty_per_day: number },
+  at: Date = new Date(),
+): number | null => {
+  const days = daysLate(assignment.due_date, at);
+  if (days === 0 || assignment.late_policy === 'accept') return 0;
+  if (assignment.late_policy === 'close') return null;
+  return Math.min(100, days * Number(assignment.late_penalty_per_day));
+};
+
+// The penalty recorded on a submission, e.g. "지각 2일 · -20%"; null for on-time submissions
+export const formatLatePenalty = (submission: { days_late: number; late_penalty: number }) => {
+  if (!submission.days_late) return null;
+  const penalty = Number(submission.late_penalty);
+  return penalty > 0 ? `지각 ${submission.days_late}일 · -${penalty}%` : `지각 ${submission.days_late}일`;
+};
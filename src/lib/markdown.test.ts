@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { parseInline, safeUrl } from "./markdown";
+
+describe("safeUrl", () => {
+  it("keeps web, mail and relative links", () => {
+    expect(safeUrl("https://example.com/a?b=1")).toBe("https://example.com/a?b=1");
+    expect(safeUrl("mailto:teacher@example.com")).toBe("mailto:teacher@example.com");
+    expect(safeUrl("images/graph.png")).toBe("images/graph.png");
+  });
+
+  it("drops script and data URLs", () => {
+    expect(safeUrl("javascript:alert(1)")).toBeNull();
+    expect(safeUrl("JavaScript:alert(1)")).toBeNull();
+    expect(safeUrl("data:text/html,<script>alert(1)</script>")).toBeNull();
+    expect(safeUrl("vbscript:msgbox(1)")).toBeNull();
+  });
+
+  it("drops script URLs hidden with whitespace or control characters", () => {
+    expect(safeUrl("java\tscript:alert(1)")).toBeNull();
+    expect(safeUrl("java\nscript:alert(1)")).toBeNull();
+    expect(safeUrl("java\rscript:alert(1)")).toBeNull();
+    expect(safeUrl("\x01javascript:alert(1)")).toBeNull();
+    expect(safeUrl(" \x00 javascript:alert(1)")).toBeNull();
+    expect(safeUrl("javascript\x7f:alert(1)")).toBeNull();
+  });
+});
+
+describe("parseInline links", () => {
+  it("renders unsafe links as their label only", () => {
+    expect(parseInline("[x](java\tscript:alert(1))")).toEqual([{ type: 'text', text: "x" }]);
+    expect(parseInline("![x](\x01javascript:alert(1))")).toEqual([{ type: 'text', text: "x" }]);
+  });
+
+  it("keeps safe links", () => {
+    expect(parseInline("[x](https://example.com)")).toEqual([
+      { type: 'link', href: "https://example.com", children: [{ type: 'text', text: "x" }] },
+    ]);
+  });
+});
@@ -0,0 +1,316 @@
+// A small Markdown reader for question content: paragraphs, headings, lists, block quotes, code,
+// rules, **bold**, *italic*, ~~strike~~, `code`, links, images, <sub>/<sup>/<u>/<br>, and $...$ /
+// $$...$$ math. It returns a tree that RichContent turns into React elements, so raw HTML in the
+// source is never injected: tags other than the few above stay literal text.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'math'; latex: string; display: boolean }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del' | 'sub' | 'sup' | 'u'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'math'; latex: string }
+  | { type: 'rule' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Only web and mail links; "javascript:", "data:" and the like are dropped. Browsers ignore tabs,
+// newlines and other control characters in a URL ("java\tscript:" still runs), so those are removed
+// before the URL is resolved the way the browser will resolve it.
+export const safeUrl = (url: string): string | null => {
+  const cleaned = [...url].filter(char => char.charCodeAt(0) > 0x1f && char.charCodeAt(0) !== 0x7f).join("").trim();
+  if (!cleaned) return null;
+  try {
+    const base = typeof window === "undefined" ? "http://localhost" : window.location.origin;
+    return SAFE_PROTOCOLS.includes(new URL(cleaned, base).protocol) ? cleaned : null;
+  } catch {
+    return null;
+  }
+};
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const INLINE_TAGS = ['sub', 'sup', 'u'] as const;
+
+// Index of the next unescaped `delimiter` at or after `from`, skipping math and code spans
+const findCloser = (source: string, delimiter: string, from: number): number => {
+  for (let i = from; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+    } else if (source.startsWith(delimiter, i)) {
+      return i;
+    } else if (char === '$' || char === '`') {
+      const end = source.indexOf(char, i + 1);
+      if (end !== -1) i = end;
+    }
+  }
+  return -1;
+};
+
+// Index of the ")" matching the "(" at `open`, or -1
+const findParenEnd = (source: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    if (source[i] === '(') depth++;
+    else if (source[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+const isWordChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+export const parseInline = (source: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let text = "";
+  const flush = () => {
+    if (text) nodes.push({ type: 'text', text });
+    text = "";
+  };
+  const push = (node: InlineNode) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.substring(i);
+
+    if (char === '\\' && i + 1 < source.length && ESCAPABLE.test(source[i + 1])) {
+      text += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (rest.startsWith('$$')) {
+      const end = source.indexOf('$$', i + 2);
+      if (end > i + 2) {
+        push({ type: 'math', latex: source.substring(i + 2, end).trim(), display: true });
+        i = end + 2;
+        continue;
+      }
+    } else if (char === '$') {
+      const end = source.indexOf('$', i + 1);
+      if (end > i + 1) {
+        push({ type: 'math', latex: source.substring(i + 1, end), display: false });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '`') {
+      const end = source.indexOf('`', i + 1);
+      if (end > i + 1) {
+        push({ type: 'code', text: source.substring(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Bold, italic and strikethrough. "_" only counts at word edges so snake_case stays as typed,
+    // and "*" after a digit is a product such as 2*3*4.
+    const delimiter = ['**', '__', '~~', '*', '_'].find(d => rest.startsWith(d));
+    const opensInsideWord = (delimiter?.[0] === '_' && isWordChar(source[i - 1])) || (delimiter === '*' && /\d/.test(source[i - 1] ?? ""));
+    if (delimiter && !opensInsideWord && rest[delimiter.length] !== undefined && !/\s/.test(rest[delimiter.length])) {
+      let end = findCloser(source, delimiter, i + delimiter.length);
+      // A single "*" must not close on half of a "**"
+      while (end !== -1 && delimiter.length === 1 && source[end + 1] === delimiter) {
+        end = findCloser(source, delimiter, end + 2);
+      }
+      if (end > i + delimiter.length && !/\s/.test(source[end - 1]) && !(delimiter[0] === '_' && isWordChar(source[end + delimiter.length]))) {
+        const type = delimiter === '~~' ? 'del' : delimiter.length === 2 ? 'strong' : 'em';
+        push({ type, children: parseInline(source.substring(i + delimiter.length, end)) });
+        i = end + delimiter.length;
+        continue;
+      }
+    }
+
+    // Links and images: [text](url), ![alt](url)
+    const image = char === '!' && source[i + 1] === '[';
+    if (char === '[' || image) {
+      const open = image ? i + 1 : i;
+      const close = findCloser(source, ']', open + 1);
+      if (close !== -1 && source[close + 1] === '(') {
+        const urlEnd = findParenEnd(source, close + 1);
+        if (urlEnd !== -1) {
+          const label = source.substring(open + 1, close);
+          const url = safeUrl(source.substring(close + 2, urlEnd));
+          if (image) {
+            push(url ? { type: 'image', src: url, alt: label } : { type: 'text', text: label });
+          } else if (url) {
+            push({ type: 'link', href: url, children: parseInline(label) });
+          } else {
+            flush();
+            nodes.push(...parseInline(label));
+          }
+          i = urlEnd + 1;
+          continue;
+        }
+      }
+    }
+
+    // The few HTML tags question writers use; anything else stays as literal text
+    if (char === '<') {
+      const lineBreak = rest.match(/^<br\s*\/?>/i);
+      if (lineBreak) {
+        push({ type: 'break' });
+        i += lineBreak[0].length;
+        continue;
+      }
+      const tag = INLINE_TAGS.find(name => rest.toLowerCase().startsWith(`<${name}>`));
+      if (tag) {
+        const end = source.toLowerCase().indexOf(`</${tag}>`, i + tag.length + 2);
+        if (end !== -1) {
+          push({ type: tag, children: parseInline(source.substring(i + tag.length + 2, end)) });
+          i = end + tag.length + 3;
+          continue;
+        }
+      }
+    }
+
+    text += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+const FENCE = /^\s{0,3}(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|(\d{1,9})[.)])\s+(.*)$/;
+const DISPLAY_MATH = /^\s*\$\$/;
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+// Whether `line` starts a new block and so ends the paragraph before it. Only a list numbered 1
+// interrupts a paragraph, so a wrapped line such as "2024. 3월" stays prose.
+const startsBlock = (line: string): boolean => {
+  const item = line.match(LIST_ITEM);
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || DISPLAY_MATH.test(line) ||
+    (item !== null && (item[3] === undefined || item[3] === '1') && item[4].trim() !== "");
+};
+
+export const parseMarkdown = (source: string): BlockNode[] => {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) body.push(lines[i++]);
+      blocks.push({ type: 'code', text: body.join("\n") });
+      i++;
+      continue;
+    }
+
+    // $$ ... $$ on its own line or spread over several lines
+    if (DISPLAY_MATH.test(line)) {
+      const opened = line.trimStart().substring(2);
+      const sameLineEnd = opened.indexOf('$$');
+      if (sameLineEnd !== -1 && !opened.substring(sameLineEnd + 2).trim()) {
+        blocks.push({ type: 'math', latex: opened.substring(0, sameLineEnd).trim() });
+        i++;
+        continue;
+      }
+      const closing = sameLineEnd === -1 ? lines.findIndex((l, j) => j > i && l.includes('$$')) : -1;
+      if (closing !== -1 && !lines[closing].substring(lines[closing].indexOf('$$') + 2).trim()) {
+        const body = [opened, ...lines.slice(i + 1, closing), lines[closing].substring(0, lines[closing].indexOf('$$'))];
+        blocks.push({ type: 'math', latex: body.join("\n").trim() });
+        i = closing + 1;
+        continue;
+      }
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || !startsBlock(lines[i]))) {
+        body.push(lines[i++].replace(QUOTE, ""));
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(body.join("\n")) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = item[3] !== undefined;
+      const markerIndent = item[1].length;
+      const items: BlockNode[][] = [];
+      while (i < lines.length) {
+        const current = lines[i].match(LIST_ITEM);
+        if (!current || current[1].length !== markerIndent || (current[3] !== undefined) !== ordered) break;
+
+        // The item's own lines: indented continuations, and unindented lines that carry on its text
+        const contentIndent = current[0].length - current[4].length;
+        const body = [current[4]];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          if (!next.trim()) {
+            const following = lines.slice(i + 1).find(l => l.trim());
+            if (following === undefined || indentOf(following) <= markerIndent) break;
+            body.push("");
+          } else if (indentOf(next) > markerIndent) {
+            body.push(next.substring(Math.min(indentOf(next), contentIndent)));
+          } else if (body[body.length - 1].trim() && !startsBlock(next) && !LIST_ITEM.test(next)) {
+            body.push(next.trim());
+          } else {
+            break;
+          }
+          i++;
+        }
+        items.push(parseMarkdown(body.join("\n")));
+        // A blank line may separate items of the same list
+        while (i < lines.length && !lines[i].trim() && lines.slice(i).find(l => l.trim())?.match(LIST_ITEM)?.[1].length === markerIndent) i++;
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(item[3], 10) : 1, items });
+      continue;
+    }
+
+    const body = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) body.push(lines[i++]);
+    blocks.push({ type: 'paragraph', children: parseInline(body.map(l => l.trim()).join("\n")) });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { isNumericAnswerCorrect } from "./numericAnswer";
+
+// Same inputs as the numeric_answer_correct() cases in supabase/tests/submission_grading.test.sql
+describe("isNumericAnswerCorrect", () => {
+  it("includes the bounds of an absolute tolerance and reads only plain numbers", () => {
+    expect(isNumericAnswerCorrect("3.15", 3.14, 0.01, 'absolute', false)).toBe(true);
+    expect(isNumericAnswerCorrect(" 3.13 ", 3.14, 0.01, 'absolute', false)).toBe(true);
+    expect(isNumericAnswerCorrect("3.151", 3.14, 0.01, 'absolute', false)).toBe(false);
+    expect(isNumericAnswerCorrect("0.4", 0.3, 0.1, 'absolute', false)).toBe(true);
+    expect(isNumericAnswerCorrect("1e3", 1000, 0, 'absolute', false)).toBe(true);
+    expect(isNumericAnswerCorrect("3.14abc", 3.14, 0.01, 'absolute', false)).toBe(false);
+    expect(isNumericAnswerCorrect("", 0, 1, 'absolute', false)).toBe(false);
+    expect(isNumericAnswerCorrect(null, 0, 1, 'absolute', false)).toBe(false);
+  });
+
+  it("takes a relative tolerance as a percentage of the expected value, also when it is negative", () => {
+    expect(isNumericAnswerCorrect("105", 100, 5, 'relative', false)).toBe(true);
+    expect(isNumericAnswerCorrect("95", 100, 5, 'relative', false)).toBe(true);
+    expect(isNumericAnswerCorrect("105.01", 100, 5, 'relative', false)).toBe(false);
+    expect(isNumericAnswerCorrect("-180", -200, 10, 'relative', false)).toBe(true);
+    expect(isNumericAnswerCorrect("-179", -200, 10, 'relative', false)).toBe(false);
+  });
+
+  it("reads fractions and mixed numbers only when accepted, never with a zero denominator", () => {
+    expect(isNumericAnswerCorrect("3/4", 0.75, 0, 'absolute', true)).toBe(true);
+    expect(isNumericAnswerCorrect(" 3 / 4 ", 0.75, 0, 'absolute', true)).toBe(true);
+    expect(isNumericAnswerCorrect("-3/4", -0.75, 0, 'absolute', true)).toBe(true);
+    expect(isNumericAnswerCorrect("1 1/2", 1.5, 0, 'absolute', true)).toBe(true);
+    expect(isNumericAnswerCorrect("1/3", 0.333333333333, 0, 'absolute', true)).toBe(true);
+    expect(isNumericAnswerCorrect("3/0", 0, 100, 'absolute', true)).toBe(false);
+    expect(isNumericAnswerCorrect("3/4", 0.75, 0, 'absolute', false)).toBe(false);
+  });
+});
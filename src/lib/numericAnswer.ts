@@ -0,0 +1,60 @@
+export type ToleranceType = 'absolute' | 'relative';
+
+export const toleranceTypeLabels: Record<ToleranceType, string> = {
+  absolute: "절대 오차 (±값)",
+  relative: "상대 오차 (%)",
+};
+
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+// "3/4", "-3/4", and mixed numbers such as "1 1/2"
+const FRACTION_PATTERN = /^([+-])?(?:(\d+)\s+)?(\d+)\s*\/\s*(\d+)$/;
+
+// Mirrors parse_numeric_answer() in the database. Returns null for anything that is not a number.
+export const parseNumericAnswer = (text: string, acceptFractions: boolean): number | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  if (DECIMAL_PATTERN.test(trimmed)) {
+    const value = Number(trimmed);
+    return Number.isFinite(value) ? value : null;
+  }
+  if (!acceptFractions) return null;
+
+  const match = trimmed.match(FRACTION_PATTERN);
+  if (!match || Number(match[4]) === 0) return null;
+  const value = Number(match[2] ?? 0) + Number(match[3]) / Number(match[4]);
+  return match[1] === '-' ? -value : value;
+};
+
+// Small slack so a key entered as "1/3" still matches a student's "1/3" after rounding
+const EPSILON = 1e-9;
+
+// Mirrors numeric_answer_correct() in the database; relative tolerance is a percentage of the expected value
+export const isNumericAnswerCorrect = (
+  text: string | null,
+  expected: number,
+  tolerance: number,
+  toleranceType: ToleranceType,
+  acceptFractions: boolean
+): boolean => {
+  const value = text === null ? null : parseNumericAnswer(text, acceptFractions);
+  if (value === null) return false;
+  const allowed = toleranceType === 'relative' ? Math.abs(expected) * tolerance / 100 : tolerance;
+  return Math.abs(value - expected) <= allowed + EPSILON;
+};
+
+export const formatTolerance = (tolerance: number, toleranceType: ToleranceType): string | null => {
+  if (!tolerance) return null;
+  return toleranceType === 'relative' ? `±${tolerance}%` : `±${tolerance}`;
+};
+
+// Splits a typed key with an optional tolerance: "3.14", "3.14±0.01" or "100±5%" ("+-" and "+/-"
+// also work). tolerance is NaN when the part after the sign is not a number.
+export const splitNumericTolerance = (text: string): { answer: string; tolerance: number; toleranceType: ToleranceType } => {
+  const match = text.match(/^(.+?)\s*(?:±|\+\/-|\+-)\s*([^%]*?)\s*(%)?\s*$/);
+  if (!match) return { answer: text.trim(), tolerance: 0, toleranceType: 'absolute' };
+  return {
+    answer: match[1].trim(),
+    tolerance: /^(\d+\.?\d*|\.\d+)$/.test(match[2]) ? Number(match[2]) : NaN,
+    toleranceType: match[3] ? 'relative' : 'absolute',
+  };
+};
@@ -0,0 +1,129 @@
+import { AttemptAnswer } from "./attemptDraft";
+import { AttemptOrder } from "./shuffle";
+
+// Offline quiz taking. An opened attempt and the answers given to it are kept in localStorage, so
+// the quiz carries on (and survives a reload) without a connection; submissions made offline wait
+// in a queue until they can be sent. Everything is keyed by user so a shared device never mixes
+// students up.
+
+// An attempt as it was opened on this device, with its questions already in attempt order
+export interface OfflineAttempt<TAssignment> {
+  assignment: TAssignment;
+  attemptId: string | null;
+  order: AttemptOrder | null;
+  deadline: string | null;
+  answers: AttemptAnswer[];
+}
+
+// A submission waiting for the connection to return
+export interface QueuedSubmission {
+  assignment_id: string;
+  assignment_title: string;
+  attempt_id: string | null;
+  answers: AttemptAnswer[];
+  // When the student pressed submit; the server judges deadlines by it, but never before the attempt's last autosave or more than a day before arrival
+  submitted_at: string;
+}
+
+// Cache shared with public/sw.js, which serves anything in it when the network is unavailable
+export const OFFLINE_FILE_CACHE = "homework-hub-files";
+
+const attemptKey = (userId: string, assignmentId: string) => `offline-attempt:${userId}:${assignmentId}`;
+const assignmentsKey = (userId: string) => `offline-assignments:${userId}`;
+const queueKey = (userId: string) => `offline-submissions:${userId}`;
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch (error) {
+    console.error("Could not read offline data:", error);
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // Storage full or disabled; the quiz still works online
+    console.error("Could not store offline data:", error);
+  }
+};
+
+export const saveOfflineAttempt = <TAssignment>(userId: string, assignmentId: string, attempt: OfflineAttempt<TAssignment>) =>
+  writeJson(attemptKey(userId, assignmentId), attempt);
+
+export const loadOfflineAttempt = <TAssignment>(userId: string, assignmentId: string) =>
+  readJson<OfflineAttempt<TAssignment>>(attemptKey(userId, assignmentId));
+
+export const saveOfflineAnswers = (userId: string, assignmentId: string, answers: AttemptAnswer[]) => {
+  const attempt = loadOfflineAttempt(userId, assignmentId);
+  if (attempt) saveOfflineAttempt(userId, assignmentId, { ...attempt, answers });
+};
+
+export const clearOfflineAttempt = (userId: string, assignmentId: string) =>
+  localStorage.removeItem(attemptKey(userId, assignmentId));
+
+// The assignment list as last fetched, shown when it cannot be fetched
+export const saveOfflineAssignments = <TAssignment>(userId: string, assignments: TAssignment[]) =>
+  writeJson(assignmentsKey(userId), assignments);
+
+export const loadOfflineAssignments = <TAssignment>(userId: string) =>
+  readJson<TAssignment[]>(assignmentsKey(userId));
+
+export const getQueuedSubmissions = (userId: string) =>
+  readJson<QueuedSubmission[]>(queueKey(userId)) ?? [];
+
+// A newer submission of the same assignment replaces the queued one
+export const queueSubmission = (userId: string, submission: QueuedSubmission) =>
+  writeJson(queueKey(userId), [
+    ...getQueuedSubmissions(userId).filter(s => s.assignment_id !== submission.assignment_id),
+    submission,
+  ]);
+
+export const removeQueuedSubmission = (userId: string, assignmentId: string) =>
+  writeJson(queueKey(userId), getQueuedSubmissions(userId).filter(s => s.assignment_id !== assignmentId));
+
+// Whether a failed request never reached the server, as opposed to being rejected by it
+export const isNetworkError = (error: { name?: string; message?: string } | null) =>
+  !navigator.onLine ||
+  error?.name === "FunctionsFetchError" ||
+  /Failed to fetch|NetworkError|Load failed/i.test(error?.message ?? "");
+
+// Font files referenced by the KaTeX stylesheet, so formulas still render offline
+export const katexFontUrls = (): string[] => {
+  const urls = new Set<string>();
+  Array.from(document.styleSheets).forEach(sheet => {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      // Cross-origin stylesheet
+      return;
+    }
+    Array.from(rules).forEach(rule => {
+      if (!(rule instanceof CSSFontFaceRule) || !rule.style.getPropertyValue("font-family").includes("KaTeX")) return;
+      for (const match of rule.style.getPropertyValue("src").matchAll(/url\(["']?([^"')]+)["']?\)/g)) {
+        urls.add(new URL(match[1], sheet.href ?? document.baseURI).href);
+      }
+    });
+  });
+  return Array.from(urls);
+};
+
+// Stores files in the offline cache; files that cannot be fetched are skipped
+export const cacheForOffline = async (urls: string[]) => {
+  if (!("caches" in window)) return;
+  try {
+    const cache = await caches.open(OFFLINE_FILE_CACHE);
+    await Promise.all(
+      urls.map(async url => {
+        if (await cache.match(url)) return;
+        await cache.add(url).catch(error => console.error(`Could not cache ${url} for offline use:`, error));
+      })
+    );
+  } catch (error) {
+    console.error("Could not open the offline cache:", error);
+  }
+};
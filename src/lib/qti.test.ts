@@ -0,0 +1,97 @@
+import { JSDOM } from "jsdom";
+import { describe, expect, it } from "vitest";
+import type { ParsedQuestion } from "@/components/BulkQuestionInput";
+import { buildQtiPackage, readQtiPackage } from "./qti";
+import { createDefaultOptions } from "./questionOptions";
+import { defaultAnswerKeyFields } from "./questionTypes";
+import { createZip } from "./zip";
+
+// Package files are parsed with the browser's DOM; Node's own Blob and streams unzip them
+const { window } = new JSDOM();
+globalThis.DOMParser = window.DOMParser;
+globalThis.Node = window.Node;
+
+const question = (fields: Partial<ParsedQuestion>): ParsedQuestion => ({
+  text: "",
+  options: createDefaultOptions(),
+  correctAnswer: null,
+  ...defaultAnswerKeyFields,
+  points: 1,
+  explanation: "",
+  questionType: 'multiple_choice',
+  modelAnswer: "",
+  ...fields,
+});
+
+const questions: ParsedQuestion[] = [
+  question({
+    text: "**Which** is $x^2$ when $x = 3$?\nPick one & only <one>.",
+    options: ["$6$", "$9$", "Neither \"6\" nor 9"],
+    correctAnswer: 1,
+    points: 2.5,
+    explanation: "Square it: $3 \\cdot 3 = 9$.",
+  }),
+  question({
+    text: "Select the primes.",
+    questionType: 'multiple_select',
+    options: ["2", "4", "5", "9"],
+    correctAnswers: [0, 2],
+    scoringMode: 'partial',
+  }),
+  question({
+    text: "Select both.",
+    questionType: 'multiple_select',
+    options: ["a", "b"],
+    correctAnswers: [0, 1],
+  }),
+  question({
+    text: "What is one third?",
+    questionType: 'numeric',
+    numericAnswer: "1/3",
+    numericTolerance: 5,
+    toleranceType: 'relative',
+  }),
+  question({
+    text: "Give $\\pi$ to two places.",
+    questionType: 'numeric',
+    numericAnswer: "3.14",
+    numericTolerance: 0.01,
+    acceptFractions: false,
+  }),
+  question({
+    text: "Name the colour.",
+    questionType: 'short_answer',
+    acceptedAnswers: ["Grey", "회색"],
+    answerPatterns: ["gr[ae]y"],
+    caseSensitive: true,
+    normalizeWhitespace: false,
+    ignoreSpacing: true,
+  }),
+  question({
+    text: "Differentiate $x^2$.",
+    questionType: 'free_response',
+    modelAnswer: "2x",
+    points: 3,
+  }),
+  question({
+    text: "Explain.",
+    questionType: 'free_response',
+    modelAnswer: "First line\nSecond <line>",
+  }),
+];
+
+describe("readQtiPackage", () => {
+  it("reads back every question buildQtiPackage writes", async () => {
+    const result = await readQtiPackage(await buildQtiPackage("Round trip", questions).arrayBuffer());
+    expect(result.unsupported).toEqual([]);
+    expect(result.questions).toEqual(questions);
+  });
+
+  it("reports items the manifest lists but the package lacks", async () => {
+    const manifest =
+      '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"><resources>' +
+      '<resource identifier="item-1" type="imsqti_item_xmlv2p1" href="items/missing.xml"/></resources></manifest>';
+    const result = await readQtiPackage(await createZip([{ path: "imsmanifest.xml", content: manifest }]).arrayBuffer());
+    expect(result).toEqual({ questions: [], unsupported: [{ item: "items/missing.xml", reason: "패키지에 파일이 없습니다" }] });
+  });
+});
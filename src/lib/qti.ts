@@ -0,0 +1,501 @@
+import { renderToString } from "katex";
+import type { ParsedQuestion } from "@/components/BulkQuestionInput";
+import { parseNumericAnswer } from "./numericAnswer";
+import { MAX_OPTIONS, MIN_OPTIONS, createDefaultOptions } from "./questionOptions";
+import { defaultAnswerKeyFields } from "./questionTypes";
+import { createZip, readZipTextEntries } from "./zip";
+
+// IMS QTI 2.1 content packages: an imsmanifest.xml, an assessmentTest listing the items in order,
+// and one assessmentItem file per question. Inline $...$ LaTeX (and whole FRQ model answers) is
+// written as MathML carrying the TeX source as an annotation, which is read back on import.
+// Answer-key settings QTI has no words for are kept as class names on the interaction, so our own
+// exports round-trip without loss while other tools simply ignore them.
+
+const QTI_NAMESPACE = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+const QTI_SCHEMA_LOCATION = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+const TEX_ENCODINGS = ["application/x-tex", "tex", "latex"];
+
+// Interaction class names for settings outside QTI
+const CLASS_NO_FRACTIONS = "no-fractions";
+const CLASS_CASE_SENSITIVE = "case-sensitive";
+const CLASS_KEEP_WHITESPACE = "keep-whitespace";
+const CLASS_IGNORE_SPACING = "ignore-spacing";
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// MathML for a TeX expression, or null when KaTeX cannot parse it
+const texToMathml = (tex: string): string | null => {
+  try {
+    const html = renderToString(tex, { output: "mathml", throwOnError: true, strict: false });
+    return html.match(/<math[\s\S]*<\/math>/)?.[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Text with inline $...$ math; any Markdown around it is kept as written
+const mixedTextXml = (text: string) =>
+  text
+    .split(/(\$[^$]+\$)/g)
+    .filter(Boolean)
+    .map(part => {
+      const mathml = part.length > 2 && part.startsWith("$") && part.endsWith("$") ? texToMathml(part.slice(1, -1)) : null;
+      return mathml ?? escapeXml(part);
+    })
+    .join("");
+
+const paragraphsXml = (text: string, lineXml: (line: string) => string = mixedTextXml) =>
+  text.split("\n").map(line => (line ? `<p>${lineXml(line)}</p>` : "<p/>")).join("\n    ");
+
+const choiceIdentifier = (index: number) => `CHOICE_${index + 1}`;
+
+const itemXml = (question: ParsedQuestion, identifier: string, position: number) => {
+  const declarations: string[] = [];
+  const body: string[] = [paragraphsXml(question.text)];
+  const conditions: string[] = [];
+  const setFullScore = `<setOutcomeValue identifier="SCORE"><variable identifier="MAXSCORE"/></setOutcomeValue>`;
+  const correctResponse = (values: string[], interpretation?: string) =>
+    `<correctResponse${interpretation ? ` interpretation="${escapeXml(interpretation)}"` : ""}>` +
+    values.map(value => `<value>${escapeXml(value)}</value>`).join("") +
+    `</correctResponse>`;
+
+  switch (question.questionType) {
+    case 'multiple_choice':
+    case 'multiple_select': {
+      const single = question.questionType === 'multiple_choice';
+      const correct = single ? [question.correctAnswer ?? 0] : question.correctAnswers;
+      // Partial credit: each right pick adds and each wrong pick takes away 1/(number of right answers)
+      const mapping = !single && question.scoringMode === 'partial'
+        ? `<mapping lowerBound="0" upperBound="1" defaultValue="0">` +
+          question.options
+            .map((_, i) => {
+              const value = (correct.includes(i) ? 1 : -1) / Math.max(correct.length, 1);
+              return `<mapEntry mapKey="${choiceIdentifier(i)}" mappedValue="${value}"/>`;
+            })
+            .join("") +
+          `</mapping>`
+        : "";
+      declarations.push(
+        `<responseDeclaration identifier="RESPONSE" cardinality="${single ? "single" : "multiple"}" baseType="identifier">` +
+          correctResponse(correct.map(choiceIdentifier)) +
+          mapping +
+          `</responseDeclaration>`
+      );
+      body.push(
+        `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${single ? 1 : 0}">\n` +
+          question.options
+            .map((option, i) => `      <simpleChoice identifier="${choiceIdentifier(i)}">${mixedTextXml(option)}</simpleChoice>`)
+            .join("\n") +
+          `\n    </choiceInteraction>`
+      );
+      conditions.push(
+        mapping
+          ? `<setOutcomeValue identifier="SCORE"><product><mapResponse identifier="RESPONSE"/><variable identifier="MAXSCORE"/></product></setOutcomeValue>`
+          : `<responseCondition><responseIf><match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>${setFullScore}</responseIf></responseCondition>`
+      );
+      break;
+    }
+    case 'numeric': {
+      const value = parseNumericAnswer(question.numericAnswer, true);
+      declarations.push(
+        `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">` +
+          (value === null ? "" : correctResponse([String(value)], question.numericAnswer !== String(value) ? question.numericAnswer : undefined)) +
+          `</responseDeclaration>`
+      );
+      const classes = question.acceptFractions ? "" : ` class="${CLASS_NO_FRACTIONS}"`;
+      body.push(`<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="15"${classes}/></p>`);
+      if (value !== null) {
+        // QTI's relative tolerance is a percentage, as ours is
+        const tolerance = question.numericTolerance
+          ? `toleranceMode="${question.toleranceType}" tolerance="${question.numericTolerance}"`
+          : `toleranceMode="exact"`;
+        conditions.push(
+          `<responseCondition><responseIf><equal ${tolerance}><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></equal>${setFullScore}</responseIf></responseCondition>`
+        );
+      }
+      break;
+    }
+    case 'short_answer': {
+      const accepted = question.acceptedAnswers.filter(answer => answer.trim());
+      const patterns = question.answerPatterns.filter(pattern => pattern.trim());
+      declarations.push(
+        `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">` +
+          (accepted.length > 0 ? correctResponse([accepted[0]]) : "") +
+          (accepted.length > 0
+            ? `<mapping defaultValue="0">` +
+              accepted
+                .map(answer => `<mapEntry mapKey="${escapeXml(answer)}" mappedValue="1" caseSensitive="${question.caseSensitive}"/>`)
+                .join("") +
+              `</mapping>`
+            : "") +
+          `</responseDeclaration>`
+      );
+      const classes = [
+        question.caseSensitive && CLASS_CASE_SENSITIVE,
+        !question.normalizeWhitespace && CLASS_KEEP_WHITESPACE,
+        question.ignoreSpacing && CLASS_IGNORE_SPACING,
+      ].filter(Boolean);
+      body.push(
+        `<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="30"${classes.length > 0 ? ` class="${classes.join(" ")}"` : ""}/></p>`
+      );
+      const matches = [
+        ...(accepted.length > 0 ? [`<gt><mapResponse identifier="RESPONSE"/><baseValue baseType="float">0</baseValue></gt>`] : []),
+        ...patterns.map(pattern => `<patternMatch pattern="${escapeXml(pattern)}"><variable identifier="RESPONSE"/></patternMatch>`),
+      ];
+      if (matches.length > 0) {
+        conditions.push(`<responseCondition><responseIf><or>${matches.join("")}</or>${setFullScore}</responseIf></responseCondition>`);
+      }
+      break;
+    }
+    case 'free_response': {
+      declarations.push(`<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>`);
+      body.push(`<extendedTextInteraction responseIdentifier="RESPONSE"/>`);
+      // Scored by hand; the model answer is shown to scorers only
+      if (question.modelAnswer) {
+        const mathml = texToMathml(question.modelAnswer);
+        body.push(`<rubricBlock view="scorer">${mathml ? `<p>${mathml}</p>` : paragraphsXml(question.modelAnswer, escapeXml)}</rubricBlock>`);
+      }
+      break;
+    }
+  }
+
+  declarations.push(
+    `<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float" normalMaximum="${question.points}"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>`,
+    `<outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>${question.points}</value></defaultValue></outcomeDeclaration>`
+  );
+  const feedback: string[] = [];
+  if (question.explanation) {
+    declarations.push(`<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>`);
+    conditions.push(`<setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>`);
+    feedback.push(
+      `<modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">\n    ${paragraphsXml(question.explanation)}\n  </modalFeedback>`
+    );
+  }
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}" identifier="${identifier}" title="문제 ${position}" adaptive="false" timeDependent="false">`,
+    ...declarations.map(declaration => `  ${declaration}`),
+    `  <itemBody>`,
+    ...body.map(block => `    ${block}`),
+    `  </itemBody>`,
+    ...(conditions.length > 0 ? [`  <responseProcessing>`, ...conditions.map(condition => `    ${condition}`), `  </responseProcessing>`] : []),
+    ...feedback.map(block => `  ${block}`),
+    `</assessmentItem>`,
+    ``,
+  ].join("\n");
+};
+
+// A QTI 2.1 content package (zip) holding the questions in order as a single-section test
+export const buildQtiPackage = (title: string, questions: ParsedQuestion[]): Blob => {
+  const items = questions.map((question, i) => ({
+    identifier: `item-${i + 1}`,
+    path: `items/item-${i + 1}.xml`,
+    content: itemXml(question, `item-${i + 1}`, i + 1),
+  }));
+
+  const test = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}" identifier="test" title="${escapeXml(title)}">`,
+    `  <testPart identifier="part-1" navigationMode="nonlinear" submissionMode="simultaneous">`,
+    `    <assessmentSection identifier="section-1" title="${escapeXml(title)}" visible="true">`,
+    ...items.map(item => `      <assessmentItemRef identifier="${item.identifier}" href="${item.path}"/>`),
+    `    </assessmentSection>`,
+    `  </testPart>`,
+    `</assessmentTest>`,
+    ``,
+  ].join("\n");
+
+  const manifest = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="manifest">`,
+    `  <metadata>`,
+    `    <schema>QTIv2.1 Package</schema>`,
+    `    <schemaversion>1.0.0</schemaversion>`,
+    `  </metadata>`,
+    `  <organizations/>`,
+    `  <resources>`,
+    `    <resource identifier="test" type="imsqti_test_xmlv2p1" href="test.xml">`,
+    `      <file href="test.xml"/>`,
+    ...items.map(item => `      <dependency identifierref="${item.identifier}"/>`),
+    `    </resource>`,
+    ...items.map(item =>
+      [
+        `    <resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.path}">`,
+        `      <file href="${item.path}"/>`,
+        `    </resource>`,
+      ].join("\n")
+    ),
+    `  </resources>`,
+    `</manifest>`,
+    ``,
+  ].join("\n");
+
+  return createZip([
+    { path: "imsmanifest.xml", content: manifest },
+    { path: "test.xml", content: test },
+    ...items.map(item => ({ path: item.path, content: item.content })),
+  ]);
+};
+
+export interface UnsupportedQtiItem {
+  // Item title, or its file when it has none
+  item: string;
+  reason: string;
+}
+
+export interface QtiImportResult {
+  questions: ParsedQuestion[];
+  unsupported: UnsupportedQtiItem[];
+}
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, "application/xml");
+
+// Elements by local name, whatever namespace the writer used
+const elements = (parent: Document | Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS("*", localName));
+
+const childElements = (parent: Element, localName?: string) =>
+  Array.from(parent.children).filter(child => !localName || child.localName === localName);
+
+const BLOCK_ELEMENTS = new Set([
+  "p", "div", "prompt", "blockquote", "pre", "ul", "ol", "li", "dl", "dt", "dd",
+  "h1", "h2", "h3", "h4", "h5", "h6", "table", "tr", "hr", "rubricBlock", "feedbackBlock",
+]);
+
+// $TeX$ from the annotation our exports (and most editors) attach; plain text otherwise
+const mathText = (math: Element) => {
+  const annotation = elements(math, "annotation").find(a =>
+    TEX_ENCODINGS.includes((a.getAttribute("encoding") ?? "").toLowerCase())
+  );
+  return annotation ? `$${annotation.textContent ?? ""}$` : (math.textContent ?? "").trim();
+};
+
+// Text of inline content; line breaks in the markup are formatting, <br/> is a new line
+const inlineText = (parent: Element, skip: (element: Element) => boolean): string =>
+  Array.from(parent.childNodes)
+    .map(node => {
+      if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+        return (node.textContent ?? "").replace(/\s*\n\s*/g, " ");
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return "";
+      const element = node as Element;
+      if (skip(element)) return "";
+      if (element.localName === "math") return mathText(element);
+      if (element.localName === "br") return "\n";
+      return inlineText(element, skip);
+    })
+    .join("");
+
+// One entry per paragraph (or <br/>-separated line) of block content
+const contentLines = (parent: Element, skip: (element: Element) => boolean = () => false): string[] => {
+  const lines: string[] = [];
+  let inline = "";
+  const flushInline = () => {
+    if (inline.trim()) lines.push(...inline.split("\n").map(line => line.trim()));
+    inline = "";
+  };
+  for (const node of Array.from(parent.childNodes)) {
+    const element = node.nodeType === Node.ELEMENT_NODE ? (node as Element) : null;
+    if (element && skip(element)) continue;
+    if (element && BLOCK_ELEMENTS.has(element.localName)) {
+      flushInline();
+      if (childElements(element).some(child => BLOCK_ELEMENTS.has(child.localName))) {
+        lines.push(...contentLines(element, skip));
+      } else {
+        lines.push(...inlineText(element, skip).split("\n").map(line => line.trim()));
+      }
+    } else if (element) {
+      inline += element.localName === "math" ? mathText(element) : inlineText(element, skip);
+    } else if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      inline += (node.textContent ?? "").replace(/\s*\n\s*/g, " ");
+    }
+  }
+  flushInline();
+  return lines;
+};
+
+// Lines joined, without the blank ones at either end
+const joinLines = (lines: string[]) => {
+  const first = lines.findIndex(line => line !== "");
+  if (first === -1) return "";
+  const last = lines.length - 1 - [...lines].reverse().findIndex(line => line !== "");
+  return lines.slice(first, last + 1).join("\n");
+};
+
+const declaredScore = (item: Element): number => {
+  const outcomes = childElements(item, "outcomeDeclaration");
+  const maxScore = outcomes.find(o => o.getAttribute("identifier") === "MAXSCORE");
+  const fromMaxScore = Number(maxScore && elements(maxScore, "value")[0]?.textContent);
+  if (fromMaxScore > 0) return fromMaxScore;
+  const fromScore = Number(outcomes.find(o => o.getAttribute("identifier") === "SCORE")?.getAttribute("normalMaximum"));
+  return fromScore > 0 ? fromScore : 1;
+};
+
+const SUPPORTED_INTERACTIONS = ["choiceInteraction", "textEntryInteraction", "extendedTextInteraction"];
+
+// The question in an assessmentItem, or why it cannot be imported
+const readItem = (xml: string): { question: ParsedQuestion } | { title: string | null; reason: string } => {
+  const doc = parseXml(xml);
+  const item = doc.documentElement;
+  if (elements(doc, "parsererror").length > 0 || item.localName !== "assessmentItem") {
+    return { title: null, reason: "QTI 문항(assessmentItem) 파일이 아닙니다" };
+  }
+  const title = item.getAttribute("title");
+  const itemBody = childElements(item, "itemBody")[0];
+  const interactions = itemBody
+    ? Array.from(itemBody.getElementsByTagNameNS("*", "*")).filter(element => element.localName.endsWith("Interaction"))
+    : [];
+  if (interactions.length === 0) return { title, reason: "응답을 받는 부분이 없는 문항입니다" };
+  if (interactions.length > 1) {
+    return { title, reason: `한 문항에 응답이 여러 개(${interactions.length}개)인 문항은 지원하지 않습니다` };
+  }
+  const interaction = interactions[0];
+  if (!SUPPORTED_INTERACTIONS.includes(interaction.localName)) {
+    return { title, reason: `${interaction.localName} 유형은 지원하지 않습니다` };
+  }
+
+  const responseIdentifier = interaction.getAttribute("responseIdentifier");
+  const declaration = childElements(item, "responseDeclaration").find(d => d.getAttribute("identifier") === responseIdentifier);
+  const correctValues = declaration
+    ? elements(declaration, "correctResponse").flatMap(c => elements(c, "value")).map(v => v.textContent ?? "")
+    : [];
+  const mapping = declaration ? elements(declaration, "mapping")[0] : undefined;
+  const mapEntries = mapping ? elements(mapping, "mapEntry") : [];
+  const responseProcessing = childElements(item, "responseProcessing")[0];
+  const classes = new Set((interaction.getAttribute("class") ?? "").split(/\s+/));
+
+  const isRubric = (element: Element) => element.localName === "rubricBlock";
+  const text = joinLines(contentLines(itemBody, element => element === interaction || isRubric(element)))
+    || title
+    || "";
+  const explanation = joinLines(childElements(item, "modalFeedback").flatMap(feedback => contentLines(feedback)));
+  const question: ParsedQuestion = {
+    text,
+    options: createDefaultOptions(),
+    correctAnswer: null,
+    ...defaultAnswerKeyFields,
+    points: declaredScore(item),
+    explanation,
+    questionType: 'multiple_choice',
+    modelAnswer: "",
+  };
+
+  if (interaction.localName === "choiceInteraction") {
+    const cardinality = declaration?.getAttribute("cardinality");
+    if (cardinality !== "single" && cardinality !== "multiple") {
+      return { title, reason: "순서를 묻는 선택형 문항은 지원하지 않습니다" };
+    }
+    const choices = elements(interaction, "simpleChoice");
+    if (choices.length < MIN_OPTIONS || choices.length > MAX_OPTIONS) {
+      return { title, reason: `선택지가 ${choices.length}개입니다 (${MIN_OPTIONS}~${MAX_OPTIONS}개만 지원)` };
+    }
+    const identifiers = choices.map(choice => choice.getAttribute("identifier"));
+    // Tools that score by mapping alone mark the right choices with positive values
+    const keyIdentifiers = correctValues.length > 0
+      ? correctValues
+      : mapEntries.filter(entry => Number(entry.getAttribute("mappedValue")) > 0).map(entry => entry.getAttribute("mapKey") ?? "");
+    const correct = [...new Set(keyIdentifiers.map(id => identifiers.indexOf(id)).filter(index => index !== -1))].sort((a, b) => a - b);
+
+    question.options = choices.map(choice => joinLines(contentLines(choice)).replace(/\n/g, " "));
+    const prompt = elements(interaction, "prompt")[0];
+    if (prompt) question.text = joinLines([question.text, ...contentLines(prompt)]);
+
+    if (cardinality === "single") {
+      if (correct.length !== 1) return { title, reason: "정답이 하나로 정해지지 않은 객관식 문항입니다" };
+      question.correctAnswer = correct[0];
+    } else {
+      if (correct.length === 0) return { title, reason: "정답이 없는 복수선택 문항입니다" };
+      question.questionType = 'multiple_select';
+      question.correctAnswers = correct;
+      question.scoringMode = mapping ? 'partial' : 'all_or_nothing';
+    }
+  } else if (interaction.localName === "textEntryInteraction") {
+    const baseType = declaration?.getAttribute("baseType");
+    if (baseType === "float" || baseType === "integer") {
+      const correctResponse = declaration ? elements(declaration, "correctResponse")[0] : undefined;
+      const answer = correctResponse?.getAttribute("interpretation") || correctValues[0];
+      if (!answer || parseNumericAnswer(answer, true) === null) return { title, reason: "정답이 없는 수치형 문항입니다" };
+      question.questionType = 'numeric';
+      question.numericAnswer = answer;
+      question.acceptFractions = !classes.has(CLASS_NO_FRACTIONS);
+      const equal = responseProcessing ? elements(responseProcessing, "equal")[0] : undefined;
+      const toleranceMode = equal?.getAttribute("toleranceMode");
+      const tolerance = Number(equal?.getAttribute("tolerance")?.trim().split(/\s+/)[0]);
+      if ((toleranceMode === "absolute" || toleranceMode === "relative") && tolerance > 0) {
+        question.numericTolerance = tolerance;
+        question.toleranceType = toleranceMode;
+      }
+    } else if (baseType === "string") {
+      const accepted = [
+        ...mapEntries.filter(entry => Number(entry.getAttribute("mappedValue")) > 0).map(entry => entry.getAttribute("mapKey") ?? ""),
+        ...correctValues,
+      ].filter(answer => answer.trim());
+      const patterns = responseProcessing
+        ? elements(responseProcessing, "patternMatch").map(match => match.getAttribute("pattern") ?? "").filter(Boolean)
+        : [];
+      if (accepted.length === 0 && patterns.length === 0) return { title, reason: "정답이 없는 단답형 문항입니다" };
+      question.questionType = 'short_answer';
+      question.acceptedAnswers = [...new Set(accepted)];
+      question.answerPatterns = patterns;
+      question.caseSensitive = classes.has(CLASS_CASE_SENSITIVE) || mapEntries.some(entry => entry.getAttribute("caseSensitive") === "true");
+      question.normalizeWhitespace = !classes.has(CLASS_KEEP_WHITESPACE);
+      question.ignoreSpacing = classes.has(CLASS_IGNORE_SPACING);
+    } else {
+      return { title, reason: `${baseType ?? "알 수 없는"} 형식의 빈칸 문항은 지원하지 않습니다` };
+    }
+  } else {
+    question.questionType = 'free_response';
+    const rubric = elements(itemBody, "rubricBlock")[0];
+    const modelAnswer = rubric ? joinLines(contentLines(rubric)) : correctValues[0] ?? "";
+    // A model answer written as a single formula is stored as bare LaTeX, as the form edits it
+    const singleFormula = rubric && elements(rubric, "math").length === 1 && /^\$[^$]+\$$/.test(modelAnswer);
+    question.modelAnswer = singleFormula ? modelAnswer.slice(1, -1) : modelAnswer;
+  }
+
+  return { question };
+};
+
+const decodeHref = (href: string) => {
+  try {
+    return decodeURI(href);
+  } catch {
+    return href;
+  }
+};
+
+// Item files in package order: the manifest's item resources, or every item file when there is
+// no manifest
+const itemPaths = (entries: Map<string, string>): string[] => {
+  const manifestPath = [...entries.keys()].find(path => path.split("/").pop() === "imsmanifest.xml");
+  if (!manifestPath) {
+    return [...entries.keys()]
+      .filter(path => path.endsWith(".xml") && /<(\w+:)?assessmentItem[\s>]/.test(entries.get(path) ?? ""))
+      .sort();
+  }
+  const base = manifestPath.slice(0, manifestPath.lastIndexOf("/") + 1);
+  return elements(parseXml(entries.get(manifestPath) ?? ""), "resource")
+    .filter(resource => (resource.getAttribute("type") ?? "").startsWith("imsqti_item_xmlv2p"))
+    .map(resource => base + decodeHref(resource.getAttribute("href") ?? ""));
+};
+
+export const readQtiPackage = async (buffer: ArrayBuffer): Promise<QtiImportResult> => {
+  const entries = await readZipTextEntries(buffer);
+  const questions: ParsedQuestion[] = [];
+  const unsupported: UnsupportedQtiItem[] = [];
+  for (const path of itemPaths(entries)) {
+    const xml = entries.get(path);
+    if (xml === undefined) {
+      unsupported.push({ item: path, reason: "패키지에 파일이 없습니다" });
+      continue;
+    }
+    const result = readItem(xml);
+    if ("question" in result) {
+      questions.push(result.question);
+    } else {
+      unsupported.push({ item: result.title || path, reason: result.reason });
+    }
+  }
+  return { questions, unsupported };
+};
@@ -0,0 +1,88 @@
+import { Tables } from "@/integrations/supabase/types";
+import { AnswerKeyFields, QuestionType, fromAnswerKeyColumns, toAnswerKeyColumns } from "./questionTypes";
+
+export type QuestionBankItem = Tables<"question_bank_items">;
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const difficultyLabels: Record<Difficulty, string> = {
+  easy: "쉬움",
+  medium: "보통",
+  hard: "어려움",
+};
+
+// The authoring-form shape of a question, shared by the assignment editors and the bank
+export interface BankQuestion extends AnswerKeyFields {
+  text: string;
+  options: string[];
+  correctAnswer: number | null;
+  points: number;
+  explanation: string;
+  questionType: QuestionType;
+  modelAnswer: string;
+  // Set when the question was inserted from, or saved to, the bank
+  bankItemId?: string;
+}
+
+export interface BankTags {
+  topic: string;
+  unit: string;
+  difficulty: Difficulty | null;
+}
+
+export const emptyBankTags: BankTags = {
+  topic: "",
+  unit: "",
+  difficulty: null,
+};
+
+export interface BankFilters extends BankTags {
+  search: string;
+}
+
+export const emptyBankFilters: BankFilters = {
+  ...emptyBankTags,
+  search: "",
+};
+
+// Maps a form question and its tags to the question_bank_items columns
+export const toBankItemColumns = (question: BankQuestion, tags: BankTags) => ({
+  text: question.text,
+  options: question.options,
+  correct_answer: question.questionType === 'multiple_choice' ? question.correctAnswer : null,
+  ...toAnswerKeyColumns(question.questionType, question),
+  points: question.points,
+  explanation: question.explanation || null,
+  question_type: question.questionType,
+  model_answer: question.questionType === 'free_response' ? question.modelAnswer : null,
+  topic: tags.topic.trim() || null,
+  unit: tags.unit.trim() || null,
+  difficulty: tags.difficulty,
+});
+
+// Copies a bank item into a form question linked back to the item
+export const fromBankItem = (item: QuestionBankItem): BankQuestion => ({
+  text: item.text,
+  options: Array.isArray(item.options) ? item.options as string[] : JSON.parse(item.options as string),
+  correctAnswer: item.correct_answer ?? 0,
+  ...fromAnswerKeyColumns(item),
+  points: item.points,
+  explanation: item.explanation || "",
+  questionType: item.question_type,
+  modelAnswer: item.model_answer || "",
+  bankItemId: item.id,
+});
+
+export const filterBankItems = (items: QuestionBankItem[], filters: BankFilters): QuestionBankItem[] => {
+  const search = filters.search.trim().toLowerCase();
+  return items.filter(item =>
+    (!search || [item.text, item.topic, item.unit, item.explanation].some(field => field?.toLowerCase().includes(search))) &&
+    (!filters.topic || item.topic === filters.topic) &&
+    (!filters.unit || item.unit === filters.unit) &&
+    (!filters.difficulty || item.difficulty === filters.difficulty)
+  );
+};
+
+// Distinct non-empty values of a tag, for filter menus and input suggestions
+export const bankTagValues = (items: QuestionBankItem[], tag: 'topic' | 'unit'): string[] =>
+  [...new Set(items.map(item => item[tag]).filter((value): value is string => !!value))].sort((a, b) => a.localeCompare(b));
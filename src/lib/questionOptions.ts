@@ -0,0 +1,15 @@
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 10;
+export const DEFAULT_OPTION_COUNT = 5;
+
+// Numbered labels ("1", "2", ...) used when a question only needs OMR-style bubbles
+export const createDefaultOptions = (count: number = DEFAULT_OPTION_COUNT): string[] =>
+  Array.from({ length: count }, (_, i) => String(i + 1));
+
+// True when at least one option has real text instead of its default number label
+export const hasOptionText = (options: string[]): boolean =>
+  options.some((option, i) => option.trim() !== String(i + 1));
+
+// Strips list markers such as "1)", "(2)", "3. ", "A)", "①" from a pasted option line
+export const stripOptionMarker = (line: string): string =>
+  line.replace(/^\s*(?:\(?(?:\d{1,2}|[A-Ja-j])(?:\)|\.\s)|[①②③④⑤⑥⑦⑧⑨⑩])\s*/, "").trim();
@@ -0,0 +1,66 @@
+import { Tables } from "@/integrations/supabase/types";
+
+export type QuestionPool = Tables<"question_pools">;
+
+// A pool in the assignment editor. Questions refer to pools by key, because new pools
+// have no id until the assignment is saved; saved pools use their id as the key.
+export interface QuestionPoolForm {
+  id?: string;
+  key: string;
+  name: string;
+  drawCount: number;
+}
+
+// The part of an editor question that places it in a pool; questions without a pool are asked to everyone
+export interface PooledQuestion {
+  poolKey?: string;
+}
+
+export const createPool = (index: number): QuestionPoolForm => ({
+  key: crypto.randomUUID(),
+  name: `묶음 ${String.fromCharCode(65 + (index % 26))}`,
+  drawCount: 1,
+});
+
+export const fromPoolRow = (pool: QuestionPool): QuestionPoolForm => ({
+  id: pool.id,
+  key: pool.id,
+  name: pool.name,
+  drawCount: pool.draw_count,
+});
+
+export const toPoolRow = (pool: QuestionPoolForm, index: number) => ({
+  name: pool.name.trim(),
+  draw_count: pool.drawCount,
+  order_number: index,
+});
+
+export const poolSize = (pool: QuestionPoolForm, questions: PooledQuestion[]) =>
+  questions.filter(q => q.poolKey === pool.key).length;
+
+// Same count as assignment_question_count() in the database
+export const questionsPerStudent = (pools: QuestionPoolForm[], questions: PooledQuestion[]) =>
+  questions.filter(q => !q.poolKey || !pools.some(pool => pool.key === q.poolKey)).length +
+  pools.reduce((sum, pool) => sum + Math.min(pool.drawCount, poolSize(pool, questions)), 0);
+
+// Returns the first problem with the pool setup, or null when it can be saved
+export const findPoolError = (pools: QuestionPoolForm[], questions: PooledQuestion[]): string | null => {
+  for (let i = 0; i < pools.length; i++) {
+    const pool = pools[i];
+    const label = pool.name.trim();
+    if (!label) {
+      return `문제 묶음 ${i + 1}의 이름을 입력해주세요`;
+    }
+    if (!Number.isInteger(pool.drawCount) || pool.drawCount < 1) {
+      return `문제 묶음 '${label}'의 출제 수는 1 이상의 정수여야 합니다`;
+    }
+    const size = poolSize(pool, questions);
+    if (size === 0) {
+      return `문제 묶음 '${label}'에 문제를 하나 이상 넣어주세요`;
+    }
+    if (pool.drawCount > size) {
+      return `문제 묶음 '${label}'에는 문제가 ${size}개뿐이라 ${pool.drawCount}개를 출제할 수 없습니다`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { guessColumnMapping, parseQuestionRows, questionSheetTemplate } from "./questionSheet";
+import { parseCsv } from "./spreadsheet";
+
+const parseSheet = (csv: string) => {
+  const rows = parseCsv(csv);
+  return parseQuestionRows(rows, guessColumnMapping(rows[0]));
+};
+
+describe("guessColumnMapping", () => {
+  it("recognises labels and aliases in any order, without case or spaces", () => {
+    expect(guessColumnMapping(["Answer", "Question Type", "문제", "보기", "unknown"])).toEqual({
+      text: 2,
+      type: 1,
+      options: 3,
+      answer: 0,
+      explanation: null,
+      modelAnswer: null,
+      points: null,
+    });
+  });
+});
+
+describe("parseQuestionRows", () => {
+  it("reads every example of the download template", () => {
+    const rows = questionSheetTemplate();
+    const results = parseQuestionRows(rows, guessColumnMapping(rows[0]));
+    expect(results.map(result => result.errors)).toEqual([[], [], [], [], []]);
+    expect(results.map(result => result.question?.questionType)).toEqual([
+      'multiple_choice', 'multiple_select', 'numeric', 'short_answer', 'free_response',
+    ]);
+  });
+
+  it("reads answer keys of each question type", () => {
+    const [choice, select, numeric, short] = parseSheet(
+      "문제,유형,선택지,정답,배점\n" +
+      'Capital?,객관식,"1) London|2) Paris|3) Rome",2,2.5\n' +
+      "Primes?,ms,2|3|4,\"3, 1\",\n" +
+      "Pi?,num,,100±5%,\n" +
+      "Colour?,sa,,color|/colou?r/,\n"
+    ).map(result => result.question!);
+
+    expect(choice.options).toEqual(["London", "Paris", "Rome"]);
+    expect(choice.correctAnswer).toBe(1);
+    expect(choice.points).toBe(2.5);
+    expect(select.correctAnswers).toEqual([0, 2]);
+    expect(select.points).toBe(1);
+    expect([numeric.numericAnswer, numeric.numericTolerance, numeric.toleranceType]).toEqual(["100", 5, 'relative']);
+    expect(short.acceptedAnswers).toEqual(["color"]);
+    expect(short.answerPatterns).toEqual(["colou?r"]);
+  });
+
+  it("reports what is wrong with each row by its sheet row number", () => {
+    const results = parseSheet(
+      "문제,유형,선택지,정답,배점\n" +
+      ",객관식,a|b,1,\n" +
+      "Q,essay,,,\n" +
+      "\n" +
+      "Q,객관식,a|b|c|d,5,0\n" +
+      "Q,객관식,a|b|c|d,\"1,2\",\n" +
+      "Q,객관식,only,1,\n" +
+      "Q,num,,abc,\n" +
+      "Q,num,,1±x,\n" +
+      "Q,sa,,,\n" +
+      "Q,sa,,/(/,\n"
+    );
+
+    expect(results.map(result => result.row)).toEqual([2, 3, 5, 6, 7, 8, 9, 10, 11]);
+    expect(results.every(result => result.question === null)).toBe(true);
+    expect(results.map(result => result.errors)).toEqual([
+      ["문제 내용이 비어 있습니다"],
+      ['알 수 없는 유형 "essay"'],
+      ['배점 "0"은(는) 0보다 큰 숫자여야 합니다', '정답 "5"은(는) 1-4 사이의 선택지 번호여야 합니다'],
+      ["객관식 문제의 정답은 하나여야 합니다. 여러 개라면 유형을 복수선택으로 지정하세요"],
+      ["선택지는 2~10개여야 합니다 (현재 1개)"],
+      ['정답 "abc"은(는) 숫자여야 합니다'],
+      ['정답 "1±x"의 허용 오차가 올바르지 않습니다'],
+      ["정답이 비어 있습니다"],
+      ["정규식 패턴이 올바르지 않습니다: /(/"],
+    ]);
+  });
+});
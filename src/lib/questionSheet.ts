@@ -0,0 +1,175 @@
+import type { ParsedQuestion } from "@/components/BulkQuestionInput";
+import { parseNumericAnswer, splitNumericTolerance } from "./numericAnswer";
+import { MAX_OPTIONS, MIN_OPTIONS, createDefaultOptions, stripOptionMarker } from "./questionOptions";
+import { QuestionType, defaultAnswerKeyFields, questionTypeLabels } from "./questionTypes";
+import { findInvalidPattern } from "./shortAnswer";
+import type { SheetRows } from "./spreadsheet";
+
+// Question sheets: one question per row under a header row. Options share one cell, separated
+// by "|" or line breaks; so do the accepted answers of a short-answer question.
+
+export type SheetField = 'text' | 'type' | 'options' | 'answer' | 'explanation' | 'modelAnswer' | 'points';
+
+export const sheetFields: SheetField[] = ['text', 'type', 'options', 'answer', 'explanation', 'modelAnswer', 'points'];
+
+export const sheetFieldLabels: Record<SheetField, string> = {
+  text: "문제",
+  type: "유형",
+  options: "선택지",
+  answer: "정답",
+  explanation: "해설",
+  modelAnswer: "모범답안",
+  points: "배점",
+};
+
+// Other header names recognised for each field, compared without case or spaces
+const sheetFieldAliases: Record<SheetField, string[]> = {
+  text: ["문항", "question", "text"],
+  type: ["문제유형", "type", "questiontype"],
+  options: ["보기", "options", "choices"],
+  answer: ["답", "correctanswer", "answer", "key"],
+  explanation: ["풀이", "explanation"],
+  modelAnswer: ["모범답", "modelanswer", "model_answer"],
+  points: ["점수", "points", "score"],
+};
+
+// Sheet column index for each field; null when the sheet has no such column
+export type ColumnMapping = Record<SheetField, number | null>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/\s+/g, "");
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(
+    sheetFields.map(field => {
+      const names = [sheetFieldLabels[field], ...sheetFieldAliases[field]].map(normalizeHeader);
+      const index = normalized.findIndex(header => names.includes(header));
+      return [field, index === -1 ? null : index];
+    })
+  ) as ColumnMapping;
+};
+
+// Accepted spellings of each question type besides its label and key
+const questionTypeAliases: Record<QuestionType, string[]> = {
+  multiple_choice: ["mc", "mcq"],
+  multiple_select: ["ms", "복수정답"],
+  numeric: ["num", "숫자"],
+  short_answer: ["sa", "short"],
+  free_response: ["fr", "frq", "서술"],
+};
+
+const parseQuestionType = (value: string): QuestionType | null => {
+  const normalized = normalizeHeader(value);
+  if (!normalized) return 'multiple_choice';
+  const match = (Object.keys(questionTypeLabels) as QuestionType[]).find(type =>
+    [type, questionTypeLabels[type], ...questionTypeAliases[type]].some(name => normalizeHeader(name) === normalized)
+  );
+  return match ?? null;
+};
+
+const splitList = (value: string) =>
+  value.split(/\||\r?\n/).map(item => item.trim()).filter(Boolean);
+
+// "3", "1,3" or "1 3" -> zero-based indexes, or null when any of them is not an option number
+const parseOptionNumbers = (value: string, optionCount: number): number[] | null => {
+  const numbers = value.split(/[\s,;]+/).filter(Boolean).map(Number);
+  if (numbers.length === 0 || numbers.some(n => !Number.isInteger(n) || n < 1 || n > optionCount)) return null;
+  return [...new Set(numbers.map(n => n - 1))].sort((a, b) => a - b);
+};
+
+export interface SheetRowResult {
+  // 1-based row number in the sheet
+  row: number;
+  question: ParsedQuestion | null;
+  errors: string[];
+}
+
+// Reads every non-blank row below the header into a question, or into the reasons it cannot be one
+export const parseQuestionRows = (rows: SheetRows, mapping: ColumnMapping): SheetRowResult[] => {
+  const results: SheetRowResult[] = [];
+  rows.slice(1).forEach((cells, index) => {
+    if (cells.every(cell => !cell.trim())) return;
+    const cell = (field: SheetField) => (mapping[field] === null ? "" : (cells[mapping[field]] ?? "").trim());
+    const errors: string[] = [];
+
+    const text = cell('text');
+    if (!text) errors.push("문제 내용이 비어 있습니다");
+
+    const questionType = parseQuestionType(cell('type'));
+    if (!questionType) {
+      errors.push(`알 수 없는 유형 "${cell('type')}"`);
+      results.push({ row: index + 2, question: null, errors });
+      return;
+    }
+
+    const pointsText = cell('points');
+    const points = pointsText ? Number(pointsText) : 1;
+    if (!(points > 0)) errors.push(`배점 "${pointsText}"은(는) 0보다 큰 숫자여야 합니다`);
+
+    const question: ParsedQuestion = {
+      text,
+      options: createDefaultOptions(),
+      correctAnswer: null,
+      ...defaultAnswerKeyFields,
+      points,
+      explanation: cell('explanation'),
+      questionType,
+      modelAnswer: "",
+    };
+
+    const answer = cell('answer');
+    if (questionType === 'multiple_choice' || questionType === 'multiple_select') {
+      const optionTexts = splitList(cell('options')).map(stripOptionMarker);
+      if (optionTexts.length > 0) question.options = optionTexts;
+      if (question.options.length < MIN_OPTIONS || question.options.length > MAX_OPTIONS) {
+        errors.push(`선택지는 ${MIN_OPTIONS}~${MAX_OPTIONS}개여야 합니다 (현재 ${question.options.length}개)`);
+      }
+      const correct = parseOptionNumbers(answer, question.options.length);
+      if (!correct) {
+        errors.push(`정답 "${answer}"은(는) 1-${question.options.length} 사이의 선택지 번호여야 합니다`);
+      } else if (questionType === 'multiple_choice' && correct.length > 1) {
+        errors.push("객관식 문제의 정답은 하나여야 합니다. 여러 개라면 유형을 복수선택으로 지정하세요");
+      } else if (questionType === 'multiple_choice') {
+        question.correctAnswer = correct[0];
+      } else {
+        question.correctAnswers = correct;
+      }
+    } else if (questionType === 'numeric') {
+      // "2.5", "1/3", or with a tolerance: "3.14±0.01", "100±5%"
+      const { answer: key, tolerance, toleranceType } = splitNumericTolerance(answer);
+      question.numericAnswer = key;
+      question.toleranceType = toleranceType;
+      if (parseNumericAnswer(key, true) === null) {
+        errors.push(`정답 "${answer}"은(는) 숫자여야 합니다`);
+      }
+      if (Number.isNaN(tolerance)) {
+        errors.push(`정답 "${answer}"의 허용 오차가 올바르지 않습니다`);
+      } else {
+        question.numericTolerance = tolerance;
+      }
+    } else if (questionType === 'short_answer') {
+      const keys = splitList(answer);
+      question.answerPatterns = keys.filter(key => /^\/.+\/$/.test(key)).map(key => key.slice(1, -1));
+      question.acceptedAnswers = keys.filter(key => !/^\/.+\/$/.test(key));
+      if (keys.length === 0) errors.push("정답이 비어 있습니다");
+      const invalidPattern = findInvalidPattern(question.answerPatterns);
+      if (invalidPattern !== null) errors.push(`정규식 패턴이 올바르지 않습니다: /${invalidPattern}/`);
+    }
+
+    // Free-response questions may keep their model answer in the answer column
+    question.modelAnswer = cell('modelAnswer') || (questionType === 'free_response' ? answer : "");
+
+    results.push({ row: index + 2, question: errors.length === 0 ? question : null, errors });
+  });
+  return results;
+};
+
+// Header row and one example per question type, as offered for download
+export const questionSheetTemplate = (): SheetRows => [
+  sheetFields.map(field => sheetFieldLabels[field]),
+  ["프랑스의 수도는?", questionTypeLabels.multiple_choice, "런던|파리|베를린|로마", "2", "파리는 프랑스의 수도입니다", "", "1"],
+  ["$x^2 = 4$의 해를 모두 고르시오.", questionTypeLabels.multiple_select, "$x = 2$|$x = -2$|$x = 4$", "1,2", "", "", "2"],
+  ["$\\sqrt{2}$를 소수 둘째 자리까지 쓰시오.", questionTypeLabels.numeric, "", "1.41±0.01", "", "", "1"],
+  ["대한민국의 수도는?", questionTypeLabels.short_answer, "", "서울|서울특별시", "", "", "1"],
+  ["$x^2$의 미분값을 구하시오.", questionTypeLabels.free_response, "", "", "", "2x", "3"],
+];
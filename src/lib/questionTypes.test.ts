@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { scoreMultipleSelect } from "./questionTypes";
+
+// Same inputs as the multiple_select_points() cases in supabase/tests/submission_grading.test.sql
+describe("scoreMultipleSelect", () => {
+  it("scores only the exact set of correct options, in any order, when all or nothing", () => {
+    expect(scoreMultipleSelect([2, 0], [0, 2], 'all_or_nothing')).toBe(1);
+    expect(scoreMultipleSelect([0], [0, 2], 'all_or_nothing')).toBe(0);
+    expect(scoreMultipleSelect([0, 1, 2], [0, 2], 'all_or_nothing')).toBe(0);
+  });
+
+  it("takes a wrong pick off a right one for partial credit, never below zero", () => {
+    expect(scoreMultipleSelect([0], [0, 2], 'partial')).toBe(0.5);
+    expect(scoreMultipleSelect([0, 1], [0, 2], 'partial')).toBe(0);
+    expect(scoreMultipleSelect([1, 3], [0, 2], 'partial')).toBe(0);
+    expect(scoreMultipleSelect([0, 1, 2], [0, 2, 3], 'partial')).toBe(0.33);
+    expect(scoreMultipleSelect([0, 0, 2], [0, 2], 'partial')).toBe(1);
+  });
+
+  it("scores nothing without an answer or a key", () => {
+    expect(scoreMultipleSelect(null, [0, 2], 'partial')).toBe(0);
+    expect(scoreMultipleSelect([], [0, 2], 'partial')).toBe(0);
+    expect(scoreMultipleSelect([0], [], 'partial')).toBe(0);
+  });
+});
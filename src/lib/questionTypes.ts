@@ -0,0 +1,120 @@
+import { ToleranceType, parseNumericAnswer } from "./numericAnswer";
+
+export type QuestionType = 'multiple_choice' | 'multiple_select' | 'numeric' | 'short_answer' | 'free_response';
+
+export type ScoringMode = 'all_or_nothing' | 'partial';
+
+export const questionTypeLabels: Record<QuestionType, string> = {
+  multiple_choice: "객관식",
+  multiple_select: "복수선택",
+  numeric: "수치형",
+  short_answer: "단답형",
+  free_response: "서술형",
+};
+
+export const scoringModeLabels: Record<ScoringMode, string> = {
+  all_or_nothing: "모두 맞아야 정답 (전부 또는 0점)",
+  partial: "부분 점수 (맞은 선택 +, 틀린 선택 -)",
+};
+
+// Question types answered by picking from the options list
+export const isChoiceQuestion = (type: string): boolean =>
+  type === 'multiple_choice' || type === 'multiple_select';
+
+// Question types whose answer is typed and stored in student_answers.text_answer
+export const isTextAnswerQuestion = (type: string): boolean =>
+  type === 'free_response' || type === 'numeric' || type === 'short_answer';
+
+// Question types worth their full points when is_correct, rather than their points_earned
+export const isGradedByCorrectness = (type: string): boolean =>
+  type === 'multiple_choice' || type === 'numeric' || type === 'short_answer';
+
+// Answer-key settings of the non-single-choice question types, as edited in the authoring forms
+export interface AnswerKeyFields {
+  correctAnswers: number[];
+  scoringMode: ScoringMode;
+  // Kept as typed so fractions like "1/3" survive editing
+  numericAnswer: string;
+  numericTolerance: number;
+  toleranceType: ToleranceType;
+  acceptFractions: boolean;
+  acceptedAnswers: string[];
+  answerPatterns: string[];
+  caseSensitive: boolean;
+  normalizeWhitespace: boolean;
+  ignoreSpacing: boolean;
+}
+
+export const defaultAnswerKeyFields: AnswerKeyFields = {
+  correctAnswers: [],
+  scoringMode: 'all_or_nothing',
+  numericAnswer: "",
+  numericTolerance: 0,
+  toleranceType: 'absolute',
+  acceptFractions: true,
+  acceptedAnswers: [],
+  answerPatterns: [],
+  caseSensitive: false,
+  normalizeWhitespace: true,
+  ignoreSpacing: false,
+};
+
+// Maps the answer key to the questions table columns
+export const toAnswerKeyColumns = (questionType: QuestionType, fields: AnswerKeyFields) => ({
+  correct_answers: questionType === 'multiple_select' ? fields.correctAnswers : null,
+  scoring_mode: fields.scoringMode,
+  numeric_answer: questionType === 'numeric' ? parseNumericAnswer(fields.numericAnswer, true) : null,
+  numeric_tolerance: fields.numericTolerance,
+  tolerance_type: fields.toleranceType,
+  accept_fractions: fields.acceptFractions,
+  // Blank entries left over from editing are dropped
+  accepted_answers: questionType === 'short_answer' ? fields.acceptedAnswers.filter(a => a.trim()) : null,
+  answer_patterns: questionType === 'short_answer' ? fields.answerPatterns.filter(p => p.trim()) : null,
+  case_sensitive: fields.caseSensitive,
+  normalize_whitespace: fields.normalizeWhitespace,
+  ignore_spacing: fields.ignoreSpacing,
+});
+
+export const fromAnswerKeyColumns = (question: {
+  correct_answers: number[] | null;
+  scoring_mode: string;
+  numeric_answer: number | null;
+  numeric_tolerance: number;
+  tolerance_type: string;
+  accept_fractions: boolean;
+  accepted_answers: string[] | null;
+  answer_patterns: string[] | null;
+  case_sensitive: boolean;
+  normalize_whitespace: boolean;
+  ignore_spacing: boolean;
+}): AnswerKeyFields => ({
+  correctAnswers: question.correct_answers || [],
+  scoringMode: question.scoring_mode as ScoringMode,
+  numericAnswer: question.numeric_answer === null ? "" : String(question.numeric_answer),
+  numericTolerance: question.numeric_tolerance,
+  toleranceType: question.tolerance_type as ToleranceType,
+  acceptFractions: question.accept_fractions,
+  acceptedAnswers: question.accepted_answers || [],
+  answerPatterns: question.answer_patterns || [],
+  caseSensitive: question.case_sensitive,
+  normalizeWhitespace: question.normalize_whitespace,
+  ignoreSpacing: question.ignore_spacing,
+});
+
+export const sameAnswerSet = (a: number[], b: number[]): boolean => {
+  const left = new Set(a);
+  const right = new Set(b);
+  return left.size === right.size && [...left].every(i => right.has(i));
+};
+
+// Mirrors multiple_select_points() in the database so edit previews match regrading
+export const scoreMultipleSelect = (selected: number[] | null, key: number[], mode: ScoringMode): number => {
+  if (!selected || key.length === 0) return 0;
+  if (mode === 'all_or_nothing') return sameAnswerSet(selected, key) ? 1 : 0;
+
+  const keySet = new Set(key);
+  const picks = [...new Set(selected)];
+  const hits = picks.filter(i => keySet.has(i)).length;
+  const misses = picks.length - hits;
+  return Math.round(Math.max(0, (hits - misses) / keySet.size) * 100) / 100;
+};
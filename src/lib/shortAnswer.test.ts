@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { ShortAnswerMatchOptions, isShortAnswerCorrect } from "./shortAnswer";
+
+const options = (caseSensitive: boolean, normalizeWhitespace: boolean, ignoreSpacing: boolean): ShortAnswerMatchOptions => ({
+  caseSensitive,
+  normalizeWhitespace,
+  ignoreSpacing,
+});
+
+// Same inputs as the short_answer_correct() cases in supabase/tests/submission_grading.test.sql
+describe("isShortAnswerCorrect", () => {
+  it("compares answers in NFC and ignores or collapses spacing only when asked", () => {
+    // 한글 typed as decomposed jamo, as macOS input sends it
+    expect(isShortAnswerCorrect("\u1112\u1161\u11AB\u1100\u1173\u11AF", ["한글"], [], options(false, false, false))).toBe(true);
+    expect(isShortAnswerCorrect("대한 민국", ["대한민국"], [], options(false, false, true))).toBe(true);
+    expect(isShortAnswerCorrect("대한 민국", ["대한민국"], [], options(false, true, false))).toBe(false);
+    expect(isShortAnswerCorrect("  new   york ", ["New York"], [], options(false, true, false))).toBe(true);
+    expect(isShortAnswerCorrect("  new   york ", ["New York"], [], options(false, false, false))).toBe(false);
+  });
+
+  it("minds case only when asked and never accepts a blank answer", () => {
+    expect(isShortAnswerCorrect("seoul", ["Seoul"], [], options(false, true, false))).toBe(true);
+    expect(isShortAnswerCorrect("seoul", ["Seoul"], [], options(true, true, false))).toBe(false);
+    expect(isShortAnswerCorrect("   ", ["a"], [], options(false, true, false))).toBe(false);
+    expect(isShortAnswerCorrect(null, ["a"], [], options(false, true, false))).toBe(false);
+  });
+
+  it("matches patterns against the whole answer and never matches a broken pattern", () => {
+    expect(isShortAnswerCorrect("color", [], ["colou?r"], options(false, true, false))).toBe(true);
+    expect(isShortAnswerCorrect("COLOUR", [], ["colou?r"], options(false, true, false))).toBe(true);
+    expect(isShortAnswerCorrect("COLOUR", [], ["colou?r"], options(true, true, false))).toBe(false);
+    expect(isShortAnswerCorrect("colors", [], ["colou?r"], options(false, true, false))).toBe(false);
+    expect(isShortAnswerCorrect("(", [], ["("], options(false, true, false))).toBe(false);
+  });
+});
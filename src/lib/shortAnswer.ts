@@ -0,0 +1,55 @@
+export interface ShortAnswerMatchOptions {
+  caseSensitive: boolean;
+  // Trim and collapse runs of whitespace to one space
+  normalizeWhitespace: boolean;
+  // Drop all whitespace so Korean spacing variants (띄어쓰기) compare equal
+  ignoreSpacing: boolean;
+}
+
+// Mirrors normalize_short_answer() in the database. NFC is always applied so
+// decomposed Hangul jamo (e.g. from macOS input) match precomposed syllables.
+export const normalizeShortAnswer = (text: string, options: ShortAnswerMatchOptions): string => {
+  let value = text.normalize("NFC");
+  if (options.ignoreSpacing) {
+    value = value.replace(/\s+/g, "");
+  } else if (options.normalizeWhitespace) {
+    value = value.replace(/\s+/g, " ").trim();
+  }
+  return options.caseSensitive ? value : value.toLowerCase();
+};
+
+// Patterns must match the whole normalized answer, as with ~ '^(?:pattern)$' in the database
+const toPatternRegExp = (pattern: string, caseSensitive: boolean): RegExp =>
+  new RegExp(`^(?:${pattern})$`, caseSensitive ? "" : "i");
+
+// Returns the first pattern that is not a valid regular expression, if any
+export const findInvalidPattern = (patterns: string[]): string | null => {
+  for (const pattern of patterns) {
+    try {
+      toPatternRegExp(pattern, true);
+    } catch {
+      return pattern;
+    }
+  }
+  return null;
+};
+
+// Mirrors short_answer_correct() in the database
+export const isShortAnswerCorrect = (
+  text: string | null,
+  acceptedAnswers: string[],
+  patterns: string[],
+  options: ShortAnswerMatchOptions
+): boolean => {
+  if (text === null) return false;
+  const answer = normalizeShortAnswer(text, options);
+  if (!answer) return false;
+  if (acceptedAnswers.some(accepted => normalizeShortAnswer(accepted, options) === answer)) return true;
+  return patterns.some(pattern => {
+    try {
+      return toPatternRegExp(pattern, options.caseSensitive).test(answer);
+    } catch {
+      return false;
+    }
+  });
+};
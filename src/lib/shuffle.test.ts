@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { applyAttemptOrder, toCanonicalOption, toDisplayOption } from "./shuffle";
+
+const questions = [
+  { id: "q2", order_number: 1, options: ["Paris", "Rome", "Madrid", "Berlin", "Vienna"], correct_answers: [0, 3] },
+  { id: "q1", order_number: 0, options: ["red", "green", "blue", "yellow"], correct_answer: 2 },
+  // Answer-sheet question: the choices are numbered on the attached file
+  { id: "q3", order_number: 2, options: ["1", "2", "3", "4"], correct_answer: 1 },
+];
+
+const seeds = [1, 42, 20260101, 4294967295];
+
+describe("applyAttemptOrder", () => {
+  it("keeps the canonical order without an attempt order", () => {
+    const ordered = applyAttemptOrder(questions, null);
+    expect(ordered.map(q => q.id)).toEqual(["q1", "q2", "q3"]);
+    expect(ordered.map(q => q.options)).toEqual([questions[1].options, questions[0].options, questions[2].options]);
+  });
+
+  it("shuffles by the seeds, the same way every time", () => {
+    for (const seed of seeds) {
+      const order = { question_seed: seed, option_seed: seed + 1 };
+      expect(applyAttemptOrder(questions, order)).toEqual(applyAttemptOrder(questions, order));
+    }
+    const unshuffled = applyAttemptOrder(questions, null);
+    expect(seeds.some(seed => applyAttemptOrder(questions, { question_seed: seed, option_seed: seed }).some(
+      (question, i) => question.id !== unshuffled[i].id || question.options.join() !== unshuffled[i].options.join()
+    ))).toBe(true);
+  });
+
+  it("never moves the numbered choices of an answer-sheet question", () => {
+    for (const seed of seeds) {
+      const sheet = applyAttemptOrder(questions, { question_seed: null, option_seed: seed })[2];
+      expect(sheet.options).toEqual(["1", "2", "3", "4"]);
+      expect(sheet.correct_answer).toBe(1);
+    }
+  });
+});
+
+describe("toCanonicalOption", () => {
+  it("is the inverse of the display order applyAttemptOrder gives options", () => {
+    for (const seed of seeds) {
+      for (const question of applyAttemptOrder(questions, { question_seed: seed, option_seed: seed })) {
+        const original = questions.find(q => q.id === question.id)!;
+        question.options.forEach((option, displayIndex) => {
+          const canonicalIndex = toCanonicalOption(question, displayIndex);
+          expect(original.options[canonicalIndex]).toBe(option);
+          expect(toDisplayOption(question, canonicalIndex)).toBe(displayIndex);
+        });
+      }
+    }
+  });
+
+  it("maps remapped answer keys back to the stored ones", () => {
+    for (const seed of seeds) {
+      for (const question of applyAttemptOrder(questions, { question_seed: seed, option_seed: seed })) {
+        const original = questions.find(q => q.id === question.id)!;
+        if ("correct_answer" in original) {
+          expect(toCanonicalOption(question, question.correct_answer!)).toBe(original.correct_answer);
+        }
+        if ("correct_answers" in original) {
+          expect(question.correct_answers!.map(i => toCanonicalOption(question, i)).sort((a, b) => a - b)).toEqual(original.correct_answers);
+        }
+      }
+    }
+  });
+
+  it("passes indexes through for questions without an option order", () => {
+    expect(toCanonicalOption({}, 3)).toBe(3);
+    expect(toDisplayOption({}, 3)).toBe(3);
+  });
+});
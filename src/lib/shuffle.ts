@@ -0,0 +1,109 @@
+import { hasOptionText } from "./questionOptions";
+
+export interface ShuffleConfig {
+  questions: boolean;
+  options: boolean;
+}
+
+export const defaultShuffleConfig: ShuffleConfig = {
+  questions: false,
+  options: false,
+};
+
+// Maps the config to the assignments table columns
+export const toShuffleColumns = (config: ShuffleConfig) => ({
+  shuffle_questions: config.questions,
+  shuffle_options: config.options,
+});
+
+export const fromShuffleColumns = (assignment: { shuffle_questions: boolean; shuffle_options: boolean }): ShuffleConfig => ({
+  questions: assignment.shuffle_questions,
+  options: assignment.shuffle_options,
+});
+
+// The seeds stored on an attempt; null means that part keeps the canonical order
+export interface AttemptOrder {
+  question_seed: number | null;
+  option_seed: number | null;
+}
+
+interface OrderableQuestion {
+  id: string;
+  order_number: number;
+  options: string[];
+  correct_answer?: number | null;
+  correct_answers?: number[] | null;
+}
+
+// A question as one student sees it: options are in display order, answer keys are
+// remapped to display indexes, and option_order[displayIndex] is the canonical index
+export type OrderedQuestion<T> = T & { option_order: number[] };
+
+// mulberry32: small, fast and identical in every browser
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Derives a per-question seed so a question's option order does not depend on
+// which other questions the student was given (FNV-1a over the question id)
+const questionSeed = (seed: number, questionId: string) => {
+  let hash = (2166136261 ^ seed) >>> 0;
+  for (let i = 0; i < questionId.length; i++) {
+    hash = Math.imul(hash ^ questionId.charCodeAt(i), 16777619) >>> 0;
+  }
+  return hash;
+};
+
+// Fisher-Yates over 0..length-1 driven by the seed
+export const seededPermutation = (length: number, seed: number): number[] => {
+  const random = seededRandom(seed);
+  const order = Array.from({ length }, (_, i) => i);
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+// Options are only shuffled when they have text; answer-sheet style questions refer to
+// numbered choices on the attached file, which cannot move
+export const optionOrder = (question: Pick<OrderableQuestion, 'id' | 'options'>, optionSeed: number | null): number[] =>
+  optionSeed !== null && hasOptionText(question.options)
+    ? seededPermutation(question.options.length, questionSeed(optionSeed, question.id))
+    : question.options.map((_, i) => i);
+
+// Puts questions in the order a student saw them
+export const orderQuestions = <T extends { order_number: number }>(questions: T[], seed: number | null): T[] => {
+  const canonical = [...questions].sort((a, b) => a.order_number - b.order_number);
+  return seed !== null
+    ? seededPermutation(canonical.length, seed).map(i => canonical[i])
+    : canonical;
+};
+
+// Puts a student's questions and options in the order of their attempt
+export const applyAttemptOrder = <T extends OrderableQuestion>(questions: T[], order: AttemptOrder | null): OrderedQuestion<T>[] =>
+  orderQuestions(questions, order?.question_seed ?? null).map(question => {
+    const option_order = optionOrder(question, order?.option_seed ?? null);
+    const toDisplay = (index: number) => option_order.indexOf(index);
+    return {
+      ...question,
+      options: option_order.map(i => question.options[i]),
+      ...(question.correct_answer != null && { correct_answer: toDisplay(question.correct_answer) }),
+      ...(question.correct_answers && { correct_answers: question.correct_answers.map(toDisplay).sort((a, b) => a - b) }),
+      option_order,
+    };
+  });
+
+// Converts between the option index a student clicked and the stored canonical index
+export const toCanonicalOption = (question: { option_order?: number[] }, displayIndex: number) =>
+  question.option_order ? question.option_order[displayIndex] : displayIndex;
+
+export const toDisplayOption = (question: { option_order?: number[] }, canonicalIndex: number) =>
+  question.option_order ? question.option_order.indexOf(canonicalIndex) : canonicalIndex;
@@ -0,0 +1,76 @@
+import { JSDOM } from "jsdom";
+import { describe, expect, it } from "vitest";
+import { parseCsv, readXlsx, toCsv } from "./spreadsheet";
+import { createZip } from "./zip";
+
+// Workbook parts are parsed with the browser's DOMParser; Node's own Blob and streams unzip them
+globalThis.DOMParser = new JSDOM().window.DOMParser;
+
+const workbookFiles = (sheetXml: string) => [
+  {
+    path: "xl/workbook.xml",
+    content:
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets><sheet name="Questions" sheetId="1" r:id="rId2"/><sheet name="Other" sheetId="2" r:id="rId1"/></sheets></workbook>',
+  },
+  {
+    path: "xl/_rels/workbook.xml.rels",
+    content:
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Target="worksheets/sheet2.xml"/><Relationship Id="rId2" Target="worksheets/sheet1.xml"/></Relationships>',
+  },
+  {
+    path: "xl/sharedStrings.xml",
+    content:
+      '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      "<si><t>문제</t></si><si><t>정답</t></si><si><r><t>Rich </t></r><r><t>text</t></r><rPh><t>hint</t></rPh></si></sst>",
+  },
+  { path: "xl/worksheets/sheet1.xml", content: sheetXml },
+  {
+    path: "xl/worksheets/sheet2.xml",
+    content: '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData><row r="1"><c r="A1"><v>wrong sheet</v></c></row></sheetData></worksheet>',
+  },
+];
+
+const xlsxBuffer = (sheetXml: string) => createZip(workbookFiles(sheetXml)).arrayBuffer();
+
+describe("parseCsv", () => {
+  it("reads quoted cells with delimiters, quotes and line breaks", () => {
+    expect(parseCsv('\uFEFFa,"b, c","say ""hi""","line\nbreak"\r\n1,2,3,4\n')).toEqual([
+      ["a", "b, c", 'say "hi"', "line\nbreak"],
+      ["1", "2", "3", "4"],
+    ]);
+  });
+
+  it("reads tab-separated text copied out of a spreadsheet", () => {
+    expect(parseCsv("문제\t정답\nQ\t1")).toEqual([["문제", "정답"], ["Q", "1"]]);
+  });
+
+  it("reads back what toCsv writes", () => {
+    const rows = [["문제", "선택지"], ['He said "1, 2"', "a|b\nc"]];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe("readXlsx", () => {
+  it("reads the first sheet in tab order with shared, inline, boolean and number cells", async () => {
+    const rows = await readXlsx(await xlsxBuffer(
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+      '<row r="3"><c r="A3" t="inlineStr"><is><t>Inline</t></is></c><c r="C3"><v>2.5</v></c><c r="D3" t="b"><v>1</v></c><c r="E3" t="s"><v>2</v></c></row>' +
+      "</sheetData></worksheet>"
+    ));
+    expect(rows).toEqual([
+      ["문제", "정답"],
+      [],
+      ["Inline", "", "2.5", "TRUE", "Rich text"],
+    ]);
+  });
+
+  it("rejects files that are not workbooks", async () => {
+    await expect(readXlsx(new TextEncoder().encode("not a zip").buffer)).rejects.toThrow("올바른 Excel(.xlsx) 파일이 아닙니다");
+    await expect(readXlsx(await createZip([{ path: "readme.txt", content: "hi" }]).arrayBuffer())).rejects.toThrow(
+      "올바른 Excel(.xlsx) 파일이 아닙니다"
+    );
+  });
+});
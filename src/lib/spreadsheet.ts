@@ -0,0 +1,139 @@
+import { downloadBlob } from "./utils";
+import { readZipTextEntries } from "./zip";
+
+// Reads CSV files and the first worksheet of .xlsx workbooks as rows of cell text. An .xlsx file
+// is a zip archive of XML parts, so no spreadsheet library is needed. Blank rows are kept so row
+// numbers match the sheet.
+
+export type SheetRows = string[][];
+
+export const parseCsv = (text: string): SheetRows => {
+  const input = text.replace(/^\uFEFF/, "");
+  // Tab-separated text, as copied out of a spreadsheet, is read the same way
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = firstLine.includes("\t") && !firstLine.includes(",") ? "\t" : ",";
+
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const escapeCsvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// With a byte order mark so Excel opens Korean text as UTF-8
+export const toCsv = (rows: SheetRows): string =>
+  "\uFEFF" + rows.map(row => row.map(escapeCsvCell).join(",")).join("\r\n") + "\r\n";
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, "application/xml");
+
+// Elements by local name, whatever namespace prefix the writer used
+const elements = (parent: Document | Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS("*", localName));
+
+// Text of a shared or inline string; rich text keeps its runs, phonetic hints are skipped
+const stringItemText = (item: Element) =>
+  elements(item, "t")
+    .filter(t => t.parentElement?.localName !== "rPh")
+    .map(t => t.textContent ?? "")
+    .join("");
+
+// "BC12" -> 54 (zero-based column index)
+const columnIndex = (reference: string) => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "";
+  return letters.split("").reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+export const readXlsx = async (buffer: ArrayBuffer): Promise<SheetRows> => {
+  const entries = await readZipTextEntries(buffer).catch(() => {
+    throw new Error("올바른 Excel(.xlsx) 파일이 아닙니다");
+  });
+  const workbook = entries.get("xl/workbook.xml");
+  const relationships = entries.get("xl/_rels/workbook.xml.rels");
+  if (!workbook || !relationships) throw new Error("올바른 Excel(.xlsx) 파일이 아닙니다");
+
+  // The first sheet in tab order
+  const firstSheet = elements(parseXml(workbook), "sheet")[0];
+  const relationshipId = firstSheet?.getAttributeNS("http://schemas.openxmlformats.org/officeDocument/2006/relationships", "id");
+  const target = elements(parseXml(relationships), "Relationship")
+    .find(r => r.getAttribute("Id") === relationshipId)
+    ?.getAttribute("Target");
+  const sheetPath = target && (target.startsWith("/") ? target.slice(1) : `xl/${target}`);
+  const sheet = sheetPath && entries.get(sheetPath);
+  if (!sheet) throw new Error("Excel 파일에서 시트를 찾을 수 없습니다");
+
+  const sharedStringsXml = entries.get("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml ? elements(parseXml(sharedStringsXml), "si").map(stringItemText) : [];
+
+  const rows: SheetRows = [];
+  elements(parseXml(sheet), "row").forEach((rowElement, position) => {
+    const rowIndex = Number(rowElement.getAttribute("r") ?? position + 1) - 1;
+    const row: string[] = [];
+    elements(rowElement, "c").forEach((cell, cellPosition) => {
+      const reference = cell.getAttribute("r");
+      const index = reference ? columnIndex(reference) : cellPosition;
+      const value = elements(cell, "v")[0]?.textContent ?? "";
+      switch (cell.getAttribute("t")) {
+        case "s":
+          row[index] = sharedStrings[Number(value)] ?? "";
+          break;
+        case "inlineStr":
+          row[index] = stringItemText(cell);
+          break;
+        case "b":
+          row[index] = value === "1" ? "TRUE" : "FALSE";
+          break;
+        default:
+          row[index] = value;
+      }
+    });
+    rows[rowIndex] = Array.from(row, cell => cell ?? "");
+  });
+  return Array.from(rows, row => row ?? []);
+};
+
+export const readSpreadsheet = async (file: File): Promise<SheetRows> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".csv") || name.endsWith(".tsv") || name.endsWith(".txt")) {
+    return parseCsv(await file.text());
+  }
+  if (name.endsWith(".xlsx")) {
+    return readXlsx(await file.arrayBuffer());
+  }
+  throw new Error("CSV 또는 Excel(.xlsx) 파일만 가져올 수 있습니다");
+};
+
+export const downloadCsv = (fileName: string, rows: SheetRows) =>
+  downloadBlob(fileName, new Blob([toCsv(rows)], { type: "text/csv;charset=utf-8" }));
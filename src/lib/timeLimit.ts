@@ -0,0 +1,21 @@
+// Minutes a student gets for one attempt, including their extra-time accommodation
+export const attemptMinutes = (timeLimitMinutes: number | null, extraTimeMinutes = 0) =>
+  timeLimitMinutes ? timeLimitMinutes + extraTimeMinutes : null;
+
+export const findTimeLimitError = (timeLimitMinutes: number | null): string | null => {
+  if (timeLimitMinutes !== null && !(Number.isInteger(timeLimitMinutes) && timeLimitMinutes > 0)) {
+    return "제한 시간은 1분 이상의 정수여야 합니다";
+  }
+  return null;
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// "h:mm:ss" or "mm:ss", never below zero
+export const formatRemainingTime = (remainingMs: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(remainingMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
@@ -4,3 +4,10 @@ import App from "./App.tsx";
 import "./index.css";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// Lets students keep taking a quiz when the connection drops; see public/sw.js
+if ("serviceWorker" in navigator && import.meta.env.PROD) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(error => console.error("Service worker registration failed:", error));
+  });
+}
@@ -23,13 +23,38 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { BulkQuestionInput } from "@/components/BulkQuestionInput";
 import { StudentSelector } from "@/components/StudentSelector";
+import { DuplicateAssignmentDialog } from "@/components/DuplicateAssignmentDialog";
+import { QtiExportButton } from "@/components/QtiExportButton";
 import { MathInput } from "@/components/MathInput";
-import { MathDisplay } from "@/components/MathDisplay";
+import { RichContent } from "@/components/RichContent";
 import { FRQGradingDialog } from "@/components/FRQGradingDialog";
 import { CompletionStatusDialog } from "@/components/CompletionStatusDialog";
 import { AssignmentAnalyticsCard } from "@/components/AssignmentAnalyticsCard";
 import { StudentGradeCard } from "@/components/StudentGradeCard";
 import { StudentScoreDialog } from "@/components/StudentScoreDialog";
+import { AnswerRevealSettings } from "@/components/AnswerRevealSettings";
+import { ShuffleConfig, defaultShuffleConfig, toShuffleColumns } from "@/lib/shuffle";
+import { ShuffleSettings } from "@/components/ShuffleSettings";
+import { AvailabilityWindow, defaultAvailabilityWindow, findAvailabilityError, toAvailabilityColumns } from "@/lib/availability";
+import { AvailabilitySettings } from "@/components/AvailabilitySettings";
+import { AvailabilityBadge } from "@/components/AvailabilityBadge";
+import { LatePolicyConfig, defaultLatePolicyConfig, findLatePolicyError, toLatePolicyColumns } from "@/lib/latePolicy";
+import { LatePolicySettings } from "@/components/LatePolicySettings";
+import { findTimeLimitError } from "@/lib/timeLimit";
+import { TimeLimitSettings } from "@/components/TimeLimitSettings";
+import { AnswerRevealConfig, defaultAnswerRevealConfig, toAnswerRevealColumns } from "@/lib/answerReveal";
+import { MultipleChoiceOptionsEditor } from "@/components/MultipleChoiceOptionsEditor";
+import { DEFAULT_OPTION_COUNT, MAX_OPTIONS, MIN_OPTIONS } from "@/lib/questionOptions";
+import { AnswerKeyFields, QuestionType, defaultAnswerKeyFields, isChoiceQuestion, toAnswerKeyColumns } from "@/lib/questionTypes";
+import { parseNumericAnswer } from "@/lib/numericAnswer";
+import { NumericAnswerEditor } from "@/components/NumericAnswerEditor";
+import { ShortAnswerEditor } from "@/components/ShortAnswerEditor";
+import { findInvalidPattern } from "@/lib/shortAnswer";
+import { QuestionBankPicker } from "@/components/QuestionBankPicker";
+import { SaveToQuestionBankDialog } from "@/components/SaveToQuestionBankDialog";
+import { PooledQuestion, QuestionPoolForm, findPoolError, toPoolRow } from "@/lib/questionPools";
+import { QuestionPoolsEditor } from "@/components/QuestionPoolsEditor";
+import { QuestionPoolSelect } from "@/components/QuestionPoolSelect";
 interface UserProfile {
   id: string;
   full_name: string;
@@ -45,8 +70,11 @@ interface Assignment {
   title: string;
   description: string | null;
   due_date: string | null;
+  available_from: string | null;
+  available_until: string | null;
   created_at: string;
   assignment_type: string;
+  instructor_id: string;
   instructor: {
     full_name: string;
   };
@@ -57,7 +85,7 @@ interface Assignment {
 interface Submission {
   id: string;
   score: number | null;
-  total_questions: number;
+  max_score: number;
   submitted_at: string;
   student_id: string;
   student: {
@@ -68,13 +96,15 @@ interface Submission {
     id: string;
   };
 }
-interface QuestionForm {
+interface QuestionForm extends AnswerKeyFields, PooledQuestion {
   text: string;
   options: string[];
   correctAnswer: number;
+  points: number;
   explanation: string;
-  questionType: "multiple_choice" | "free_response";
+  questionType: QuestionType;
   modelAnswer: string;
+  bankItemId?: string;
 }
 interface Instructor {
   id: string;
@@ -101,17 +131,25 @@ const Admin = () => {
   const [dueDate, setDueDate] = useState<Date>();
   const [questions, setQuestions] = useState<QuestionForm[]>([{
     text: "",
-    options: ["", "", "", "", ""],
+    options: Array(DEFAULT_OPTION_COUNT).fill(""),
     correctAnswer: 0,
+    ...defaultAnswerKeyFields,
+    points: 1,
     explanation: "",
     questionType: "multiple_choice",
     modelAnswer: ""
   }]);
+  const [pools, setPools] = useState<QuestionPoolForm[]>([]);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [isResubmittable, setIsResubmittable] = useState(false);
   const [maxAttempts, setMaxAttempts] = useState<number>(1);
+  const [answerReveal, setAnswerReveal] = useState<AnswerRevealConfig>(defaultAnswerRevealConfig);
+  const [shuffle, setShuffle] = useState<ShuffleConfig>(defaultShuffleConfig);
+  const [availability, setAvailability] = useState<AvailabilityWindow>(defaultAvailabilityWindow);
+  const [latePolicy, setLatePolicy] = useState<LatePolicyConfig>(defaultLatePolicyConfig);
+  const [timeLimit, setTimeLimit] = useState<number | null>(null);
   const [selectedStudentIds, setSelectedStudentIds] = useState<string[]>([]);
   const [assignmentType, setAssignmentType] = useState<"quiz" | "reading">("quiz");
 
@@ -375,8 +413,10 @@ const Admin = () => {
   const addQuestion = () => {
     setQuestions([...questions, {
       text: "",
-      options: ["", "", "", "", ""],
+      options: Array(DEFAULT_OPTION_COUNT).fill(""),
       correctAnswer: 0,
+      ...defaultAnswerKeyFields,
+      points: 1,
       explanation: "",
       questionType: "multiple_choice",
       modelAnswer: ""
@@ -425,6 +465,13 @@ const Admin = () => {
       setQuestions(questions.filter((_, i) => i !== index));
     }
   };
+  const removePool = (key: string) => {
+    setPools(pools.filter(pool => pool.key !== key));
+    setQuestions(questions.map(q => q.poolKey === key ? {
+      ...q,
+      poolKey: undefined
+    } : q));
+  };
   const updateQuestion = (index: number, field: keyof QuestionForm, value: any) => {
     const newQuestions = [...questions];
     newQuestions[index] = {
@@ -433,9 +480,18 @@ const Admin = () => {
     };
     setQuestions(newQuestions);
   };
-  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
+  const updateOptions = (questionIndex: number, options: string[], correctAnswers: number[]) => {
     const newQuestions = [...questions];
-    newQuestions[questionIndex].options[optionIndex] = value;
+    const question = newQuestions[questionIndex];
+    newQuestions[questionIndex] = question.questionType === "multiple_select" ? {
+      ...question,
+      options,
+      correctAnswers
+    } : {
+      ...question,
+      options,
+      correctAnswer: correctAnswers[0] ?? 0
+    };
     setQuestions(newQuestions);
   };
   const handleCreateAssignment = async () => {
@@ -447,6 +503,11 @@ const Admin = () => {
       toast.error("과제 제목을 입력해주세요");
       return;
     }
+    const availabilityError = findAvailabilityError(availability);
+    if (availabilityError) {
+      toast.error(availabilityError);
+      return;
+    }
     // Only validate questions for quiz type
     if (assignmentType === "quiz") {
       for (let i = 0; i < questions.length; i++) {
@@ -454,14 +515,58 @@ const Admin = () => {
           toast.error(`문제 ${i + 1}의 내용을 입력해주세요`);
           return;
         }
-        if (questions[i].questionType === "multiple_choice") {
-          for (let j = 0; j < 5; j++) {
+        if (!(questions[i].points > 0)) {
+          toast.error(`문제 ${i + 1}의 배점은 0보다 커야 합니다`);
+          return;
+        }
+        if (isChoiceQuestion(questions[i].questionType)) {
+          const optionCount = questions[i].options.length;
+          if (optionCount < MIN_OPTIONS || optionCount > MAX_OPTIONS) {
+            toast.error(`문제 ${i + 1}의 선택지는 ${MIN_OPTIONS}~${MAX_OPTIONS}개여야 합니다`);
+            return;
+          }
+          for (let j = 0; j < optionCount; j++) {
             if (!questions[i].options[j].trim()) {
               toast.error(`문제 ${i + 1}, 선택지 ${j + 1}을 입력해주세요`);
               return;
             }
           }
         }
+        if (questions[i].questionType === "multiple_select" && questions[i].correctAnswers.length === 0) {
+          toast.error(`문제 ${i + 1}의 정답을 하나 이상 선택해주세요`);
+          return;
+        }
+        if (questions[i].questionType === "numeric" && parseNumericAnswer(questions[i].numericAnswer, true) === null) {
+          toast.error(`문제 ${i + 1}의 정답 값을 숫자로 입력해주세요`);
+          return;
+        }
+        if (questions[i].questionType === "short_answer") {
+          const hasKey = [...questions[i].acceptedAnswers, ...questions[i].answerPatterns].some(a => a.trim());
+          if (!hasKey) {
+            toast.error(`문제 ${i + 1}의 정답을 하나 이상 입력해주세요`);
+            return;
+          }
+          const invalidPattern = findInvalidPattern(questions[i].answerPatterns.filter(p => p.trim()));
+          if (invalidPattern !== null) {
+            toast.error(`문제 ${i + 1}의 정규식 패턴이 올바르지 않습니다: ${invalidPattern}`);
+            return;
+          }
+        }
+      }
+      const poolError = findPoolError(pools, questions);
+      if (poolError) {
+        toast.error(poolError);
+        return;
+      }
+      const latePolicyError = findLatePolicyError(latePolicy);
+      if (latePolicyError) {
+        toast.error(latePolicyError);
+        return;
+      }
+      const timeLimitError = findTimeLimitError(timeLimit);
+      if (timeLimitError) {
+        toast.error(timeLimitError);
+        return;
       }
     }
     setSubmitting(true);
@@ -489,20 +594,41 @@ const Admin = () => {
         file_type: fileType,
         is_resubmittable: isResubmittable,
         max_attempts: isResubmittable ? maxAttempts : null,
-        assignment_type: assignmentType
+        assignment_type: assignmentType,
+        ...toAnswerRevealColumns(answerReveal),
+        ...toShuffleColumns(shuffle),
+        ...toAvailabilityColumns(availability),
+        ...toLatePolicyColumns(latePolicy),
+        time_limit_minutes: assignmentType === "quiz" ? timeLimit : null
       }).select().single();
       if (assignmentError) throw assignmentError;
       // Only insert questions for quiz type assignments
       if (assignmentType === "quiz") {
+        const poolIds: Record<string, string> = {};
+        for (let i = 0; i < pools.length; i++) {
+          const {
+            data: pool,
+            error: poolError
+          } = await supabase.from("question_pools").insert({
+            assignment_id: assignment.id,
+            ...toPoolRow(pools[i], i)
+          }).select("id").single();
+          if (poolError) throw poolError;
+          poolIds[pools[i].key] = pool.id;
+        }
         const questionsToInsert = questions.map((q, index) => ({
           assignment_id: assignment.id,
           text: q.text,
-          options: q.questionType === "multiple_choice" ? q.options : [],
+          options: isChoiceQuestion(q.questionType) ? q.options : [],
           correct_answer: q.questionType === "multiple_choice" ? q.correctAnswer : null,
+          ...toAnswerKeyColumns(q.questionType, q),
+          points: q.points,
           explanation: q.explanation || null,
           order_number: index,
           question_type: q.questionType,
-          model_answer: q.questionType === "free_response" ? q.modelAnswer || null : null
+          model_answer: q.questionType === "free_response" ? q.modelAnswer || null : null,
+          bank_item_id: q.bankItemId ?? null,
+          pool_id: q.poolKey ? poolIds[q.poolKey] ?? null : null
         }));
         const {
           error: questionsError
@@ -527,17 +653,25 @@ const Admin = () => {
       setDueDate(undefined);
       setIsResubmittable(false);
       setMaxAttempts(1);
+      setAnswerReveal(defaultAnswerRevealConfig);
+      setShuffle(defaultShuffleConfig);
+      setAvailability(defaultAvailabilityWindow);
+      setLatePolicy(defaultLatePolicyConfig);
+      setTimeLimit(null);
       setUploadedFile(null);
       setSelectedStudentIds([]);
       setAssignmentType("quiz");
       setQuestions([{
         text: "",
-        options: ["", "", "", "", ""],
+        options: Array(DEFAULT_OPTION_COUNT).fill(""),
         correctAnswer: 0,
+        ...defaultAnswerKeyFields,
+        points: 1,
         explanation: "",
         questionType: "multiple_choice",
         modelAnswer: ""
       }]);
+      setPools([]);
       fetchAssignments();
     } catch (error: any) {
       toast.error("과제 생성 실패: " + error.message);
@@ -550,7 +684,7 @@ const Admin = () => {
   const calculateOverallStats = () => {
     const completedSubmissions = submissions.filter(s => s.score !== null);
     const totalScore = completedSubmissions.reduce((sum, s) => sum + (s.score || 0), 0);
-    const totalPossible = completedSubmissions.reduce((sum, s) => sum + s.total_questions, 0);
+    const totalPossible = completedSubmissions.reduce((sum, s) => sum + s.max_score, 0);
     return {
       averageScore: totalPossible > 0 ? Math.round(totalScore / totalPossible * 100) : 0,
       totalSubmissions: submissions.length,
@@ -561,7 +695,7 @@ const Admin = () => {
   const getAssignmentStats = (assignmentId: string) => {
     const assignmentSubmissions = submissions.filter(s => s.assignment.id === assignmentId);
     const completedSubmissions = assignmentSubmissions.filter(s => s.score !== null);
-    const scores = completedSubmissions.map(s => s.score !== null ? Math.round(s.score / s.total_questions * 100) : 0);
+    const scores = completedSubmissions.map(s => s.score !== null ? Math.round(s.score / s.max_score * 100) : 0);
     const totalStudents = students.length;
     const averageScore = scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0;
 
@@ -837,6 +971,8 @@ const Admin = () => {
                         </Popover>
                       </div>
 
+                      <AvailabilitySettings value={availability} onChange={setAvailability} />
+
                       <div className="space-y-2">
                         <Label htmlFor="file">파일 업로드 (선택사항)</Label>
                         <div className="flex gap-2 items-center">
@@ -871,6 +1007,14 @@ const Admin = () => {
                                 학생들은 이 과제를 최대 {maxAttempts}회까지 제출할 수 있습니다
                               </p>
                             </div>}
+
+                          <AnswerRevealSettings value={answerReveal} onChange={setAnswerReveal} />
+
+                          <LatePolicySettings value={latePolicy} onChange={setLatePolicy} />
+
+                          <TimeLimitSettings value={timeLimit} onChange={setTimeLimit} />
+
+                          <ShuffleSettings value={shuffle} onChange={setShuffle} />
                         </div>}
 
                       <Button onClick={handleCreateAssignment} className="w-full" disabled={submitting}>
@@ -929,6 +1073,8 @@ const Admin = () => {
                   })}
                         </div>
 
+                        <QuestionPoolsEditor pools={pools} questions={questions} onChange={setPools} onRemove={removePool} />
+
                         <div className="space-y-6">
                           {questions.map((question, qIndex) => <Card key={qIndex} id={`admin-question-form-${qIndex}`} className="border-2 border-accent/30 hover:border-accent/50 transition-colors">
                               <CardHeader className="bg-gradient-to-r from-accent/10 to-transparent">
@@ -939,48 +1085,76 @@ const Admin = () => {
                                     </div>
                                     <CardTitle>문제 {qIndex + 1}</CardTitle>
                                   </div>
+                                  <div className="flex items-center gap-1">
+                                  {user && <SaveToQuestionBankDialog question={question} instructorId={user.id} onSaved={itemId => updateQuestion(qIndex, "bankItemId", itemId)} idPrefix={`q${qIndex}`} />}
                                   {questions.length > 1 && <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive hover:bg-destructive/10" onClick={() => removeQuestion(qIndex)}>
                                       <Trash2 className="h-4 w-4 mr-2" />
                                       삭제
                                     </Button>}
+                                  </div>
                                 </div>
                               </CardHeader>
                               <CardContent className="space-y-4">
                                 <div className="space-y-2">
                                   <Label>문제 유형</Label>
-                                  <div className="flex gap-2">
+                                  <div className="flex flex-wrap gap-2">
                                     <Button type="button" variant={question.questionType === "multiple_choice" ? "default" : "outline"} size="sm" onClick={() => updateQuestion(qIndex, "questionType", "multiple_choice")}>
                                       객관식
                                     </Button>
+                                    <Button type="button" variant={question.questionType === "multiple_select" ? "default" : "outline"} size="sm" onClick={() => updateQuestion(qIndex, "questionType", "multiple_select")}>
+                                      복수선택
+                                    </Button>
+                                    <Button type="button" variant={question.questionType === "numeric" ? "default" : "outline"} size="sm" onClick={() => updateQuestion(qIndex, "questionType", "numeric")}>
+                                      수치형
+                                    </Button>
+                                    <Button type="button" variant={question.questionType === "short_answer" ? "default" : "outline"} size="sm" onClick={() => updateQuestion(qIndex, "questionType", "short_answer")}>
+                                      단답형
+                                    </Button>
                                     <Button type="button" variant={question.questionType === "free_response" ? "default" : "outline"} size="sm" onClick={() => updateQuestion(qIndex, "questionType", "free_response")}>
                                       서술형
                                     </Button>
                                   </div>
                                 </div>
 
+                                <div className="space-y-2">
+                                  <Label htmlFor={`admin-q${qIndex}-points`}>배점</Label>
+                                  <Input id={`admin-q${qIndex}-points`} type="number" min={0} step="any" className="w-24" value={question.points} onChange={e => updateQuestion(qIndex, "points", parseFloat(e.target.value) || 0)} />
+                                </div>
+
+                                {pools.length > 0 && <div className="space-y-2">
+                                    <Label>문제 묶음</Label>
+                                    <QuestionPoolSelect pools={pools} value={question.poolKey} onChange={poolKey => updateQuestion(qIndex, "poolKey", poolKey)} />
+                                  </div>}
+
                                 <div className="space-y-2">
                                   <Label>문제 텍스트</Label>
                                   <Input placeholder="문제 텍스트를 입력하세요" value={question.text} onChange={e => updateQuestion(qIndex, "text", e.target.value)} />
                                 </div>
 
-                                {question.questionType === "multiple_choice" ? <div className="space-y-3">
+                                {isChoiceQuestion(question.questionType) ? <div className="space-y-3">
+                                    <div className="flex items-center gap-2 p-3 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-md">
+                                      <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 shrink-0" />
+                                      <Label className="text-sm font-medium text-blue-600 dark:text-blue-400">
+                                        {question.questionType === "multiple_select" ? "체크박스를 클릭하여 정답을 모두 표시하세요" : "라디오 버튼을 클릭하여 정답을 표시하세요"}
+                                      </Label>
+                                    </div>
+                                    <MultipleChoiceOptionsEditor options={question.options} correctAnswers={question.questionType === "multiple_select" ? question.correctAnswers : [question.correctAnswer]} onChange={(options, correctAnswers) => updateOptions(qIndex, options, correctAnswers)} idPrefix={`admin-q${qIndex}`} multiple={question.questionType === "multiple_select"} scoringMode={question.scoringMode} onScoringModeChange={mode => updateQuestion(qIndex, "scoringMode", mode)} />
+                                  </div> : question.questionType === "numeric" ? <div className="space-y-3">
                                     <div className="flex items-center gap-2 p-3 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-md">
                                       <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 shrink-0" />
                                       <Label className="text-sm font-medium text-blue-600 dark:text-blue-400">
-                                        라디오 버튼을 클릭하여 정답을 표시하세요
+                                        학생 답이 허용 오차 안에 있으면 자동으로 정답 처리됩니다
                                       </Label>
                                     </div>
-                                    <RadioGroup value={question.correctAnswer.toString()} onValueChange={value => updateQuestion(qIndex, "correctAnswer", parseInt(value))}>
-                                      {question.options.map((option, oIndex) => <div key={oIndex} className="flex items-center gap-2">
-                                          <RadioGroupItem value={oIndex.toString()} id={`admin-q${qIndex}-o${oIndex}`} className="shrink-0" />
-                                          <div className="flex-1">
-                                            <Input placeholder={`선택지 ${oIndex + 1}`} value={option} onChange={e => updateOption(qIndex, oIndex, e.target.value)} />
-                                          </div>
-                                          {question.correctAnswer === oIndex && <span className="text-xs text-green-600 dark:text-green-400 font-medium shrink-0">
-                                              ✓ 정답
-                                            </span>}
-                                        </div>)}
-                                    </RadioGroup>
+                                    <NumericAnswerEditor value={question} onChange={(field, value) => updateQuestion(qIndex, field, value)} idPrefix={`admin-q${qIndex}`} />
+                                  </div> : question.questionType === "short_answer" ? <div className="space-y-3">
+                                    <div className="flex items-center gap-2 p-3 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-md">
+                                      <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 shrink-0" />
+                                      <Label className="text-sm font-medium text-blue-600 dark:text-blue-400">
+                                        학생 답이 정답 목록이나 패턴과 일치하면 자동으로 정답 처리됩니다
+                                      </Label>
+                                    </div>
+                                    <ShortAnswerEditor value={question} onChange={(field, value) => updateQuestion(qIndex, field, value)} idPrefix={`admin-q${qIndex}`} />
                                   </div> : <div className="space-y-3">
                                     <div className="flex items-center gap-2 p-3 bg-purple-50 dark:bg-purple-950 border border-purple-200 dark:border-purple-800 rounded-md">
                                       <Info className="h-4 w-4 text-purple-600 dark:text-purple-400 shrink-0" />
@@ -993,7 +1167,7 @@ const Admin = () => {
                                       <MathInput value={question.modelAnswer} onChange={value => updateQuestion(qIndex, "modelAnswer", value)} placeholder="채점 기준이 되는 모범 답안을 입력하세요..." />
                                       {question.modelAnswer && <div className="p-3 bg-muted rounded-md">
                                           <Label className="text-xs text-muted-foreground mb-1 block">미리보기:</Label>
-                                          <MathDisplay latex={question.modelAnswer} />
+                                          <RichContent content={question.modelAnswer} legacyLatex />
                                         </div>}
                                     </div>
                                   </div>}
@@ -1006,10 +1180,18 @@ const Admin = () => {
                             </Card>)}
                         </div>
 
-                        <Button onClick={addQuestion} variant="outline" className="w-full">
-                          <Plus className="h-4 w-4 mr-2" />
-                          문제 추가
-                        </Button>
+                        <div className="flex flex-wrap gap-2">
+                          <Button onClick={addQuestion} variant="outline" className="flex-1">
+                            <Plus className="h-4 w-4 mr-2" />
+                            문제 추가
+                          </Button>
+                          {user && <QuestionBankPicker instructorId={user.id} onInsert={bankQuestions => {
+                      setQuestions(prev => {
+                        const hasContent = prev.some(q => q.text || q.options.some(o => o));
+                        return hasContent ? [...prev, ...bankQuestions] : bankQuestions;
+                      });
+                    }} />}
+                        </div>
                       </CardContent>
                     </Card>}
               </div>
@@ -1031,6 +1213,7 @@ const Admin = () => {
                         <TableRow>
                           <TableHead>제목</TableHead>
                           <TableHead>유형</TableHead>
+                          <TableHead>상태</TableHead>
                           <TableHead>강사</TableHead>
                           <TableHead>문제/완료</TableHead>
                           <TableHead>마감일</TableHead>
@@ -1048,6 +1231,9 @@ const Admin = () => {
                                 {assignment.assignment_type === "reading" ? <><BookOpen className="h-3 w-3" /> 비퀴즈</> : <><ClipboardList className="h-3 w-3" /> 퀴즈</>}
                               </span>
                             </TableCell>
+                            <TableCell>
+                              <AvailabilityBadge assignment={assignment} />
+                            </TableCell>
                             <TableCell>{assignment.instructor.full_name}</TableCell>
                             <TableCell>
                               {assignment.assignment_type === "reading" ? <CompletionStatusDialog assignmentId={assignment.id} assignmentTitle={assignment.title} /> : assignment.questions[0]?.count || 0}
@@ -1059,9 +1245,13 @@ const Admin = () => {
                               {new Date(assignment.created_at).toLocaleDateString()}
                             </TableCell>
                             <TableCell>
-                              <Button size="sm" variant="destructive" onClick={() => deleteAssignment(assignment.id)}>
-                                삭제
-                              </Button>
+                              <div className="flex gap-2">
+                                <DuplicateAssignmentDialog assignment={assignment} instructorId={assignment.instructor_id} instructors={instructorsList} onDuplicated={fetchAssignments} />
+                                {assignment.assignment_type !== "reading" && <QtiExportButton assignment={assignment} />}
+                                <Button size="sm" variant="destructive" onClick={() => deleteAssignment(assignment.id)}>
+                                  삭제
+                                </Button>
+                              </div>
                             </TableCell>
                           </TableRow>)}
                       </TableBody>
@@ -1080,7 +1270,7 @@ const Admin = () => {
                 name: s.student.full_name
               }])).values());
               const gradedSubs = submissions.filter(s => s.score !== null);
-              const avgScore = gradedSubs.length > 0 ? Math.round(gradedSubs.reduce((acc, s) => acc + s.score! / s.total_questions * 100, 0) / gradedSubs.length) : 0;
+              const avgScore = gradedSubs.length > 0 ? Math.round(gradedSubs.reduce((acc, s) => acc + s.score! / s.max_score * 100, 0) / gradedSubs.length) : 0;
               return <>
                       {/* Header with gradient */}
                       <div className="relative overflow-hidden rounded-xl bg-gradient-to-br from-primary/10 via-accent/5 to-background border border-border/50 p-6">
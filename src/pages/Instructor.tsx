@@ -17,12 +17,14 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { ArrowLeft, Plus, Trash2, CalendarIcon, Loader2, Upload, FileText, Image, Info, Users, TrendingUp, CheckCircle, ClipboardList, BookOpen, Check, X, Search, BarChart3, LayoutGrid, List, LogOut } from "lucide-react";
+import { ArrowLeft, Plus, Trash2, CalendarIcon, Loader2, Upload, FileText, Image, Info, Users, TrendingUp, CheckCircle, ClipboardList, BookOpen, Check, X, Search, BarChart3, LayoutGrid, List, LogOut, Pencil } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { BulkQuestionInput, ParsedQuestion } from "@/components/BulkQuestionInput";
 import { StudentAssignmentManager } from "@/components/StudentAssignmentManager";
 import { StudentSelector } from "@/components/StudentSelector";
+import { DuplicateAssignmentDialog } from "@/components/DuplicateAssignmentDialog";
+import { QtiExportButton } from "@/components/QtiExportButton";
 import { MathInput } from "@/components/MathInput";
 import { MathDisplay } from "@/components/MathDisplay";
 import { FRQGradingDialog } from "@/components/FRQGradingDialog";
@@ -32,19 +34,54 @@ import { StudentScoreDialog } from "@/components/StudentScoreDialog";
 import { StudentGradeCard } from "@/components/StudentGradeCard";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-interface QuestionForm {
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { AssignmentEditImpactCard } from "@/components/AssignmentEditImpactCard";
+import { ExistingSubmission, diffQuestions, getSubmissionImpacts, hasGradingChanges } from "@/lib/assignmentChanges";
+import { RegradeSummaryDialog, RegradeResult } from "@/components/RegradeSummaryDialog";
+import { AnswerRevealSettings } from "@/components/AnswerRevealSettings";
+import { ShuffleConfig, defaultShuffleConfig, fromShuffleColumns, toShuffleColumns } from "@/lib/shuffle";
+import { ShuffleSettings } from "@/components/ShuffleSettings";
+import { AvailabilityWindow, defaultAvailabilityWindow, findAvailabilityError, fromAvailabilityColumns, toAvailabilityColumns } from "@/lib/availability";
+import { AvailabilitySettings } from "@/components/AvailabilitySettings";
+import { AvailabilityBadge } from "@/components/AvailabilityBadge";
+import { LatePolicyConfig, defaultLatePolicyConfig, findLatePolicyError, fromLatePolicyColumns, toLatePolicyColumns } from "@/lib/latePolicy";
+import { LatePolicySettings } from "@/components/LatePolicySettings";
+import { LatePenaltyBadge } from "@/components/LatePenaltyBadge";
+import { findTimeLimitError } from "@/lib/timeLimit";
+import { TimeLimitSettings } from "@/components/TimeLimitSettings";
+import { AnswerRevealConfig, defaultAnswerRevealConfig, fromAnswerRevealColumns, toAnswerRevealColumns } from "@/lib/answerReveal";
+import { MultipleChoiceOptionsEditor } from "@/components/MultipleChoiceOptionsEditor";
+import { MAX_OPTIONS, MIN_OPTIONS, createDefaultOptions } from "@/lib/questionOptions";
+import { AnswerKeyFields, QuestionType, defaultAnswerKeyFields, fromAnswerKeyColumns, isChoiceQuestion, questionTypeLabels, toAnswerKeyColumns } from "@/lib/questionTypes";
+import { parseNumericAnswer } from "@/lib/numericAnswer";
+import { NumericAnswerEditor } from "@/components/NumericAnswerEditor";
+import { ShortAnswerEditor } from "@/components/ShortAnswerEditor";
+import { findInvalidPattern } from "@/lib/shortAnswer";
+import { BankQuestion } from "@/lib/questionBank";
+import { QuestionBankPicker } from "@/components/QuestionBankPicker";
+import { QuestionBankManager } from "@/components/QuestionBankManager";
+import { SaveToQuestionBankDialog } from "@/components/SaveToQuestionBankDialog";
+import { PooledQuestion, QuestionPoolForm, findPoolError, fromPoolRow, toPoolRow } from "@/lib/questionPools";
+import { QuestionPoolsEditor } from "@/components/QuestionPoolsEditor";
+import { QuestionPoolSelect } from "@/components/QuestionPoolSelect";
+interface QuestionForm extends AnswerKeyFields, PooledQuestion {
+  id?: string;
   text: string;
   options: string[];
   correctAnswer: number | null;
+  points: number;
   explanation: string;
-  questionType: 'multiple_choice' | 'free_response';
+  questionType: QuestionType;
   modelAnswer: string;
+  bankItemId?: string;
 }
 interface Assignment {
   id: string;
   title: string;
   description: string | null;
   due_date: string | null;
+  available_from: string | null;
+  available_until: string | null;
   created_at: string;
   assignment_type: 'quiz' | 'reading';
   questions: {
@@ -59,7 +96,7 @@ interface Submission {
   assignment_id: string;
   student_id: string;
   score: number | null;
-  total_questions: number;
+  max_score: number;
   submitted_at: string;
   student: {
     full_name: string;
@@ -72,8 +109,13 @@ interface StudentProgress {
   assignments: {
     [assignmentId: string]: {
       score: number | null;
-      totalQuestions: number;
+      maxScore: number;
+      daysLate: number;
+      latePenalty: number;
       submitted: boolean;
+      // Started and not submitted yet; when the last autosave happened
+      inProgress: boolean;
+      savedAt: string | null;
       isNonQuiz: boolean;
       nonQuizCompleted: boolean;
     };
@@ -92,15 +134,23 @@ const Instructor = () => {
   const [description, setDescription] = useState("");
   const [dueDate, setDueDate] = useState<Date>();
   const [isResubmittable, setIsResubmittable] = useState(false);
+  const [answerReveal, setAnswerReveal] = useState<AnswerRevealConfig>(defaultAnswerRevealConfig);
+  const [shuffle, setShuffle] = useState<ShuffleConfig>(defaultShuffleConfig);
+  const [availability, setAvailability] = useState<AvailabilityWindow>(defaultAvailabilityWindow);
+  const [latePolicy, setLatePolicy] = useState<LatePolicyConfig>(defaultLatePolicyConfig);
+  const [timeLimit, setTimeLimit] = useState<number | null>(null);
   const [maxAttempts, setMaxAttempts] = useState<number>(1);
   const [questions, setQuestions] = useState<QuestionForm[]>([{
     text: "",
-    options: ["1", "2", "3", "4", "5"],
+    options: createDefaultOptions(),
     correctAnswer: 0,
+    ...defaultAnswerKeyFields,
+    points: 1,
     explanation: "",
     questionType: 'multiple_choice',
     modelAnswer: ""
   }]);
+  const [pools, setPools] = useState<QuestionPoolForm[]>([]);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
   const [myAssignments, setMyAssignments] = useState<Assignment[]>([]);
@@ -111,6 +161,19 @@ const Instructor = () => {
   const [progressLoading, setProgressLoading] = useState(false);
   const [selectedStudentIds, setSelectedStudentIds] = useState<string[]>([]);
   const [assignmentType, setAssignmentType] = useState<'quiz' | 'reading'>('quiz');
+
+  // Edit Mode States
+  const [activeTab, setActiveTab] = useState("create");
+  const [editingAssignmentId, setEditingAssignmentId] = useState<string | null>(null);
+  const [existingFile, setExistingFile] = useState<{ url: string; type: string | null } | null>(null);
+  const [originalQuestions, setOriginalQuestions] = useState<QuestionForm[]>([]);
+  const [editSubmissions, setEditSubmissions] = useState<ExistingSubmission[]>([]);
+  const [loadingEdit, setLoadingEdit] = useState(false);
+  const [confirmSaveOpen, setConfirmSaveOpen] = useState(false);
+  const [regradeResults, setRegradeResults] = useState<RegradeResult[]>([]);
+  const [regradeTitle, setRegradeTitle] = useState("");
+  const [regradeSummaryOpen, setRegradeSummaryOpen] = useState(false);
+  const submissionImpacts = editingAssignmentId ? getSubmissionImpacts(originalQuestions, assignmentType === 'quiz' ? questions : [], editSubmissions) : [];
   
   // Analytics Filter States
   const [analyticsSearch, setAnalyticsSearch] = useState("");
@@ -213,9 +276,16 @@ const Instructor = () => {
       const {
         data: submissionsData,
         error: subError
-      } = await supabase.from("submissions").select("student_id, assignment_id, score, total_questions").in("assignment_id", assignmentIds);
+      } = await supabase.from("submissions").select("student_id, assignment_id, score, max_score, days_late, late_penalty").in("assignment_id", assignmentIds);
       if (subError) throw subError;
 
+      // Attempts students have started and not submitted yet
+      const {
+        data: attemptsData,
+        error: attemptsError
+      } = await supabase.from("assignment_attempts").select("student_id, assignment_id, saved_at").in("assignment_id", assignmentIds).is("submission_id", null);
+      if (attemptsError) throw attemptsError;
+
       // Fetch all completions for non-quiz assignments
       const nonQuizAssignmentIds = myAssignments.filter(a => a.assignment_type === 'reading').map(a => a.id);
       const {
@@ -249,10 +319,15 @@ const Instructor = () => {
         const isNonQuiz = assignmentTypeMap.get(sa.assignment_id) === 'reading';
         const submission = submissionsData?.find(s => s.student_id === sa.student_id && s.assignment_id === sa.assignment_id);
         const completion = completionsData?.find(c => c.student_id === sa.student_id && c.assignment_id === sa.assignment_id);
+        const openAttempt = attemptsData?.find(a => a.student_id === sa.student_id && a.assignment_id === sa.assignment_id);
         studentProgress.assignments[sa.assignment_id] = {
           score: submission?.score ?? null,
-          totalQuestions: submission?.total_questions ?? 0,
+          maxScore: submission?.max_score ?? 0,
+          daysLate: submission?.days_late ?? 0,
+          latePenalty: submission?.late_penalty ?? 0,
           submitted: !!submission,
+          inProgress: !!openAttempt,
+          savedAt: openAttempt?.saved_at ?? null,
           isNonQuiz,
           nonQuizCompleted: !!completion
         };
@@ -270,7 +345,7 @@ const Instructor = () => {
             if (a.nonQuizCompleted) nonQuizCompleted++;
           } else {
             if (a.submitted && a.score !== null) {
-              scores.push(a.score / a.totalQuestions * 100);
+              scores.push(a.score / a.maxScore * 100);
               completed++;
             }
           }
@@ -287,11 +362,13 @@ const Instructor = () => {
       setProgressLoading(false);
     }
   };
-  const addQuestion = (type: 'multiple_choice' | 'free_response' = 'multiple_choice') => {
+  const addQuestion = (type: QuestionType = 'multiple_choice') => {
     setQuestions([...questions, {
       text: "",
-      options: ["1", "2", "3", "4", "5"],
+      options: createDefaultOptions(),
       correctAnswer: type === 'multiple_choice' ? 0 : null,
+      ...defaultAnswerKeyFields,
+      points: 1,
       explanation: "",
       questionType: type,
       modelAnswer: ""
@@ -299,16 +376,16 @@ const Instructor = () => {
   };
   const addBulkQuestions = (bulkQuestions: ParsedQuestion[]) => {
     const newQuestions: QuestionForm[] = bulkQuestions.map(q => ({
-      text: q.text,
-      options: q.options,
-      correctAnswer: q.correctAnswer,
-      explanation: q.explanation,
-      questionType: q.questionType,
-      modelAnswer: q.modelAnswer
+      ...q
     }));
     setQuestions([...questions, ...newQuestions]);
     toast.success(`${bulkQuestions.length}개 문제가 추가되었습니다`);
   };
+  const addBankQuestions = (bankQuestions: BankQuestion[]) => {
+    // Replace the untouched starter question instead of appending after it
+    const hasContent = questions.some(q => q.text || q.options.some(o => o));
+    setQuestions(hasContent ? [...questions, ...bankQuestions] : bankQuestions);
+  };
   const handleFileUpload = async (file: File): Promise<string | null> => {
     try {
       setUploading(true);
@@ -352,6 +429,13 @@ const Instructor = () => {
       setQuestions(questions.filter((_, i) => i !== index));
     }
   };
+  const removePool = (key: string) => {
+    setPools(pools.filter(pool => pool.key !== key));
+    setQuestions(questions.map(q => q.poolKey === key ? {
+      ...q,
+      poolKey: undefined
+    } : q));
+  };
   const updateQuestion = (index: number, field: keyof QuestionForm, value: any) => {
     const newQuestions = [...questions];
     newQuestions[index] = {
@@ -360,15 +444,76 @@ const Instructor = () => {
     };
     setQuestions(newQuestions);
   };
-  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
+  const updateOptions = (questionIndex: number, options: string[], correctAnswers: number[]) => {
     const newQuestions = [...questions];
-    newQuestions[questionIndex].options[optionIndex] = value;
+    const question = newQuestions[questionIndex];
+    newQuestions[questionIndex] = question.questionType === 'multiple_select' ? {
+      ...question,
+      options,
+      correctAnswers
+    } : {
+      ...question,
+      options,
+      correctAnswer: correctAnswers[0] ?? 0
+    };
     setQuestions(newQuestions);
   };
-  const handleSubmit = async () => {
+  const getFileType = (mimeType: string): 'image' | 'pdf' | 'document' | 'presentation' | 'spreadsheet' | null => {
+    if (mimeType.startsWith('image/')) {
+      return 'image';
+    }
+    if (mimeType === 'application/pdf') {
+      return 'pdf';
+    }
+    if (mimeType === 'application/msword' || mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || mimeType === 'text/plain') {
+      return 'document';
+    }
+    if (mimeType === 'application/vnd.ms-powerpoint' || mimeType === 'application/vnd.openxmlformats-officedocument.presentationml.presentation') {
+      return 'presentation';
+    }
+    if (mimeType === 'application/vnd.ms-excel' || mimeType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+      return 'spreadsheet';
+    }
+    return null;
+  };
+  const toQuestionRow = (q: QuestionForm, index: number) => ({
+    text: q.text,
+    options: q.options,
+    correct_answer: q.questionType === 'multiple_choice' ? q.correctAnswer : null,
+    ...toAnswerKeyColumns(q.questionType, q),
+    points: q.points,
+    explanation: q.explanation || null,
+    order_number: index,
+    question_type: q.questionType,
+    model_answer: q.questionType === 'free_response' ? q.modelAnswer : null,
+    bank_item_id: q.bankItemId ?? null
+  });
+  // Creates the pools of a new assignment in their current order and returns the database id for each pool key
+  const createPools = async (assignmentId: string, poolsToCreate: QuestionPoolForm[]) => {
+    const poolIds: Record<string, string> = {};
+    for (let i = 0; i < poolsToCreate.length; i++) {
+      const pool = poolsToCreate[i];
+      const {
+        data,
+        error
+      } = await supabase.from("question_pools").insert({
+        assignment_id: assignmentId,
+        ...toPoolRow(pool, i)
+      }).select("id").single();
+      if (error) throw error;
+      poolIds[pool.key] = data.id;
+    }
+    return poolIds;
+  };
+  const validateForm = () => {
     if (!assignmentTitle.trim()) {
       toast.error("과제 제목을 입력해주세요");
-      return;
+      return false;
+    }
+    const availabilityError = findAvailabilityError(availability);
+    if (availabilityError) {
+      toast.error(availabilityError);
+      return false;
     }
 
     // Only validate questions for quiz type
@@ -376,39 +521,102 @@ const Instructor = () => {
       for (let i = 0; i < questions.length; i++) {
         if (!questions[i].text.trim()) {
           toast.error(`문제 ${i + 1}의 텍스트가 필요합니다`);
-          return;
+          return false;
+        }
+        if (!(questions[i].points > 0)) {
+          toast.error(`문제 ${i + 1}의 배점은 0보다 커야 합니다`);
+          return false;
         }
-        if (questions[i].questionType === 'multiple_choice') {
-          for (let j = 0; j < 4; j++) {
+        if (isChoiceQuestion(questions[i].questionType)) {
+          const optionCount = questions[i].options.length;
+          if (optionCount < MIN_OPTIONS || optionCount > MAX_OPTIONS) {
+            toast.error(`문제 ${i + 1}의 선택지는 ${MIN_OPTIONS}~${MAX_OPTIONS}개여야 합니다`);
+            return false;
+          }
+          for (let j = 0; j < optionCount; j++) {
             if (!questions[i].options[j].trim()) {
               toast.error(`문제 ${i + 1}, 선택지 ${j + 1}이(가) 필요합니다`);
-              return;
+              return false;
             }
           }
         }
+        if (questions[i].questionType === 'multiple_select' && questions[i].correctAnswers.length === 0) {
+          toast.error(`문제 ${i + 1}의 정답을 하나 이상 선택해주세요`);
+          return false;
+        }
+        if (questions[i].questionType === 'numeric' && parseNumericAnswer(questions[i].numericAnswer, true) === null) {
+          toast.error(`문제 ${i + 1}의 정답 값을 숫자로 입력해주세요`);
+          return false;
+        }
+        if (questions[i].questionType === 'short_answer') {
+          const hasKey = [...questions[i].acceptedAnswers, ...questions[i].answerPatterns].some(a => a.trim());
+          if (!hasKey) {
+            toast.error(`문제 ${i + 1}의 정답을 하나 이상 입력해주세요`);
+            return false;
+          }
+          const invalidPattern = findInvalidPattern(questions[i].answerPatterns.filter(p => p.trim()));
+          if (invalidPattern !== null) {
+            toast.error(`문제 ${i + 1}의 정규식 패턴이 올바르지 않습니다: ${invalidPattern}`);
+            return false;
+          }
+        }
+      }
+      const poolError = findPoolError(pools, questions);
+      if (poolError) {
+        toast.error(poolError);
+        return false;
+      }
+      const latePolicyError = findLatePolicyError(latePolicy);
+      if (latePolicyError) {
+        toast.error(latePolicyError);
+        return false;
+      }
+      const timeLimitError = findTimeLimitError(timeLimit);
+      if (timeLimitError) {
+        toast.error(timeLimitError);
+        return false;
       }
     }
+    return true;
+  };
+  const resetForm = () => {
+    setAssignmentTitle("");
+    setDescription("");
+    setDueDate(undefined);
+    setIsResubmittable(false);
+    setAnswerReveal(defaultAnswerRevealConfig);
+    setShuffle(defaultShuffleConfig);
+    setAvailability(defaultAvailabilityWindow);
+    setLatePolicy(defaultLatePolicyConfig);
+    setTimeLimit(null);
+    setMaxAttempts(1);
+    setUploadedFile(null);
+    setSelectedStudentIds([]);
+    setAssignmentType('quiz');
+    setQuestions([{
+      text: "",
+      options: createDefaultOptions(),
+      correctAnswer: 0,
+      ...defaultAnswerKeyFields,
+      points: 1,
+      explanation: "",
+      questionType: 'multiple_choice',
+      modelAnswer: ""
+    }]);
+    setPools([]);
+    setEditingAssignmentId(null);
+    setExistingFile(null);
+    setOriginalQuestions([]);
+    setEditSubmissions([]);
+  };
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+    if (editingAssignmentId) {
+      await updateAssignment();
+      return;
+    }
     setSubmitting(true);
     try {
-      const getFileType = (mimeType: string): 'image' | 'pdf' | 'document' | 'presentation' | 'spreadsheet' | null => {
-        if (mimeType.startsWith('image/')) {
-          return 'image';
-        }
-        if (mimeType === 'application/pdf') {
-          return 'pdf';
-        }
-        if (mimeType === 'application/msword' || mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || mimeType === 'text/plain') {
-          return 'document';
-        }
-        if (mimeType === 'application/vnd.ms-powerpoint' || mimeType === 'application/vnd.openxmlformats-officedocument.presentationml.presentation') {
-          return 'presentation';
-        }
-        if (mimeType === 'application/vnd.ms-excel' || mimeType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
-          return 'spreadsheet';
-        }
-        return null;
-      };
-
       // Upload file if present
       let fileUrl = null;
       let fileType = null;
@@ -432,21 +640,22 @@ const Instructor = () => {
         file_type: fileType,
         is_resubmittable: isResubmittable,
         max_attempts: isResubmittable ? maxAttempts : null,
+        ...toAnswerRevealColumns(answerReveal),
+        ...toShuffleColumns(shuffle),
+        ...toAvailabilityColumns(availability),
+        ...toLatePolicyColumns(latePolicy),
+        time_limit_minutes: assignmentType === 'quiz' ? timeLimit : null,
         assignment_type: assignmentType
       }).select().single();
       if (assignmentError) throw assignmentError;
 
       // Only create questions for quiz type
       if (assignmentType === 'quiz') {
+        const poolIds = await createPools(assignment.id, pools);
         const questionsToInsert = questions.map((q, index) => ({
           assignment_id: assignment.id,
-          text: q.text,
-          options: q.options,
-          correct_answer: q.questionType === 'multiple_choice' ? q.correctAnswer : null,
-          explanation: q.explanation || null,
-          order_number: index,
-          question_type: q.questionType,
-          model_answer: q.questionType === 'free_response' ? q.modelAnswer : null
+          ...toQuestionRow(q, index),
+          pool_id: q.poolKey ? poolIds[q.poolKey] ?? null : null
         }));
         const {
           error: questionsError
@@ -466,25 +675,182 @@ const Instructor = () => {
         if (saError) throw saError;
       }
       toast.success("과제가 성공적으로 생성되었습니다!");
-      setAssignmentTitle("");
-      setDescription("");
-      setDueDate(undefined);
-      setIsResubmittable(false);
-      setMaxAttempts(1);
+      resetForm();
+      fetchMyAssignments();
+    } catch (error: any) {
+      toast.error("과제 생성 실패: " + error.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+  const startEditAssignment = async (assignmentId: string) => {
+    setLoadingEdit(true);
+    try {
+      const {
+        data: assignment,
+        error: assignmentError
+      } = await supabase.from("assignments").select("*").eq("id", assignmentId).single();
+      if (assignmentError) throw assignmentError;
+      const {
+        data: questionsData,
+        error: questionsError
+      } = await supabase.from("questions").select("*").eq("assignment_id", assignmentId).order("order_number");
+      if (questionsError) throw questionsError;
+      const {
+        data: poolsData,
+        error: poolsError
+      } = await supabase.from("question_pools").select("*").eq("assignment_id", assignmentId).order("order_number");
+      if (poolsError) throw poolsError;
+      const loadedPools = (poolsData || []).map(fromPoolRow);
+
+      // Fetch existing submissions with their answers to show which ones an edit affects
+      const {
+        data: submissionsData,
+        error: submissionsError
+      } = await supabase.from("submissions").select(`
+          id,
+          student_id,
+          score,
+          max_score,
+          submitted_at,
+          student:profiles!student_id(full_name),
+          student_answers(question_id, selected_answer, selected_answers, text_answer)
+        `).eq("assignment_id", assignmentId).order("submitted_at", {
+        ascending: false
+      });
+      if (submissionsError) throw submissionsError;
+      const loadedQuestions: QuestionForm[] = (questionsData || []).map(q => ({
+        id: q.id,
+        text: q.text,
+        options: Array.isArray(q.options) ? q.options as string[] : JSON.parse(q.options as string),
+        correctAnswer: q.correct_answer,
+        ...fromAnswerKeyColumns(q),
+        points: q.points,
+        explanation: q.explanation || "",
+        questionType: q.question_type,
+        modelAnswer: q.model_answer || "",
+        bankItemId: q.bank_item_id ?? undefined,
+        poolKey: q.pool_id ?? undefined
+      }));
+      setEditingAssignmentId(assignmentId);
+      setAssignmentTitle(assignment.title);
+      setDescription(assignment.description || "");
+      setDueDate(assignment.due_date ? new Date(assignment.due_date) : undefined);
+      setIsResubmittable(assignment.is_resubmittable);
+      setAnswerReveal(fromAnswerRevealColumns(assignment));
+      setShuffle(fromShuffleColumns(assignment));
+      setAvailability(fromAvailabilityColumns(assignment));
+      setLatePolicy(fromLatePolicyColumns(assignment));
+      setTimeLimit(assignment.time_limit_minutes);
+      setMaxAttempts(assignment.max_attempts ?? 1);
+      setAssignmentType(assignment.assignment_type as 'quiz' | 'reading');
       setUploadedFile(null);
-      setSelectedStudentIds([]);
-      setAssignmentType('quiz');
-      setQuestions([{
+      setExistingFile(assignment.file_url ? {
+        url: assignment.file_url,
+        type: assignment.file_type
+      } : null);
+      setOriginalQuestions(loadedQuestions.map(q => ({
+        ...q,
+        options: [...q.options],
+        correctAnswers: [...q.correctAnswers]
+      })));
+      setPools(loadedPools);
+      setQuestions(loadedQuestions.length > 0 ? loadedQuestions : [{
         text: "",
-        options: ["1", "2", "3", "4", "5"],
+        options: createDefaultOptions(),
         correctAnswer: 0,
+        ...defaultAnswerKeyFields,
+        points: 1,
         explanation: "",
         questionType: 'multiple_choice',
         modelAnswer: ""
       }]);
+      setEditSubmissions((submissionsData || []) as ExistingSubmission[]);
+      setActiveTab("create");
+    } catch (error) {
+      toast.error("과제를 불러오는데 실패했습니다: " + (error as Error).message);
+    } finally {
+      setLoadingEdit(false);
+    }
+  };
+  const cancelEdit = () => {
+    resetForm();
+    setActiveTab("assignments");
+  };
+  const handleSaveClick = () => {
+    // Ask for confirmation before changing an assignment that already has affected submissions
+    if (editingAssignmentId && submissionImpacts.length > 0) {
+      if (validateForm()) setConfirmSaveOpen(true);
+      return;
+    }
+    handleSubmit();
+  };
+  const updateAssignment = async () => {
+    if (!editingAssignmentId) return;
+    setSubmitting(true);
+    try {
+      // Keep the existing file unless a new one was uploaded or it was removed
+      let fileUrl = existingFile?.url ?? null;
+      let fileType = existingFile?.type ?? null;
+      if (uploadedFile) {
+        fileUrl = await handleFileUpload(uploadedFile);
+        if (!fileUrl) {
+          setSubmitting(false);
+          return; // File upload failed, abort
+        }
+        fileType = getFileType(uploadedFile.type);
+      }
+      // Existing questions keep their ids so stored student answers stay linked; questions name
+      // their pool by key, since new pools get their id in the same save
+      const editedQuestions = assignmentType === 'quiz' ? questions : [];
+      const editedPools = assignmentType === 'quiz' ? pools : [];
+      const changes = diffQuestions(originalQuestions, editedQuestions);
+      // Stored answers and scores were graded against the old key, so they are regraded in the same transaction
+      const regrade = editSubmissions.length > 0 && hasGradingChanges(changes);
+      const {
+        data: regraded,
+        error: updateError
+      } = await supabase.rpc("update_assignment", {
+        _assignment_id: editingAssignmentId,
+        _assignment: {
+          title: assignmentTitle,
+          description: description || null,
+          due_date: dueDate?.toISOString() || null,
+          file_url: fileUrl,
+          file_type: fileType,
+          is_resubmittable: isResubmittable,
+          max_attempts: isResubmittable ? maxAttempts : null,
+          ...toAnswerRevealColumns(answerReveal),
+          ...toShuffleColumns(shuffle),
+          ...toAvailabilityColumns(availability),
+          ...toLatePolicyColumns(latePolicy),
+          time_limit_minutes: assignmentType === 'quiz' ? timeLimit : null,
+          assignment_type: assignmentType
+        },
+        _pools: editedPools.map((pool, i) => ({
+          id: pool.id ?? null,
+          key: pool.key,
+          ...toPoolRow(pool, i)
+        })),
+        _questions: editedQuestions.map((q, i) => ({
+          id: q.id ?? null,
+          pool_key: q.poolKey ?? null,
+          ...toQuestionRow(q, i)
+        })),
+        _regrade: regrade
+      });
+      if (updateError) throw updateError;
+      if (regrade) {
+        setRegradeResults(regraded || []);
+        setRegradeTitle(assignmentTitle);
+        setRegradeSummaryOpen(true);
+      }
+      toast.success("과제가 수정되었습니다");
+      resetForm();
+      setActiveTab("assignments");
       fetchMyAssignments();
-    } catch (error: any) {
-      toast.error("과제 생성 실패: " + error.message);
+    } catch (error) {
+      toast.error("과제 수정 실패: " + (error as Error).message);
     } finally {
       setSubmitting(false);
     }
@@ -521,12 +887,13 @@ const Instructor = () => {
           </Button>
         </div>
 
-        <Tabs defaultValue="create" className="space-y-4">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
           <TabsList>
-            <TabsTrigger value="create">과제 생성</TabsTrigger>
+            <TabsTrigger value="create">{editingAssignmentId ? "과제 수정" : "과제 생성"}</TabsTrigger>
             <TabsTrigger value="assignments">내 과제</TabsTrigger>
             <TabsTrigger value="progress">학생 진도</TabsTrigger>
             <TabsTrigger value="analytics">과제 아카이브</TabsTrigger>
+            <TabsTrigger value="bank">문제 은행</TabsTrigger>
           </TabsList>
 
           <TabsContent value="create">
@@ -536,8 +903,8 @@ const Instructor = () => {
                 {/* Column 1 - Assignment Details */}
                 <Card>
                   <CardHeader variant="accent">
-                    <CardTitle>과제 생성</CardTitle>
-                    <CardDescription>과제의 기본 정보를 설정하세요</CardDescription>
+                    <CardTitle>{editingAssignmentId ? "과제 수정" : "과제 생성"}</CardTitle>
+                    <CardDescription>{editingAssignmentId ? "과제 정보와 문제를 수정하세요" : "과제의 기본 정보를 설정하세요"}</CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-6">
                     <div className="space-y-2">
@@ -585,6 +952,8 @@ const Instructor = () => {
                       </Popover>
                     </div>
 
+                    <AvailabilitySettings value={availability} onChange={setAvailability} />
+
                     <div className="space-y-2">
                       <Label htmlFor="file">파일 업로드 (선택사항)</Label>
                       <div className="flex gap-2 items-center">
@@ -599,6 +968,15 @@ const Instructor = () => {
                             <span>{uploadedFile.name}</span>
                           </div>}
                       </div>
+                      {existingFile && !uploadedFile && <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          {existingFile.type === 'image' ? <Image className="h-4 w-4" /> : <FileText className="h-4 w-4" />}
+                          <a href={existingFile.url} target="_blank" rel="noopener noreferrer" className="underline">
+                            현재 첨부파일
+                          </a>
+                          <Button variant="ghost" size="sm" onClick={() => setExistingFile(null)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>}
                       <p className="text-xs text-muted-foreground">
                         이 과제에 첨부할 이미지 또는 PDF 파일을 업로드하세요
                       </p>
@@ -619,14 +997,32 @@ const Instructor = () => {
                             학생들은 이 과제를 최대 {maxAttempts}회까지 제출할 수 있습니다
                           </p>
                         </div>}
+
+                      {assignmentType === 'quiz' && <AnswerRevealSettings value={answerReveal} onChange={setAnswerReveal} />}
+
+                      {assignmentType === 'quiz' && <LatePolicySettings value={latePolicy} onChange={setLatePolicy} />}
+
+                      {assignmentType === 'quiz' && <TimeLimitSettings value={timeLimit} onChange={setTimeLimit} />}
+
+                      {assignmentType === 'quiz' && <ShuffleSettings value={shuffle} onChange={setShuffle} />}
                     </div>
 
-                    <Button onClick={handleSubmit} className="w-full" disabled={submitting}>
-                      {submitting ? <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          생성 중...
-                        </> : "과제 생성"}
-                    </Button>
+                    {editingAssignmentId ? <div className="flex gap-2">
+                        <Button variant="outline" onClick={cancelEdit} className="flex-1" disabled={submitting}>
+                          수정 취소
+                        </Button>
+                        <Button onClick={handleSaveClick} className="flex-1" disabled={submitting}>
+                          {submitting ? <>
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              저장 중...
+                            </> : "변경사항 저장"}
+                        </Button>
+                      </div> : <Button onClick={handleSubmit} className="w-full" disabled={submitting}>
+                        {submitting ? <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            생성 중...
+                          </> : "과제 생성"}
+                      </Button>}
                   </CardContent>
                 </Card>
 
@@ -635,8 +1031,8 @@ const Instructor = () => {
                     <BulkQuestionInput onAddQuestions={addBulkQuestions} />
                   </div>}
 
-                {/* Column 3 - Student Selector */}
-                <StudentSelector selectedStudentIds={selectedStudentIds} onSelectionChange={setSelectedStudentIds} />
+                {/* Column 3 - Student Selector, or the impact on existing submissions while editing */}
+                {editingAssignmentId ? <AssignmentEditImpactCard submissions={editSubmissions} impacts={submissionImpacts} /> : <StudentSelector selectedStudentIds={selectedStudentIds} onSelectionChange={setSelectedStudentIds} />}
               </div>
 
               {/* Bottom - Questions (only for quiz type) */}
@@ -669,6 +1065,8 @@ const Instructor = () => {
                   })}
                   </div>
 
+                  <QuestionPoolsEditor pools={pools} questions={questions} onChange={setPools} onRemove={removePool} />
+
                   <div className="space-y-6">
                     {questions.map((question, qIndex) => <Card key={qIndex} id={`question-form-${qIndex}`} className="border-2 border-accent/30 hover:border-accent/50 transition-colors">
                         <CardHeader className="bg-gradient-to-r from-accent/10 to-transparent">
@@ -679,17 +1077,26 @@ const Instructor = () => {
                               </div>
                               <CardTitle>문제 {qIndex + 1}</CardTitle>
                             </div>
+                            <div className="flex items-center gap-1">
+                            {user && <SaveToQuestionBankDialog question={question} instructorId={user.id} onSaved={itemId => updateQuestion(qIndex, "bankItemId", itemId)} idPrefix={`q${qIndex}`} />}
                             {questions.length > 1 && <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive hover:bg-destructive/10" onClick={() => removeQuestion(qIndex)}>
                                 <Trash2 className="h-4 w-4 mr-2" />
                                 삭제
                               </Button>}
+                            </div>
                           </div>
                         </CardHeader>
                         <CardContent className="space-y-4">
                           <div className="flex items-center gap-2 mb-2">
-                            <Badge variant={question.questionType === 'multiple_choice' ? 'default' : 'secondary'}>
-                              {question.questionType === 'multiple_choice' ? '객관식' : '서술형'}
+                            <Badge variant={isChoiceQuestion(question.questionType) ? 'default' : 'secondary'}>
+                              {questionTypeLabels[question.questionType]}
                             </Badge>
+                            <div className="ml-auto flex items-center gap-2">
+                              {pools.length > 0 && <QuestionPoolSelect pools={pools} value={question.poolKey} onChange={poolKey => updateQuestion(qIndex, "poolKey", poolKey)} />}
+                              <Label htmlFor={`q${qIndex}-points`} className="text-sm">배점</Label>
+                              <Input id={`q${qIndex}-points`} type="number" min={0} step="any" className="w-20 h-8" value={question.points} onChange={e => updateQuestion(qIndex, "points", parseFloat(e.target.value) || 0)} />
+                              <span className="text-sm text-muted-foreground">점</span>
+                            </div>
                           </div>
 
                           <div className="space-y-2">
@@ -697,24 +1104,30 @@ const Instructor = () => {
                             <Input placeholder="문제 텍스트를 입력하세요" value={question.text} onChange={e => updateQuestion(qIndex, "text", e.target.value)} />
                           </div>
 
-                          {question.questionType === 'multiple_choice' ? <div className="space-y-3">
+                          {isChoiceQuestion(question.questionType) ? <div className="space-y-3">
                               <div className="flex items-center gap-2 p-3 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-md">
                                 <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 shrink-0" />
                                 <Label className="text-sm font-medium text-blue-600 dark:text-blue-400">
-                                  라디오 버튼을 클릭하여 정답을 표시하세요
+                                  {question.questionType === 'multiple_select' ? "체크박스를 클릭하여 정답을 모두 표시하세요" : "라디오 버튼을 클릭하여 정답을 표시하세요"}
                                 </Label>
                               </div>
-                              <RadioGroup value={(question.correctAnswer ?? 0).toString()} onValueChange={value => updateQuestion(qIndex, "correctAnswer", parseInt(value))}>
-                                {question.options.map((option, oIndex) => <div key={oIndex} className="flex items-center gap-2">
-                                    <RadioGroupItem value={oIndex.toString()} id={`q${qIndex}-o${oIndex}`} className="shrink-0" />
-                                    <div className="flex-1">
-                                      <Input placeholder={`선택지 ${oIndex + 1}`} value={option} onChange={e => updateOption(qIndex, oIndex, e.target.value)} />
-                                    </div>
-                                    {question.correctAnswer === oIndex && <span className="text-xs text-green-600 dark:text-green-400 font-medium shrink-0">
-                                        ✓ 정답
-                                      </span>}
-                                  </div>)}
-                              </RadioGroup>
+                              <MultipleChoiceOptionsEditor options={question.options} correctAnswers={question.questionType === 'multiple_select' ? question.correctAnswers : [question.correctAnswer ?? 0]} onChange={(options, correctAnswers) => updateOptions(qIndex, options, correctAnswers)} idPrefix={`q${qIndex}`} multiple={question.questionType === 'multiple_select'} scoringMode={question.scoringMode} onScoringModeChange={mode => updateQuestion(qIndex, "scoringMode", mode)} />
+                            </div> : question.questionType === 'numeric' ? <div className="space-y-3">
+                              <div className="flex items-center gap-2 p-3 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-md">
+                                <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 shrink-0" />
+                                <Label className="text-sm font-medium text-blue-600 dark:text-blue-400">
+                                  학생 답이 허용 오차 안에 있으면 자동으로 정답 처리됩니다
+                                </Label>
+                              </div>
+                              <NumericAnswerEditor value={question} onChange={(field, value) => updateQuestion(qIndex, field, value)} idPrefix={`q${qIndex}`} />
+                            </div> : question.questionType === 'short_answer' ? <div className="space-y-3">
+                              <div className="flex items-center gap-2 p-3 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-md">
+                                <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 shrink-0" />
+                                <Label className="text-sm font-medium text-blue-600 dark:text-blue-400">
+                                  학생 답이 정답 목록이나 패턴과 일치하면 자동으로 정답 처리됩니다
+                                </Label>
+                              </div>
+                              <ShortAnswerEditor value={question} onChange={(field, value) => updateQuestion(qIndex, field, value)} idPrefix={`q${qIndex}`} />
                             </div> : <div className="space-y-3">
                               <div className="flex items-center gap-2 p-3 bg-purple-50 dark:bg-purple-950 border border-purple-200 dark:border-purple-800 rounded-md">
                                 <Info className="h-4 w-4 text-purple-600 dark:text-purple-400 shrink-0" />
@@ -734,15 +1147,28 @@ const Instructor = () => {
                       </Card>)}
                   </div>
 
-                  <div className="flex gap-2">
+                  <div className="flex flex-wrap gap-2">
                     <Button onClick={() => addQuestion('multiple_choice')} variant="outline" className="flex-1">
                       <Plus className="h-4 w-4 mr-2" />
                       객관식 문제 추가
                     </Button>
+                    <Button onClick={() => addQuestion('multiple_select')} variant="outline" className="flex-1">
+                      <Plus className="h-4 w-4 mr-2" />
+                      복수선택 문제 추가
+                    </Button>
+                    <Button onClick={() => addQuestion('numeric')} variant="outline" className="flex-1">
+                      <Plus className="h-4 w-4 mr-2" />
+                      수치형 문제 추가
+                    </Button>
+                    <Button onClick={() => addQuestion('short_answer')} variant="outline" className="flex-1">
+                      <Plus className="h-4 w-4 mr-2" />
+                      단답형 문제 추가
+                    </Button>
                     <Button onClick={() => addQuestion('free_response')} variant="outline" className="flex-1">
                       <Plus className="h-4 w-4 mr-2" />
                       서술형 문제 추가
                     </Button>
+                    {user && <QuestionBankPicker instructorId={user.id} onInsert={addBankQuestions} />}
                   </div>
                 </CardContent>
               </Card>}
@@ -765,6 +1191,7 @@ const Instructor = () => {
                       <TableRow>
                         <TableHead>제목</TableHead>
                         <TableHead>유형</TableHead>
+                        <TableHead>상태</TableHead>
                         <TableHead>문제/완료</TableHead>
                         <TableHead>마감일</TableHead>
                         <TableHead>작업</TableHead>
@@ -778,6 +1205,9 @@ const Instructor = () => {
                               {assignment.assignment_type === 'quiz' ? <><ClipboardList className="h-3 w-3 mr-1" />퀴즈</> : <><BookOpen className="h-3 w-3 mr-1" />비퀴즈</>}
                             </Badge>
                           </TableCell>
+                          <TableCell>
+                            <AvailabilityBadge assignment={assignment} />
+                          </TableCell>
                           <TableCell>
                             {assignment.assignment_type === 'quiz' ? <Button variant="outline" size="sm" onClick={() => fetchSubmissions(assignment.id)} className="text-primary-foreground bg-primary border-muted">
                                 {assignment.submissions[0]?.count || 0} 제출 ({assignment.questions[0]?.count || 0} 문제)
@@ -789,6 +1219,12 @@ const Instructor = () => {
                           <TableCell>
                             <div className="flex gap-2">
                               <StudentAssignmentManager assignmentId={assignment.id} assignmentTitle={assignment.title} />
+                              <Button size="sm" variant="outline" onClick={() => startEditAssignment(assignment.id)} disabled={loadingEdit}>
+                                <Pencil className="h-4 w-4 mr-1" />
+                                수정
+                              </Button>
+                              {user && <DuplicateAssignmentDialog assignment={assignment} instructorId={user.id} onDuplicated={fetchMyAssignments} />}
+                              {assignment.assignment_type === 'quiz' && <QtiExportButton assignment={assignment} />}
                               <Button size="sm" variant="destructive" onClick={() => deleteAssignment(assignment.id)}>
                                 삭제
                               </Button>
@@ -1014,15 +1450,22 @@ const Instructor = () => {
                                     </TableCell>;
                           }
                           // Quiz assignment - show score
+                          const inProgressBadge = assignmentData.inProgress && <Badge variant="outline" className="border-blue-300 text-blue-700 dark:text-blue-300" title={assignmentData.savedAt ? `마지막 자동 저장: ${new Date(assignmentData.savedAt).toLocaleString()}` : undefined}>
+                                진행 중
+                              </Badge>;
                           if (!assignmentData.submitted) {
                             return <TableCell key={assignment.id} className="text-center">
-                                      <Badge variant="secondary">대기중</Badge>
+                                      {inProgressBadge || <Badge variant="secondary">대기중</Badge>}
                                     </TableCell>;
                           }
-                          const percentage = assignmentData.score !== null ? Math.round(assignmentData.score / assignmentData.totalQuestions * 100) : 0;
+                          const percentage = assignmentData.score !== null ? Math.round(assignmentData.score / assignmentData.maxScore * 100) : 0;
                           const colorClass = percentage >= 80 ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" : percentage >= 60 ? "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200" : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
                           return <TableCell key={assignment.id} className="text-center">
-                                    <Badge className={colorClass}>{percentage}%</Badge>
+                                    <div className="flex flex-col items-center gap-1">
+                                      <Badge className={colorClass}>{percentage}%</Badge>
+                                      <LatePenaltyBadge submission={{ days_late: assignmentData.daysLate, late_penalty: assignmentData.latePenalty }} />
+                                      {inProgressBadge}
+                                    </div>
                                   </TableCell>;
                         })}
                               <TableCell className="text-center">
@@ -1114,7 +1557,28 @@ const Instructor = () => {
               )}
             </div>
           </TabsContent>
+
+          <TabsContent value="bank">
+            {user && <QuestionBankManager instructorId={user.id} />}
+          </TabsContent>
         </Tabs>
+
+        <AlertDialog open={confirmSaveOpen} onOpenChange={setConfirmSaveOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>변경사항을 저장하시겠습니까?</AlertDialogTitle>
+              <AlertDialogDescription>
+                이 변경사항은 기존 제출 {submissionImpacts.length}개의 답안 또는 채점 결과에 영향을 줍니다. 삭제된 문제의 학생 답안은 함께 삭제됩니다.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>취소</AlertDialogCancel>
+              <AlertDialogAction onClick={handleSubmit}>저장</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <RegradeSummaryDialog open={regradeSummaryOpen} onOpenChange={setRegradeSummaryOpen} assignmentTitle={regradeTitle} results={regradeResults} />
       </div>
     </div>;
 };
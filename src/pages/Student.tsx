@@ -1,12 +1,14 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -14,28 +16,73 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { ArrowLeft, ArrowRight, CheckCircle2, Loader2, BookOpen, ClipboardList, Award, Calendar, User, Clock, FileText, TrendingUp, LogOut, Paperclip, ExternalLink, Image as ImageIcon, PenLine } from "lucide-react";
+import { ArrowLeft, ArrowRight, CheckCircle2, Loader2, BookOpen, ClipboardList, Award, Calendar, User, Clock, FileText, TrendingUp, LogOut, Paperclip, ExternalLink, Image as ImageIcon, PenLine, Hash, Lock, Timer, Cloud, CloudOff, WifiOff } from "lucide-react";
 import { FilePreview } from "@/components/FilePreview";
 import { cn } from "@/lib/utils";
 import { MathInput } from "@/components/MathInput";
 import { MathDisplay } from "@/components/MathDisplay";
+import { RichContent } from "@/components/RichContent";
+import { hasOptionText } from "@/lib/questionOptions";
+import { QuestionType, isChoiceQuestion, isTextAnswerQuestion, questionTypeLabels } from "@/lib/questionTypes";
+import { ToleranceType, formatTolerance, parseNumericAnswer } from "@/lib/numericAnswer";
+import { SubmissionResults, SubmissionReveal } from "@/lib/answerReveal";
+import { AttemptOrder, applyAttemptOrder, toDisplayOption } from "@/lib/shuffle";
+import { AvailabilityState, getAvailabilityState } from "@/lib/availability";
+import { latePenaltyFor } from "@/lib/latePolicy";
+import { LatePenaltyBadge } from "@/components/LatePenaltyBadge";
+import { attemptMinutes } from "@/lib/timeLimit";
+import { QuizCountdown } from "@/components/QuizCountdown";
+import { AttemptAnswer, AUTOSAVE_DELAY_MS, fromAttemptAnswers, toAttemptAnswers } from "@/lib/attemptDraft";
+import {
+  cacheForOffline,
+  clearOfflineAttempt,
+  isNetworkError,
+  katexFontUrls,
+  loadOfflineAssignments,
+  loadOfflineAttempt,
+  saveOfflineAnswers,
+  saveOfflineAssignments,
+  saveOfflineAttempt,
+} from "@/lib/offlineQuiz";
+import { useSubmissionSync } from "@/hooks/use-submission-sync";
 
 interface Question {
   id: string;
   text: string;
   options: string[];
   correct_answer: number | null;
+  correct_answers: number[] | null;
+  scoring_mode: string;
+  numeric_answer: number | null;
+  numeric_tolerance: number;
+  tolerance_type: ToleranceType;
+  accept_fractions: boolean;
+  accepted_answers: string[] | null;
+  points: number;
   explanation: string | null;
   order_number: number;
-  question_type: 'multiple_choice' | 'free_response';
+  question_type: QuestionType;
   model_answer: string | null;
+  // Set once the questions are in the student's attempt order; see applyAttemptOrder
+  option_order?: number[];
 }
 
 interface Assignment {
   id: string;
   title: string;
   description: string | null;
+  // The student's own due date: their extension when one was granted
   due_date: string | null;
+  due_date_extended: boolean;
+  late_policy: string;
+  late_penalty_per_day: number;
+  time_limit_minutes: number | null;
+  // This student's extra-time accommodation
+  extra_time_minutes: number;
+  available_from: string | null;
+  available_until: string | null;
+  // Worked out when the list is fetched; scheduled assignments carry no content
+  availability: AvailabilityState;
   file_url: string | null;
   file_type: string | null;
   is_resubmittable: boolean;
@@ -45,12 +92,18 @@ interface Assignment {
     full_name: string;
   };
   questions: Question[];
+  // Questions each student answers; smaller than the question list when the assignment draws from pools
+  question_count: number;
   submission?: {
     id: string;
     score: number;
-    total_questions: number;
+    max_score: number;
+    days_late: number;
+    late_penalty: number;
   };
   submission_count?: number;
+  // An attempt was started and not submitted yet; starting again resumes it
+  in_progress: boolean;
   completion?: {
     completed_at: string;
     notes: string | null;
@@ -60,7 +113,9 @@ interface Assignment {
 interface Submission {
   id: string;
   score: number;
-  total_questions: number;
+  max_score: number;
+  days_late: number;
+  late_penalty: number;
   submitted_at: string;
   assignment: {
     title: string;
@@ -75,6 +130,20 @@ interface StudentAnswerResult {
   graded_at: string | null;
 }
 
+// Reasons the submit-assignment function can reject a submission
+const submitErrorMessages: Record<string, string> = {
+  not_assigned: "배정되지 않은 과제입니다",
+  invalid_assignment_type: "퀴즈 과제만 제출할 수 있습니다",
+  max_attempts_reached: "최대 제출 횟수에 도달했습니다",
+  invalid_answer: "답안이 과제 문제와 일치하지 않습니다",
+  attempt_not_started: "과제를 다시 시작한 후 제출해주세요",
+  assignment_not_open: "아직 공개되지 않은 과제입니다",
+  assignment_closed: "제출 기간이 종료된 과제입니다",
+  past_due: "마감일이 지나 제출할 수 없습니다",
+  assignment_not_found: "과제를 찾을 수 없습니다",
+  attempt_already_submitted: "다른 기기에서 이미 제출된 시도입니다. 이 기기의 답안은 제출되지 않았습니다",
+};
+
 const Student = () => {
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
@@ -82,12 +151,27 @@ const Student = () => {
   const [mySubmissions, setMySubmissions] = useState<Submission[]>([]);
   const [currentAssignment, setCurrentAssignment] = useState<Assignment | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [attemptOrder, setAttemptOrder] = useState<AttemptOrder | null>(null);
+  const [attemptDeadline, setAttemptDeadline] = useState<string | null>(null);
+  const [draftStatus, setDraftStatus] = useState<'saved' | 'saving' | 'offline' | 'error'>('saved');
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  // The answers last stored on the server, so unchanged answers are not saved again
+  const lastSavedDraft = useRef<string | null>(null);
   const [selectedAnswers, setSelectedAnswers] = useState<{ [key: number]: number }>({});
+  const [selectedAnswerSets, setSelectedAnswerSets] = useState<{ [key: number]: number[] }>({});
   const [textAnswers, setTextAnswers] = useState<{ [key: number]: string }>({});
   const [showResults, setShowResults] = useState(false);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [submissionAnswers, setSubmissionAnswers] = useState<StudentAnswerResult[]>([]);
+  const [submissionScore, setSubmissionScore] = useState(0);
+  const [submissionMaxScore, setSubmissionMaxScore] = useState(0);
+  const [submissionLateness, setSubmissionLateness] = useState<{ days_late: number; late_penalty: number } | null>(null);
+  const [submissionTimeExpired, setSubmissionTimeExpired] = useState(false);
+  const [submissionReveal, setSubmissionReveal] = useState<SubmissionReveal | null>(null);
+  const [reviewingSubmission, setReviewingSubmission] = useState(false);
+  const [loadingResults, setLoadingResults] = useState(false);
   const [togglingCompletion, setTogglingCompletion] = useState(false);
   const [completionNotes, setCompletionNotes] = useState<{ [key: string]: string }>({});
 
@@ -96,6 +180,12 @@ const Student = () => {
     fetchMySubmissions();
   }, [user]);
 
+  // Submissions made offline are sent once the connection returns
+  const { online, queued, queue } = useSubmissionSync(user?.id, submitErrorMessages, () => {
+    fetchAssignments();
+    fetchMySubmissions();
+  });
+
   const fetchAssignments = async () => {
     if (!user) return;
     setLoading(true);
@@ -103,12 +193,14 @@ const Student = () => {
       // First fetch the assignment IDs that this student is assigned to
       const { data: assignedData, error: assignedError } = await supabase
         .from("student_assignments")
-        .select("assignment_id")
+        .select("assignment_id, extended_due_date, extra_time_minutes")
         .eq("student_id", user.id);
 
       if (assignedError) throw assignedError;
 
       const assignedIds = (assignedData || []).map(a => a.assignment_id);
+      const extendedDueDates = Object.fromEntries((assignedData || []).map(a => [a.assignment_id, a.extended_due_date]));
+      const extraTimes = Object.fromEntries((assignedData || []).map(a => [a.assignment_id, a.extra_time_minutes]));
 
       // If no assignments are assigned, show empty list
       if (assignedIds.length === 0) {
@@ -122,13 +214,21 @@ const Student = () => {
         .select(`
           *,
           instructor:profiles!instructor_id(full_name),
-          submissions!submissions_assignment_id_fkey!left(id, score, total_questions, student_id)
+          submissions!submissions_assignment_id_fkey!left(id, score, max_score, days_late, late_penalty, student_id)
         `)
         .in("id", assignedIds)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
 
+      // Attempts started on any device and not submitted yet
+      const { data: openAttempts } = await supabase
+        .from("assignment_attempts")
+        .select("assignment_id")
+        .eq("student_id", user.id)
+        .is("submission_id", null);
+      const inProgressIds = new Set((openAttempts || []).map(a => a.assignment_id));
+
       // Fetch completions for reading assignments
       const { data: completionsData } = await supabase
         .from("assignment_completions")
@@ -143,9 +243,14 @@ const Student = () => {
       // Fetch questions separately using secure function that hides answers from students
       const formattedAssignments = await Promise.all(
         (data || []).map(async (assignment: any) => {
+          // Scheduled assignments are listed, but nothing of their content is loaded until they open
+          const availability = getAvailabilityState(assignment);
+          const scheduled = availability === 'scheduled';
+
           // Only fetch questions for quiz type
           let questions: Question[] = [];
-          if (assignment.assignment_type === 'quiz') {
+          let questionCount = 0;
+          if (assignment.assignment_type === 'quiz' && !scheduled) {
             const { data: questionsData } = await supabase.rpc(
               "get_assignment_questions",
               { _assignment_id: assignment.id, _include_answers: false }
@@ -157,11 +262,25 @@ const Student = () => {
               text: q.text,
               options: Array.isArray(q.options) ? q.options : JSON.parse(q.options as string),
               correct_answer: q.correct_answer,
+              correct_answers: q.correct_answers,
+              scoring_mode: q.scoring_mode,
+              numeric_answer: q.numeric_answer,
+              numeric_tolerance: q.numeric_tolerance,
+              tolerance_type: q.tolerance_type,
+              accept_fractions: q.accept_fractions,
+              accepted_answers: q.accepted_answers,
+              points: q.points,
               explanation: q.explanation,
               order_number: q.order_number,
               question_type: q.question_type || 'multiple_choice',
               model_answer: q.model_answer,
             })).sort((a: Question, b: Question) => a.order_number - b.order_number);
+
+            const { data: countData } = await supabase.rpc(
+              "assignment_question_count",
+              { _assignment_id: assignment.id }
+            );
+            questionCount = countData ?? questions.length;
           }
 
           // Count submissions for current student
@@ -174,15 +293,29 @@ const Student = () => {
             ...assignment,
             assignment_type: assignment.assignment_type as 'quiz' | 'reading',
             questions,
+            question_count: questionCount,
             submission: studentSubmissions[studentSubmissions.length - 1], // Most recent submission
             submission_count: submissionCount,
+            in_progress: inProgressIds.has(assignment.id),
             completion: completionsMap[assignment.id] || null,
+            due_date: extendedDueDates[assignment.id] ?? assignment.due_date,
+            due_date_extended: !!extendedDueDates[assignment.id],
+            extra_time_minutes: extraTimes[assignment.id] ?? 0,
+            availability,
+            ...(scheduled && { description: null, file_url: null, file_type: null }),
           };
         })
       );
 
       setAssignments(formattedAssignments);
+      saveOfflineAssignments(user.id, formattedAssignments);
     } catch (error: any) {
+      const cached = isNetworkError(error) && loadOfflineAssignments<Assignment>(user.id);
+      if (cached) {
+        setAssignments(cached);
+        toast.info("오프라인 상태입니다. 마지막으로 불러온 과제 목록을 표시합니다");
+        return;
+      }
       toast.error("과제를 불러오지 못했습니다: " + error.message);
     } finally {
       setLoading(false);
@@ -204,6 +337,7 @@ const Student = () => {
       if (error) throw error;
       setMySubmissions(data || []);
     } catch (error: any) {
+      if (isNetworkError(error)) return;
       toast.error("제출 기록을 불러오지 못했습니다: " + error.message);
     }
   };
@@ -266,18 +400,210 @@ const Student = () => {
     }
   };
 
-  const startAssignment = (assignment: Assignment) => {
+  const startAssignment = async (assignment: Assignment) => {
+    // Pooled and shuffled assignments draw this student's questions and order when the
+    // attempt starts; restarting the same open attempt returns the same ones, along with
+    // the answers autosaved so far
+    const { data: attempts, error: attemptError } = await supabase.rpc(
+      "start_assignment_attempt",
+      { _assignment_id: assignment.id }
+    );
+
+    if (attemptError) {
+      if (isNetworkError(attemptError)) {
+        resumeOfflineAttempt(assignment);
+        return;
+      }
+      toast.error("과제를 시작하지 못했습니다: " + (submitErrorMessages[attemptError.message] || attemptError.message));
+      return;
+    }
+
+    const attempt = attempts?.[0] ?? null;
+    let questions = assignment.questions;
+    if (attempt?.question_ids) {
+      const { data: questionsData, error: questionsError } = await supabase.rpc(
+        "get_assignment_questions",
+        { _assignment_id: assignment.id }
+      );
+
+      if (questionsError) {
+        toast.error("문제를 불러오지 못했습니다: " + questionsError.message);
+        return;
+      }
+
+      questions = (questionsData || []).map(q => ({
+        ...q,
+        options: Array.isArray(q.options) ? q.options : JSON.parse(q.options as string),
+      })) as Question[];
+    }
+
+    const order = attempt && { question_seed: attempt.question_seed, option_seed: attempt.option_seed };
+    const openedAssignment = { ...assignment, questions: applyAttemptOrder(questions, order) };
+    const draftAnswers = (attempt?.draft_answers ?? []) as unknown as AttemptAnswer[];
+    lastSavedDraft.current = JSON.stringify(
+      toAttemptAnswers(openedAssignment.questions, fromAttemptAnswers(openedAssignment.questions, draftAnswers))
+    );
+
+    // Keep everything needed to carry on without a connection
+    if (user) {
+      saveOfflineAttempt(user.id, assignment.id, {
+        assignment: openedAssignment,
+        attemptId: attempt?.attempt_id ?? null,
+        order,
+        deadline: attempt?.deadline ?? null,
+        answers: draftAnswers,
+      });
+      cacheForOffline([...(assignment.file_url ? [assignment.file_url] : []), ...katexFontUrls()]);
+    }
+
+    openAttempt(openedAssignment, attempt?.attempt_id ?? null, order, attempt?.deadline ?? null, draftAnswers);
+    setDraftSavedAt(attempt?.saved_at ?? null);
+    if (attempt?.saved_at) {
+      toast.info("저장된 답안을 불러왔습니다");
+    }
+  };
+
+  // Without a connection, an attempt opened earlier on this device carries on from what it stored
+  const resumeOfflineAttempt = (assignment: Assignment) => {
+    const saved = user && loadOfflineAttempt<Assignment>(user.id, assignment.id);
+    if (!saved) {
+      toast.error("오프라인 상태에서는 이 기기에서 시작한 적 있는 과제만 풀 수 있습니다");
+      return;
+    }
+
+    // Nothing is on the server yet; the answers are autosaved there once the connection returns
+    lastSavedDraft.current = null;
+    openAttempt(saved.assignment, saved.attemptId, saved.order, saved.deadline, saved.answers);
+    setDraftSavedAt(null);
+    toast.info("오프라인 상태입니다. 이 기기에 저장된 답안으로 이어서 풉니다");
+  };
+
+  // Shows an attempt whose questions are already in attempt order, with the answers given so far
+  const openAttempt = (
+    assignment: Assignment,
+    id: string | null,
+    order: AttemptOrder | null,
+    deadline: string | null,
+    answers: AttemptAnswer[],
+  ) => {
+    const savedAnswers = fromAttemptAnswers(assignment.questions, answers);
+    setAttemptId(id);
+    setAttemptOrder(order);
+    setAttemptDeadline(deadline);
+    setDraftStatus('saved');
     setCurrentAssignment(assignment);
     setCurrentQuestionIndex(0);
-    setSelectedAnswers({});
-    setTextAnswers({});
+    setSelectedAnswers(savedAnswers.selectedAnswers);
+    setSelectedAnswerSets(savedAnswers.selectedAnswerSets);
+    setTextAnswers(savedAnswers.textAnswers);
     setShowResults(false);
+    setAssignments(prev => prev.map(a => (a.id === assignment.id ? { ...a, in_progress: true } : a)));
+  };
+
+  // Keeps the answers on this device right away, and autosaves them to the open attempt
+  // shortly after they stop changing
+  useEffect(() => {
+    if (!currentAssignment || showResults || submitting || !user) return;
+    const answers = toAttemptAnswers(currentAssignment.questions, { selectedAnswers, selectedAnswerSets, textAnswers });
+    saveOfflineAnswers(user.id, currentAssignment.id, answers);
+    const serialized = JSON.stringify(answers);
+    if (serialized === lastSavedDraft.current) return;
+    if (!online) {
+      setDraftStatus('offline');
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      setDraftStatus('saving');
+      const { data: savedAt, error } = await supabase.rpc("save_attempt_draft", {
+        _assignment_id: currentAssignment.id,
+        _answers: answers as unknown as Json,
+      });
+      if (error) {
+        console.error("Autosave failed:", error);
+        setDraftStatus(isNetworkError(error) ? 'offline' : 'error');
+        return;
+      }
+      lastSavedDraft.current = serialized;
+      setDraftSavedAt(savedAt);
+      setDraftStatus('saved');
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [user, online, currentAssignment, showResults, submitting, selectedAnswers, selectedAnswerSets, textAnswers]);
+
+  const viewResults = async (assignment: Assignment) => {
+    if (!assignment.submission) return;
+    setLoadingResults(true);
+    try {
+      const { data: result, error: resultError } = await supabase.rpc(
+        "get_submission_results",
+        { _submission_id: assignment.submission.id }
+      );
+
+      if (resultError) throw resultError;
+
+      const { data: questionsData, error: questionsError } = await supabase.rpc(
+        "get_assignment_questions",
+        { _assignment_id: assignment.id, _submission_id: assignment.submission.id }
+      );
+
+      if (questionsError) throw questionsError;
+
+      const canonicalQuestions = (questionsData || []).map(q => ({
+        ...q,
+        options: Array.isArray(q.options) ? q.options : JSON.parse(q.options as string),
+      })) as Question[];
+      const { results, score, max_score, days_late, late_penalty, time_expired, reveal, question_seed, option_seed } = result as unknown as SubmissionResults;
+      const questions = applyAttemptOrder(canonicalQuestions, { question_seed, option_seed });
+
+      // Restore the submitted answers by question position for the results view
+      const restoredSelected: { [key: number]: number } = {};
+      const restoredSets: { [key: number]: number[] } = {};
+      const restoredText: { [key: number]: string } = {};
+      questions.forEach((question, index) => {
+        const answer = results.find(r => r.question_id === question.id);
+        if (answer?.selected_answer !== null && answer?.selected_answer !== undefined) {
+          restoredSelected[index] = toDisplayOption(question, answer.selected_answer);
+        }
+        if (answer?.selected_answers) {
+          restoredSets[index] = answer.selected_answers.map(i => toDisplayOption(question, i)).sort((a, b) => a - b);
+        }
+        if (answer?.text_answer) {
+          restoredText[index] = answer.text_answer;
+        }
+      });
+
+      setCurrentAssignment({ ...assignment, questions });
+      setSelectedAnswers(restoredSelected);
+      setSelectedAnswerSets(restoredSets);
+      setTextAnswers(restoredText);
+      setSubmissionAnswers(results);
+      setSubmissionScore(score ?? 0);
+      setSubmissionMaxScore(max_score ?? 0);
+      setSubmissionLateness({ days_late, late_penalty });
+      setSubmissionTimeExpired(time_expired);
+      setSubmissionReveal(reveal);
+      setReviewingSubmission(true);
+      setShowResults(true);
+    } catch (error) {
+      toast.error("결과를 불러오지 못했습니다: " + (error as Error).message);
+    } finally {
+      setLoadingResults(false);
+    }
   };
 
   const handleAnswerSelect = (questionIndex: number, answer: number) => {
     setSelectedAnswers({ ...selectedAnswers, [questionIndex]: answer });
   };
 
+  const handleAnswerToggle = (questionIndex: number, answer: number) => {
+    const current = selectedAnswerSets[questionIndex] || [];
+    const next = current.includes(answer)
+      ? current.filter(i => i !== answer)
+      : [...current, answer].sort((a, b) => a - b);
+    setSelectedAnswerSets({ ...selectedAnswerSets, [questionIndex]: next });
+  };
+
   const handleTextAnswerChange = (questionIndex: number, answer: string) => {
     setTextAnswers({ ...textAnswers, [questionIndex]: answer });
   };
@@ -294,8 +620,11 @@ const Student = () => {
     }
   };
 
-  const handleSubmit = async () => {
-    if (!currentAssignment || !user) return;
+  // timeUp: the countdown ran out, so whatever has been answered is submitted as is
+  const handleSubmit = async (timeUp = false) => {
+    if (!currentAssignment || !user || submitting) return;
+    // Deadlines are judged by this moment, even when the submission reaches the server later
+    const submittedAt = new Date().toISOString();
 
     // Check if student has exceeded max attempts
     if (currentAssignment.max_attempts && currentAssignment.submission_count) {
@@ -307,111 +636,102 @@ const Student = () => {
 
     const allQuestionsAnswered = currentAssignment.questions.every(
       (question, index) => {
-        if (question.question_type === 'free_response') {
+        if (isTextAnswerQuestion(question.question_type)) {
           return textAnswers[index] && textAnswers[index].trim() !== '';
         }
+        if (question.question_type === 'multiple_select') {
+          return (selectedAnswerSets[index] || []).length > 0;
+        }
         return selectedAnswers[index] !== undefined;
       }
     );
 
-    if (!allQuestionsAnswered) {
+    if (timeUp) {
+      toast.info("제한 시간이 끝나 작성한 답안을 제출합니다");
+    } else if (!allQuestionsAnswered) {
       toast.error("모든 문제에 답을 입력해주세요");
       return;
     }
 
     setSubmitting(true);
     try {
-      // Prepare student answers for the edge function
-      const studentAnswers = currentAssignment.questions.map((question, index) => ({
-        question_id: question.id,
-        selected_answer: question.question_type === 'multiple_choice' ? selectedAnswers[index] : null,
-        text_answer: question.question_type === 'free_response' ? textAnswers[index] : null,
-        question_type: question.question_type,
-      }));
-
-      // Calculate score on the server
-      const { data: scoreData, error: scoreError } = await supabase.functions.invoke(
-        'calculate-submission-score',
+      // Prepare student answers for the edge function; options are sent by their canonical index
+      const studentAnswers = toAttemptAnswers(currentAssignment.questions, { selectedAnswers, selectedAnswerSets, textAnswers });
+
+      // Without a connection the submission waits on this device and is sent when it returns
+      const queueOffline = () => {
+        queue({
+          assignment_id: currentAssignment.id,
+          assignment_title: currentAssignment.title,
+          attempt_id: attemptId,
+          answers: studentAnswers,
+          submitted_at: submittedAt,
+        });
+        toast.info("오프라인 상태라 답안을 이 기기에 보관했습니다. 연결되면 자동으로 제출됩니다", { duration: 8000 });
+        setCurrentAssignment(null);
+      };
+
+      if (!navigator.onLine) {
+        queueOffline();
+        return;
+      }
+
+      // Grade and record the submission on the server
+      const { data: result, error: submitError } = await supabase.functions.invoke(
+        'submit-assignment',
         {
           body: {
             assignment_id: currentAssignment.id,
-            student_answers: studentAnswers,
+            answers: studentAnswers,
+            attempt_id: attemptId,
           },
         }
       );
 
-      if (scoreError) {
-        console.error("Score calculation error:", scoreError);
-        throw new Error(scoreError.message || "Failed to calculate score");
+      if (submitError && isNetworkError(submitError)) {
+        queueOffline();
+        return;
       }
 
-      // Check if the response contains an error
-      if (scoreData?.error) {
-        console.error("Score calculation returned error:", scoreData.error);
-        throw new Error(scoreData.error);
+      if (submitError) {
+        // Non-2xx responses carry the reason in the response body
+        const body = await submitError.context?.json?.().catch(() => null);
+        console.error("Submission error:", body || submitError);
+        throw new Error(submitErrorMessages[body?.code] || body?.error || submitError.message);
       }
 
-      if (!scoreData || typeof scoreData.score !== 'number' || typeof scoreData.total_questions !== 'number') {
-        console.error("Invalid score data received:", scoreData);
-        throw new Error("Invalid response from score calculation");
+      if (!result || !result.submission_id || !Array.isArray(result.results)) {
+        console.error("Invalid submission response received:", result);
+        throw new Error("Invalid response from submission");
       }
+      clearOfflineAttempt(user.id, currentAssignment.id);
 
-      const { score: finalScore, total_questions: totalQuestions } = scoreData;
-
-      // Create submission record
-      const { data: submission, error: submissionError } = await supabase
-        .from("submissions")
-        .insert({
-          assignment_id: currentAssignment.id,
-          student_id: user.id,
-          score: finalScore,
-          total_questions: totalQuestions,
-        })
-        .select()
-        .single();
-
-      if (submissionError) throw submissionError;
-
-      // Insert individual answers
-      const answersToInsert = studentAnswers.map((answer) => ({
-        submission_id: submission.id,
-        question_id: answer.question_id,
-        selected_answer: answer.selected_answer,
-        text_answer: answer.text_answer,
-      }));
-
-      const { error: answersError } = await supabase
-        .from("student_answers")
-        .insert(answersToInsert);
-
-      if (answersError) throw answersError;
-
-      // Fetch questions WITH correct answers for results display
+      // Re-fetch questions now that the submission exists; the answer key is only
+      // included when the assignment's reveal policy allows it
       const { data: questionsWithAnswers } = await supabase.rpc(
         "get_assignment_questions",
         {
           _assignment_id: currentAssignment.id,
           _include_answers: true,
+          _submission_id: result.submission_id,
         }
       );
 
-      // Update current assignment with questions that include correct answers
+      // Update current assignment with questions that may include correct answers
       if (questionsWithAnswers) {
         setCurrentAssignment({
           ...currentAssignment,
-          questions: questionsWithAnswers as Question[],
+          questions: applyAttemptOrder(questionsWithAnswers as Question[], attemptOrder),
         });
       }
 
-      // Fetch student answers with grading info
-      const { data: savedAnswers } = await supabase
-        .from("student_answers")
-        .select("question_id, is_correct, points_earned, feedback, graded_at")
-        .eq("submission_id", submission.id);
-      
-      if (savedAnswers) {
-        setSubmissionAnswers(savedAnswers as StudentAnswerResult[]);
-      }
+      setSubmissionAnswers(result.results as StudentAnswerResult[]);
+      setSubmissionScore(result.score);
+      setSubmissionMaxScore(result.max_score);
+      setSubmissionLateness({ days_late: result.days_late, late_penalty: result.late_penalty });
+      setSubmissionTimeExpired(result.time_expired);
+      setSubmissionReveal(result.reveal as SubmissionReveal);
+      setReviewingSubmission(false);
 
       toast.success("과제가 제출되었습니다!");
       setShowResults(true);
@@ -424,20 +744,6 @@ const Student = () => {
     }
   };
 
-  const calculateScore = () => {
-    // Score calculation now happens server-side for security
-    // This function is kept for displaying results after submission
-    // Only counts multiple choice questions
-    if (!currentAssignment) return 0;
-    let score = 0;
-    currentAssignment.questions.forEach((question, index) => {
-      if (question.question_type === 'multiple_choice' && selectedAnswers[index] === question.correct_answer) {
-        score++;
-      }
-    });
-    return score;
-  };
-
   const getMCQuestionCount = () => {
     if (!currentAssignment) return 0;
     return currentAssignment.questions.filter(q => q.question_type === 'multiple_choice').length;
@@ -463,8 +769,9 @@ const Student = () => {
     const multipleChoiceCount = currentAssignment.questions.filter(q => q.question_type === 'multiple_choice').length;
     const freeResponseCount = currentAssignment.questions.filter(q => q.question_type === 'free_response').length;
     const answeredMC = Object.keys(selectedAnswers).length;
+    const answeredMS = Object.values(selectedAnswerSets).filter(a => a.length > 0).length;
     const answeredFR = Object.values(textAnswers).filter(a => a && a.trim() !== '').length;
-    const answeredCount = answeredMC + answeredFR;
+    const answeredCount = answeredMC + answeredMS + answeredFR;
     const totalQuestions = currentAssignment.questions.length;
     const progress = (answeredCount / totalQuestions) * 100;
 
@@ -483,7 +790,11 @@ const Student = () => {
             <h1 className="text-2xl font-bold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
               {currentAssignment.title}
             </h1>
-            <div className="w-10" />
+            {attemptDeadline ? (
+              <QuizCountdown deadline={attemptDeadline} onExpire={() => handleSubmit(true)} />
+            ) : (
+              <div className="w-10" />
+            )}
           </div>
 
           <div className="space-y-3">
@@ -491,6 +802,29 @@ const Student = () => {
               <span className="text-muted-foreground">
                 {answeredCount} / {totalQuestions} 완료
               </span>
+              <span className="flex items-center gap-1 text-xs font-normal text-muted-foreground">
+                {draftStatus === 'saving' ? (
+                  <>
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    저장 중...
+                  </>
+                ) : draftStatus === 'offline' ? (
+                  <span className="flex items-center gap-1 text-orange-600">
+                    <WifiOff className="h-3 w-3" />
+                    오프라인 · 이 기기에 저장됨
+                  </span>
+                ) : draftStatus === 'error' ? (
+                  <span className="flex items-center gap-1 text-destructive">
+                    <CloudOff className="h-3 w-3" />
+                    자동 저장 실패
+                  </span>
+                ) : draftSavedAt && (
+                  <>
+                    <Cloud className="h-3 w-3" />
+                    {new Date(draftSavedAt).toLocaleTimeString()} 자동 저장됨
+                  </>
+                )}
+              </span>
               <span className="text-primary font-semibold">{Math.round(progress)}%</span>
             </div>
             <div className="relative">
@@ -536,20 +870,18 @@ const Student = () => {
                     {/* Header row */}
                     <div className="flex items-center gap-2 pb-2 border-b sticky top-0 bg-card z-10">
                       <div className="w-16 text-center text-sm font-medium text-muted-foreground">Q#</div>
-                      <div className="flex-1 flex justify-center gap-4">
-                        {[1, 2, 3, 4, 5].map((num) => (
-                          <div key={num} className="w-10 text-center text-sm font-medium text-muted-foreground">
-                            {num}
-                          </div>
-                        ))}
-                      </div>
+                      <div className="flex-1 text-center text-sm font-medium text-muted-foreground">답안</div>
                     </div>
 
                     {/* Question rows */}
                     {currentAssignment.questions.map((question, qIndex) => {
+                      const isMultipleSelect = question.question_type === 'multiple_select';
+                      const isNumeric = question.question_type === 'numeric';
                       const isAnswered = question.question_type === 'multiple_choice' 
                         ? selectedAnswers[qIndex] !== undefined
-                        : textAnswers[qIndex] && textAnswers[qIndex].trim() !== '';
+                        : isMultipleSelect
+                          ? (selectedAnswerSets[qIndex] || []).length > 0
+                          : textAnswers[qIndex] && textAnswers[qIndex].trim() !== '';
                       
                       return (
                         <div 
@@ -559,39 +891,64 @@ const Student = () => {
                             isAnswered && "bg-accent/20"
                           )}
                         >
-                          {question.question_type === 'multiple_choice' ? (
-                            <div className="flex items-center gap-2">
-                              <div className="w-16 text-center">
-                                <span className={cn(
-                                  "inline-flex items-center justify-center w-8 h-8 rounded-full text-sm font-semibold transition-colors",
-                                  isAnswered 
-                                    ? "bg-primary text-primary-foreground" 
-                                    : "bg-muted text-muted-foreground"
-                                )}>
-                                  {qIndex + 1}
-                                </span>
-                              </div>
-                              <div className="flex-1 flex justify-center gap-4">
-                                {[0, 1, 2, 3, 4].map((optionIndex) => {
-                                  const isSelected = selectedAnswers[qIndex] === optionIndex;
-                                  return (
-                                    <button
-                                      key={optionIndex}
-                                      type="button"
-                                      onClick={() => handleAnswerSelect(qIndex, optionIndex)}
-                                      className={cn(
-                                        "w-10 h-10 rounded-full border-2 flex items-center justify-center text-sm font-medium transition-all duration-200",
-                                        "hover:scale-110 hover:shadow-md",
-                                        isSelected
-                                          ? "bg-[#292929] border-[#292929] text-white shadow-lg scale-105 animate-scale-in ring-2 ring-[#292929]/30"
-                                          : "border-border bg-background hover:border-primary/50 hover:bg-accent/30"
-                                      )}
-                                    >
-                                      {optionIndex + 1}
-                                    </button>
-                                  );
-                                })}
+                          {isChoiceQuestion(question.question_type) ? (
+                            <div className="space-y-2">
+                              <div className="flex items-center gap-2">
+                                <div className="w-16 text-center">
+                                  <span className={cn(
+                                    "inline-flex items-center justify-center w-8 h-8 rounded-full text-sm font-semibold transition-colors",
+                                    isAnswered 
+                                      ? "bg-primary text-primary-foreground" 
+                                      : "bg-muted text-muted-foreground"
+                                  )}>
+                                    {qIndex + 1}
+                                  </span>
+                                </div>
+                                <div className="flex-1 flex flex-wrap justify-center gap-4">
+                                  {question.options.map((_, optionIndex) => {
+                                    const isSelected = isMultipleSelect
+                                      ? (selectedAnswerSets[qIndex] || []).includes(optionIndex)
+                                      : selectedAnswers[qIndex] === optionIndex;
+                                    return (
+                                      <button
+                                        key={optionIndex}
+                                        type="button"
+                                        role={isMultipleSelect ? "checkbox" : undefined}
+                                        aria-checked={isMultipleSelect ? isSelected : undefined}
+                                        onClick={() => isMultipleSelect ? handleAnswerToggle(qIndex, optionIndex) : handleAnswerSelect(qIndex, optionIndex)}
+                                        className={cn(
+                                          "w-10 h-10 border-2 flex items-center justify-center text-sm font-medium transition-all duration-200",
+                                          isMultipleSelect ? "rounded-md" : "rounded-full",
+                                          "hover:scale-110 hover:shadow-md",
+                                          isSelected
+                                            ? "bg-[#292929] border-[#292929] text-white shadow-lg scale-105 animate-scale-in ring-2 ring-[#292929]/30"
+                                            : "border-border bg-background hover:border-primary/50 hover:bg-accent/30"
+                                        )}
+                                      >
+                                        {optionIndex + 1}
+                                      </button>
+                                    );
+                                  })}
+                                </div>
                               </div>
+                              {isMultipleSelect && (
+                                <p className="pl-16 text-xs text-muted-foreground">
+                                  <Badge variant="outline" className="mr-2">복수선택</Badge>
+                                  해당하는 답을 모두 고르세요
+                                </p>
+                              )}
+                              {hasOptionText(question.options) && (
+                                <div className="pl-16 space-y-1 text-sm">
+                                  <RichContent content={question.text} className="font-medium" />
+                                  <ol className="space-y-0.5 text-muted-foreground">
+                                    {question.options.map((option, optionIndex) => (
+                                      <li key={optionIndex}>
+                                        {optionIndex + 1}. <RichContent content={option} inline />
+                                      </li>
+                                    ))}
+                                  </ol>
+                                </div>
+                              )}
                             </div>
                           ) : (
                             <div className="space-y-2">
@@ -607,18 +964,40 @@ const Student = () => {
                                   </span>
                                 </div>
                                 <Badge variant="secondary" className="bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300">
-                                  <PenLine className="h-3 w-3 mr-1" />
-                                  서술형
+                                  {isNumeric ? <Hash className="h-3 w-3 mr-1" /> : <PenLine className="h-3 w-3 mr-1" />}
+                                  {questionTypeLabels[question.question_type]}
                                 </Badge>
-                                <span className="text-sm text-muted-foreground flex-1">{question.text}</span>
+                                <RichContent content={question.text} className="text-sm text-muted-foreground flex-1" />
                               </div>
                               <div className="pl-16">
-                                <MathInput
-                                  value={textAnswers[qIndex] || ''}
-                                  onChange={(value) => handleTextAnswerChange(qIndex, value)}
-                                  placeholder="답안을 입력하세요 (수학 기호 사용 가능)"
-                                  className="max-w-xl"
-                                />
+                                {isNumeric ? (
+                                  <div className="space-y-1">
+                                    <Input
+                                      inputMode="decimal"
+                                      value={textAnswers[qIndex] || ''}
+                                      onChange={(e) => handleTextAnswerChange(qIndex, e.target.value)}
+                                      placeholder={question.accept_fractions ? "숫자를 입력하세요 (예: 0.75, 3/4)" : "숫자를 입력하세요 (예: 0.75)"}
+                                      className="max-w-xs"
+                                    />
+                                    {textAnswers[qIndex]?.trim() && parseNumericAnswer(textAnswers[qIndex], question.accept_fractions) === null && (
+                                      <p className="text-xs text-destructive">숫자로 인식할 수 없는 답안입니다</p>
+                                    )}
+                                  </div>
+                                ) : question.question_type === 'short_answer' ? (
+                                  <Input
+                                    value={textAnswers[qIndex] || ''}
+                                    onChange={(e) => handleTextAnswerChange(qIndex, e.target.value)}
+                                    placeholder="답을 입력하세요"
+                                    className="max-w-md"
+                                  />
+                                ) : (
+                                  <MathInput
+                                    value={textAnswers[qIndex] || ''}
+                                    onChange={(value) => handleTextAnswerChange(qIndex, value)}
+                                    placeholder="답안을 입력하세요 (수학 기호 사용 가능)"
+                                    className="max-w-xl"
+                                  />
+                                )}
                               </div>
                             </div>
                           )}
@@ -664,7 +1043,7 @@ const Student = () => {
                   </AlertDialogHeader>
                   <AlertDialogFooter>
                     <AlertDialogCancel>취소</AlertDialogCancel>
-                    <AlertDialogAction onClick={handleSubmit} disabled={submitting}>
+                    <AlertDialogAction onClick={() => handleSubmit()} disabled={submitting}>
                       {submitting ? "제출 중..." : "제출하기"}
                     </AlertDialogAction>
                   </AlertDialogFooter>
@@ -678,19 +1057,27 @@ const Student = () => {
   }
 
   if (showResults && currentAssignment) {
-    const score = calculateScore();
-    const percentage = Math.round(
-      (score / currentAssignment.questions.length) * 100
-    );
+    const score = submissionScore;
+    const percentage = submissionMaxScore > 0 ? Math.round(
+      (score / submissionMaxScore) * 100
+    ) : 0;
     const scoreColor = percentage >= 80 ? "text-green-500" : percentage >= 60 ? "text-yellow-500" : "text-red-500";
     const bgGradient = percentage >= 80 ? "from-green-500/10 to-green-500/5" : percentage >= 60 ? "from-yellow-500/10 to-yellow-500/5" : "from-red-500/10 to-red-500/5";
+    const showCorrectness = submissionReveal?.correctness ?? false;
+    const revealNotice = !submissionReveal || submissionReveal.released
+      ? null
+      : submissionReveal.policy === 'after_due_date' && currentAssignment.due_date
+        ? `정답과 해설은 마감일(${new Date(currentAssignment.due_date).toLocaleString()}) 이후 공개됩니다`
+        : submissionReveal.policy === 'after_last_attempt'
+          ? "정답과 해설은 마지막 제출 이후 공개됩니다"
+          : "이 과제는 정답과 해설을 공개하지 않습니다";
 
     return (
       <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 p-6">
         <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
           <Card className={cn("shadow-xl border-2 bg-gradient-to-br", bgGradient)}>
             <CardHeader>
-              <CardTitle className="text-center text-3xl">🎉 과제 완료! 🎉</CardTitle>
+              <CardTitle className="text-center text-3xl">{reviewingSubmission ? "제출 결과" : "🎉 과제 완료! 🎉"}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="flex flex-col items-center space-y-6">
@@ -702,9 +1089,10 @@ const Student = () => {
                 </div>
                 <div className="text-center space-y-2">
                   <p className={cn("text-6xl font-bold animate-scale-in", scoreColor)}>
-                    {score} / {currentAssignment.questions.length}
+                    {score} / {submissionMaxScore}
                   </p>
                   <p className={cn("text-3xl font-semibold", scoreColor)}>{percentage}%</p>
+                  {submissionLateness && <LatePenaltyBadge submission={submissionLateness} />}
                   <p className="text-muted-foreground text-lg">
                     {percentage >= 80 ? "훌륭합니다! 🌟" : percentage >= 60 ? "잘했습니다! 💪" : "더 열심히 해보세요! 📚"}
                   </p>
@@ -713,6 +1101,28 @@ const Student = () => {
             </CardContent>
           </Card>
 
+          {submissionTimeExpired && (
+            <Card className="border-2 border-destructive/50 bg-destructive/5">
+              <CardContent className="py-4">
+                <div className="flex items-center gap-3 text-sm">
+                  <Timer className="h-5 w-5 text-destructive" />
+                  <p className="font-medium">제한 시간이 지난 뒤 제출되어 마지막으로 자동 저장된 답안으로 채점되었습니다</p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {revealNotice && (
+            <Card className="border-2 border-accent/50 bg-accent/5">
+              <CardContent className="py-4">
+                <div className="flex items-center gap-3 text-sm">
+                  <Clock className="h-5 w-5 text-accent" />
+                  <p className="font-medium">{revealNotice}</p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {currentAssignment.file_url && (
             <Card className="shadow-lg border-2 border-primary/30 bg-gradient-to-br from-primary/5 to-accent/5">
               <CardHeader className="pb-3">
@@ -739,25 +1149,33 @@ const Student = () => {
                 답안 확인
               </CardTitle>
               <CardDescription>
-                어떤 문제를 맞았는지 확인하고 설명을 학습하세요
+                {showCorrectness ? "어떤 문제를 맞았는지 확인하고 설명을 학습하세요" : "제출한 답안을 확인하세요"}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               {currentAssignment.questions.map((question, index) => {
                 const isFreeResponse = question.question_type === 'free_response';
+                const isMultipleSelect = question.question_type === 'multiple_select';
+                const isNumeric = question.question_type === 'numeric';
+                const isShortAnswer = question.question_type === 'short_answer';
                 const selectedAnswer = selectedAnswers[index];
+                const selectedSet = selectedAnswerSets[index] || [];
                 const textAnswer = textAnswers[index];
-                const isCorrect = !isFreeResponse && selectedAnswer === question.correct_answer;
-                
-                // Get submission answer for FRQ grading info
+
+                // Correctness comes from the server-side grading, not the (possibly hidden) key
                 const submissionAnswer = submissionAnswers.find(a => a.question_id === question.id);
+                const isCorrect = !isFreeResponse && submissionAnswer?.is_correct === true;
                 const frqPoints = submissionAnswer?.points_earned;
                 const frqGraded = frqPoints !== null && frqPoints !== undefined;
+                const frqFullMarks = frqGraded && frqPoints >= question.points;
                 const frqFeedback = submissionAnswer?.feedback;
+                // Multiple-select answers can earn partial credit
+                const msPoints = submissionAnswer?.points_earned ?? 0;
+                const isPartial = isMultipleSelect && showCorrectness && !isCorrect && msPoints > 0;
 
                 // Determine FRQ card styling based on grading status
                 const frqBorderClass = frqGraded 
-                  ? frqPoints === 1 
+                  ? frqFullMarks
                     ? "border-green-500/50 bg-green-500/5"
                     : frqPoints === 0 
                       ? "border-destructive/50 bg-destructive/5"
@@ -767,17 +1185,23 @@ const Student = () => {
                 return (
                   <Card key={question.id} className={cn(
                     "border-2 transition-all duration-300 hover:shadow-lg",
-                    isFreeResponse 
-                      ? frqBorderClass
-                      : isCorrect 
-                        ? "border-green-500/50 bg-green-500/5" 
-                        : "border-destructive/50 bg-destructive/5"
+                    !showCorrectness
+                      ? "border-border"
+                      : isFreeResponse 
+                        ? frqBorderClass
+                        : isCorrect 
+                          ? "border-green-500/50 bg-green-500/5" 
+                          : isPartial
+                            ? "border-yellow-500/50 bg-yellow-500/5"
+                            : "border-destructive/50 bg-destructive/5"
                   )}>
                     <CardHeader>
                       <div className="flex items-start gap-3">
-                        {isFreeResponse ? (
+                        {!showCorrectness ? (
+                          <CheckCircle2 className="h-6 w-6 text-muted-foreground" />
+                        ) : isFreeResponse ? (
                           frqGraded ? (
-                            frqPoints === 1 ? (
+                            frqFullMarks ? (
                               <div className="relative">
                                 <div className="absolute inset-0 blur-lg bg-green-500/30" />
                                 <CheckCircle2 className="h-6 w-6 text-green-500 relative" />
@@ -788,7 +1212,7 @@ const Student = () => {
                               </div>
                             ) : (
                               <div className="h-6 w-6 rounded-full bg-yellow-500 flex items-center justify-center">
-                                <span className="text-xs text-white font-bold">{Math.round(frqPoints * 100)}%</span>
+                                <span className="text-xs text-white font-bold">{Math.round(frqPoints / question.points * 100)}%</span>
                               </div>
                             )
                           ) : (
@@ -801,6 +1225,10 @@ const Student = () => {
                             <div className="absolute inset-0 blur-lg bg-green-500/30" />
                             <CheckCircle2 className="h-6 w-6 text-green-500 relative" />
                           </div>
+                        ) : isPartial ? (
+                          <div className="h-6 w-6 rounded-full bg-yellow-500 flex items-center justify-center">
+                            <span className="text-xs text-white font-bold">{Math.round(msPoints / question.points * 100)}%</span>
+                          </div>
                         ) : (
                           <div className="h-6 w-6 rounded-full bg-destructive flex items-center justify-center">
                             <span className="text-sm text-destructive-foreground font-bold">✕</span>
@@ -814,15 +1242,15 @@ const Student = () => {
                                 <Badge variant="secondary" className="bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300">
                                   서술형
                                 </Badge>
-                                {frqGraded ? (
+                                {!showCorrectness ? null : frqGraded ? (
                                   <Badge 
-                                    variant={frqPoints === 1 ? "default" : frqPoints === 0 ? "destructive" : "secondary"}
+                                    variant={frqFullMarks ? "default" : frqPoints === 0 ? "destructive" : "secondary"}
                                     className={cn(
-                                      frqPoints === 1 && "bg-green-500",
-                                      frqPoints !== null && frqPoints > 0 && frqPoints < 1 && "bg-yellow-500 text-white"
+                                      frqFullMarks && "bg-green-500",
+                                      frqPoints > 0 && !frqFullMarks && "bg-yellow-500 text-white"
                                     )}
                                   >
-                                    {Math.round(frqPoints! * 100)}% ({frqPoints} 점)
+                                    {Math.round(frqPoints! / question.points * 100)}% ({frqPoints}/{question.points}점)
                                   </Badge>
                                 ) : (
                                   <Badge variant="outline" className="text-purple-600 border-purple-400">
@@ -830,11 +1258,22 @@ const Student = () => {
                                   </Badge>
                                 )}
                               </>
-                            ) : isCorrect ? (
-                              <span className="text-xs bg-green-500/20 text-green-700 dark:text-green-300 px-2 py-1 rounded-full">정답</span>
-                            ) : null}
+                            ) : (
+                              <>
+                                {question.question_type !== 'multiple_choice' && (
+                                  <Badge variant="outline">{questionTypeLabels[question.question_type]}</Badge>
+                                )}
+                                {showCorrectness && isCorrect ? (
+                                  <span className="text-xs bg-green-500/20 text-green-700 dark:text-green-300 px-2 py-1 rounded-full">정답</span>
+                                ) : isPartial ? (
+                                  <span className="text-xs bg-yellow-500/20 text-yellow-700 dark:text-yellow-300 px-2 py-1 rounded-full">
+                                    부분 점수 {msPoints}/{question.points}점
+                                  </span>
+                                ) : null}
+                              </>
+                            )}
                           </CardTitle>
-                          <p className="text-sm text-muted-foreground mt-2 leading-relaxed">{question.text}</p>
+                          <RichContent content={question.text} className="text-sm text-muted-foreground mt-2 leading-relaxed" />
                         </div>
                       </div>
                     </CardHeader>
@@ -852,7 +1291,47 @@ const Student = () => {
                           {question.model_answer && (
                             <div className="p-4 bg-green-500/10 rounded-lg border border-green-500/30">
                               <p className="text-sm font-semibold mb-2 text-green-700 dark:text-green-300">모범답안:</p>
-                              <MathDisplay latex={question.model_answer} block />
+                              <RichContent content={question.model_answer} legacyLatex />
+                            </div>
+                          )}
+                          {frqFeedback && (
+                            <div className="p-4 bg-blue-500/10 rounded-lg border border-blue-500/30">
+                              <p className="text-sm font-semibold mb-2 text-blue-700 dark:text-blue-300 flex items-center gap-2">
+                                <BookOpen className="h-4 w-4" />
+                                강사 피드백:
+                              </p>
+                              <RichContent content={frqFeedback} className="text-sm" />
+                            </div>
+                          )}
+                        </div>
+                      ) : isNumeric || isShortAnswer ? (
+                        <div className="space-y-3">
+                          <div className={cn(
+                            "p-4 rounded-lg border-2",
+                            !showCorrectness ? "bg-muted/50" : isCorrect ? "bg-green-500/15 border-green-500" : "bg-destructive/15 border-destructive"
+                          )}>
+                            <p className="text-sm font-semibold mb-1">내 답안:</p>
+                            {textAnswer ? (
+                              <span className={cn("text-base", isNumeric && "font-mono")}>{textAnswer}</span>
+                            ) : (
+                              <span className="text-muted-foreground italic">답안 없음</span>
+                            )}
+                          </div>
+                          {isNumeric && question.numeric_answer !== null && (
+                            <div className="p-4 bg-green-500/10 rounded-lg border border-green-500/30">
+                              <p className="text-sm font-semibold mb-1 text-green-700 dark:text-green-300">정답:</p>
+                              <span className="text-base font-mono">{question.numeric_answer}</span>
+                              {formatTolerance(question.numeric_tolerance, question.tolerance_type) && (
+                                <span className="ml-2 text-sm text-muted-foreground">
+                                  (허용 오차 {formatTolerance(question.numeric_tolerance, question.tolerance_type)})
+                                </span>
+                              )}
+                            </div>
+                          )}
+                          {isShortAnswer && question.accepted_answers && question.accepted_answers.length > 0 && (
+                            <div className="p-4 bg-green-500/10 rounded-lg border border-green-500/30">
+                              <p className="text-sm font-semibold mb-1 text-green-700 dark:text-green-300">정답:</p>
+                              <span className="text-base">{question.accepted_answers.join(", ")}</span>
                             </div>
                           )}
                           {frqFeedback && (
@@ -861,30 +1340,37 @@ const Student = () => {
                                 <BookOpen className="h-4 w-4" />
                                 강사 피드백:
                               </p>
-                              <p className="text-sm">{frqFeedback}</p>
+                              <RichContent content={frqFeedback} className="text-sm" />
                             </div>
                           )}
                         </div>
                       ) : (
                         <div className="space-y-2">
                           {question.options.map((option, optIndex) => {
-                            const isSelected = selectedAnswer === optIndex;
-                            const isCorrectOption = optIndex === question.correct_answer;
+                            const isSelected = isMultipleSelect ? selectedSet.includes(optIndex) : selectedAnswer === optIndex;
+                            const isCorrectOption = isMultipleSelect
+                              ? (question.correct_answers || []).includes(optIndex)
+                              : optIndex === question.correct_answer;
+                            // Without the key a wrong pick can only be pointed out for single-answer questions
+                            const isWrongSelection = isSelected && showCorrectness && (isMultipleSelect
+                              ? question.correct_answers !== null && !isCorrectOption
+                              : !isCorrect);
 
                             return (
                               <div
                                 key={optIndex}
                                 className={cn(
                                   "p-4 rounded-lg border-2 transition-all duration-200",
+                                  isSelected && !isCorrectOption && !isWrongSelection && "bg-primary/10 border-primary",
                                   isCorrectOption && "bg-green-500/15 border-green-500 shadow-sm",
-                                  isSelected && !isCorrect && "bg-destructive/15 border-destructive"
+                                  isWrongSelection && "bg-destructive/15 border-destructive"
                                 )}
                               >
                                 <div className="flex items-center gap-3">
                                   {isCorrectOption && (
                                     <CheckCircle2 className="h-5 w-5 text-green-500" />
                                   )}
-                                  {isSelected && !isCorrect && (
+                                  {isWrongSelection && (
                                     <div className="h-5 w-5 rounded-full bg-destructive flex items-center justify-center">
                                       <span className="text-xs text-destructive-foreground font-bold">✕</span>
                                     </div>
@@ -892,10 +1378,13 @@ const Student = () => {
                                   <span className={cn(
                                     "text-base",
                                     isCorrectOption && "font-semibold text-green-700 dark:text-green-300",
-                                    isSelected && !isCorrect && "line-through opacity-60"
+                                    isWrongSelection && "line-through opacity-60"
                                   )}>
-                                    {option}
+                                    <RichContent content={option} inline />
                                   </span>
+                                  {isMultipleSelect && isSelected && (
+                                    <span className="ml-auto text-xs text-muted-foreground">내 선택</span>
+                                  )}
                                 </div>
                               </div>
                             );
@@ -909,7 +1398,7 @@ const Student = () => {
                             <BookOpen className="h-4 w-4" />
                             설명:
                           </p>
-                          <p className="text-sm text-muted-foreground leading-relaxed">{question.explanation}</p>
+                          <RichContent content={question.explanation} className="text-sm text-muted-foreground leading-relaxed" />
                         </div>
                       )}
                     </CardContent>
@@ -930,7 +1419,7 @@ const Student = () => {
             과제 목록으로 돌아가기
           </Button>
 
-          {currentAssignment.is_resubmittable && (
+          {currentAssignment.is_resubmittable && !reviewingSubmission && (
             <Card className="border-2 border-accent/50 bg-accent/5">
               <CardContent className="py-4">
                 <div className="flex items-center gap-3 text-sm">
@@ -1034,6 +1523,27 @@ const Student = () => {
           </TabsList>
 
           <TabsContent value="assignments" className="space-y-4">
+            {(!online || queued.length > 0) && (
+              <Card className="border-2 border-orange-300 bg-orange-50 dark:bg-orange-950/20">
+                <CardContent className="py-4">
+                  <div className="flex items-center gap-3 text-sm">
+                    <WifiOff className="h-5 w-5 text-orange-600 shrink-0" />
+                    <div>
+                      {!online && (
+                        <p className="font-medium">
+                          오프라인 상태입니다. 이 기기에서 시작한 과제는 계속 풀 수 있습니다
+                        </p>
+                      )}
+                      {queued.length > 0 && (
+                        <p className="text-muted-foreground">
+                          제출 대기 중인 과제 {queued.length}개는 연결되면 자동으로 제출됩니다
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
             {assignments.length === 0 ? (
               <Card className="shadow-lg">
                 <CardContent className="py-16">
@@ -1054,8 +1564,14 @@ const Student = () => {
               <div className="grid gap-4">
                 {assignments.map((assignment, index) => {
                   const isReading = assignment.assignment_type === 'reading';
+                  const scheduled = assignment.availability === 'scheduled';
+                  const closed = assignment.availability === 'closed';
+                  // null once a hard-closed quiz is past the student's due date
+                  const latePenalty = isReading ? 0 : latePenaltyFor(assignment);
+                  const canStart = !assignment.submission ||
+                    (assignment.is_resubmittable && (!assignment.max_attempts || (assignment.submission_count || 0) < assignment.max_attempts));
                   const percentage = assignment.submission 
-                    ? Math.round((assignment.submission.score / assignment.submission.total_questions) * 100)
+                    ? Math.round((assignment.submission.score / assignment.submission.max_score) * 100)
                     : 0;
                   const scoreColor = percentage >= 80 ? "bg-green-500" : percentage >= 60 ? "bg-yellow-500" : "bg-red-500";
                   
@@ -1095,14 +1611,21 @@ const Student = () => {
                                 )}>
                                   <Calendar className="h-3 w-3" />
                                   마감일: {new Date(assignment.due_date).toLocaleDateString()}
+                                  {assignment.due_date_extended && " (연장됨)"}
                                   {isOverdue(assignment.due_date) && " (마감됨)"}
                                   {isDueSoon(assignment.due_date) && " (마감 임박)"}
                                 </span>
                               )}
-                              {!isReading && (
+                              {!isReading && !scheduled && (
                                 <span className="flex items-center gap-1">
                                   <FileText className="h-3 w-3" />
-                                  {assignment.questions.length}문제
+                                  {assignment.question_count}문제
+                                </span>
+                              )}
+                              {!isReading && assignment.time_limit_minutes && (
+                                <span className="flex items-center gap-1">
+                                  <Timer className="h-3 w-3" />
+                                  제한 시간 {attemptMinutes(assignment.time_limit_minutes, assignment.extra_time_minutes)}분
                                 </span>
                               )}
                               {assignment.file_url && (
@@ -1121,8 +1644,13 @@ const Student = () => {
                               )}
                             </div>
                           </div>
-                          <div>
-                            {isReading ? (
+                          <div className="flex flex-col items-end gap-1">
+                            {scheduled ? (
+                              <Badge variant="outline" className="shadow-md">
+                                <Lock className="h-3 w-3 mr-1" />
+                                공개 예정
+                              </Badge>
+                            ) : isReading ? (
                               assignment.completion ? (
                                 <Badge className="shadow-md bg-green-500 text-white">
                                   <CheckCircle2 className="h-3 w-3 mr-1" />
@@ -1136,18 +1664,24 @@ const Student = () => {
                             ) : assignment.submission ? (
                               <Badge variant="secondary" className={cn("shadow-md", scoreColor, "text-white")}>
                                 <CheckCircle2 className="h-3 w-3 mr-1" />
-                                {percentage}% ({assignment.submission.score}/{assignment.submission.total_questions})
+                                {percentage}% ({assignment.submission.score}/{assignment.submission.max_score})
                               </Badge>
                             ) : (
                               <Badge className="shadow-md">
                                 미시작
                               </Badge>
                             )}
+                            {!isReading && assignment.submission && <LatePenaltyBadge submission={assignment.submission} />}
                           </div>
                         </div>
                       </CardHeader>
                       <CardContent>
-                        {isReading ? (
+                        {scheduled ? (
+                          <div className="flex items-center justify-center gap-2 rounded-lg border border-dashed p-4 text-sm text-muted-foreground">
+                            <Lock className="h-4 w-4" />
+                            {new Date(assignment.available_from!).toLocaleString()}에 공개됩니다
+                          </div>
+                        ) : isReading ? (
                           <div className="space-y-4">
                             {assignment.description && (
                               <p className="text-muted-foreground">{assignment.description}</p>
@@ -1186,7 +1720,7 @@ const Student = () => {
                                   id={`completion-${assignment.id}`}
                                   checked={!!assignment.completion}
                                   onCheckedChange={(checked) => toggleCompletion(assignment, !!checked)}
-                                  disabled={togglingCompletion}
+                                  disabled={togglingCompletion || closed}
                                 />
                                 <Label 
                                   htmlFor={`completion-${assignment.id}`} 
@@ -1203,13 +1737,22 @@ const Student = () => {
                               </p>
                             )}
                           </div>
+                        ) : closed || latePenalty === null ? (
+                          <div className="text-sm text-muted-foreground text-center py-2">
+                            {closed ? "제출 기간이 종료되었습니다" : "마감일이 지나 제출할 수 없습니다"}
+                          </div>
+                        ) : queued.some(q => q.assignment_id === assignment.id) ? (
+                          <div className="flex items-center justify-center gap-2 text-sm text-orange-600 py-2">
+                            <CloudOff className="h-4 w-4" />
+                            제출 대기 중 · 연결되면 자동으로 제출됩니다
+                          </div>
                         ) : !assignment.submission ? (
                           <Button 
                             onClick={() => startAssignment(assignment)}
                             className="w-full hover:scale-[1.02] transition-transform shadow-md"
                           >
                             <BookOpen className="h-4 w-4 mr-2" />
-                            과제 시작
+                            {assignment.in_progress ? "이어서 풀기" : "과제 시작"}
                           </Button>
                         ) : assignment.is_resubmittable && 
                            (!assignment.max_attempts || (assignment.submission_count || 0) < assignment.max_attempts) ? (
@@ -1219,7 +1762,7 @@ const Student = () => {
                             className="w-full hover:scale-[1.02] transition-transform shadow-md"
                           >
                             <BookOpen className="h-4 w-4 mr-2" />
-                            과제 재시작
+                            {assignment.in_progress ? "이어서 풀기" : "과제 재시작"}
                             {assignment.max_attempts && (
                               <span className="ml-2 text-xs">
                                 ({(assignment.max_attempts - (assignment.submission_count || 0))}회 남음)
@@ -1232,6 +1775,22 @@ const Student = () => {
                             최대 제출 횟수 도달
                           </div>
                         ) : null}
+                        {!isReading && !scheduled && !closed && canStart && latePenalty > 0 && (
+                          <p className="text-xs text-orange-600 text-center mt-2">
+                            마감일이 지나 지금 제출하면 {latePenalty}% 감점됩니다
+                          </p>
+                        )}
+                        {!isReading && !scheduled && assignment.submission && (
+                          <Button
+                            onClick={() => viewResults(assignment)}
+                            variant="ghost"
+                            className="w-full mt-2"
+                            disabled={loadingResults}
+                          >
+                            <FileText className="h-4 w-4 mr-2" />
+                            결과 보기
+                          </Button>
+                        )}
                       </CardContent>
                     </Card>
                   );
@@ -1275,7 +1834,7 @@ const Student = () => {
                       </TableHeader>
                       <TableBody>
                         {mySubmissions.map((submission) => {
-                          const percentage = Math.round((submission.score / submission.total_questions) * 100);
+                          const percentage = Math.round((submission.score / submission.max_score) * 100);
                           const scoreColor = percentage >= 80 ? "text-green-600 dark:text-green-400" : percentage >= 60 ? "text-yellow-600 dark:text-yellow-400" : "text-red-600 dark:text-red-400";
                           const bgColor = percentage >= 80 ? "bg-green-500/10" : percentage >= 60 ? "bg-yellow-500/10" : "bg-red-500/10";
                           
@@ -1291,7 +1850,10 @@ const Student = () => {
                                 </div>
                               </TableCell>
                               <TableCell className="font-semibold">
-                                {submission.score}/{submission.total_questions}
+                                <div className="flex items-center gap-2">
+                                  {submission.score}/{submission.max_score}
+                                  <LatePenaltyBadge submission={submission} />
+                                </div>
                               </TableCell>
                               <TableCell>
                                 <Badge className={cn("shadow-sm", bgColor, scoreColor, "border-0")}>
@@ -0,0 +1,137 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Errors raised by record_submission, mapped to HTTP responses
+const submissionErrors: Record<string, { status: number; message: string }> = {
+  assignment_not_found: { status: 404, message: "Assignment not found" },
+  invalid_assignment_type: { status: 400, message: "Only quiz assignments can be submitted" },
+  not_assigned: { status: 403, message: "You are not assigned to this assignment" },
+  max_attempts_reached: { status: 409, message: "Maximum number of attempts reached" },
+  invalid_answer: { status: 400, message: "Answers do not match the assignment questions" },
+  attempt_not_started: { status: 409, message: "Start the assignment before submitting" },
+  assignment_not_open: { status: 403, message: "This assignment is not open yet" },
+  assignment_closed: { status: 403, message: "This assignment is closed" },
+  past_due: { status: 403, message: "The due date has passed and late submissions are not accepted" },
+  attempt_already_submitted: { status: 409, message: "This attempt has already been submitted" },
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    // Identify the student from the provided JWT
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "No authorization header" }, 401);
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user: student },
+      error: authError,
+    } = await supabaseAdmin.auth.getUser(token);
+
+    if (authError || !student) {
+      console.error("submit-assignment: unauthorized requester", authError);
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (parseError) {
+      console.error("submit-assignment: failed to parse request body", parseError);
+      return jsonResponse({ error: "Invalid JSON in request body" }, 400);
+    }
+
+    const { assignment_id, answers, submitted_at, attempt_id } = requestBody;
+
+    if (!assignment_id || !Array.isArray(answers)) {
+      return jsonResponse({ error: "Missing required fields: assignment_id and answers" }, 400);
+    }
+
+    // Submissions queued offline carry when the student pressed submit and the attempt they answer
+    if (submitted_at != null && (typeof submitted_at !== "string" || Number.isNaN(Date.parse(submitted_at)))) {
+      return jsonResponse({ error: "submitted_at must be an ISO timestamp" }, 400);
+    }
+    if (attempt_id != null && typeof attempt_id !== "string") {
+      return jsonResponse({ error: "attempt_id must be a string" }, 400);
+    }
+
+    // Multiple-select answers must be lists of option indexes
+    const hasInvalidSelection = answers.some(
+      (a) => a && a.selected_answers != null &&
+        (!Array.isArray(a.selected_answers) || !a.selected_answers.every(Number.isInteger))
+    );
+    if (hasInvalidSelection) {
+      return jsonResponse(
+        { error: submissionErrors.invalid_answer.message, code: "invalid_answer" },
+        submissionErrors.invalid_answer.status
+      );
+    }
+
+    // Only pass through the fields the grader reads
+    const sanitizedAnswers = answers
+      .filter((a) => a && typeof a.question_id === "string")
+      .map((a) => ({
+        question_id: a.question_id,
+        selected_answer: Number.isInteger(a.selected_answer) ? a.selected_answer : null,
+        selected_answers: Array.isArray(a.selected_answers) ? a.selected_answers : null,
+        text_answer: typeof a.text_answer === "string" ? a.text_answer : null,
+      }));
+
+    console.log(
+      `submit-assignment: ${student.id} submitting ${assignment_id} with ${sanitizedAnswers.length} answers` +
+        (submitted_at ? ` (queued at ${submitted_at})` : "")
+    );
+
+    const { data: result, error: submitError } = await supabaseAdmin.rpc("record_submission", {
+      _assignment_id: assignment_id,
+      _student_id: student.id,
+      _answers: sanitizedAnswers,
+      _submitted_at: submitted_at ?? null,
+      _attempt_id: attempt_id ?? null,
+    });
+
+    if (submitError) {
+      const known = submissionErrors[submitError.message];
+      if (known) {
+        return jsonResponse({ error: known.message, code: submitError.message }, known.status);
+      }
+      console.error("submit-assignment: failed to record submission", submitError);
+      return jsonResponse({ error: `Failed to record submission: ${submitError.message}` }, 500);
+    }
+
+    console.log(`submit-assignment: recorded ${result.submission_id} with score ${result.score}/${result.max_score}`);
+
+    return jsonResponse(result, 200);
+  } catch (error) {
+    console.error("Error in submit-assignment function:", error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      500
+    );
+  }
+});
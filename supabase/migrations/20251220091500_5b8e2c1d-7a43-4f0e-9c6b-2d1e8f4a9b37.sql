@@ -0,0 +1,112 @@
+-- Helper: can the given user manage (edit/grade) this assignment?
+CREATE OR REPLACE FUNCTION public.can_manage_assignment(_assignment_id uuid, _user_id uuid)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT has_role(_user_id, 'admin') OR EXISTS (
+    SELECT 1 FROM assignments a
+    WHERE a.id = _assignment_id
+      AND a.instructor_id = _user_id
+      AND has_role(_user_id, 'instructor')
+  );
+$function$;
+
+-- Recalculate a single submission score.
+-- MCQ: 1 point if correct, 0 otherwise. FRQ: points_earned (0-1 scale).
+CREATE OR REPLACE FUNCTION public.recalculate_submission_score(_submission_id uuid)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment_id uuid;
+  _score numeric;
+BEGIN
+  SELECT s.assignment_id INTO _assignment_id
+  FROM submissions s
+  WHERE s.id = _submission_id;
+
+  IF _assignment_id IS NULL THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT can_manage_assignment(_assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to grade this submission';
+  END IF;
+
+  SELECT COALESCE(SUM(
+    CASE
+      WHEN q.question_type = 'free_response' THEN COALESCE(sa.points_earned, 0)
+      WHEN sa.is_correct THEN 1
+      ELSE 0
+    END
+  ), 0)
+  INTO _score
+  FROM student_answers sa
+  JOIN questions q ON q.id = sa.question_id
+  WHERE sa.submission_id = _submission_id;
+
+  _score := ROUND(_score, 2);
+
+  UPDATE submissions SET score = _score WHERE id = _submission_id;
+
+  RETURN _score;
+END;
+$function$;
+
+-- Regrade every submission of an assignment after its answer key changed.
+-- MCQ answers are re-marked against the current correct_answer, FRQ points_earned is kept,
+-- and each submission score and question count are recomputed. Returns old and new scores.
+CREATE OR REPLACE FUNCTION public.regrade_assignment(_assignment_id uuid)
+ RETURNS TABLE(submission_id uuid, student_id uuid, student_name text, old_score numeric, new_score numeric, old_total_questions integer, new_total_questions integer)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _question_count integer;
+  _submission record;
+  _new_score numeric;
+BEGIN
+  IF NOT can_manage_assignment(_assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to regrade this assignment';
+  END IF;
+
+  SELECT COUNT(*) INTO _question_count
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id;
+
+  UPDATE student_answers sa
+  SET is_correct = (sa.selected_answer IS NOT NULL AND sa.selected_answer = q.correct_answer)
+  FROM questions q, submissions s
+  WHERE q.id = sa.question_id
+    AND s.id = sa.submission_id
+    AND s.assignment_id = _assignment_id
+    AND q.question_type = 'multiple_choice';
+
+  FOR _submission IN
+    SELECT s.id, s.student_id, p.full_name, s.score, s.total_questions
+    FROM submissions s
+    LEFT JOIN profiles p ON p.id = s.student_id
+    WHERE s.assignment_id = _assignment_id
+    ORDER BY s.submitted_at
+  LOOP
+    _new_score := recalculate_submission_score(_submission.id);
+
+    UPDATE submissions SET total_questions = _question_count WHERE id = _submission.id;
+
+    submission_id := _submission.id;
+    student_id := _submission.student_id;
+    student_name := _submission.full_name;
+    old_score := _submission.score;
+    new_score := _new_score;
+    old_total_questions := _submission.total_questions;
+    new_total_questions := _question_count;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
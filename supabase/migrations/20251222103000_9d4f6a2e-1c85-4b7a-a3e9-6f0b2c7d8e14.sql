@@ -0,0 +1,174 @@
+-- Mark the auto-graded answers of a submission against the current answer key.
+-- FRQ answers are left untouched (they are graded by instructors).
+CREATE OR REPLACE FUNCTION public.grade_submission_answers(_submission_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE student_answers sa
+  SET is_correct = (sa.selected_answer IS NOT NULL AND sa.selected_answer = q.correct_answer)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'multiple_choice';
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.grade_submission_answers(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Regrade now shares the per-submission grading with record_submission
+CREATE OR REPLACE FUNCTION public.regrade_assignment(_assignment_id uuid)
+ RETURNS TABLE(submission_id uuid, student_id uuid, student_name text, old_score numeric, new_score numeric, old_total_questions integer, new_total_questions integer)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _question_count integer;
+  _submission record;
+  _new_score numeric;
+BEGIN
+  IF NOT can_manage_assignment(_assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to regrade this assignment';
+  END IF;
+
+  SELECT COUNT(*) INTO _question_count
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id;
+
+  FOR _submission IN
+    SELECT s.id, s.student_id, p.full_name, s.score, s.total_questions
+    FROM submissions s
+    LEFT JOIN profiles p ON p.id = s.student_id
+    WHERE s.assignment_id = _assignment_id
+    ORDER BY s.submitted_at
+  LOOP
+    PERFORM grade_submission_answers(_submission.id);
+    _new_score := recalculate_submission_score(_submission.id);
+
+    UPDATE submissions SET total_questions = _question_count WHERE id = _submission.id;
+
+    submission_id := _submission.id;
+    student_id := _submission.student_id;
+    student_name := _submission.full_name;
+    old_score := _submission.score;
+    new_score := _new_score;
+    old_total_questions := _submission.total_questions;
+    new_total_questions := _question_count;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+-- Record a student's submission in one transaction: checks assignment and attempt limits,
+-- stores the answers, grades them and computes the score.
+-- Only callable with the service role (from the submit-assignment edge function).
+CREATE OR REPLACE FUNCTION public.record_submission(_assignment_id uuid, _student_id uuid, _answers jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _attempts integer;
+  _question_count integer;
+  _submission_id uuid;
+  _score numeric;
+  _answer jsonb;
+  _question questions%ROWTYPE;
+  _selected integer;
+  _text text;
+BEGIN
+  -- Serialize submissions of the same student for the same assignment so max_attempts holds
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || _student_id::text));
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _assignment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'assignment_not_found';
+  END IF;
+
+  IF _assignment.assignment_type <> 'quiz' THEN
+    RAISE EXCEPTION 'invalid_assignment_type';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = _student_id
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  SELECT COUNT(*) INTO _attempts
+  FROM submissions s
+  WHERE s.assignment_id = _assignment_id AND s.student_id = _student_id;
+
+  IF _attempts > 0 AND (NOT _assignment.is_resubmittable OR (_assignment.max_attempts IS NOT NULL AND _attempts >= _assignment.max_attempts)) THEN
+    RAISE EXCEPTION 'max_attempts_reached';
+  END IF;
+
+  SELECT COUNT(*) INTO _question_count FROM questions q WHERE q.assignment_id = _assignment_id;
+
+  INSERT INTO submissions (assignment_id, student_id, score, total_questions)
+  VALUES (_assignment_id, _student_id, 0, _question_count)
+  RETURNING id INTO _submission_id;
+
+  FOR _answer IN SELECT * FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb))
+  LOOP
+    SELECT * INTO _question
+    FROM questions q
+    WHERE q.id = (_answer->>'question_id')::uuid AND q.assignment_id = _assignment_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_answer';
+    END IF;
+
+    _selected := NULL;
+    _text := NULL;
+    IF _question.question_type = 'multiple_choice' THEN
+      _selected := (_answer->>'selected_answer')::integer;
+      IF _selected IS NOT NULL AND (_selected < 0 OR _selected >= jsonb_array_length(_question.options)) THEN
+        RAISE EXCEPTION 'invalid_answer';
+      END IF;
+    ELSE
+      _text := NULLIF(btrim(_answer->>'text_answer'), '');
+    END IF;
+
+    IF _selected IS NOT NULL OR _text IS NOT NULL THEN
+      INSERT INTO student_answers (submission_id, question_id, selected_answer, text_answer)
+      VALUES (_submission_id, _question.id, _selected, _text);
+    END IF;
+  END LOOP;
+
+  PERFORM grade_submission_answers(_submission_id);
+  _score := recalculate_submission_score(_submission_id);
+
+  RETURN jsonb_build_object(
+    'submission_id', _submission_id,
+    'score', _score,
+    'total_questions', _question_count,
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'question_id', q.id,
+        'question_type', q.question_type,
+        'selected_answer', sa.selected_answer,
+        'text_answer', sa.text_answer,
+        'is_correct', sa.is_correct,
+        'points_earned', sa.points_earned,
+        'feedback', sa.feedback,
+        'graded_at', sa.graded_at
+      ) ORDER BY q.order_number)
+      FROM questions q
+      LEFT JOIN student_answers sa ON sa.question_id = q.id AND sa.submission_id = _submission_id
+      WHERE q.assignment_id = _assignment_id
+    ), '[]'::jsonb)
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_submission(uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Submissions and answers are now only written by record_submission
+DROP POLICY IF EXISTS "Students can create own submissions" ON public.submissions;
+DROP POLICY IF EXISTS "Students can create own answers" ON public.student_answers;
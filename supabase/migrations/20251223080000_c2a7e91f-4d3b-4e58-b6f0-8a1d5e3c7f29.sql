@@ -0,0 +1,69 @@
+-- When students may see the answer key of an assignment
+--   never       : only staff can see correct answers / model answers / explanations
+--   immediately : a student can see them once they have submitted the assignment
+ALTER TABLE public.assignments
+  ADD COLUMN answer_reveal_policy text NOT NULL DEFAULT 'immediately'
+  CHECK (answer_reveal_policy IN ('never', 'immediately'));
+
+-- Can the given user read the answer key of this assignment?
+CREATE OR REPLACE FUNCTION public.can_view_answer_key(_assignment_id uuid, _user_id uuid)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT can_manage_assignment(_assignment_id, _user_id) OR EXISTS (
+    SELECT 1 FROM assignments a
+    WHERE a.id = _assignment_id
+      AND a.answer_reveal_policy = 'immediately'
+      AND EXISTS (
+        SELECT 1 FROM submissions s
+        WHERE s.assignment_id = a.id AND s.student_id = _user_id
+      )
+  );
+$function$;
+
+-- _include_answers is kept for compatibility but no longer grants access by itself:
+-- answers are only returned when can_view_answer_key allows it.
+DROP FUNCTION IF EXISTS public.get_assignment_questions(uuid, boolean);
+
+CREATE FUNCTION public.get_assignment_questions(_assignment_id uuid, _include_answers boolean DEFAULT false)
+ RETURNS TABLE(id uuid, assignment_id uuid, text text, options jsonb, correct_answer integer, explanation text, order_number integer, created_at timestamp with time zone, question_type question_type, model_answer text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _show_answers boolean;
+BEGIN
+  -- Only staff and students assigned to the assignment can read its questions
+  IF NOT can_manage_assignment(_assignment_id, auth.uid()) AND NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  _show_answers := can_view_answer_key(_assignment_id, auth.uid());
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.assignment_id,
+    q.text,
+    q.options,
+    CASE WHEN _show_answers THEN q.correct_answer END,
+    CASE WHEN _show_answers THEN q.explanation END,
+    q.order_number,
+    q.created_at,
+    q.question_type,
+    CASE WHEN _show_answers THEN q.model_answer END
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+  ORDER BY q.order_number;
+END;
+$function$;
+
+-- Students read questions only through get_assignment_questions, never the table itself
+DROP POLICY IF EXISTS "Students can read questions for assignments" ON public.questions;
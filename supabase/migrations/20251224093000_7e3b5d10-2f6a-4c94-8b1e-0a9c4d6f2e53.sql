@@ -0,0 +1,257 @@
+-- Answer reveal timing, plus which parts of the results are shown once revealed
+--   never              : students never see correctness or answers
+--   immediately        : revealed right after the student's submission
+--   after_due_date     : revealed once the due date has passed (immediately if there is none)
+--   after_last_attempt : revealed once the student has used all allowed attempts
+ALTER TABLE public.assignments DROP CONSTRAINT IF EXISTS assignments_answer_reveal_policy_check;
+
+ALTER TABLE public.assignments ADD CONSTRAINT assignments_answer_reveal_policy_check
+  CHECK (answer_reveal_policy IN ('never', 'immediately', 'after_due_date', 'after_last_attempt'));
+
+ALTER TABLE public.assignments
+  ADD COLUMN reveal_correctness boolean NOT NULL DEFAULT true,
+  ADD COLUMN reveal_correct_option boolean NOT NULL DEFAULT true,
+  ADD COLUMN reveal_explanation boolean NOT NULL DEFAULT true,
+  ADD COLUMN reveal_model_answer boolean NOT NULL DEFAULT true;
+
+-- Has the reveal time of this assignment been reached for the given student?
+CREATE OR REPLACE FUNCTION public.answer_key_released(_assignment_id uuid, _student_id uuid)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _attempts integer;
+BEGIN
+  SELECT * INTO _assignment FROM assignments WHERE id = _assignment_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT COUNT(*) INTO _attempts
+  FROM submissions s
+  WHERE s.assignment_id = _assignment_id AND s.student_id = _student_id;
+
+  -- Nothing is revealed before the student's own first submission
+  IF _attempts = 0 THEN
+    RETURN false;
+  END IF;
+
+  CASE _assignment.answer_reveal_policy
+    WHEN 'immediately' THEN
+      RETURN true;
+    WHEN 'after_due_date' THEN
+      RETURN _assignment.due_date IS NULL OR now() >= _assignment.due_date;
+    WHEN 'after_last_attempt' THEN
+      -- Unlimited resubmission has no last attempt
+      IF NOT _assignment.is_resubmittable THEN
+        RETURN true;
+      END IF;
+      RETURN _assignment.max_attempts IS NOT NULL AND _attempts >= _assignment.max_attempts;
+    ELSE
+      RETURN false;
+  END CASE;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.can_view_answer_key(_assignment_id uuid, _user_id uuid)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT can_manage_assignment(_assignment_id, _user_id) OR answer_key_released(_assignment_id, _user_id);
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_assignment_questions(_assignment_id uuid, _include_answers boolean DEFAULT false)
+ RETURNS TABLE(id uuid, assignment_id uuid, text text, options jsonb, correct_answer integer, explanation text, order_number integer, created_at timestamp with time zone, question_type question_type, model_answer text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _staff boolean;
+  _released boolean;
+BEGIN
+  _staff := can_manage_assignment(_assignment_id, auth.uid());
+
+  -- Only staff and students assigned to the assignment can read its questions
+  IF NOT _staff AND NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments a WHERE a.id = _assignment_id;
+  _released := answer_key_released(_assignment_id, auth.uid());
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.assignment_id,
+    q.text,
+    q.options,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answer END,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_explanation) THEN q.explanation END,
+    q.order_number,
+    q.created_at,
+    q.question_type,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_model_answer) THEN q.model_answer END
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+  ORDER BY q.order_number;
+END;
+$function$;
+
+-- Results of one submission as the student may see them: grading is masked until the
+-- assignment's reveal policy allows correctness to be shown.
+CREATE OR REPLACE FUNCTION public.get_submission_results(_submission_id uuid)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _submission submissions%ROWTYPE;
+  _assignment assignments%ROWTYPE;
+  _released boolean;
+  _show_correctness boolean;
+BEGIN
+  SELECT * INTO _submission FROM submissions WHERE id = _submission_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  -- Service role (auth.uid() IS NULL), the submitting student, or staff
+  IF auth.uid() IS NOT NULL
+     AND auth.uid() <> _submission.student_id
+     AND NOT can_manage_assignment(_submission.assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view this submission';
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _submission.assignment_id;
+  _released := answer_key_released(_assignment.id, _submission.student_id);
+  _show_correctness := _released AND _assignment.reveal_correctness;
+
+  RETURN jsonb_build_object(
+    'submission_id', _submission.id,
+    'score', _submission.score,
+    'total_questions', _submission.total_questions,
+    'reveal', jsonb_build_object(
+      'policy', _assignment.answer_reveal_policy,
+      'released', _released,
+      'correctness', _show_correctness,
+      'correct_option', _released AND _assignment.reveal_correct_option,
+      'explanation', _released AND _assignment.reveal_explanation,
+      'model_answer', _released AND _assignment.reveal_model_answer
+    ),
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'question_id', q.id,
+        'question_type', q.question_type,
+        'selected_answer', sa.selected_answer,
+        'text_answer', sa.text_answer,
+        'is_correct', CASE WHEN _show_correctness THEN sa.is_correct END,
+        'points_earned', CASE WHEN _show_correctness THEN sa.points_earned END,
+        'feedback', sa.feedback,
+        'graded_at', sa.graded_at
+      ) ORDER BY q.order_number)
+      FROM questions q
+      LEFT JOIN student_answers sa ON sa.question_id = q.id AND sa.submission_id = _submission.id
+      WHERE q.assignment_id = _assignment.id
+    ), '[]'::jsonb)
+  );
+END;
+$function$;
+
+-- record_submission now returns the same masked results the student can fetch later
+CREATE OR REPLACE FUNCTION public.record_submission(_assignment_id uuid, _student_id uuid, _answers jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _attempts integer;
+  _question_count integer;
+  _submission_id uuid;
+  _answer jsonb;
+  _question questions%ROWTYPE;
+  _selected integer;
+  _text text;
+BEGIN
+  -- Serialize submissions of the same student for the same assignment so max_attempts holds
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || _student_id::text));
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _assignment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'assignment_not_found';
+  END IF;
+
+  IF _assignment.assignment_type <> 'quiz' THEN
+    RAISE EXCEPTION 'invalid_assignment_type';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = _student_id
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  SELECT COUNT(*) INTO _attempts
+  FROM submissions s
+  WHERE s.assignment_id = _assignment_id AND s.student_id = _student_id;
+
+  IF _attempts > 0 AND (NOT _assignment.is_resubmittable OR (_assignment.max_attempts IS NOT NULL AND _attempts >= _assignment.max_attempts)) THEN
+    RAISE EXCEPTION 'max_attempts_reached';
+  END IF;
+
+  SELECT COUNT(*) INTO _question_count FROM questions q WHERE q.assignment_id = _assignment_id;
+
+  INSERT INTO submissions (assignment_id, student_id, score, total_questions)
+  VALUES (_assignment_id, _student_id, 0, _question_count)
+  RETURNING id INTO _submission_id;
+
+  FOR _answer IN SELECT * FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb))
+  LOOP
+    SELECT * INTO _question
+    FROM questions q
+    WHERE q.id = (_answer->>'question_id')::uuid AND q.assignment_id = _assignment_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_answer';
+    END IF;
+
+    _selected := NULL;
+    _text := NULL;
+    IF _question.question_type = 'multiple_choice' THEN
+      _selected := (_answer->>'selected_answer')::integer;
+      IF _selected IS NOT NULL AND (_selected < 0 OR _selected >= jsonb_array_length(_question.options)) THEN
+        RAISE EXCEPTION 'invalid_answer';
+      END IF;
+    ELSE
+      _text := NULLIF(btrim(_answer->>'text_answer'), '');
+    END IF;
+
+    IF _selected IS NOT NULL OR _text IS NOT NULL THEN
+      INSERT INTO student_answers (submission_id, question_id, selected_answer, text_answer)
+      VALUES (_submission_id, _question.id, _selected, _text);
+    END IF;
+  END LOOP;
+
+  PERFORM grade_submission_answers(_submission_id);
+  PERFORM recalculate_submission_score(_submission_id);
+
+  RETURN get_submission_results(_submission_id);
+END;
+$function$;
+
+-- Students read their answers through get_submission_results so grading stays masked
+DROP POLICY IF EXISTS "Students can read own answers" ON public.student_answers;
@@ -0,0 +1,14 @@
+-- Multiple-choice questions carry between 2 and 10 options, and the key must point at one of them
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_correct_answer_check;
+
+ALTER TABLE public.questions ADD CONSTRAINT questions_correct_answer_check
+  CHECK (correct_answer IS NULL OR (correct_answer >= 0 AND correct_answer < jsonb_array_length(options)));
+
+ALTER TABLE public.questions ADD CONSTRAINT questions_option_count_check
+  CHECK (question_type <> 'multiple_choice' OR jsonb_array_length(options) BETWEEN 2 AND 10);
+
+-- The option count of the question is checked by record_submission; this only bounds the index
+ALTER TABLE public.student_answers DROP CONSTRAINT IF EXISTS student_answers_selected_answer_check;
+
+ALTER TABLE public.student_answers ADD CONSTRAINT student_answers_selected_answer_check
+  CHECK (selected_answer >= 0 AND selected_answer < 10);
@@ -0,0 +1,2 @@
+-- Choose-all-that-apply questions; the new value is used from the next migration on
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'multiple_select';
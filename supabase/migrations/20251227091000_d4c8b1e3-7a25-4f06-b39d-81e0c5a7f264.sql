@@ -0,0 +1,330 @@
+-- Multiple-select questions keep their answer key as a set of option indexes, and
+-- student answers to them are stored as a set of selected option indexes.
+--   all_or_nothing : 1 point only when the selection equals the key
+--   partial        : each correct selection earns 1/|key|, each wrong selection costs 1/|key|, floored at 0
+ALTER TABLE public.questions
+  ADD COLUMN correct_answers integer[],
+  ADD COLUMN scoring_mode text NOT NULL DEFAULT 'all_or_nothing'
+  CHECK (scoring_mode IN ('all_or_nothing', 'partial'));
+
+ALTER TABLE public.student_answers
+  ADD COLUMN selected_answers integer[];
+
+-- Are all indexes valid positions in a list of _option_count options?
+CREATE OR REPLACE FUNCTION public.option_indexes_valid(_indexes integer[], _option_count integer)
+ RETURNS boolean
+ LANGUAGE sql
+ IMMUTABLE
+AS $function$
+  SELECT COALESCE(bool_and(i >= 0 AND i < _option_count), true) FROM unnest(_indexes) AS i;
+$function$;
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_option_count_check;
+
+ALTER TABLE public.questions ADD CONSTRAINT questions_option_count_check
+  CHECK (question_type NOT IN ('multiple_choice', 'multiple_select') OR jsonb_array_length(options) BETWEEN 2 AND 10);
+
+ALTER TABLE public.questions ADD CONSTRAINT questions_correct_answers_check
+  CHECK (correct_answers IS NULL OR (cardinality(correct_answers) > 0 AND option_indexes_valid(correct_answers, jsonb_array_length(options))));
+
+ALTER TABLE public.questions ADD CONSTRAINT questions_multiple_select_key_check
+  CHECK (question_type <> 'multiple_select' OR correct_answers IS NOT NULL);
+
+ALTER TABLE public.student_answers ADD CONSTRAINT student_answers_selected_answers_check
+  CHECK (selected_answers IS NULL OR option_indexes_valid(selected_answers, 10));
+
+ALTER TABLE public.student_answers DROP CONSTRAINT IF EXISTS answer_type_check;
+
+ALTER TABLE public.student_answers ADD CONSTRAINT answer_type_check
+  CHECK (selected_answer IS NOT NULL OR selected_answers IS NOT NULL OR text_answer IS NOT NULL);
+
+-- Points (0-1) a multiple-select answer earns under the question's scoring mode
+CREATE OR REPLACE FUNCTION public.multiple_select_points(_selected integer[], _key integer[], _scoring_mode text)
+ RETURNS numeric
+ LANGUAGE sql
+ IMMUTABLE
+AS $function$
+  SELECT CASE
+    WHEN _selected IS NULL OR _key IS NULL OR cardinality(_key) = 0 THEN 0
+    WHEN _scoring_mode = 'partial' THEN ROUND(GREATEST(0, (
+        (SELECT COUNT(DISTINCT s) FROM unnest(_selected) AS s WHERE s = ANY(_key))
+      - (SELECT COUNT(DISTINCT s) FROM unnest(_selected) AS s WHERE s <> ALL(_key))
+    )::numeric / cardinality(_key)), 2)
+    WHEN _selected <@ _key AND _selected @> _key THEN 1
+    ELSE 0
+  END;
+$function$;
+
+-- Multiple-select answers are auto-graded too; their points_earned carries the (partial) credit
+CREATE OR REPLACE FUNCTION public.grade_submission_answers(_submission_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE student_answers sa
+  SET is_correct = (sa.selected_answer IS NOT NULL AND sa.selected_answer = q.correct_answer)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'multiple_choice';
+
+  UPDATE student_answers sa
+  SET is_correct = (sa.selected_answers IS NOT NULL AND sa.selected_answers <@ q.correct_answers AND sa.selected_answers @> q.correct_answers),
+      points_earned = multiple_select_points(sa.selected_answers, q.correct_answers, q.scoring_mode)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'multiple_select';
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.grade_submission_answers(uuid) FROM PUBLIC, anon, authenticated;
+
+-- MCQ: 1 point if correct. Multiple-select and FRQ: points_earned (0-1 scale).
+CREATE OR REPLACE FUNCTION public.recalculate_submission_score(_submission_id uuid)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment_id uuid;
+  _score numeric;
+BEGIN
+  SELECT s.assignment_id INTO _assignment_id
+  FROM submissions s
+  WHERE s.id = _submission_id;
+
+  IF _assignment_id IS NULL THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT can_manage_assignment(_assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to grade this submission';
+  END IF;
+
+  SELECT COALESCE(SUM(
+    CASE
+      WHEN q.question_type IN ('free_response', 'multiple_select') THEN COALESCE(sa.points_earned, 0)
+      WHEN sa.is_correct THEN 1
+      ELSE 0
+    END
+  ), 0)
+  INTO _score
+  FROM student_answers sa
+  JOIN questions q ON q.id = sa.question_id
+  WHERE sa.submission_id = _submission_id;
+
+  _score := ROUND(_score, 2);
+
+  UPDATE submissions SET score = _score WHERE id = _submission_id;
+
+  RETURN _score;
+END;
+$function$;
+
+-- The returned columns change, so the function is recreated
+DROP FUNCTION IF EXISTS public.get_assignment_questions(uuid, boolean);
+
+CREATE FUNCTION public.get_assignment_questions(_assignment_id uuid, _include_answers boolean DEFAULT false)
+ RETURNS TABLE(id uuid, assignment_id uuid, text text, options jsonb, correct_answer integer, correct_answers integer[], scoring_mode text, explanation text, order_number integer, created_at timestamp with time zone, question_type question_type, model_answer text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _staff boolean;
+  _released boolean;
+BEGIN
+  _staff := can_manage_assignment(_assignment_id, auth.uid());
+
+  -- Only staff and students assigned to the assignment can read its questions
+  IF NOT _staff AND NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments a WHERE a.id = _assignment_id;
+  _released := answer_key_released(_assignment_id, auth.uid());
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.assignment_id,
+    q.text,
+    q.options,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answer END,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answers END,
+    q.scoring_mode,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_explanation) THEN q.explanation END,
+    q.order_number,
+    q.created_at,
+    q.question_type,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_model_answer) THEN q.model_answer END
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+  ORDER BY q.order_number;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_submission_results(_submission_id uuid)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _submission submissions%ROWTYPE;
+  _assignment assignments%ROWTYPE;
+  _released boolean;
+  _show_correctness boolean;
+BEGIN
+  SELECT * INTO _submission FROM submissions WHERE id = _submission_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  -- Service role (auth.uid() IS NULL), the submitting student, or staff
+  IF auth.uid() IS NOT NULL
+     AND auth.uid() <> _submission.student_id
+     AND NOT can_manage_assignment(_submission.assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view this submission';
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _submission.assignment_id;
+  _released := answer_key_released(_assignment.id, _submission.student_id);
+  _show_correctness := _released AND _assignment.reveal_correctness;
+
+  RETURN jsonb_build_object(
+    'submission_id', _submission.id,
+    'score', _submission.score,
+    'total_questions', _submission.total_questions,
+    'reveal', jsonb_build_object(
+      'policy', _assignment.answer_reveal_policy,
+      'released', _released,
+      'correctness', _show_correctness,
+      'correct_option', _released AND _assignment.reveal_correct_option,
+      'explanation', _released AND _assignment.reveal_explanation,
+      'model_answer', _released AND _assignment.reveal_model_answer
+    ),
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'question_id', q.id,
+        'question_type', q.question_type,
+        'selected_answer', sa.selected_answer,
+        'selected_answers', sa.selected_answers,
+        'text_answer', sa.text_answer,
+        'is_correct', CASE WHEN _show_correctness THEN sa.is_correct END,
+        'points_earned', CASE WHEN _show_correctness THEN sa.points_earned END,
+        'feedback', sa.feedback,
+        'graded_at', sa.graded_at
+      ) ORDER BY q.order_number)
+      FROM questions q
+      LEFT JOIN student_answers sa ON sa.question_id = q.id AND sa.submission_id = _submission.id
+      WHERE q.assignment_id = _assignment.id
+    ), '[]'::jsonb)
+  );
+END;
+$function$;
+
+-- record_submission accepts "selected_answers" (an array of option indexes) for multiple-select questions
+CREATE OR REPLACE FUNCTION public.record_submission(_assignment_id uuid, _student_id uuid, _answers jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _attempts integer;
+  _question_count integer;
+  _submission_id uuid;
+  _answer jsonb;
+  _question questions%ROWTYPE;
+  _selected integer;
+  _selected_set integer[];
+  _text text;
+BEGIN
+  -- Serialize submissions of the same student for the same assignment so max_attempts holds
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || _student_id::text));
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _assignment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'assignment_not_found';
+  END IF;
+
+  IF _assignment.assignment_type <> 'quiz' THEN
+    RAISE EXCEPTION 'invalid_assignment_type';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = _student_id
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  SELECT COUNT(*) INTO _attempts
+  FROM submissions s
+  WHERE s.assignment_id = _assignment_id AND s.student_id = _student_id;
+
+  IF _attempts > 0 AND (NOT _assignment.is_resubmittable OR (_assignment.max_attempts IS NOT NULL AND _attempts >= _assignment.max_attempts)) THEN
+    RAISE EXCEPTION 'max_attempts_reached';
+  END IF;
+
+  SELECT COUNT(*) INTO _question_count FROM questions q WHERE q.assignment_id = _assignment_id;
+
+  INSERT INTO submissions (assignment_id, student_id, score, total_questions)
+  VALUES (_assignment_id, _student_id, 0, _question_count)
+  RETURNING id INTO _submission_id;
+
+  FOR _answer IN SELECT * FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb))
+  LOOP
+    SELECT * INTO _question
+    FROM questions q
+    WHERE q.id = (_answer->>'question_id')::uuid AND q.assignment_id = _assignment_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_answer';
+    END IF;
+
+    _selected := NULL;
+    _selected_set := NULL;
+    _text := NULL;
+    IF _question.question_type = 'multiple_choice' THEN
+      _selected := (_answer->>'selected_answer')::integer;
+      IF _selected IS NOT NULL AND (_selected < 0 OR _selected >= jsonb_array_length(_question.options)) THEN
+        RAISE EXCEPTION 'invalid_answer';
+      END IF;
+    ELSIF _question.question_type = 'multiple_select' THEN
+      IF jsonb_typeof(_answer->'selected_answers') = 'array' THEN
+        SELECT ARRAY(
+          SELECT DISTINCT value::integer
+          FROM jsonb_array_elements_text(_answer->'selected_answers')
+          ORDER BY 1
+        ) INTO _selected_set;
+        IF NOT option_indexes_valid(_selected_set, jsonb_array_length(_question.options)) THEN
+          RAISE EXCEPTION 'invalid_answer';
+        END IF;
+        _selected_set := NULLIF(_selected_set, '{}');
+      END IF;
+    ELSE
+      _text := NULLIF(btrim(_answer->>'text_answer'), '');
+    END IF;
+
+    IF _selected IS NOT NULL OR _selected_set IS NOT NULL OR _text IS NOT NULL THEN
+      INSERT INTO student_answers (submission_id, question_id, selected_answer, selected_answers, text_answer)
+      VALUES (_submission_id, _question.id, _selected, _selected_set, _text);
+    END IF;
+  END LOOP;
+
+  PERFORM grade_submission_answers(_submission_id);
+  PERFORM recalculate_submission_score(_submission_id);
+
+  RETURN get_submission_results(_submission_id);
+END;
+$function$;
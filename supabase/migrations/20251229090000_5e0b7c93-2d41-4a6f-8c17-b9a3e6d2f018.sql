@@ -0,0 +1,2 @@
+-- Questions answered with a single number; the new value is used from the next migration on
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'numeric';
@@ -0,0 +1,144 @@
+-- Numeric questions are auto-graded against an expected value within a tolerance.
+--   tolerance_type absolute : |answer - expected| <= numeric_tolerance
+--   tolerance_type relative : |answer - expected| <= |expected| * numeric_tolerance / 100
+-- Student answers stay in student_answers.text_answer as typed ("0.75", "3/4", "1 1/2").
+ALTER TABLE public.questions
+  ADD COLUMN numeric_answer numeric,
+  ADD COLUMN numeric_tolerance numeric NOT NULL DEFAULT 0 CHECK (numeric_tolerance >= 0),
+  ADD COLUMN tolerance_type text NOT NULL DEFAULT 'absolute' CHECK (tolerance_type IN ('absolute', 'relative')),
+  ADD COLUMN accept_fractions boolean NOT NULL DEFAULT true;
+
+ALTER TABLE public.questions ADD CONSTRAINT questions_numeric_key_check
+  CHECK (question_type <> 'numeric' OR numeric_answer IS NOT NULL);
+
+-- Parses a typed number: decimals and exponents, plus fractions and mixed numbers when allowed.
+-- Returns NULL for anything else.
+CREATE OR REPLACE FUNCTION public.parse_numeric_answer(_text text, _accept_fractions boolean)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ IMMUTABLE
+AS $function$
+DECLARE
+  _trimmed text := btrim(_text);
+  _match text[];
+BEGIN
+  IF _trimmed IS NULL OR _trimmed = '' THEN
+    RETURN NULL;
+  END IF;
+
+  IF _trimmed ~* '^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$' THEN
+    RETURN _trimmed::numeric;
+  END IF;
+
+  IF _accept_fractions THEN
+    _match := regexp_match(_trimmed, '^([+-])?(?:(\d+)\s+)?(\d+)\s*/\s*(\d+)$');
+    IF _match IS NOT NULL AND _match[4]::numeric <> 0 THEN
+      RETURN (CASE WHEN _match[1] = '-' THEN -1 ELSE 1 END)
+        * (COALESCE(_match[2]::numeric, 0) + _match[3]::numeric / _match[4]::numeric);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+EXCEPTION
+  -- e.g. exponents beyond the numeric range
+  WHEN numeric_value_out_of_range OR invalid_text_representation THEN
+    RETURN NULL;
+END;
+$function$;
+
+-- The 1e-9 slack keeps a key such as 1/3 matching a student's "1/3" after rounding
+CREATE OR REPLACE FUNCTION public.numeric_answer_correct(_text text, _expected numeric, _tolerance numeric, _tolerance_type text, _accept_fractions boolean)
+ RETURNS boolean
+ LANGUAGE sql
+ IMMUTABLE
+AS $function$
+  SELECT COALESCE(
+    abs(parse_numeric_answer(_text, _accept_fractions) - _expected)
+      <= CASE WHEN _tolerance_type = 'relative' THEN abs(_expected) * _tolerance / 100 ELSE _tolerance END + 1e-9,
+    false
+  );
+$function$;
+
+CREATE OR REPLACE FUNCTION public.grade_submission_answers(_submission_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE student_answers sa
+  SET is_correct = (sa.selected_answer IS NOT NULL AND sa.selected_answer = q.correct_answer)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'multiple_choice';
+
+  UPDATE student_answers sa
+  SET is_correct = (sa.selected_answers IS NOT NULL AND sa.selected_answers <@ q.correct_answers AND sa.selected_answers @> q.correct_answers),
+      points_earned = multiple_select_points(sa.selected_answers, q.correct_answers, q.scoring_mode)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'multiple_select';
+
+  -- Numeric answers count 1 point when correct, like MCQ
+  UPDATE student_answers sa
+  SET is_correct = numeric_answer_correct(sa.text_answer, q.numeric_answer, q.numeric_tolerance, q.tolerance_type, q.accept_fractions)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'numeric';
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.grade_submission_answers(uuid) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.get_assignment_questions(uuid, boolean);
+
+CREATE FUNCTION public.get_assignment_questions(_assignment_id uuid, _include_answers boolean DEFAULT false)
+ RETURNS TABLE(id uuid, assignment_id uuid, text text, options jsonb, correct_answer integer, correct_answers integer[], scoring_mode text, numeric_answer numeric, numeric_tolerance numeric, tolerance_type text, accept_fractions boolean, explanation text, order_number integer, created_at timestamp with time zone, question_type question_type, model_answer text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _staff boolean;
+  _released boolean;
+BEGIN
+  _staff := can_manage_assignment(_assignment_id, auth.uid());
+
+  -- Only staff and students assigned to the assignment can read its questions
+  IF NOT _staff AND NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments a WHERE a.id = _assignment_id;
+  _released := answer_key_released(_assignment_id, auth.uid());
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.assignment_id,
+    q.text,
+    q.options,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answer END,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answers END,
+    q.scoring_mode,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.numeric_answer END,
+    q.numeric_tolerance,
+    q.tolerance_type,
+    q.accept_fractions,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_explanation) THEN q.explanation END,
+    q.order_number,
+    q.created_at,
+    q.question_type,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_model_answer) THEN q.model_answer END
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+  ORDER BY q.order_number;
+END;
+$function$;
@@ -0,0 +1,179 @@
+-- Short-answer questions are auto-graded against a list of accepted answers and optional
+-- regular expressions. Both sides are compared after normalization:
+--   always               : Unicode NFC, so decomposed Hangul jamo match precomposed syllables
+--   normalize_whitespace : trim and collapse runs of whitespace to one space
+--   ignore_spacing       : drop all whitespace, for Korean spacing variants (띄어쓰기)
+--   case_sensitive       : unless set, both sides are compared in lower case
+-- Patterns must match the whole normalized answer.
+ALTER TABLE public.questions
+  ADD COLUMN accepted_answers text[],
+  ADD COLUMN answer_patterns text[],
+  ADD COLUMN case_sensitive boolean NOT NULL DEFAULT false,
+  ADD COLUMN normalize_whitespace boolean NOT NULL DEFAULT true,
+  ADD COLUMN ignore_spacing boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.questions ADD CONSTRAINT questions_short_answer_key_check
+  CHECK (question_type <> 'short_answer' OR COALESCE(cardinality(accepted_answers), 0) + COALESCE(cardinality(answer_patterns), 0) > 0);
+
+CREATE OR REPLACE FUNCTION public.normalize_short_answer(_text text, _case_sensitive boolean, _normalize_whitespace boolean, _ignore_spacing boolean)
+ RETURNS text
+ LANGUAGE sql
+ IMMUTABLE
+AS $function$
+  SELECT CASE WHEN _case_sensitive THEN n.value ELSE lower(n.value) END
+  FROM (
+    SELECT CASE
+      WHEN _ignore_spacing THEN regexp_replace(normalize(_text, NFC), '\s+', '', 'g')
+      WHEN _normalize_whitespace THEN btrim(regexp_replace(normalize(_text, NFC), '\s+', ' ', 'g'))
+      ELSE normalize(_text, NFC)
+    END AS value
+  ) n;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.short_answer_correct(_text text, _accepted text[], _patterns text[], _case_sensitive boolean, _normalize_whitespace boolean, _ignore_spacing boolean)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ IMMUTABLE
+AS $function$
+DECLARE
+  _answer text := normalize_short_answer(_text, _case_sensitive, _normalize_whitespace, _ignore_spacing);
+  _pattern text;
+BEGIN
+  IF _answer IS NULL OR _answer = '' THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(_accepted, '{}')) AS a(value)
+    WHERE normalize_short_answer(a.value, _case_sensitive, _normalize_whitespace, _ignore_spacing) = _answer
+  ) THEN
+    RETURN true;
+  END IF;
+
+  FOREACH _pattern IN ARRAY COALESCE(_patterns, '{}') LOOP
+    BEGIN
+      IF (_case_sensitive AND _answer ~ ('^(?:' || _pattern || ')$'))
+        OR (NOT _case_sensitive AND _answer ~* ('^(?:' || _pattern || ')$')) THEN
+        RETURN true;
+      END IF;
+    EXCEPTION
+      -- A broken pattern never matches; the authoring forms reject them up front
+      WHEN invalid_regular_expression THEN
+        NULL;
+    END;
+  END LOOP;
+
+  RETURN false;
+END;
+$function$;
+
+-- Graders record FRQ scores and short-answer overrides directly on the answer rows
+DROP POLICY IF EXISTS "Instructors can grade answers for their assignments" ON public.student_answers;
+
+CREATE POLICY "Instructors can grade answers for their assignments"
+  ON public.student_answers FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.submissions s
+      WHERE s.id = student_answers.submission_id
+        AND can_manage_assignment(s.assignment_id, auth.uid())
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.grade_submission_answers(_submission_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE student_answers sa
+  SET is_correct = (sa.selected_answer IS NOT NULL AND sa.selected_answer = q.correct_answer)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'multiple_choice';
+
+  UPDATE student_answers sa
+  SET is_correct = (sa.selected_answers IS NOT NULL AND sa.selected_answers <@ q.correct_answers AND sa.selected_answers @> q.correct_answers),
+      points_earned = multiple_select_points(sa.selected_answers, q.correct_answers, q.scoring_mode)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'multiple_select';
+
+  -- Numeric answers count 1 point when correct, like MCQ
+  UPDATE student_answers sa
+  SET is_correct = numeric_answer_correct(sa.text_answer, q.numeric_answer, q.numeric_tolerance, q.tolerance_type, q.accept_fractions)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'numeric';
+
+  -- Short answers count 1 point when correct; a grader's override (graded_by set) is kept
+  UPDATE student_answers sa
+  SET is_correct = short_answer_correct(sa.text_answer, q.accepted_answers, q.answer_patterns, q.case_sensitive, q.normalize_whitespace, q.ignore_spacing)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'short_answer'
+    AND sa.graded_by IS NULL;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.grade_submission_answers(uuid) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.get_assignment_questions(uuid, boolean);
+
+CREATE FUNCTION public.get_assignment_questions(_assignment_id uuid, _include_answers boolean DEFAULT false)
+ RETURNS TABLE(id uuid, assignment_id uuid, text text, options jsonb, correct_answer integer, correct_answers integer[], scoring_mode text, numeric_answer numeric, numeric_tolerance numeric, tolerance_type text, accept_fractions boolean, accepted_answers text[], answer_patterns text[], case_sensitive boolean, normalize_whitespace boolean, ignore_spacing boolean, explanation text, order_number integer, created_at timestamp with time zone, question_type question_type, model_answer text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _staff boolean;
+  _released boolean;
+BEGIN
+  _staff := can_manage_assignment(_assignment_id, auth.uid());
+
+  -- Only staff and students assigned to the assignment can read its questions
+  IF NOT _staff AND NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments a WHERE a.id = _assignment_id;
+  _released := answer_key_released(_assignment_id, auth.uid());
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.assignment_id,
+    q.text,
+    q.options,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answer END,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answers END,
+    q.scoring_mode,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.numeric_answer END,
+    q.numeric_tolerance,
+    q.tolerance_type,
+    q.accept_fractions,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.accepted_answers END,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.answer_patterns END,
+    q.case_sensitive,
+    q.normalize_whitespace,
+    q.ignore_spacing,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_explanation) THEN q.explanation END,
+    q.order_number,
+    q.created_at,
+    q.question_type,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_model_answer) THEN q.model_answer END
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+  ORDER BY q.order_number;
+END;
+$function$;
@@ -0,0 +1,378 @@
+-- Questions carry their own point weight instead of counting one point each.
+--   score          : sum of the points earned; MCQ, numeric and short answers earn the full
+--                    weight when correct, multiple-select and FRQ earn points_earned
+--   max_score      : sum of the question weights when the submission was recorded or regraded
+--   points_earned  : now in the question's own points (0 .. questions.points), not a 0-1 fraction
+-- Existing questions default to 1 point, so existing scores and points_earned keep their meaning.
+ALTER TABLE public.questions
+  ADD COLUMN points numeric NOT NULL DEFAULT 1 CHECK (points > 0);
+
+ALTER TABLE public.submissions ADD COLUMN max_score numeric;
+
+UPDATE public.submissions SET max_score = total_questions;
+
+ALTER TABLE public.submissions
+  ALTER COLUMN max_score SET NOT NULL,
+  ALTER COLUMN max_score SET DEFAULT 0;
+
+ALTER TABLE public.student_answers DROP CONSTRAINT IF EXISTS student_answers_points_earned_check;
+
+ALTER TABLE public.student_answers
+  ALTER COLUMN points_earned TYPE numeric(8,2),
+  ADD CONSTRAINT student_answers_points_earned_check CHECK (points_earned >= 0);
+
+COMMENT ON COLUMN public.student_answers.points_earned IS 'Points earned on FRQ and multiple-select questions, from 0 to the question''s points';
+
+CREATE OR REPLACE FUNCTION public.grade_submission_answers(_submission_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE student_answers sa
+  SET is_correct = (sa.selected_answer IS NOT NULL AND sa.selected_answer = q.correct_answer)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'multiple_choice';
+
+  UPDATE student_answers sa
+  SET is_correct = (sa.selected_answers IS NOT NULL AND sa.selected_answers <@ q.correct_answers AND sa.selected_answers @> q.correct_answers),
+      points_earned = ROUND(multiple_select_points(sa.selected_answers, q.correct_answers, q.scoring_mode) * q.points, 2)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'multiple_select';
+
+  -- Numeric answers earn the question's points when correct, like MCQ
+  UPDATE student_answers sa
+  SET is_correct = numeric_answer_correct(sa.text_answer, q.numeric_answer, q.numeric_tolerance, q.tolerance_type, q.accept_fractions)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'numeric';
+
+  -- Short answers earn the question's points when correct; a grader's override (graded_by set) is kept
+  UPDATE student_answers sa
+  SET is_correct = short_answer_correct(sa.text_answer, q.accepted_answers, q.answer_patterns, q.case_sensitive, q.normalize_whitespace, q.ignore_spacing)
+  FROM questions q
+  WHERE q.id = sa.question_id
+    AND sa.submission_id = _submission_id
+    AND q.question_type = 'short_answer'
+    AND sa.graded_by IS NULL;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.grade_submission_answers(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Points earned above a question's weight (e.g. after its points were lowered) are capped
+CREATE OR REPLACE FUNCTION public.recalculate_submission_score(_submission_id uuid)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment_id uuid;
+  _score numeric;
+BEGIN
+  SELECT s.assignment_id INTO _assignment_id
+  FROM submissions s
+  WHERE s.id = _submission_id;
+
+  IF _assignment_id IS NULL THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT can_manage_assignment(_assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to grade this submission';
+  END IF;
+
+  SELECT COALESCE(SUM(
+    CASE
+      WHEN q.question_type IN ('free_response', 'multiple_select') THEN LEAST(COALESCE(sa.points_earned, 0), q.points)
+      WHEN sa.is_correct THEN q.points
+      ELSE 0
+    END
+  ), 0)
+  INTO _score
+  FROM student_answers sa
+  JOIN questions q ON q.id = sa.question_id
+  WHERE sa.submission_id = _submission_id;
+
+  _score := ROUND(_score, 2);
+
+  UPDATE submissions SET score = _score WHERE id = _submission_id;
+
+  RETURN _score;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_submission_results(_submission_id uuid)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _submission submissions%ROWTYPE;
+  _assignment assignments%ROWTYPE;
+  _released boolean;
+  _show_correctness boolean;
+BEGIN
+  SELECT * INTO _submission FROM submissions WHERE id = _submission_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  -- Service role (auth.uid() IS NULL), the submitting student, or staff
+  IF auth.uid() IS NOT NULL
+     AND auth.uid() <> _submission.student_id
+     AND NOT can_manage_assignment(_submission.assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view this submission';
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _submission.assignment_id;
+  _released := answer_key_released(_assignment.id, _submission.student_id);
+  _show_correctness := _released AND _assignment.reveal_correctness;
+
+  RETURN jsonb_build_object(
+    'submission_id', _submission.id,
+    'score', _submission.score,
+    'total_questions', _submission.total_questions,
+    'max_score', _submission.max_score,
+    'reveal', jsonb_build_object(
+      'policy', _assignment.answer_reveal_policy,
+      'released', _released,
+      'correctness', _show_correctness,
+      'correct_option', _released AND _assignment.reveal_correct_option,
+      'explanation', _released AND _assignment.reveal_explanation,
+      'model_answer', _released AND _assignment.reveal_model_answer
+    ),
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'question_id', q.id,
+        'question_type', q.question_type,
+        'points', q.points,
+        'selected_answer', sa.selected_answer,
+        'selected_answers', sa.selected_answers,
+        'text_answer', sa.text_answer,
+        'is_correct', CASE WHEN _show_correctness THEN sa.is_correct END,
+        'points_earned', CASE WHEN _show_correctness THEN sa.points_earned END,
+        'feedback', sa.feedback,
+        'graded_at', sa.graded_at
+      ) ORDER BY q.order_number)
+      FROM questions q
+      LEFT JOIN student_answers sa ON sa.question_id = q.id AND sa.submission_id = _submission.id
+      WHERE q.assignment_id = _assignment.id
+    ), '[]'::jsonb)
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.record_submission(_assignment_id uuid, _student_id uuid, _answers jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _attempts integer;
+  _question_count integer;
+  _max_score numeric;
+  _submission_id uuid;
+  _answer jsonb;
+  _question questions%ROWTYPE;
+  _selected integer;
+  _selected_set integer[];
+  _text text;
+BEGIN
+  -- Serialize submissions of the same student for the same assignment so max_attempts holds
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || _student_id::text));
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _assignment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'assignment_not_found';
+  END IF;
+
+  IF _assignment.assignment_type <> 'quiz' THEN
+    RAISE EXCEPTION 'invalid_assignment_type';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = _student_id
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  SELECT COUNT(*) INTO _attempts
+  FROM submissions s
+  WHERE s.assignment_id = _assignment_id AND s.student_id = _student_id;
+
+  IF _attempts > 0 AND (NOT _assignment.is_resubmittable OR (_assignment.max_attempts IS NOT NULL AND _attempts >= _assignment.max_attempts)) THEN
+    RAISE EXCEPTION 'max_attempts_reached';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(q.points), 0) INTO _question_count, _max_score
+  FROM questions q WHERE q.assignment_id = _assignment_id;
+
+  INSERT INTO submissions (assignment_id, student_id, score, total_questions, max_score)
+  VALUES (_assignment_id, _student_id, 0, _question_count, _max_score)
+  RETURNING id INTO _submission_id;
+
+  FOR _answer IN SELECT * FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb))
+  LOOP
+    SELECT * INTO _question
+    FROM questions q
+    WHERE q.id = (_answer->>'question_id')::uuid AND q.assignment_id = _assignment_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_answer';
+    END IF;
+
+    _selected := NULL;
+    _selected_set := NULL;
+    _text := NULL;
+    IF _question.question_type = 'multiple_choice' THEN
+      _selected := (_answer->>'selected_answer')::integer;
+      IF _selected IS NOT NULL AND (_selected < 0 OR _selected >= jsonb_array_length(_question.options)) THEN
+        RAISE EXCEPTION 'invalid_answer';
+      END IF;
+    ELSIF _question.question_type = 'multiple_select' THEN
+      IF jsonb_typeof(_answer->'selected_answers') = 'array' THEN
+        SELECT ARRAY(
+          SELECT DISTINCT value::integer
+          FROM jsonb_array_elements_text(_answer->'selected_answers')
+          ORDER BY 1
+        ) INTO _selected_set;
+        IF NOT option_indexes_valid(_selected_set, jsonb_array_length(_question.options)) THEN
+          RAISE EXCEPTION 'invalid_answer';
+        END IF;
+        _selected_set := NULLIF(_selected_set, '{}');
+      END IF;
+    ELSE
+      _text := NULLIF(btrim(_answer->>'text_answer'), '');
+    END IF;
+
+    IF _selected IS NOT NULL OR _selected_set IS NOT NULL OR _text IS NOT NULL THEN
+      INSERT INTO student_answers (submission_id, question_id, selected_answer, selected_answers, text_answer)
+      VALUES (_submission_id, _question.id, _selected, _selected_set, _text);
+    END IF;
+  END LOOP;
+
+  PERFORM grade_submission_answers(_submission_id);
+  PERFORM recalculate_submission_score(_submission_id);
+
+  RETURN get_submission_results(_submission_id);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_submission(uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- The returned columns change, so the function is recreated
+DROP FUNCTION IF EXISTS public.regrade_assignment(uuid);
+
+CREATE FUNCTION public.regrade_assignment(_assignment_id uuid)
+ RETURNS TABLE(submission_id uuid, student_id uuid, student_name text, old_score numeric, new_score numeric, old_total_questions integer, new_total_questions integer, old_max_score numeric, new_max_score numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _question_count integer;
+  _max_score numeric;
+  _submission record;
+  _new_score numeric;
+BEGIN
+  IF NOT can_manage_assignment(_assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to regrade this assignment';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(q.points), 0) INTO _question_count, _max_score
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id;
+
+  FOR _submission IN
+    SELECT s.id, s.student_id, p.full_name, s.score, s.total_questions, s.max_score
+    FROM submissions s
+    LEFT JOIN profiles p ON p.id = s.student_id
+    WHERE s.assignment_id = _assignment_id
+    ORDER BY s.submitted_at
+  LOOP
+    PERFORM grade_submission_answers(_submission.id);
+    _new_score := recalculate_submission_score(_submission.id);
+
+    UPDATE submissions SET total_questions = _question_count, max_score = _max_score WHERE id = _submission.id;
+
+    submission_id := _submission.id;
+    student_id := _submission.student_id;
+    student_name := _submission.full_name;
+    old_score := _submission.score;
+    new_score := _new_score;
+    old_total_questions := _submission.total_questions;
+    new_total_questions := _question_count;
+    old_max_score := _submission.max_score;
+    new_max_score := _max_score;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+-- get_assignment_questions returns each question's points
+DROP FUNCTION IF EXISTS public.get_assignment_questions(uuid, boolean);
+
+CREATE FUNCTION public.get_assignment_questions(_assignment_id uuid, _include_answers boolean DEFAULT false)
+ RETURNS TABLE(id uuid, assignment_id uuid, text text, options jsonb, correct_answer integer, correct_answers integer[], scoring_mode text, numeric_answer numeric, numeric_tolerance numeric, tolerance_type text, accept_fractions boolean, accepted_answers text[], answer_patterns text[], case_sensitive boolean, normalize_whitespace boolean, ignore_spacing boolean, points numeric, explanation text, order_number integer, created_at timestamp with time zone, question_type question_type, model_answer text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _staff boolean;
+  _released boolean;
+BEGIN
+  _staff := can_manage_assignment(_assignment_id, auth.uid());
+
+  -- Only staff and students assigned to the assignment can read its questions
+  IF NOT _staff AND NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments a WHERE a.id = _assignment_id;
+  _released := answer_key_released(_assignment_id, auth.uid());
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.assignment_id,
+    q.text,
+    q.options,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answer END,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answers END,
+    q.scoring_mode,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.numeric_answer END,
+    q.numeric_tolerance,
+    q.tolerance_type,
+    q.accept_fractions,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.accepted_answers END,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.answer_patterns END,
+    q.case_sensitive,
+    q.normalize_whitespace,
+    q.ignore_spacing,
+    q.points,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_explanation) THEN q.explanation END,
+    q.order_number,
+    q.created_at,
+    q.question_type,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_model_answer) THEN q.model_answer END
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+  ORDER BY q.order_number;
+END;
+$function$;
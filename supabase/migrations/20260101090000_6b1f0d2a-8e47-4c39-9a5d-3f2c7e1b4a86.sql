@@ -0,0 +1,101 @@
+-- Per-instructor question bank: questions saved independently of assignments,
+-- tagged by topic, unit and difficulty, and copied into assignments when used.
+-- The answer-key columns mirror public.questions so items round-trip unchanged.
+CREATE TABLE public.question_bank_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  instructor_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  text text NOT NULL,
+  options jsonb NOT NULL DEFAULT '[]'::jsonb,
+  correct_answer integer,
+  question_type question_type NOT NULL DEFAULT 'multiple_choice',
+  correct_answers integer[],
+  scoring_mode text NOT NULL DEFAULT 'all_or_nothing' CHECK (scoring_mode IN ('all_or_nothing', 'partial')),
+  numeric_answer numeric,
+  numeric_tolerance numeric NOT NULL DEFAULT 0 CHECK (numeric_tolerance >= 0),
+  tolerance_type text NOT NULL DEFAULT 'absolute' CHECK (tolerance_type IN ('absolute', 'relative')),
+  accept_fractions boolean NOT NULL DEFAULT true,
+  accepted_answers text[],
+  answer_patterns text[],
+  case_sensitive boolean NOT NULL DEFAULT false,
+  normalize_whitespace boolean NOT NULL DEFAULT true,
+  ignore_spacing boolean NOT NULL DEFAULT false,
+  points numeric NOT NULL DEFAULT 1 CHECK (points > 0),
+  explanation text,
+  model_answer text,
+  topic text,
+  unit text,
+  difficulty text CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX question_bank_items_instructor_id_idx ON public.question_bank_items (instructor_id);
+
+CREATE TRIGGER update_question_bank_items_updated_at
+  BEFORE UPDATE ON public.question_bank_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.question_bank_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on question_bank_items"
+ON public.question_bank_items
+FOR ALL
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Instructors can manage own question_bank_items"
+ON public.question_bank_items
+FOR ALL
+USING (has_role(auth.uid(), 'instructor') AND auth.uid() = instructor_id)
+WITH CHECK (has_role(auth.uid(), 'instructor') AND auth.uid() = instructor_id);
+
+-- Assignment questions remember the bank item they were copied from, for usage history.
+-- Deleting an item keeps the copies.
+ALTER TABLE public.questions
+  ADD COLUMN bank_item_id uuid REFERENCES public.question_bank_items(id) ON DELETE SET NULL;
+
+CREATE INDEX questions_bank_item_id_idx ON public.questions (bank_item_id);
+
+-- Where a bank item has been used and how students did on it.
+-- average_credit is the mean share of the question's points earned (0-1) over graded answers.
+CREATE OR REPLACE FUNCTION public.get_question_bank_usage(_item_id uuid)
+ RETURNS TABLE(assignment_id uuid, assignment_title text, question_id uuid, used_at timestamp with time zone, answer_count integer, graded_count integer, average_credit numeric)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM question_bank_items i
+    WHERE i.id = _item_id
+      AND (i.instructor_id = auth.uid() OR has_role(auth.uid(), 'admin'))
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to view usage of this question bank item';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.title,
+    q.id,
+    a.created_at,
+    COUNT(sa.id)::integer,
+    COUNT(credit.value)::integer,
+    ROUND(AVG(credit.value), 2)
+  FROM questions q
+  JOIN assignments a ON a.id = q.assignment_id
+  LEFT JOIN student_answers sa ON sa.question_id = q.id
+  LEFT JOIN LATERAL (
+    SELECT CASE
+      WHEN q.question_type IN ('multiple_select', 'free_response')
+        THEN LEAST(sa.points_earned / q.points, 1)
+      WHEN sa.is_correct IS NOT NULL
+        THEN CASE WHEN sa.is_correct THEN 1 ELSE 0 END
+    END AS value
+  ) credit ON true
+  WHERE q.bank_item_id = _item_id
+  GROUP BY a.id, a.title, q.id, a.created_at
+  ORDER BY a.created_at DESC;
+END;
+$function$;
@@ -0,0 +1,488 @@
+-- Randomized question pools.
+-- An assignment can group questions into pools and draw a number of them per student,
+-- e.g. 5 from pool A and 3 from pool B. Questions outside any pool are always asked.
+-- Each attempt stores the drawn question ids, so a student keeps the same questions
+-- when reloading and the results and scores of a submission cover exactly that list.
+CREATE TABLE public.question_pools (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id uuid NOT NULL REFERENCES public.assignments(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  draw_count integer NOT NULL CHECK (draw_count > 0),
+  order_number integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX question_pools_assignment_id_idx ON public.question_pools (assignment_id);
+
+ALTER TABLE public.question_pools ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on question_pools"
+ON public.question_pools
+FOR ALL
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Instructors can manage own assignment question_pools"
+ON public.question_pools
+FOR ALL
+USING (
+  has_role(auth.uid(), 'instructor') AND
+  EXISTS (
+    SELECT 1 FROM assignments
+    WHERE assignments.id = question_pools.assignment_id
+    AND assignments.instructor_id = auth.uid()
+  )
+);
+
+-- Deleting a pool keeps its questions; they are then asked to every student
+ALTER TABLE public.questions
+  ADD COLUMN pool_id uuid REFERENCES public.question_pools(id) ON DELETE SET NULL;
+
+CREATE INDEX questions_pool_id_idx ON public.questions (pool_id);
+
+-- One row per attempt; submission_id is set when the attempt is submitted.
+-- Only the functions below write attempts.
+CREATE TABLE public.assignment_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id uuid NOT NULL REFERENCES public.assignments(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  question_ids uuid[] NOT NULL,
+  submission_id uuid UNIQUE REFERENCES public.submissions(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- At most one unsubmitted attempt per student and assignment
+CREATE UNIQUE INDEX assignment_attempts_open_idx
+  ON public.assignment_attempts (assignment_id, student_id)
+  WHERE submission_id IS NULL;
+
+ALTER TABLE public.assignment_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read attempts for their assignments"
+ON public.assignment_attempts
+FOR SELECT
+USING (can_manage_assignment(assignment_id, auth.uid()));
+
+CREATE POLICY "Students can read own attempts"
+ON public.assignment_attempts
+FOR SELECT
+USING (auth.uid() = student_id);
+
+CREATE OR REPLACE FUNCTION public.assignment_has_pools(_assignment_id uuid)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (SELECT 1 FROM question_pools WHERE assignment_id = _assignment_id);
+$function$;
+
+-- Questions each student gets: every question outside a pool plus draw_count per pool
+CREATE OR REPLACE FUNCTION public.assignment_question_count(_assignment_id uuid)
+ RETURNS integer
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT (
+    (SELECT COUNT(*) FROM questions q WHERE q.assignment_id = _assignment_id AND q.pool_id IS NULL) +
+    COALESCE((
+      SELECT SUM(LEAST(p.draw_count, (SELECT COUNT(*) FROM questions q WHERE q.pool_id = p.id)))
+      FROM question_pools p
+      WHERE p.assignment_id = _assignment_id
+    ), 0)
+  )::integer;
+$function$;
+
+-- A fresh random draw, in the assignment's question order
+CREATE OR REPLACE FUNCTION public.draw_attempt_questions(_assignment_id uuid)
+ RETURNS uuid[]
+ LANGUAGE sql
+ VOLATILE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT COALESCE(array_agg(drawn.id ORDER BY drawn.order_number), '{}')
+  FROM (
+    SELECT q.id, q.order_number
+    FROM questions q
+    WHERE q.assignment_id = _assignment_id AND q.pool_id IS NULL
+    UNION ALL
+    SELECT picked.id, picked.order_number
+    FROM question_pools p
+    CROSS JOIN LATERAL (
+      SELECT q.id, q.order_number
+      FROM questions q
+      WHERE q.pool_id = p.id
+      ORDER BY random()
+      LIMIT p.draw_count
+    ) picked
+    WHERE p.assignment_id = _assignment_id
+  ) drawn;
+$function$;
+
+-- Question ids a submission was answered against; NULL means every question of the
+-- assignment (submissions made without pools)
+CREATE OR REPLACE FUNCTION public.submission_question_ids(_submission_id uuid)
+ RETURNS uuid[]
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT question_ids FROM assignment_attempts WHERE submission_id = _submission_id;
+$function$;
+
+-- Starts (or resumes) the caller's attempt and returns its question ids.
+-- Returns NULL for assignments without pools, where every student gets every question.
+CREATE OR REPLACE FUNCTION public.start_assignment_attempt(_assignment_id uuid)
+ RETURNS uuid[]
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _question_ids uuid[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  IF NOT assignment_has_pools(_assignment_id) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Same lock as record_submission, so a draw never races a submission
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || auth.uid()::text));
+
+  SELECT a.question_ids INTO _question_ids
+  FROM assignment_attempts a
+  WHERE a.assignment_id = _assignment_id AND a.student_id = auth.uid() AND a.submission_id IS NULL;
+
+  IF NOT FOUND THEN
+    _question_ids := draw_attempt_questions(_assignment_id);
+    INSERT INTO assignment_attempts (assignment_id, student_id, question_ids)
+    VALUES (_assignment_id, auth.uid(), _question_ids);
+  END IF;
+
+  RETURN _question_ids;
+END;
+$function$;
+
+-- Students read their attempt's questions: the given submission's list, or the open
+-- attempt's list while answering. Staff see every question unless a submission is given.
+DROP FUNCTION IF EXISTS public.get_assignment_questions(uuid, boolean);
+
+CREATE FUNCTION public.get_assignment_questions(_assignment_id uuid, _include_answers boolean DEFAULT false, _submission_id uuid DEFAULT NULL)
+ RETURNS TABLE(id uuid, assignment_id uuid, text text, options jsonb, correct_answer integer, correct_answers integer[], scoring_mode text, numeric_answer numeric, numeric_tolerance numeric, tolerance_type text, accept_fractions boolean, accepted_answers text[], answer_patterns text[], case_sensitive boolean, normalize_whitespace boolean, ignore_spacing boolean, points numeric, pool_id uuid, explanation text, order_number integer, created_at timestamp with time zone, question_type question_type, model_answer text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _staff boolean;
+  _released boolean;
+  _question_ids uuid[];
+BEGIN
+  _staff := can_manage_assignment(_assignment_id, auth.uid());
+
+  -- Only staff and students assigned to the assignment can read its questions
+  IF NOT _staff AND NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF _submission_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM submissions s
+      WHERE s.id = _submission_id
+        AND s.assignment_id = _assignment_id
+        AND (_staff OR s.student_id = auth.uid())
+    ) THEN
+      RETURN;
+    END IF;
+    _question_ids := submission_question_ids(_submission_id);
+  ELSIF NOT _staff AND assignment_has_pools(_assignment_id) THEN
+    SELECT a.question_ids INTO _question_ids
+    FROM assignment_attempts a
+    WHERE a.assignment_id = _assignment_id AND a.student_id = auth.uid() AND a.submission_id IS NULL;
+    -- No attempt started yet: nothing has been drawn for this student
+    _question_ids := COALESCE(_question_ids, '{}');
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments a WHERE a.id = _assignment_id;
+  _released := answer_key_released(_assignment_id, auth.uid());
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.assignment_id,
+    q.text,
+    q.options,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answer END,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answers END,
+    q.scoring_mode,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.numeric_answer END,
+    q.numeric_tolerance,
+    q.tolerance_type,
+    q.accept_fractions,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.accepted_answers END,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.answer_patterns END,
+    q.case_sensitive,
+    q.normalize_whitespace,
+    q.ignore_spacing,
+    q.points,
+    q.pool_id,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_explanation) THEN q.explanation END,
+    q.order_number,
+    q.created_at,
+    q.question_type,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_model_answer) THEN q.model_answer END
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+    AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+  ORDER BY q.order_number;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_submission_results(_submission_id uuid)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _submission submissions%ROWTYPE;
+  _assignment assignments%ROWTYPE;
+  _released boolean;
+  _show_correctness boolean;
+  _question_ids uuid[];
+BEGIN
+  SELECT * INTO _submission FROM submissions WHERE id = _submission_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  -- Service role (auth.uid() IS NULL), the submitting student, or staff
+  IF auth.uid() IS NOT NULL
+     AND auth.uid() <> _submission.student_id
+     AND NOT can_manage_assignment(_submission.assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view this submission';
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _submission.assignment_id;
+  _released := answer_key_released(_assignment.id, _submission.student_id);
+  _show_correctness := _released AND _assignment.reveal_correctness;
+  _question_ids := submission_question_ids(_submission.id);
+
+  RETURN jsonb_build_object(
+    'submission_id', _submission.id,
+    'score', _submission.score,
+    'total_questions', _submission.total_questions,
+    'max_score', _submission.max_score,
+    'reveal', jsonb_build_object(
+      'policy', _assignment.answer_reveal_policy,
+      'released', _released,
+      'correctness', _show_correctness,
+      'correct_option', _released AND _assignment.reveal_correct_option,
+      'explanation', _released AND _assignment.reveal_explanation,
+      'model_answer', _released AND _assignment.reveal_model_answer
+    ),
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'question_id', q.id,
+        'question_type', q.question_type,
+        'points', q.points,
+        'selected_answer', sa.selected_answer,
+        'selected_answers', sa.selected_answers,
+        'text_answer', sa.text_answer,
+        'is_correct', CASE WHEN _show_correctness THEN sa.is_correct END,
+        'points_earned', CASE WHEN _show_correctness THEN sa.points_earned END,
+        'feedback', sa.feedback,
+        'graded_at', sa.graded_at
+      ) ORDER BY q.order_number)
+      FROM questions q
+      LEFT JOIN student_answers sa ON sa.question_id = q.id AND sa.submission_id = _submission.id
+      WHERE q.assignment_id = _assignment.id
+        AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+    ), '[]'::jsonb)
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.record_submission(_assignment_id uuid, _student_id uuid, _answers jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _attempts integer;
+  _attempt_id uuid;
+  _question_ids uuid[];
+  _question_count integer;
+  _max_score numeric;
+  _submission_id uuid;
+  _answer jsonb;
+  _question questions%ROWTYPE;
+  _selected integer;
+  _selected_set integer[];
+  _text text;
+BEGIN
+  -- Serialize submissions of the same student for the same assignment so max_attempts holds
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || _student_id::text));
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _assignment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'assignment_not_found';
+  END IF;
+
+  IF _assignment.assignment_type <> 'quiz' THEN
+    RAISE EXCEPTION 'invalid_assignment_type';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = _student_id
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  SELECT COUNT(*) INTO _attempts
+  FROM submissions s
+  WHERE s.assignment_id = _assignment_id AND s.student_id = _student_id;
+
+  IF _attempts > 0 AND (NOT _assignment.is_resubmittable OR (_assignment.max_attempts IS NOT NULL AND _attempts >= _assignment.max_attempts)) THEN
+    RAISE EXCEPTION 'max_attempts_reached';
+  END IF;
+
+  -- With pools, answers are checked against the questions drawn for the open attempt
+  IF assignment_has_pools(_assignment_id) THEN
+    SELECT a.id, a.question_ids INTO _attempt_id, _question_ids
+    FROM assignment_attempts a
+    WHERE a.assignment_id = _assignment_id AND a.student_id = _student_id AND a.submission_id IS NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'attempt_not_started';
+    END IF;
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(q.points), 0) INTO _question_count, _max_score
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+    AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+
+  INSERT INTO submissions (assignment_id, student_id, score, total_questions, max_score)
+  VALUES (_assignment_id, _student_id, 0, _question_count, _max_score)
+  RETURNING id INTO _submission_id;
+
+  IF _attempt_id IS NOT NULL THEN
+    UPDATE assignment_attempts SET submission_id = _submission_id WHERE id = _attempt_id;
+  END IF;
+
+  FOR _answer IN SELECT * FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb))
+  LOOP
+    SELECT * INTO _question
+    FROM questions q
+    WHERE q.id = (_answer->>'question_id')::uuid
+      AND q.assignment_id = _assignment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_answer';
+    END IF;
+
+    _selected := NULL;
+    _selected_set := NULL;
+    _text := NULL;
+    IF _question.question_type = 'multiple_choice' THEN
+      _selected := (_answer->>'selected_answer')::integer;
+      IF _selected IS NOT NULL AND (_selected < 0 OR _selected >= jsonb_array_length(_question.options)) THEN
+        RAISE EXCEPTION 'invalid_answer';
+      END IF;
+    ELSIF _question.question_type = 'multiple_select' THEN
+      IF jsonb_typeof(_answer->'selected_answers') = 'array' THEN
+        SELECT ARRAY(
+          SELECT DISTINCT value::integer
+          FROM jsonb_array_elements_text(_answer->'selected_answers')
+          ORDER BY 1
+        ) INTO _selected_set;
+        IF NOT option_indexes_valid(_selected_set, jsonb_array_length(_question.options)) THEN
+          RAISE EXCEPTION 'invalid_answer';
+        END IF;
+        _selected_set := NULLIF(_selected_set, '{}');
+      END IF;
+    ELSE
+      _text := NULLIF(btrim(_answer->>'text_answer'), '');
+    END IF;
+
+    IF _selected IS NOT NULL OR _selected_set IS NOT NULL OR _text IS NOT NULL THEN
+      INSERT INTO student_answers (submission_id, question_id, selected_answer, selected_answers, text_answer)
+      VALUES (_submission_id, _question.id, _selected, _selected_set, _text);
+    END IF;
+  END LOOP;
+
+  PERFORM grade_submission_answers(_submission_id);
+  PERFORM recalculate_submission_score(_submission_id);
+
+  RETURN get_submission_results(_submission_id);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_submission(uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Each submission keeps the question count and maximum of its own question list
+CREATE OR REPLACE FUNCTION public.regrade_assignment(_assignment_id uuid)
+ RETURNS TABLE(submission_id uuid, student_id uuid, student_name text, old_score numeric, new_score numeric, old_total_questions integer, new_total_questions integer, old_max_score numeric, new_max_score numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _question_ids uuid[];
+  _question_count integer;
+  _max_score numeric;
+  _submission record;
+  _new_score numeric;
+BEGIN
+  IF NOT can_manage_assignment(_assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to regrade this assignment';
+  END IF;
+
+  FOR _submission IN
+    SELECT s.id, s.student_id, p.full_name, s.score, s.total_questions, s.max_score
+    FROM submissions s
+    LEFT JOIN profiles p ON p.id = s.student_id
+    WHERE s.assignment_id = _assignment_id
+    ORDER BY s.submitted_at
+  LOOP
+    PERFORM grade_submission_answers(_submission.id);
+    _new_score := recalculate_submission_score(_submission.id);
+
+    _question_ids := submission_question_ids(_submission.id);
+    SELECT COUNT(*), COALESCE(SUM(q.points), 0) INTO _question_count, _max_score
+    FROM questions q
+    WHERE q.assignment_id = _assignment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+
+    UPDATE submissions SET total_questions = _question_count, max_score = _max_score WHERE id = _submission.id;
+
+    submission_id := _submission.id;
+    student_id := _submission.student_id;
+    student_name := _submission.full_name;
+    old_score := _submission.score;
+    new_score := _new_score;
+    old_total_questions := _submission.total_questions;
+    new_total_questions := _question_count;
+    old_max_score := _submission.max_score;
+    new_max_score := _max_score;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
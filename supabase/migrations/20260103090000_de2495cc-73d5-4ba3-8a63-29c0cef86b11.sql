@@ -0,0 +1,259 @@
+-- Per-student shuffling of question and option order.
+-- Each attempt stores random seeds; the client derives the same permutation from them
+-- whenever the attempt is shown, while answers keep referring to the canonical
+-- order_number and option indexes, so grading is unaffected.
+ALTER TABLE public.assignments
+  ADD COLUMN shuffle_questions boolean NOT NULL DEFAULT false,
+  ADD COLUMN shuffle_options boolean NOT NULL DEFAULT false;
+
+-- Attempts now also exist for shuffled assignments without pools, where every question is asked
+ALTER TABLE public.assignment_attempts
+  ALTER COLUMN question_ids DROP NOT NULL,
+  ADD COLUMN question_seed integer,
+  ADD COLUMN option_seed integer;
+
+-- Starts (or resumes) the caller's attempt and returns its question ids and shuffle seeds.
+-- Returns no row when the assignment has neither pools nor shuffling.
+DROP FUNCTION IF EXISTS public.start_assignment_attempt(uuid);
+
+CREATE FUNCTION public.start_assignment_attempt(_assignment_id uuid)
+ RETURNS TABLE(question_ids uuid[], question_seed integer, option_seed integer)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _has_pools boolean;
+  _attempt assignment_attempts%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments a WHERE a.id = _assignment_id;
+  _has_pools := assignment_has_pools(_assignment_id);
+
+  IF NOT _has_pools AND NOT _assignment.shuffle_questions AND NOT _assignment.shuffle_options THEN
+    RETURN;
+  END IF;
+
+  -- Same lock as record_submission, so a draw never races a submission
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || auth.uid()::text));
+
+  SELECT * INTO _attempt
+  FROM assignment_attempts a
+  WHERE a.assignment_id = _assignment_id AND a.student_id = auth.uid() AND a.submission_id IS NULL;
+
+  IF NOT FOUND THEN
+    INSERT INTO assignment_attempts (assignment_id, student_id, question_ids, question_seed, option_seed)
+    VALUES (
+      _assignment_id,
+      auth.uid(),
+      CASE WHEN _has_pools THEN draw_attempt_questions(_assignment_id) END,
+      CASE WHEN _assignment.shuffle_questions THEN floor(random() * 2147483647)::integer END,
+      CASE WHEN _assignment.shuffle_options THEN floor(random() * 2147483647)::integer END
+    )
+    RETURNING * INTO _attempt;
+  ELSIF _has_pools AND _attempt.question_ids IS NULL THEN
+    -- Pools were added after this attempt started
+    UPDATE assignment_attempts SET question_ids = draw_attempt_questions(_assignment_id)
+    WHERE id = _attempt.id
+    RETURNING * INTO _attempt;
+  END IF;
+
+  question_ids := _attempt.question_ids;
+  question_seed := _attempt.question_seed;
+  option_seed := _attempt.option_seed;
+  RETURN NEXT;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_submission_results(_submission_id uuid)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _submission submissions%ROWTYPE;
+  _assignment assignments%ROWTYPE;
+  _released boolean;
+  _show_correctness boolean;
+  _attempt assignment_attempts%ROWTYPE;
+BEGIN
+  SELECT * INTO _submission FROM submissions WHERE id = _submission_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  -- Service role (auth.uid() IS NULL), the submitting student, or staff
+  IF auth.uid() IS NOT NULL
+     AND auth.uid() <> _submission.student_id
+     AND NOT can_manage_assignment(_submission.assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view this submission';
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _submission.assignment_id;
+  _released := answer_key_released(_assignment.id, _submission.student_id);
+  _show_correctness := _released AND _assignment.reveal_correctness;
+  SELECT * INTO _attempt FROM assignment_attempts WHERE submission_id = _submission.id;
+
+  RETURN jsonb_build_object(
+    'submission_id', _submission.id,
+    'score', _submission.score,
+    'total_questions', _submission.total_questions,
+    'max_score', _submission.max_score,
+    'question_seed', _attempt.question_seed,
+    'option_seed', _attempt.option_seed,
+    'reveal', jsonb_build_object(
+      'policy', _assignment.answer_reveal_policy,
+      'released', _released,
+      'correctness', _show_correctness,
+      'correct_option', _released AND _assignment.reveal_correct_option,
+      'explanation', _released AND _assignment.reveal_explanation,
+      'model_answer', _released AND _assignment.reveal_model_answer
+    ),
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'question_id', q.id,
+        'question_type', q.question_type,
+        'points', q.points,
+        'selected_answer', sa.selected_answer,
+        'selected_answers', sa.selected_answers,
+        'text_answer', sa.text_answer,
+        'is_correct', CASE WHEN _show_correctness THEN sa.is_correct END,
+        'points_earned', CASE WHEN _show_correctness THEN sa.points_earned END,
+        'feedback', sa.feedback,
+        'graded_at', sa.graded_at
+      ) ORDER BY q.order_number)
+      FROM questions q
+      LEFT JOIN student_answers sa ON sa.question_id = q.id AND sa.submission_id = _submission.id
+      WHERE q.assignment_id = _assignment.id
+        AND (_attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids))
+    ), '[]'::jsonb)
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.record_submission(_assignment_id uuid, _student_id uuid, _answers jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _attempts integer;
+  _attempt_id uuid;
+  _question_ids uuid[];
+  _question_count integer;
+  _max_score numeric;
+  _submission_id uuid;
+  _answer jsonb;
+  _question questions%ROWTYPE;
+  _selected integer;
+  _selected_set integer[];
+  _text text;
+BEGIN
+  -- Serialize submissions of the same student for the same assignment so max_attempts holds
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || _student_id::text));
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _assignment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'assignment_not_found';
+  END IF;
+
+  IF _assignment.assignment_type <> 'quiz' THEN
+    RAISE EXCEPTION 'invalid_assignment_type';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = _student_id
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  SELECT COUNT(*) INTO _attempts
+  FROM submissions s
+  WHERE s.assignment_id = _assignment_id AND s.student_id = _student_id;
+
+  IF _attempts > 0 AND (NOT _assignment.is_resubmittable OR (_assignment.max_attempts IS NOT NULL AND _attempts >= _assignment.max_attempts)) THEN
+    RAISE EXCEPTION 'max_attempts_reached';
+  END IF;
+
+  -- The open attempt keeps the question order the student saw; with pools it is required,
+  -- and answers are checked against the questions drawn for it
+  SELECT a.id, a.question_ids INTO _attempt_id, _question_ids
+  FROM assignment_attempts a
+  WHERE a.assignment_id = _assignment_id AND a.student_id = _student_id AND a.submission_id IS NULL;
+  IF NOT FOUND AND assignment_has_pools(_assignment_id) THEN
+    RAISE EXCEPTION 'attempt_not_started';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(q.points), 0) INTO _question_count, _max_score
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+    AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+
+  INSERT INTO submissions (assignment_id, student_id, score, total_questions, max_score)
+  VALUES (_assignment_id, _student_id, 0, _question_count, _max_score)
+  RETURNING id INTO _submission_id;
+
+  IF _attempt_id IS NOT NULL THEN
+    UPDATE assignment_attempts SET submission_id = _submission_id WHERE id = _attempt_id;
+  END IF;
+
+  FOR _answer IN SELECT * FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb))
+  LOOP
+    SELECT * INTO _question
+    FROM questions q
+    WHERE q.id = (_answer->>'question_id')::uuid
+      AND q.assignment_id = _assignment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_answer';
+    END IF;
+
+    _selected := NULL;
+    _selected_set := NULL;
+    _text := NULL;
+    IF _question.question_type = 'multiple_choice' THEN
+      _selected := (_answer->>'selected_answer')::integer;
+      IF _selected IS NOT NULL AND (_selected < 0 OR _selected >= jsonb_array_length(_question.options)) THEN
+        RAISE EXCEPTION 'invalid_answer';
+      END IF;
+    ELSIF _question.question_type = 'multiple_select' THEN
+      IF jsonb_typeof(_answer->'selected_answers') = 'array' THEN
+        SELECT ARRAY(
+          SELECT DISTINCT value::integer
+          FROM jsonb_array_elements_text(_answer->'selected_answers')
+          ORDER BY 1
+        ) INTO _selected_set;
+        IF NOT option_indexes_valid(_selected_set, jsonb_array_length(_question.options)) THEN
+          RAISE EXCEPTION 'invalid_answer';
+        END IF;
+        _selected_set := NULLIF(_selected_set, '{}');
+      END IF;
+    ELSE
+      _text := NULLIF(btrim(_answer->>'text_answer'), '');
+    END IF;
+
+    IF _selected IS NOT NULL OR _selected_set IS NOT NULL OR _text IS NOT NULL THEN
+      INSERT INTO student_answers (submission_id, question_id, selected_answer, selected_answers, text_answer)
+      VALUES (_submission_id, _question.id, _selected, _selected_set, _text);
+    END IF;
+  END LOOP;
+
+  PERFORM grade_submission_answers(_submission_id);
+  PERFORM recalculate_submission_score(_submission_id);
+
+  RETURN get_submission_results(_submission_id);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_submission(uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
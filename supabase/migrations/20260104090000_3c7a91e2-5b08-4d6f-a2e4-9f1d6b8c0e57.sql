@@ -0,0 +1,83 @@
+-- Duplicating an assignment.
+-- Copies the assignment settings, attached file reference, pools and questions into a new
+-- assignment with its own title, due date and students. Staff of the source assignment can
+-- copy it into their own account; admins can also copy it into another instructor's account.
+CREATE OR REPLACE FUNCTION public.duplicate_assignment(_assignment_id uuid, _instructor_id uuid, _title text, _due_date timestamp with time zone, _student_ids uuid[])
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _source assignments%ROWTYPE;
+  _new_id uuid;
+  _pool question_pools%ROWTYPE;
+  _pool_ids jsonb := '{}'::jsonb;
+  _new_pool_id uuid;
+BEGIN
+  IF NOT can_manage_assignment(_assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to duplicate this assignment';
+  END IF;
+
+  IF _instructor_id <> auth.uid() AND NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can duplicate into another instructor''s account';
+  END IF;
+
+  IF NOT has_role(_instructor_id, 'instructor') AND NOT has_role(_instructor_id, 'admin') THEN
+    RAISE EXCEPTION 'Target user is not an instructor';
+  END IF;
+
+  IF btrim(COALESCE(_title, '')) = '' THEN
+    RAISE EXCEPTION 'Title is required';
+  END IF;
+
+  SELECT * INTO _source FROM assignments WHERE id = _assignment_id;
+
+  INSERT INTO assignments (
+    title, description, instructor_id, due_date, file_url, file_type, assignment_type,
+    is_resubmittable, max_attempts, answer_reveal_policy, reveal_correctness,
+    reveal_correct_option, reveal_explanation, reveal_model_answer, shuffle_questions, shuffle_options
+  )
+  VALUES (
+    btrim(_title), _source.description, _instructor_id, _due_date, _source.file_url, _source.file_type, _source.assignment_type,
+    _source.is_resubmittable, _source.max_attempts, _source.answer_reveal_policy, _source.reveal_correctness,
+    _source.reveal_correct_option, _source.reveal_explanation, _source.reveal_model_answer, _source.shuffle_questions, _source.shuffle_options
+  )
+  RETURNING id INTO _new_id;
+
+  FOR _pool IN SELECT * FROM question_pools WHERE assignment_id = _assignment_id ORDER BY order_number
+  LOOP
+    INSERT INTO question_pools (assignment_id, name, draw_count, order_number)
+    VALUES (_new_id, _pool.name, _pool.draw_count, _pool.order_number)
+    RETURNING id INTO _new_pool_id;
+    _pool_ids := _pool_ids || jsonb_build_object(_pool.id::text, _new_pool_id);
+  END LOOP;
+
+  -- Bank links are kept only when the bank item belongs to the new owner,
+  -- so usage history never points at another instructor's assignment
+  INSERT INTO questions (
+    assignment_id, text, options, correct_answer, correct_answers, scoring_mode, numeric_answer,
+    numeric_tolerance, tolerance_type, accept_fractions, accepted_answers, answer_patterns,
+    case_sensitive, normalize_whitespace, ignore_spacing, points, explanation, order_number,
+    question_type, model_answer, bank_item_id, pool_id
+  )
+  SELECT
+    _new_id, q.text, q.options, q.correct_answer, q.correct_answers, q.scoring_mode, q.numeric_answer,
+    q.numeric_tolerance, q.tolerance_type, q.accept_fractions, q.accepted_answers, q.answer_patterns,
+    q.case_sensitive, q.normalize_whitespace, q.ignore_spacing, q.points, q.explanation, q.order_number,
+    q.question_type, q.model_answer,
+    CASE WHEN b.instructor_id = _instructor_id THEN q.bank_item_id END,
+    (_pool_ids->>q.pool_id::text)::uuid
+  FROM questions q
+  LEFT JOIN question_bank_items b ON b.id = q.bank_item_id
+  WHERE q.assignment_id = _assignment_id;
+
+  INSERT INTO student_assignments (assignment_id, student_id)
+  SELECT _new_id, s.student_id
+  FROM unnest(COALESCE(_student_ids, '{}')) AS s(student_id)
+  WHERE has_role(s.student_id, 'student')
+  ON CONFLICT DO NOTHING;
+
+  RETURN _new_id;
+END;
+$function$;
@@ -0,0 +1,318 @@
+-- Scheduled release and availability windows.
+-- An assignment can open after it is assigned (available_from) and stop taking work before
+-- or after its due date (available_until). Students still see scheduled assignments in their
+-- list, but their questions stay hidden and nothing can be started or submitted outside the window.
+ALTER TABLE public.assignments
+  ADD COLUMN available_from timestamp with time zone,
+  ADD COLUMN available_until timestamp with time zone,
+  ADD CONSTRAINT assignments_availability_window_check
+    CHECK (available_from IS NULL OR available_until IS NULL OR available_until > available_from);
+
+-- 'scheduled' before available_from, 'closed' from available_until on, 'open' otherwise
+CREATE OR REPLACE FUNCTION public.assignment_availability(_assignment_id uuid)
+ RETURNS text
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT CASE
+    WHEN a.available_from IS NOT NULL AND now() < a.available_from THEN 'scheduled'
+    WHEN a.available_until IS NOT NULL AND now() >= a.available_until THEN 'closed'
+    ELSE 'open'
+  END
+  FROM assignments a
+  WHERE a.id = _assignment_id;
+$function$;
+
+-- Raises the error code for an assignment that cannot take work right now
+CREATE OR REPLACE FUNCTION public.assert_assignment_open(_assignment_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _availability text := assignment_availability(_assignment_id);
+BEGIN
+  IF _availability = 'scheduled' THEN
+    RAISE EXCEPTION 'assignment_not_open';
+  ELSIF _availability = 'closed' THEN
+    RAISE EXCEPTION 'assignment_closed';
+  END IF;
+END;
+$function$;
+
+-- Reading assignments are completed directly through RLS, so the window is checked here
+DROP POLICY IF EXISTS "Students can insert own completions" ON public.assignment_completions;
+
+CREATE POLICY "Students can insert own completions"
+ON public.assignment_completions
+FOR INSERT
+WITH CHECK (
+  has_role(auth.uid(), 'student')
+  AND auth.uid() = student_id
+  AND assignment_availability(assignment_id) = 'open'
+);
+
+CREATE OR REPLACE FUNCTION public.get_assignment_questions(_assignment_id uuid, _include_answers boolean DEFAULT false, _submission_id uuid DEFAULT NULL)
+ RETURNS TABLE(id uuid, assignment_id uuid, text text, options jsonb, correct_answer integer, correct_answers integer[], scoring_mode text, numeric_answer numeric, numeric_tolerance numeric, tolerance_type text, accept_fractions boolean, accepted_answers text[], answer_patterns text[], case_sensitive boolean, normalize_whitespace boolean, ignore_spacing boolean, points numeric, pool_id uuid, explanation text, order_number integer, created_at timestamp with time zone, question_type question_type, model_answer text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _staff boolean;
+  _released boolean;
+  _question_ids uuid[];
+BEGIN
+  _staff := can_manage_assignment(_assignment_id, auth.uid());
+
+  -- Only staff and students assigned to the assignment can read its questions
+  IF NOT _staff AND NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- Students see nothing of a scheduled assignment until it opens
+  IF NOT _staff AND assignment_availability(_assignment_id) = 'scheduled' THEN
+    RETURN;
+  END IF;
+
+  IF _submission_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM submissions s
+      WHERE s.id = _submission_id
+        AND s.assignment_id = _assignment_id
+        AND (_staff OR s.student_id = auth.uid())
+    ) THEN
+      RETURN;
+    END IF;
+    _question_ids := submission_question_ids(_submission_id);
+  ELSIF NOT _staff AND assignment_has_pools(_assignment_id) THEN
+    SELECT a.question_ids INTO _question_ids
+    FROM assignment_attempts a
+    WHERE a.assignment_id = _assignment_id AND a.student_id = auth.uid() AND a.submission_id IS NULL;
+    -- No attempt started yet: nothing has been drawn for this student
+    _question_ids := COALESCE(_question_ids, '{}');
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments a WHERE a.id = _assignment_id;
+  _released := answer_key_released(_assignment_id, auth.uid());
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.assignment_id,
+    q.text,
+    q.options,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answer END,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.correct_answers END,
+    q.scoring_mode,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.numeric_answer END,
+    q.numeric_tolerance,
+    q.tolerance_type,
+    q.accept_fractions,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.accepted_answers END,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_correct_option) THEN q.answer_patterns END,
+    q.case_sensitive,
+    q.normalize_whitespace,
+    q.ignore_spacing,
+    q.points,
+    q.pool_id,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_explanation) THEN q.explanation END,
+    q.order_number,
+    q.created_at,
+    q.question_type,
+    CASE WHEN _staff OR (_released AND _assignment.reveal_model_answer) THEN q.model_answer END
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+    AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+  ORDER BY q.order_number;
+END;
+$function$;
+
+-- Attempts can only start while the assignment is open
+CREATE OR REPLACE FUNCTION public.start_assignment_attempt(_assignment_id uuid)
+ RETURNS TABLE(question_ids uuid[], question_seed integer, option_seed integer)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _has_pools boolean;
+  _attempt assignment_attempts%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  PERFORM assert_assignment_open(_assignment_id);
+
+  SELECT * INTO _assignment FROM assignments a WHERE a.id = _assignment_id;
+  _has_pools := assignment_has_pools(_assignment_id);
+
+  IF NOT _has_pools AND NOT _assignment.shuffle_questions AND NOT _assignment.shuffle_options THEN
+    RETURN;
+  END IF;
+
+  -- Same lock as record_submission, so a draw never races a submission
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || auth.uid()::text));
+
+  SELECT * INTO _attempt
+  FROM assignment_attempts a
+  WHERE a.assignment_id = _assignment_id AND a.student_id = auth.uid() AND a.submission_id IS NULL;
+
+  IF NOT FOUND THEN
+    INSERT INTO assignment_attempts (assignment_id, student_id, question_ids, question_seed, option_seed)
+    VALUES (
+      _assignment_id,
+      auth.uid(),
+      CASE WHEN _has_pools THEN draw_attempt_questions(_assignment_id) END,
+      CASE WHEN _assignment.shuffle_questions THEN floor(random() * 2147483647)::integer END,
+      CASE WHEN _assignment.shuffle_options THEN floor(random() * 2147483647)::integer END
+    )
+    RETURNING * INTO _attempt;
+  ELSIF _has_pools AND _attempt.question_ids IS NULL THEN
+    -- Pools were added after this attempt started
+    UPDATE assignment_attempts SET question_ids = draw_attempt_questions(_assignment_id)
+    WHERE id = _attempt.id
+    RETURNING * INTO _attempt;
+  END IF;
+
+  question_ids := _attempt.question_ids;
+  question_seed := _attempt.question_seed;
+  option_seed := _attempt.option_seed;
+  RETURN NEXT;
+END;
+$function$;
+
+-- Submissions are only accepted while the assignment is open
+CREATE OR REPLACE FUNCTION public.record_submission(_assignment_id uuid, _student_id uuid, _answers jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _attempts integer;
+  _attempt_id uuid;
+  _question_ids uuid[];
+  _question_count integer;
+  _max_score numeric;
+  _submission_id uuid;
+  _answer jsonb;
+  _question questions%ROWTYPE;
+  _selected integer;
+  _selected_set integer[];
+  _text text;
+BEGIN
+  -- Serialize submissions of the same student for the same assignment so max_attempts holds
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || _student_id::text));
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _assignment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'assignment_not_found';
+  END IF;
+
+  IF _assignment.assignment_type <> 'quiz' THEN
+    RAISE EXCEPTION 'invalid_assignment_type';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = _student_id
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  PERFORM assert_assignment_open(_assignment_id);
+
+  SELECT COUNT(*) INTO _attempts
+  FROM submissions s
+  WHERE s.assignment_id = _assignment_id AND s.student_id = _student_id;
+
+  IF _attempts > 0 AND (NOT _assignment.is_resubmittable OR (_assignment.max_attempts IS NOT NULL AND _attempts >= _assignment.max_attempts)) THEN
+    RAISE EXCEPTION 'max_attempts_reached';
+  END IF;
+
+  -- The open attempt keeps the question order the student saw; with pools it is required,
+  -- and answers are checked against the questions drawn for it
+  SELECT a.id, a.question_ids INTO _attempt_id, _question_ids
+  FROM assignment_attempts a
+  WHERE a.assignment_id = _assignment_id AND a.student_id = _student_id AND a.submission_id IS NULL;
+  IF NOT FOUND AND assignment_has_pools(_assignment_id) THEN
+    RAISE EXCEPTION 'attempt_not_started';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(q.points), 0) INTO _question_count, _max_score
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+    AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+
+  INSERT INTO submissions (assignment_id, student_id, score, total_questions, max_score)
+  VALUES (_assignment_id, _student_id, 0, _question_count, _max_score)
+  RETURNING id INTO _submission_id;
+
+  IF _attempt_id IS NOT NULL THEN
+    UPDATE assignment_attempts SET submission_id = _submission_id WHERE id = _attempt_id;
+  END IF;
+
+  FOR _answer IN SELECT * FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb))
+  LOOP
+    SELECT * INTO _question
+    FROM questions q
+    WHERE q.id = (_answer->>'question_id')::uuid
+      AND q.assignment_id = _assignment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_answer';
+    END IF;
+
+    _selected := NULL;
+    _selected_set := NULL;
+    _text := NULL;
+    IF _question.question_type = 'multiple_choice' THEN
+      _selected := (_answer->>'selected_answer')::integer;
+      IF _selected IS NOT NULL AND (_selected < 0 OR _selected >= jsonb_array_length(_question.options)) THEN
+        RAISE EXCEPTION 'invalid_answer';
+      END IF;
+    ELSIF _question.question_type = 'multiple_select' THEN
+      IF jsonb_typeof(_answer->'selected_answers') = 'array' THEN
+        SELECT ARRAY(
+          SELECT DISTINCT value::integer
+          FROM jsonb_array_elements_text(_answer->'selected_answers')
+          ORDER BY 1
+        ) INTO _selected_set;
+        IF NOT option_indexes_valid(_selected_set, jsonb_array_length(_question.options)) THEN
+          RAISE EXCEPTION 'invalid_answer';
+        END IF;
+        _selected_set := NULLIF(_selected_set, '{}');
+      END IF;
+    ELSE
+      _text := NULLIF(btrim(_answer->>'text_answer'), '');
+    END IF;
+
+    IF _selected IS NOT NULL OR _selected_set IS NOT NULL OR _text IS NOT NULL THEN
+      INSERT INTO student_answers (submission_id, question_id, selected_answer, selected_answers, text_answer)
+      VALUES (_submission_id, _question.id, _selected, _selected_set, _text);
+    END IF;
+  END LOOP;
+
+  PERFORM grade_submission_answers(_submission_id);
+  PERFORM recalculate_submission_score(_submission_id);
+
+  RETURN get_submission_results(_submission_id);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_submission(uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
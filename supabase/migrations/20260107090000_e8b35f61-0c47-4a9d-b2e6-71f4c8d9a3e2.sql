@@ -0,0 +1,381 @@
+-- Timed quizzes.
+-- A time limit starts counting when the student starts an attempt: the attempt row (created_at
+-- is the start time) stores the deadline, including the student's extra-time accommodation, so
+-- later changes to the limit never move a running attempt. The client counts down to the deadline
+-- and submits automatically; answers that reach the server too late are discarded.
+ALTER TABLE public.assignments
+  ADD COLUMN time_limit_minutes integer CHECK (time_limit_minutes > 0);
+
+ALTER TABLE public.student_assignments
+  ADD COLUMN extra_time_minutes integer NOT NULL DEFAULT 0 CHECK (extra_time_minutes >= 0);
+
+ALTER TABLE public.assignment_attempts
+  ADD COLUMN deadline timestamp with time zone;
+
+ALTER TABLE public.submissions
+  ADD COLUMN time_expired boolean NOT NULL DEFAULT false;
+
+-- Starts (or resumes) the caller's attempt and returns its question ids, shuffle seeds and deadline.
+-- Returns no row when the assignment has neither pools, shuffling nor a time limit.
+DROP FUNCTION IF EXISTS public.start_assignment_attempt(uuid);
+
+CREATE FUNCTION public.start_assignment_attempt(_assignment_id uuid)
+ RETURNS TABLE(question_ids uuid[], question_seed integer, option_seed integer, deadline timestamp with time zone)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _has_pools boolean;
+  _attempt assignment_attempts%ROWTYPE;
+  _extra_minutes integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  PERFORM assert_assignment_open(_assignment_id);
+  PERFORM assert_not_past_due(_assignment_id, auth.uid());
+
+  SELECT * INTO _assignment FROM assignments a WHERE a.id = _assignment_id;
+  _has_pools := assignment_has_pools(_assignment_id);
+
+  IF NOT _has_pools AND NOT _assignment.shuffle_questions AND NOT _assignment.shuffle_options
+     AND _assignment.time_limit_minutes IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Same lock as record_submission, so a draw never races a submission
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || auth.uid()::text));
+
+  SELECT * INTO _attempt
+  FROM assignment_attempts a
+  WHERE a.assignment_id = _assignment_id AND a.student_id = auth.uid() AND a.submission_id IS NULL;
+
+  IF NOT FOUND THEN
+    SELECT sa.extra_time_minutes INTO _extra_minutes
+    FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid();
+
+    INSERT INTO assignment_attempts (assignment_id, student_id, question_ids, question_seed, option_seed, deadline)
+    VALUES (
+      _assignment_id,
+      auth.uid(),
+      CASE WHEN _has_pools THEN draw_attempt_questions(_assignment_id) END,
+      CASE WHEN _assignment.shuffle_questions THEN floor(random() * 2147483647)::integer END,
+      CASE WHEN _assignment.shuffle_options THEN floor(random() * 2147483647)::integer END,
+      CASE WHEN _assignment.time_limit_minutes IS NOT NULL
+        THEN now() + make_interval(mins => _assignment.time_limit_minutes + _extra_minutes) END
+    )
+    RETURNING * INTO _attempt;
+  ELSIF _has_pools AND _attempt.question_ids IS NULL THEN
+    -- Pools were added after this attempt started
+    UPDATE assignment_attempts SET question_ids = draw_attempt_questions(_assignment_id)
+    WHERE id = _attempt.id
+    RETURNING * INTO _attempt;
+  END IF;
+
+  question_ids := _attempt.question_ids;
+  question_seed := _attempt.question_seed;
+  option_seed := _attempt.option_seed;
+  deadline := _attempt.deadline;
+  RETURN NEXT;
+END;
+$function$;
+
+-- Timed assignments require a started attempt and drop answers that arrive after its deadline
+CREATE OR REPLACE FUNCTION public.record_submission(_assignment_id uuid, _student_id uuid, _answers jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _attempts integer;
+  _attempt_id uuid;
+  _question_ids uuid[];
+  _question_count integer;
+  _max_score numeric;
+  _submission_id uuid;
+  _answer jsonb;
+  _question questions%ROWTYPE;
+  _selected integer;
+  _selected_set integer[];
+  _text text;
+  _due_date timestamp with time zone;
+  _days_late integer := 0;
+  _late_penalty numeric := 0;
+  _deadline timestamp with time zone;
+  _time_expired boolean := false;
+BEGIN
+  -- Serialize submissions of the same student for the same assignment so max_attempts holds
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || _student_id::text));
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _assignment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'assignment_not_found';
+  END IF;
+
+  IF _assignment.assignment_type <> 'quiz' THEN
+    RAISE EXCEPTION 'invalid_assignment_type';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = _student_id
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  PERFORM assert_assignment_open(_assignment_id);
+  PERFORM assert_not_past_due(_assignment_id, _student_id);
+
+  -- Started days past the student's due date; a penalty policy takes a share of the score for each
+  _due_date := student_due_date(_assignment_id, _student_id);
+  IF _due_date IS NOT NULL AND now() > _due_date THEN
+    _days_late := CEIL(EXTRACT(EPOCH FROM now() - _due_date) / 86400)::integer;
+  END IF;
+  IF _assignment.late_policy = 'penalty' THEN
+    _late_penalty := LEAST(100, _days_late * _assignment.late_penalty_per_day);
+  END IF;
+
+  SELECT COUNT(*) INTO _attempts
+  FROM submissions s
+  WHERE s.assignment_id = _assignment_id AND s.student_id = _student_id;
+
+  IF _attempts > 0 AND (NOT _assignment.is_resubmittable OR (_assignment.max_attempts IS NOT NULL AND _attempts >= _assignment.max_attempts)) THEN
+    RAISE EXCEPTION 'max_attempts_reached';
+  END IF;
+
+  -- The open attempt keeps the question order the student saw; with pools or a time limit it
+  -- is required, and answers are checked against the questions drawn for it
+  SELECT a.id, a.question_ids, a.deadline INTO _attempt_id, _question_ids, _deadline
+  FROM assignment_attempts a
+  WHERE a.assignment_id = _assignment_id AND a.student_id = _student_id AND a.submission_id IS NULL;
+  IF NOT FOUND AND (assignment_has_pools(_assignment_id) OR _assignment.time_limit_minutes IS NOT NULL) THEN
+    RAISE EXCEPTION 'attempt_not_started';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(q.points), 0) INTO _question_count, _max_score
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+    AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+
+  -- Answers arriving after the attempt's deadline plus a short grace period for the
+  -- automatic submission in transit are dropped; the submission itself is still recorded
+  _time_expired := _deadline IS NOT NULL AND now() > _deadline + interval '30 seconds';
+
+  INSERT INTO submissions (assignment_id, student_id, score, total_questions, max_score, days_late, late_penalty, time_expired)
+  VALUES (_assignment_id, _student_id, 0, _question_count, _max_score, _days_late, _late_penalty, _time_expired)
+  RETURNING id INTO _submission_id;
+
+  IF _attempt_id IS NOT NULL THEN
+    UPDATE assignment_attempts SET submission_id = _submission_id WHERE id = _attempt_id;
+  END IF;
+
+  FOR _answer IN SELECT * FROM jsonb_array_elements(CASE WHEN _time_expired THEN '[]'::jsonb ELSE COALESCE(_answers, '[]'::jsonb) END)
+  LOOP
+    SELECT * INTO _question
+    FROM questions q
+    WHERE q.id = (_answer->>'question_id')::uuid
+      AND q.assignment_id = _assignment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_answer';
+    END IF;
+
+    _selected := NULL;
+    _selected_set := NULL;
+    _text := NULL;
+    IF _question.question_type = 'multiple_choice' THEN
+      _selected := (_answer->>'selected_answer')::integer;
+      IF _selected IS NOT NULL AND (_selected < 0 OR _selected >= jsonb_array_length(_question.options)) THEN
+        RAISE EXCEPTION 'invalid_answer';
+      END IF;
+    ELSIF _question.question_type = 'multiple_select' THEN
+      IF jsonb_typeof(_answer->'selected_answers') = 'array' THEN
+        SELECT ARRAY(
+          SELECT DISTINCT value::integer
+          FROM jsonb_array_elements_text(_answer->'selected_answers')
+          ORDER BY 1
+        ) INTO _selected_set;
+        IF NOT option_indexes_valid(_selected_set, jsonb_array_length(_question.options)) THEN
+          RAISE EXCEPTION 'invalid_answer';
+        END IF;
+        _selected_set := NULLIF(_selected_set, '{}');
+      END IF;
+    ELSE
+      _text := NULLIF(btrim(_answer->>'text_answer'), '');
+    END IF;
+
+    IF _selected IS NOT NULL OR _selected_set IS NOT NULL OR _text IS NOT NULL THEN
+      INSERT INTO student_answers (submission_id, question_id, selected_answer, selected_answers, text_answer)
+      VALUES (_submission_id, _question.id, _selected, _selected_set, _text);
+    END IF;
+  END LOOP;
+
+  PERFORM grade_submission_answers(_submission_id);
+  PERFORM recalculate_submission_score(_submission_id);
+
+  RETURN get_submission_results(_submission_id);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_submission(uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_submission_results(_submission_id uuid)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _submission submissions%ROWTYPE;
+  _assignment assignments%ROWTYPE;
+  _released boolean;
+  _show_correctness boolean;
+  _attempt assignment_attempts%ROWTYPE;
+BEGIN
+  SELECT * INTO _submission FROM submissions WHERE id = _submission_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  -- Service role (auth.uid() IS NULL), the submitting student, or staff
+  IF auth.uid() IS NOT NULL
+     AND auth.uid() <> _submission.student_id
+     AND NOT can_manage_assignment(_submission.assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view this submission';
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _submission.assignment_id;
+  _released := answer_key_released(_assignment.id, _submission.student_id);
+  _show_correctness := _released AND _assignment.reveal_correctness;
+  SELECT * INTO _attempt FROM assignment_attempts WHERE submission_id = _submission.id;
+
+  RETURN jsonb_build_object(
+    'submission_id', _submission.id,
+    'score', _submission.score,
+    'total_questions', _submission.total_questions,
+    'max_score', _submission.max_score,
+    'days_late', _submission.days_late,
+    'late_penalty', _submission.late_penalty,
+    'time_expired', _submission.time_expired,
+    'question_seed', _attempt.question_seed,
+    'option_seed', _attempt.option_seed,
+    'reveal', jsonb_build_object(
+      'policy', _assignment.answer_reveal_policy,
+      'released', _released,
+      'correctness', _show_correctness,
+      'correct_option', _released AND _assignment.reveal_correct_option,
+      'explanation', _released AND _assignment.reveal_explanation,
+      'model_answer', _released AND _assignment.reveal_model_answer
+    ),
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'question_id', q.id,
+        'question_type', q.question_type,
+        'points', q.points,
+        'selected_answer', sa.selected_answer,
+        'selected_answers', sa.selected_answers,
+        'text_answer', sa.text_answer,
+        'is_correct', CASE WHEN _show_correctness THEN sa.is_correct END,
+        'points_earned', CASE WHEN _show_correctness THEN sa.points_earned END,
+        'feedback', sa.feedback,
+        'graded_at', sa.graded_at
+      ) ORDER BY q.order_number)
+      FROM questions q
+      LEFT JOIN student_answers sa ON sa.question_id = q.id AND sa.submission_id = _submission.id
+      WHERE q.assignment_id = _assignment.id
+        AND (_attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids))
+    ), '[]'::jsonb)
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.duplicate_assignment(_assignment_id uuid, _instructor_id uuid, _title text, _due_date timestamp with time zone, _student_ids uuid[])
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _source assignments%ROWTYPE;
+  _new_id uuid;
+  _pool question_pools%ROWTYPE;
+  _pool_ids jsonb := '{}'::jsonb;
+  _new_pool_id uuid;
+BEGIN
+  IF NOT can_manage_assignment(_assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to duplicate this assignment';
+  END IF;
+
+  IF _instructor_id <> auth.uid() AND NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can duplicate into another instructor''s account';
+  END IF;
+
+  IF NOT has_role(_instructor_id, 'instructor') AND NOT has_role(_instructor_id, 'admin') THEN
+    RAISE EXCEPTION 'Target user is not an instructor';
+  END IF;
+
+  IF btrim(COALESCE(_title, '')) = '' THEN
+    RAISE EXCEPTION 'Title is required';
+  END IF;
+
+  SELECT * INTO _source FROM assignments WHERE id = _assignment_id;
+
+  INSERT INTO assignments (
+    title, description, instructor_id, due_date, file_url, file_type, assignment_type,
+    is_resubmittable, max_attempts, answer_reveal_policy, reveal_correctness,
+    reveal_correct_option, reveal_explanation, reveal_model_answer, shuffle_questions, shuffle_options,
+    late_policy, late_penalty_per_day, time_limit_minutes
+  )
+  VALUES (
+    btrim(_title), _source.description, _instructor_id, _due_date, _source.file_url, _source.file_type, _source.assignment_type,
+    _source.is_resubmittable, _source.max_attempts, _source.answer_reveal_policy, _source.reveal_correctness,
+    _source.reveal_correct_option, _source.reveal_explanation, _source.reveal_model_answer, _source.shuffle_questions, _source.shuffle_options,
+    _source.late_policy, _source.late_penalty_per_day, _source.time_limit_minutes
+  )
+  RETURNING id INTO _new_id;
+
+  FOR _pool IN SELECT * FROM question_pools WHERE assignment_id = _assignment_id ORDER BY order_number
+  LOOP
+    INSERT INTO question_pools (assignment_id, name, draw_count, order_number)
+    VALUES (_new_id, _pool.name, _pool.draw_count, _pool.order_number)
+    RETURNING id INTO _new_pool_id;
+    _pool_ids := _pool_ids || jsonb_build_object(_pool.id::text, _new_pool_id);
+  END LOOP;
+
+  -- Bank links are kept only when the bank item belongs to the new owner,
+  -- so usage history never points at another instructor's assignment
+  INSERT INTO questions (
+    assignment_id, text, options, correct_answer, correct_answers, scoring_mode, numeric_answer,
+    numeric_tolerance, tolerance_type, accept_fractions, accepted_answers, answer_patterns,
+    case_sensitive, normalize_whitespace, ignore_spacing, points, explanation, order_number,
+    question_type, model_answer, bank_item_id, pool_id
+  )
+  SELECT
+    _new_id, q.text, q.options, q.correct_answer, q.correct_answers, q.scoring_mode, q.numeric_answer,
+    q.numeric_tolerance, q.tolerance_type, q.accept_fractions, q.accepted_answers, q.answer_patterns,
+    q.case_sensitive, q.normalize_whitespace, q.ignore_spacing, q.points, q.explanation, q.order_number,
+    q.question_type, q.model_answer,
+    CASE WHEN b.instructor_id = _instructor_id THEN q.bank_item_id END,
+    (_pool_ids->>q.pool_id::text)::uuid
+  FROM questions q
+  LEFT JOIN question_bank_items b ON b.id = q.bank_item_id
+  WHERE q.assignment_id = _assignment_id;
+
+  INSERT INTO student_assignments (assignment_id, student_id)
+  SELECT _new_id, s.student_id
+  FROM unnest(COALESCE(_student_ids, '{}')) AS s(student_id)
+  WHERE has_role(s.student_id, 'student')
+  ON CONFLICT DO NOTHING;
+
+  RETURN _new_id;
+END;
+$function$;
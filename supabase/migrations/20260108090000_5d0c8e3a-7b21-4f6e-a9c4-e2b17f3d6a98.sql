@@ -0,0 +1,283 @@
+-- Autosave and resume.
+-- Every quiz attempt now gets a row in assignment_attempts when it starts, and the answers given so
+-- far are saved on it as the student works, in the same shape record_submission takes. Starting again
+-- from any device resumes the open attempt with those answers, and staff see it as in progress.
+--
+-- Abandoned attempts:
+--   * Only submissions count toward max_attempts. An open attempt is resumed rather than replaced, so
+--     walking away from one never yields a fresh draw, a new shuffle or a reset timer.
+--   * A new attempt can only be started while there is a submission left to make.
+--   * An untimed attempt stays open until it is submitted. If the assignment closes first it is never
+--     submitted and does not count.
+--   * A timed attempt whose deadline has passed is submitted with its last autosave as soon as the
+--     student opens it again, and counts like any other submission.
+ALTER TABLE public.assignment_attempts
+  ADD COLUMN draft_answers jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN saved_at timestamp with time zone;
+
+-- Starts (or resumes) the caller's attempt and returns its question ids, shuffle seeds, deadline and
+-- the answers saved so far.
+DROP FUNCTION IF EXISTS public.start_assignment_attempt(uuid);
+
+CREATE FUNCTION public.start_assignment_attempt(_assignment_id uuid)
+ RETURNS TABLE(question_ids uuid[], question_seed integer, option_seed integer, deadline timestamp with time zone, draft_answers jsonb, saved_at timestamp with time zone)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _has_pools boolean;
+  _attempt assignment_attempts%ROWTYPE;
+  _extra_minutes integer;
+  _submitted integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  PERFORM assert_assignment_open(_assignment_id);
+  PERFORM assert_not_past_due(_assignment_id, auth.uid());
+
+  SELECT * INTO _assignment FROM assignments a WHERE a.id = _assignment_id;
+  IF _assignment.assignment_type <> 'quiz' THEN
+    RAISE EXCEPTION 'invalid_assignment_type';
+  END IF;
+  _has_pools := assignment_has_pools(_assignment_id);
+
+  -- Same lock as record_submission, so a draw never races a submission
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || auth.uid()::text));
+
+  SELECT * INTO _attempt
+  FROM assignment_attempts a
+  WHERE a.assignment_id = _assignment_id AND a.student_id = auth.uid() AND a.submission_id IS NULL;
+
+  IF NOT FOUND THEN
+    -- Only submissions count toward max_attempts, so a new attempt needs one left to submit
+    SELECT COUNT(*) INTO _submitted
+    FROM submissions s
+    WHERE s.assignment_id = _assignment_id AND s.student_id = auth.uid();
+    IF _submitted > 0 AND (NOT _assignment.is_resubmittable OR (_assignment.max_attempts IS NOT NULL AND _submitted >= _assignment.max_attempts)) THEN
+      RAISE EXCEPTION 'max_attempts_reached';
+    END IF;
+
+    SELECT sa.extra_time_minutes INTO _extra_minutes
+    FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid();
+
+    INSERT INTO assignment_attempts (assignment_id, student_id, question_ids, question_seed, option_seed, deadline)
+    VALUES (
+      _assignment_id,
+      auth.uid(),
+      CASE WHEN _has_pools THEN draw_attempt_questions(_assignment_id) END,
+      CASE WHEN _assignment.shuffle_questions THEN floor(random() * 2147483647)::integer END,
+      CASE WHEN _assignment.shuffle_options THEN floor(random() * 2147483647)::integer END,
+      CASE WHEN _assignment.time_limit_minutes IS NOT NULL
+        THEN now() + make_interval(mins => _assignment.time_limit_minutes + _extra_minutes) END
+    )
+    RETURNING * INTO _attempt;
+  ELSIF _has_pools AND _attempt.question_ids IS NULL THEN
+    -- Pools were added after this attempt started
+    UPDATE assignment_attempts SET question_ids = draw_attempt_questions(_assignment_id)
+    WHERE id = _attempt.id
+    RETURNING * INTO _attempt;
+  END IF;
+
+  question_ids := _attempt.question_ids;
+  question_seed := _attempt.question_seed;
+  option_seed := _attempt.option_seed;
+  deadline := _attempt.deadline;
+  draft_answers := _attempt.draft_answers;
+  saved_at := _attempt.saved_at;
+  RETURN NEXT;
+END;
+$function$;
+
+-- Saves the answers of the caller's open attempt and returns when they were saved. Answers to
+-- questions outside the attempt are left out; once the deadline and grace period have passed
+-- the draft is frozen.
+CREATE OR REPLACE FUNCTION public.save_attempt_draft(_assignment_id uuid, _answers jsonb)
+ RETURNS timestamp with time zone
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _attempt assignment_attempts%ROWTYPE;
+BEGIN
+  IF jsonb_typeof(_answers) <> 'array' THEN
+    RAISE EXCEPTION 'invalid_answer';
+  END IF;
+
+  SELECT * INTO _attempt
+  FROM assignment_attempts a
+  WHERE a.assignment_id = _assignment_id AND a.student_id = auth.uid() AND a.submission_id IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'attempt_not_started';
+  END IF;
+
+  IF _attempt.deadline IS NOT NULL AND now() > _attempt.deadline + interval '30 seconds' THEN
+    RAISE EXCEPTION 'time_expired';
+  END IF;
+
+  UPDATE assignment_attempts
+  SET draft_answers = COALESCE((
+        SELECT jsonb_agg(d.value)
+        FROM jsonb_array_elements(_answers) d
+        JOIN questions q ON q.id::text = d.value->>'question_id'
+        WHERE q.assignment_id = _assignment_id
+          AND (_attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids))
+      ), '[]'::jsonb),
+      saved_at = now()
+  WHERE id = _attempt.id;
+
+  RETURN now();
+END;
+$function$;
+
+-- Timed submissions that arrive too late are graded on the attempt's last autosave
+CREATE OR REPLACE FUNCTION public.record_submission(_assignment_id uuid, _student_id uuid, _answers jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _attempts integer;
+  _attempt_id uuid;
+  _question_ids uuid[];
+  _question_count integer;
+  _max_score numeric;
+  _submission_id uuid;
+  _answer jsonb;
+  _question questions%ROWTYPE;
+  _selected integer;
+  _selected_set integer[];
+  _text text;
+  _due_date timestamp with time zone;
+  _days_late integer := 0;
+  _late_penalty numeric := 0;
+  _deadline timestamp with time zone;
+  _time_expired boolean := false;
+  _draft_answers jsonb;
+BEGIN
+  -- Serialize submissions of the same student for the same assignment so max_attempts holds
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || _student_id::text));
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _assignment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'assignment_not_found';
+  END IF;
+
+  IF _assignment.assignment_type <> 'quiz' THEN
+    RAISE EXCEPTION 'invalid_assignment_type';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = _student_id
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  PERFORM assert_assignment_open(_assignment_id);
+  PERFORM assert_not_past_due(_assignment_id, _student_id);
+
+  -- Started days past the student's due date; a penalty policy takes a share of the score for each
+  _due_date := student_due_date(_assignment_id, _student_id);
+  IF _due_date IS NOT NULL AND now() > _due_date THEN
+    _days_late := CEIL(EXTRACT(EPOCH FROM now() - _due_date) / 86400)::integer;
+  END IF;
+  IF _assignment.late_policy = 'penalty' THEN
+    _late_penalty := LEAST(100, _days_late * _assignment.late_penalty_per_day);
+  END IF;
+
+  SELECT COUNT(*) INTO _attempts
+  FROM submissions s
+  WHERE s.assignment_id = _assignment_id AND s.student_id = _student_id;
+
+  IF _attempts > 0 AND (NOT _assignment.is_resubmittable OR (_assignment.max_attempts IS NOT NULL AND _attempts >= _assignment.max_attempts)) THEN
+    RAISE EXCEPTION 'max_attempts_reached';
+  END IF;
+
+  -- The open attempt keeps the question order the student saw; with pools or a time limit it
+  -- is required, and answers are checked against the questions drawn for it
+  SELECT a.id, a.question_ids, a.deadline, a.draft_answers INTO _attempt_id, _question_ids, _deadline, _draft_answers
+  FROM assignment_attempts a
+  WHERE a.assignment_id = _assignment_id AND a.student_id = _student_id AND a.submission_id IS NULL;
+  IF NOT FOUND AND (assignment_has_pools(_assignment_id) OR _assignment.time_limit_minutes IS NOT NULL) THEN
+    RAISE EXCEPTION 'attempt_not_started';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(q.points), 0) INTO _question_count, _max_score
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+    AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+
+  -- Answers arriving after the attempt's deadline plus a short grace period for the automatic
+  -- submission in transit are replaced by the attempt's last autosave, which save_attempt_draft
+  -- only accepts before that point
+  _time_expired := _deadline IS NOT NULL AND now() > _deadline + interval '30 seconds';
+
+  INSERT INTO submissions (assignment_id, student_id, score, total_questions, max_score, days_late, late_penalty, time_expired)
+  VALUES (_assignment_id, _student_id, 0, _question_count, _max_score, _days_late, _late_penalty, _time_expired)
+  RETURNING id INTO _submission_id;
+
+  IF _attempt_id IS NOT NULL THEN
+    UPDATE assignment_attempts SET submission_id = _submission_id WHERE id = _attempt_id;
+  END IF;
+
+  FOR _answer IN SELECT * FROM jsonb_array_elements(CASE WHEN _time_expired THEN _draft_answers ELSE COALESCE(_answers, '[]'::jsonb) END)
+  LOOP
+    SELECT * INTO _question
+    FROM questions q
+    WHERE q.id = (_answer->>'question_id')::uuid
+      AND q.assignment_id = _assignment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_answer';
+    END IF;
+
+    _selected := NULL;
+    _selected_set := NULL;
+    _text := NULL;
+    IF _question.question_type = 'multiple_choice' THEN
+      _selected := (_answer->>'selected_answer')::integer;
+      IF _selected IS NOT NULL AND (_selected < 0 OR _selected >= jsonb_array_length(_question.options)) THEN
+        RAISE EXCEPTION 'invalid_answer';
+      END IF;
+    ELSIF _question.question_type = 'multiple_select' THEN
+      IF jsonb_typeof(_answer->'selected_answers') = 'array' THEN
+        SELECT ARRAY(
+          SELECT DISTINCT value::integer
+          FROM jsonb_array_elements_text(_answer->'selected_answers')
+          ORDER BY 1
+        ) INTO _selected_set;
+        IF NOT option_indexes_valid(_selected_set, jsonb_array_length(_question.options)) THEN
+          RAISE EXCEPTION 'invalid_answer';
+        END IF;
+        _selected_set := NULLIF(_selected_set, '{}');
+      END IF;
+    ELSE
+      _text := NULLIF(btrim(_answer->>'text_answer'), '');
+    END IF;
+
+    IF _selected IS NOT NULL OR _selected_set IS NOT NULL OR _text IS NOT NULL THEN
+      INSERT INTO student_answers (submission_id, question_id, selected_answer, selected_answers, text_answer)
+      VALUES (_submission_id, _question.id, _selected, _selected_set, _text);
+    END IF;
+  END LOOP;
+
+  PERFORM grade_submission_answers(_submission_id);
+  PERFORM recalculate_submission_score(_submission_id);
+
+  RETURN get_submission_results(_submission_id);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_submission(uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
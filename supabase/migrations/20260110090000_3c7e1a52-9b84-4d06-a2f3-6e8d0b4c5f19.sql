@@ -0,0 +1,51 @@
+-- Recalculating a score is for the assignment's staff and for the service role that records
+-- submissions. A call without a signed-in user used to skip the check, so the service role is
+-- now named explicitly and the function is no longer open to PUBLIC or anon.
+CREATE OR REPLACE FUNCTION public.recalculate_submission_score(_submission_id uuid)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment_id uuid;
+  _score numeric;
+BEGIN
+  SELECT s.assignment_id INTO _assignment_id
+  FROM submissions s
+  WHERE s.id = _submission_id;
+
+  IF _assignment_id IS NULL THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  IF COALESCE(auth.role(), '') <> 'service_role'
+     AND NOT COALESCE(can_manage_assignment(_assignment_id, auth.uid()), false) THEN
+    RAISE EXCEPTION 'Not allowed to grade this submission';
+  END IF;
+
+  SELECT COALESCE(SUM(
+    CASE
+      WHEN q.question_type IN ('free_response', 'multiple_select') THEN LEAST(COALESCE(sa.points_earned, 0), q.points)
+      WHEN sa.is_correct THEN q.points
+      ELSE 0
+    END
+  ), 0)
+  INTO _score
+  FROM student_answers sa
+  JOIN questions q ON q.id = sa.question_id
+  WHERE sa.submission_id = _submission_id;
+
+  -- The late penalty was fixed when the submission was recorded
+  SELECT ROUND(_score * (100 - s.late_penalty) / 100, 2) INTO _score
+  FROM submissions s
+  WHERE s.id = _submission_id;
+
+  UPDATE submissions SET score = _score WHERE id = _submission_id;
+
+  RETURN _score;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.recalculate_submission_score(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.recalculate_submission_score(uuid) TO authenticated, service_role;
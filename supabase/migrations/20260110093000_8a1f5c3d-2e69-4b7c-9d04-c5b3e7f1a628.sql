@@ -0,0 +1,75 @@
+-- Submission results are for the submitting student, the assignment's staff, and the service role
+-- that records submissions. As with recalculate_submission_score, a call without a signed-in user
+-- no longer counts as the service role.
+CREATE OR REPLACE FUNCTION public.get_submission_results(_submission_id uuid)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _submission submissions%ROWTYPE;
+  _assignment assignments%ROWTYPE;
+  _released boolean;
+  _show_correctness boolean;
+  _attempt assignment_attempts%ROWTYPE;
+BEGIN
+  SELECT * INTO _submission FROM submissions WHERE id = _submission_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  -- The service role, the submitting student, or staff
+  IF COALESCE(auth.role(), '') <> 'service_role'
+     AND auth.uid() IS DISTINCT FROM _submission.student_id
+     AND NOT COALESCE(can_manage_assignment(_submission.assignment_id, auth.uid()), false) THEN
+    RAISE EXCEPTION 'Not allowed to view this submission';
+  END IF;
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _submission.assignment_id;
+  _released := answer_key_released(_assignment.id, _submission.student_id);
+  _show_correctness := _released AND _assignment.reveal_correctness;
+  SELECT * INTO _attempt FROM assignment_attempts WHERE submission_id = _submission.id;
+
+  RETURN jsonb_build_object(
+    'submission_id', _submission.id,
+    'score', _submission.score,
+    'total_questions', _submission.total_questions,
+    'max_score', _submission.max_score,
+    'days_late', _submission.days_late,
+    'late_penalty', _submission.late_penalty,
+    'time_expired', _submission.time_expired,
+    'question_seed', _attempt.question_seed,
+    'option_seed', _attempt.option_seed,
+    'reveal', jsonb_build_object(
+      'policy', _assignment.answer_reveal_policy,
+      'released', _released,
+      'correctness', _show_correctness,
+      'correct_option', _released AND _assignment.reveal_correct_option,
+      'explanation', _released AND _assignment.reveal_explanation,
+      'model_answer', _released AND _assignment.reveal_model_answer
+    ),
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'question_id', q.id,
+        'question_type', q.question_type,
+        'points', q.points,
+        'selected_answer', sa.selected_answer,
+        'selected_answers', sa.selected_answers,
+        'text_answer', sa.text_answer,
+        'is_correct', CASE WHEN _show_correctness THEN sa.is_correct END,
+        'points_earned', CASE WHEN _show_correctness THEN sa.points_earned END,
+        'feedback', sa.feedback,
+        'graded_at', sa.graded_at
+      ) ORDER BY q.order_number)
+      FROM questions q
+      LEFT JOIN student_answers sa ON sa.question_id = q.id AND sa.submission_id = _submission.id
+      WHERE q.assignment_id = _assignment.id
+        AND (_attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids))
+    ), '[]'::jsonb)
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_submission_results(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_submission_results(uuid) TO authenticated, service_role;
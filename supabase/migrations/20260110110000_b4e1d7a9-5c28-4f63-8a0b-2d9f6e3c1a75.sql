@@ -0,0 +1,135 @@
+-- Saving an edited assignment in one call. Its settings, pools and questions change in the same
+-- transaction as the regrade of existing submissions, so an error part way leaves the assignment
+-- as it was instead of half edited.
+CREATE FUNCTION public.update_assignment(
+  _assignment_id uuid,
+  _assignment jsonb,
+  _pools jsonb,
+  _questions jsonb,
+  _regrade boolean DEFAULT false
+)
+ RETURNS TABLE(submission_id uuid, student_id uuid, student_name text, old_score numeric, new_score numeric, old_total_questions integer, new_total_questions integer, old_max_score numeric, new_max_score numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _settings assignments%ROWTYPE;
+  _pool record;
+  _pool_id uuid;
+  _pool_ids jsonb := '{}'::jsonb;
+  _question jsonb;
+  _row questions%ROWTYPE;
+BEGIN
+  IF NOT COALESCE(can_manage_assignment(_assignment_id, auth.uid()), false) THEN
+    RAISE EXCEPTION 'Not allowed to edit this assignment';
+  END IF;
+
+  _settings := jsonb_populate_record(NULL::assignments, _assignment);
+  UPDATE assignments SET
+    title = _settings.title,
+    description = _settings.description,
+    due_date = _settings.due_date,
+    file_url = _settings.file_url,
+    file_type = _settings.file_type,
+    assignment_type = _settings.assignment_type,
+    is_resubmittable = _settings.is_resubmittable,
+    max_attempts = _settings.max_attempts,
+    answer_reveal_policy = _settings.answer_reveal_policy,
+    reveal_correctness = _settings.reveal_correctness,
+    reveal_correct_option = _settings.reveal_correct_option,
+    reveal_explanation = _settings.reveal_explanation,
+    reveal_model_answer = _settings.reveal_model_answer,
+    shuffle_questions = _settings.shuffle_questions,
+    shuffle_options = _settings.shuffle_options,
+    available_from = _settings.available_from,
+    available_until = _settings.available_until,
+    late_policy = _settings.late_policy,
+    late_penalty_per_day = _settings.late_penalty_per_day,
+    time_limit_minutes = _settings.time_limit_minutes
+  WHERE id = _assignment_id;
+
+  -- Questions refer to pools by key, because new pools have no id until they are saved here
+  FOR _pool IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(_pools, '[]'::jsonb))
+      AS p(id uuid, key text, name text, draw_count integer, order_number integer)
+  LOOP
+    _pool_id := NULL;
+    UPDATE question_pools
+    SET name = _pool.name, draw_count = _pool.draw_count, order_number = _pool.order_number
+    WHERE id = _pool.id AND assignment_id = _assignment_id
+    RETURNING id INTO _pool_id;
+    IF _pool_id IS NULL THEN
+      INSERT INTO question_pools (assignment_id, name, draw_count, order_number)
+      VALUES (_assignment_id, _pool.name, _pool.draw_count, _pool.order_number)
+      RETURNING id INTO _pool_id;
+    END IF;
+    _pool_ids := _pool_ids || jsonb_build_object(_pool.key, _pool_id);
+  END LOOP;
+
+  -- Existing questions keep their ids so stored student answers stay linked
+  DELETE FROM questions q
+  WHERE q.assignment_id = _assignment_id
+    AND q.id::text NOT IN (
+      SELECT e->>'id' FROM jsonb_array_elements(COALESCE(_questions, '[]'::jsonb)) e WHERE e->>'id' IS NOT NULL
+    );
+
+  FOR _question IN SELECT * FROM jsonb_array_elements(COALESCE(_questions, '[]'::jsonb))
+  LOOP
+    _row := jsonb_populate_record(NULL::questions, _question);
+    _row.pool_id := (_pool_ids->>(_question->>'pool_key'))::uuid;
+
+    UPDATE questions SET
+      text = _row.text,
+      options = _row.options,
+      correct_answer = _row.correct_answer,
+      correct_answers = _row.correct_answers,
+      scoring_mode = _row.scoring_mode,
+      numeric_answer = _row.numeric_answer,
+      numeric_tolerance = _row.numeric_tolerance,
+      tolerance_type = _row.tolerance_type,
+      accept_fractions = _row.accept_fractions,
+      accepted_answers = _row.accepted_answers,
+      answer_patterns = _row.answer_patterns,
+      case_sensitive = _row.case_sensitive,
+      normalize_whitespace = _row.normalize_whitespace,
+      ignore_spacing = _row.ignore_spacing,
+      points = _row.points,
+      explanation = _row.explanation,
+      order_number = _row.order_number,
+      question_type = _row.question_type,
+      model_answer = _row.model_answer,
+      bank_item_id = _row.bank_item_id,
+      pool_id = _row.pool_id
+    WHERE id = _row.id AND assignment_id = _assignment_id;
+
+    IF NOT FOUND THEN
+      INSERT INTO questions (
+        assignment_id, text, options, correct_answer, correct_answers, scoring_mode, numeric_answer,
+        numeric_tolerance, tolerance_type, accept_fractions, accepted_answers, answer_patterns,
+        case_sensitive, normalize_whitespace, ignore_spacing, points, explanation, order_number,
+        question_type, model_answer, bank_item_id, pool_id
+      )
+      VALUES (
+        _assignment_id, _row.text, _row.options, _row.correct_answer, _row.correct_answers, _row.scoring_mode, _row.numeric_answer,
+        _row.numeric_tolerance, _row.tolerance_type, _row.accept_fractions, _row.accepted_answers, _row.answer_patterns,
+        _row.case_sensitive, _row.normalize_whitespace, _row.ignore_spacing, _row.points, _row.explanation, _row.order_number,
+        _row.question_type, _row.model_answer, _row.bank_item_id, _row.pool_id
+      );
+    END IF;
+  END LOOP;
+
+  -- Removed pools go last, once none of the saved questions point at them
+  DELETE FROM question_pools p
+  WHERE p.assignment_id = _assignment_id
+    AND p.id::text NOT IN (SELECT value FROM jsonb_each_text(_pool_ids));
+
+  -- Stored answers and scores were graded against the old key
+  IF _regrade THEN
+    RETURN QUERY SELECT * FROM regrade_assignment(_assignment_id);
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.update_assignment(uuid, jsonb, jsonb, jsonb, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_assignment(uuid, jsonb, jsonb, jsonb, boolean) TO authenticated;
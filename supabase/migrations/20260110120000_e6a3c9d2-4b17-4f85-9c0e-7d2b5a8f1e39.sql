@@ -0,0 +1,38 @@
+-- Internal helpers of the attempt and submission functions. They run with the owner's rights and
+-- check nothing themselves, so callers could draw from any assignment's pools, list another
+-- submission's questions or read another student's extended due date. Only the functions that
+-- use them may call them now.
+REVOKE EXECUTE ON FUNCTION public.draw_attempt_questions(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.submission_question_ids(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.student_due_date(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- The student list shows how many questions each assignment asks; only students it is assigned
+-- to and its staff may see that
+CREATE OR REPLACE FUNCTION public.assignment_question_count(_assignment_id uuid)
+ RETURNS integer
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = auth.uid()
+  ) AND NOT COALESCE(can_manage_assignment(_assignment_id, auth.uid()), false) THEN
+    RAISE EXCEPTION 'Not allowed to view this assignment';
+  END IF;
+
+  RETURN (
+    (SELECT COUNT(*) FROM questions q WHERE q.assignment_id = _assignment_id AND q.pool_id IS NULL) +
+    COALESCE((
+      SELECT SUM(LEAST(p.draw_count, (SELECT COUNT(*) FROM questions q WHERE q.pool_id = p.id)))
+      FROM question_pools p
+      WHERE p.assignment_id = _assignment_id
+    ), 0)
+  )::integer;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.assignment_question_count(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assignment_question_count(uuid) TO authenticated;
@@ -0,0 +1,178 @@
+-- Offline submissions could only keep their time when the attempt autosaved within five minutes
+-- before it, which autosave cannot do while the student is offline. The time the student pressed
+-- submit is now bounded by what the server knows instead: the attempt's last autosave (or start),
+-- the availability window, and at most a day between pressing submit and arrival.
+-- submitted_at_reported marks submissions judged by that client-reported time, so staff can tell
+-- them apart from ones judged on arrival (received_at).
+ALTER TABLE public.submissions
+  ADD COLUMN submitted_at_reported boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.record_submission(
+  _assignment_id uuid,
+  _student_id uuid,
+  _answers jsonb,
+  _submitted_at timestamp with time zone DEFAULT NULL,
+  _attempt_id uuid DEFAULT NULL
+)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _assignment assignments%ROWTYPE;
+  _attempts integer;
+  _open_attempt_id uuid;
+  _started_at timestamp with time zone;
+  _saved_at timestamp with time zone;
+  _last_seen timestamp with time zone;
+  _submitted_at_reported boolean := false;
+  _at timestamp with time zone;
+  _question_ids uuid[];
+  _question_count integer;
+  _max_score numeric;
+  _submission_id uuid;
+  _answer jsonb;
+  _question questions%ROWTYPE;
+  _selected integer;
+  _selected_set integer[];
+  _text text;
+  _due_date timestamp with time zone;
+  _days_late integer := 0;
+  _late_penalty numeric := 0;
+  _deadline timestamp with time zone;
+  _time_expired boolean := false;
+  _draft_answers jsonb;
+BEGIN
+  -- Serialize submissions of the same student for the same assignment so max_attempts holds
+  PERFORM pg_advisory_xact_lock(hashtext(_assignment_id::text || ':' || _student_id::text));
+
+  SELECT * INTO _assignment FROM assignments WHERE id = _assignment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'assignment_not_found';
+  END IF;
+
+  IF _assignment.assignment_type <> 'quiz' THEN
+    RAISE EXCEPTION 'invalid_assignment_type';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM student_assignments sa
+    WHERE sa.assignment_id = _assignment_id AND sa.student_id = _student_id
+  ) THEN
+    RAISE EXCEPTION 'not_assigned';
+  END IF;
+
+  -- The open attempt keeps the question order the student saw; with pools or a time limit it
+  -- is required, and answers are checked against the questions drawn for it
+  SELECT a.id, a.question_ids, a.deadline, a.draft_answers, a.created_at, a.saved_at
+  INTO _open_attempt_id, _question_ids, _deadline, _draft_answers, _started_at, _saved_at
+  FROM assignment_attempts a
+  WHERE a.assignment_id = _assignment_id AND a.student_id = _student_id AND a.submission_id IS NULL;
+
+  -- A queued submission names the attempt it answers; once that one is submitted (from
+  -- another device) the queued answers are stale
+  IF _attempt_id IS NOT NULL AND _attempt_id IS DISTINCT FROM _open_attempt_id THEN
+    RAISE EXCEPTION 'attempt_already_submitted';
+  END IF;
+
+  -- When the student pressed submit. Queued offline submissions carry it for an open attempt; it
+  -- is never taken before the attempt's last autosave (or start), more than a day before it
+  -- arrived, or after now, and the availability window is checked at it below
+  _last_seen := COALESCE(_saved_at, _started_at);
+  IF _submitted_at IS NOT NULL AND _last_seen IS NOT NULL THEN
+    _at := LEAST(GREATEST(_submitted_at, _last_seen, now() - interval '24 hours'), now());
+    _submitted_at_reported := _at < now();
+  ELSE
+    _at := now();
+  END IF;
+
+  PERFORM assert_assignment_open(_assignment_id, _at);
+  PERFORM assert_not_past_due(_assignment_id, _student_id, _at);
+
+  -- Started days past the student's due date; a penalty policy takes a share of the score for each
+  _due_date := student_due_date(_assignment_id, _student_id);
+  IF _due_date IS NOT NULL AND _at > _due_date THEN
+    _days_late := CEIL(EXTRACT(EPOCH FROM _at - _due_date) / 86400)::integer;
+  END IF;
+  IF _assignment.late_policy = 'penalty' THEN
+    _late_penalty := LEAST(100, _days_late * _assignment.late_penalty_per_day);
+  END IF;
+
+  SELECT COUNT(*) INTO _attempts
+  FROM submissions s
+  WHERE s.assignment_id = _assignment_id AND s.student_id = _student_id;
+
+  IF _attempts > 0 AND (NOT _assignment.is_resubmittable OR (_assignment.max_attempts IS NOT NULL AND _attempts >= _assignment.max_attempts)) THEN
+    RAISE EXCEPTION 'max_attempts_reached';
+  END IF;
+
+  IF _open_attempt_id IS NULL AND (assignment_has_pools(_assignment_id) OR _assignment.time_limit_minutes IS NOT NULL) THEN
+    RAISE EXCEPTION 'attempt_not_started';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(q.points), 0) INTO _question_count, _max_score
+  FROM questions q
+  WHERE q.assignment_id = _assignment_id
+    AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+
+  -- Answers arriving after the attempt's deadline plus a short grace period for the automatic
+  -- submission in transit are replaced by the attempt's last autosave, which save_attempt_draft
+  -- only accepts before that point. Arrival is now(), whatever time the client reports.
+  _time_expired := _deadline IS NOT NULL AND now() > _deadline + interval '30 seconds';
+
+  INSERT INTO submissions (assignment_id, student_id, score, total_questions, max_score, days_late, late_penalty, time_expired, submitted_at, submitted_at_reported)
+  VALUES (_assignment_id, _student_id, 0, _question_count, _max_score, _days_late, _late_penalty, _time_expired, _at, _submitted_at_reported)
+  RETURNING id INTO _submission_id;
+
+  IF _open_attempt_id IS NOT NULL THEN
+    UPDATE assignment_attempts SET submission_id = _submission_id WHERE id = _open_attempt_id;
+  END IF;
+
+  FOR _answer IN SELECT * FROM jsonb_array_elements(CASE WHEN _time_expired THEN _draft_answers ELSE COALESCE(_answers, '[]'::jsonb) END)
+  LOOP
+    SELECT * INTO _question
+    FROM questions q
+    WHERE q.id = (_answer->>'question_id')::uuid
+      AND q.assignment_id = _assignment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids));
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_answer';
+    END IF;
+
+    _selected := NULL;
+    _selected_set := NULL;
+    _text := NULL;
+    IF _question.question_type = 'multiple_choice' THEN
+      _selected := (_answer->>'selected_answer')::integer;
+      IF _selected IS NOT NULL AND (_selected < 0 OR _selected >= jsonb_array_length(_question.options)) THEN
+        RAISE EXCEPTION 'invalid_answer';
+      END IF;
+    ELSIF _question.question_type = 'multiple_select' THEN
+      IF jsonb_typeof(_answer->'selected_answers') = 'array' THEN
+        SELECT ARRAY(
+          SELECT DISTINCT value::integer
+          FROM jsonb_array_elements_text(_answer->'selected_answers')
+          ORDER BY 1
+        ) INTO _selected_set;
+        IF NOT option_indexes_valid(_selected_set, jsonb_array_length(_question.options)) THEN
+          RAISE EXCEPTION 'invalid_answer';
+        END IF;
+        _selected_set := NULLIF(_selected_set, '{}');
+      END IF;
+    ELSE
+      _text := NULLIF(btrim(_answer->>'text_answer'), '');
+    END IF;
+
+    IF _selected IS NOT NULL OR _selected_set IS NOT NULL OR _text IS NOT NULL THEN
+      INSERT INTO student_answers (submission_id, question_id, selected_answer, selected_answers, text_answer)
+      VALUES (_submission_id, _question.id, _selected, _selected_set, _text);
+    END IF;
+  END LOOP;
+
+  PERFORM grade_submission_answers(_submission_id);
+  PERFORM recalculate_submission_score(_submission_id);
+
+  RETURN get_submission_results(_submission_id);
+END;
+$function$;
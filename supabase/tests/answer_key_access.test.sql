@@ -0,0 +1,232 @@
+-- Answer-key access: run with `supabase test db`
+BEGIN;
+SELECT plan(25);
+
+-- Fixtures: an instructor, an assigned student, and a fresh unassigned student
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor@test.local'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student@test.local'),
+  ('00000000-0000-0000-0000-0000000000b2', 'fresh@test.local');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student'),
+  ('00000000-0000-0000-0000-0000000000b2', 'student');
+
+INSERT INTO public.assignments (id, title, instructor_id, answer_reveal_policy) VALUES
+  ('00000000-0000-0000-0000-00000000c001', 'Reveal after submission', '00000000-0000-0000-0000-0000000000a1', 'immediately'),
+  ('00000000-0000-0000-0000-00000000c002', 'Never reveal', '00000000-0000-0000-0000-0000000000a1', 'never');
+
+INSERT INTO public.assignments (id, title, instructor_id, answer_reveal_policy, due_date) VALUES
+  ('00000000-0000-0000-0000-00000000c003', 'Reveal after due date', '00000000-0000-0000-0000-0000000000a1', 'after_due_date', now() + interval '7 days');
+
+INSERT INTO public.assignments (id, title, instructor_id, answer_reveal_policy, reveal_correct_option, reveal_explanation) VALUES
+  ('00000000-0000-0000-0000-00000000c004', 'Explanation only', '00000000-0000-0000-0000-0000000000a1', 'immediately', false, true);
+
+INSERT INTO public.assignments (id, title, instructor_id, answer_reveal_policy) VALUES
+  ('00000000-0000-0000-0000-00000000c005', 'Multiple select, never revealed', '00000000-0000-0000-0000-0000000000a1', 'never');
+
+INSERT INTO public.questions (assignment_id, text, options, correct_answer, explanation, order_number) VALUES
+  ('00000000-0000-0000-0000-00000000c001', 'Q1', '["1","2","3","4","5"]', 2, 'because', 0),
+  ('00000000-0000-0000-0000-00000000c002', 'Q1', '["1","2","3","4","5"]', 3, 'because', 0),
+  ('00000000-0000-0000-0000-00000000c003', 'Q1', '["1","2","3","4","5"]', 1, 'because', 0),
+  ('00000000-0000-0000-0000-00000000c004', 'Q1', '["1","2","3","4","5"]', 4, 'because', 0);
+
+INSERT INTO public.questions (assignment_id, text, options, correct_answers, question_type, order_number) VALUES
+  ('00000000-0000-0000-0000-00000000c005', 'Q1', '["a","b","c"]', '{0,2}', 'multiple_select', 0);
+
+INSERT INTO public.questions (assignment_id, text, options, numeric_answer, numeric_tolerance, question_type, order_number) VALUES
+  ('00000000-0000-0000-0000-00000000c005', 'Q2', '[]', 0.75, 0.01, 'numeric', 1);
+
+INSERT INTO public.questions (assignment_id, text, options, accepted_answers, question_type, order_number) VALUES
+  ('00000000-0000-0000-0000-00000000c005', 'Q3', '[]', '{서울,서울특별시}', 'short_answer', 2);
+
+INSERT INTO public.student_assignments (assignment_id, student_id) VALUES
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c003', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c004', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c005', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000b2');
+
+-- A fresh student account cannot read the key
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000b2","role":"authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT correct_answer FROM public.questions $$,
+  'fresh student cannot select from questions directly'
+);
+
+SELECT is(
+  (SELECT correct_answer FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c001', true)),
+  NULL,
+  'fresh student gets no correct_answer even with _include_answers = true'
+);
+
+SELECT is(
+  (SELECT explanation FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c001', true)),
+  NULL,
+  'fresh student gets no explanation even with _include_answers = true'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c002', true)),
+  0,
+  'unassigned student cannot list questions of another assignment'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.submissions (assignment_id, student_id, score, total_questions)
+     VALUES ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000b2', 1, 1) $$,
+  '42501',
+  NULL,
+  'students cannot insert submissions directly'
+);
+
+-- Assigned student, before and after submitting
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000b1","role":"authenticated"}', true);
+
+SELECT is(
+  (SELECT correct_answer FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c001', true)),
+  NULL,
+  'assigned student cannot read the key before submitting'
+);
+
+RESET ROLE;
+INSERT INTO public.submissions (id, assignment_id, student_id, score, total_questions) VALUES
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000b1', 1, 1);
+
+INSERT INTO public.submissions (assignment_id, student_id, score, total_questions) VALUES
+  ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-0000000000b1', 1, 1),
+  ('00000000-0000-0000-0000-00000000c003', '00000000-0000-0000-0000-0000000000b1', 1, 1),
+  ('00000000-0000-0000-0000-00000000c004', '00000000-0000-0000-0000-0000000000b1', 1, 1),
+  ('00000000-0000-0000-0000-00000000c005', '00000000-0000-0000-0000-0000000000b1', 1, 1);
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000b1","role":"authenticated"}', true);
+
+SELECT is(
+  (SELECT correct_answer FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c001')),
+  2,
+  'student sees the key after their own submission when the policy allows it'
+);
+
+SELECT is(
+  (public.get_submission_results('00000000-0000-0000-0000-0000000000f1') ->> 'submission_id')::uuid,
+  '00000000-0000-0000-0000-0000000000f1'::uuid,
+  'student can read the results of their own submission'
+);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.start_assignment_attempt('00000000-0000-0000-0000-00000000c001') $$,
+  'max_attempts_reached',
+  'no new attempt starts once every submission has been used'
+);
+
+SELECT is(
+  (SELECT correct_answer FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c002', true)),
+  NULL,
+  'student never sees the key when the policy is never'
+);
+
+SELECT is_empty(
+  $$ SELECT correct_answer FROM public.questions $$,
+  'student still cannot select from questions directly after submitting'
+);
+
+SELECT is(
+  (SELECT correct_answer FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c003')),
+  NULL,
+  'key stays hidden before the due date when revealed after the due date'
+);
+
+SELECT is(
+  (SELECT correct_answer FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c004')),
+  NULL,
+  'correct option stays hidden when the assignment does not reveal it'
+);
+
+SELECT is(
+  (SELECT explanation FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c004')),
+  'because',
+  'explanation is shown when the assignment reveals it'
+);
+
+SELECT is(
+  (SELECT correct_answers FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c005') WHERE question_type = 'multiple_select'),
+  NULL,
+  'multiple-select key stays hidden when the policy is never'
+);
+
+SELECT is(
+  (SELECT numeric_answer FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c005') WHERE question_type = 'numeric'),
+  NULL,
+  'numeric key stays hidden when the policy is never'
+);
+
+SELECT is(
+  (SELECT accepted_answers FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c005') WHERE question_type = 'short_answer'),
+  NULL,
+  'short-answer key stays hidden when the policy is never'
+);
+
+-- Another student's submission does not unlock the key or its results
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000b2","role":"authenticated"}', true);
+
+SELECT is(
+  (SELECT correct_answer FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c001')),
+  NULL,
+  'another student''s submission does not reveal the key'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.get_submission_results('00000000-0000-0000-0000-0000000000f1') $$,
+  'Not allowed to view this submission',
+  'another student cannot read the results of a submission'
+);
+
+SELECT set_config('request.jwt.claims', '{"role":"authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.get_submission_results('00000000-0000-0000-0000-0000000000f1') $$,
+  'Not allowed to view this submission',
+  'a call without a user is not treated as the service role'
+);
+
+-- Staff always see the key
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000a1","role":"authenticated"}', true);
+
+SELECT is(
+  (SELECT correct_answer FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c002')),
+  3,
+  'owning instructor sees the key'
+);
+
+SELECT is(
+  (SELECT correct_answers FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c005') WHERE question_type = 'multiple_select'),
+  '{0,2}'::integer[],
+  'owning instructor sees the multiple-select key'
+);
+
+SELECT is(
+  (SELECT numeric_answer FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c005') WHERE question_type = 'numeric'),
+  0.75::numeric,
+  'owning instructor sees the numeric key'
+);
+
+SELECT is(
+  (SELECT accepted_answers FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c005') WHERE question_type = 'short_answer'),
+  '{서울,서울특별시}'::text[],
+  'owning instructor sees the short-answer key'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.questions WHERE assignment_id = '00000000-0000-0000-0000-00000000c002'),
+  1,
+  'owning instructor can read questions directly'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
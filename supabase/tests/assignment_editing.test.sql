@@ -0,0 +1,97 @@
+-- Editing assignments: run with `supabase test db`
+BEGIN;
+SELECT plan(7);
+
+-- Fixtures: an instructor, a student, and a pooled assignment the student answered wrongly
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor@test.local'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student@test.local');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student');
+
+INSERT INTO public.assignments (id, title, instructor_id) VALUES
+  ('00000000-0000-0000-0000-00000000c001', 'Original', '00000000-0000-0000-0000-0000000000a1');
+
+INSERT INTO public.question_pools (id, assignment_id, name, draw_count) VALUES
+  ('00000000-0000-0000-0000-00000000d001', '00000000-0000-0000-0000-00000000c001', 'Pool A', 1);
+
+INSERT INTO public.questions (id, assignment_id, pool_id, text, options, correct_answer, order_number) VALUES
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000c001', NULL, 'Fixed', '["1","2"]', 0, 0),
+  ('00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-00000000d001', 'Pooled', '["1","2"]', 0, 1),
+  ('00000000-0000-0000-0000-0000000000e3', '00000000-0000-0000-0000-00000000c001', NULL, 'Removed', '["1","2"]', 0, 2);
+
+INSERT INTO public.student_assignments (assignment_id, student_id) VALUES
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000b1');
+
+INSERT INTO public.submissions (id, assignment_id, student_id, score, total_questions) VALUES
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000b1', 0, 3);
+
+INSERT INTO public.student_answers (submission_id, question_id, selected_answer, is_correct) VALUES
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000e1', 1, false);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000b1","role":"authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.update_assignment('00000000-0000-0000-0000-00000000c001', '{"title":"Mine"}', '[]', '[]') $$,
+  'Not allowed to edit this assignment',
+  'student cannot edit an assignment'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000a1","role":"authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.update_assignment('00000000-0000-0000-0000-00000000c001',
+       (SELECT to_jsonb(a) || '{"title":"Half edited"}' FROM public.assignments a WHERE a.id = '00000000-0000-0000-0000-00000000c001'),
+       '[]',
+       '[{"text":"No points","options":["1","2"],"correct_answer":0,"order_number":0}]') $$,
+  '23502',
+  NULL,
+  'an edit with an invalid question fails'
+);
+
+SELECT is(
+  (SELECT title FROM public.assignments WHERE id = '00000000-0000-0000-0000-00000000c001'),
+  'Original',
+  'a failed edit leaves the assignment unchanged'
+);
+
+-- Change the key of the fixed question, remove one question, and move the pooled one to a new pool
+SELECT is(
+  (SELECT new_score FROM public.update_assignment(
+    '00000000-0000-0000-0000-00000000c001',
+    (SELECT to_jsonb(a) || '{"title":"Edited"}' FROM public.assignments a WHERE a.id = '00000000-0000-0000-0000-00000000c001'),
+    '[{"key":"new","name":"Pool B","draw_count":1,"order_number":0}]',
+    (SELECT jsonb_agg(to_jsonb(q) || CASE WHEN q.pool_id IS NULL THEN '{"correct_answer":1}' ELSE '{"pool_key":"new"}' END::jsonb ORDER BY q.order_number)
+     FROM public.questions q
+     WHERE q.id IN ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000e2')),
+    true)),
+  1::numeric,
+  'an edit that changes the key regrades existing submissions'
+);
+
+SELECT is(
+  (SELECT title FROM public.assignments WHERE id = '00000000-0000-0000-0000-00000000c001'),
+  'Edited',
+  'an edit saves the assignment settings'
+);
+
+SELECT is(
+  (SELECT array_agg(id ORDER BY order_number) FROM public.questions WHERE assignment_id = '00000000-0000-0000-0000-00000000c001'),
+  '{00000000-0000-0000-0000-0000000000e1,00000000-0000-0000-0000-0000000000e2}'::uuid[],
+  'edited questions keep their ids and removed questions are deleted'
+);
+
+SELECT is(
+  (SELECT p.name FROM public.question_pools p
+   JOIN public.questions q ON q.pool_id = p.id
+   WHERE p.assignment_id = '00000000-0000-0000-0000-00000000c001' AND q.id = '00000000-0000-0000-0000-0000000000e2'
+     AND NOT EXISTS (SELECT 1 FROM public.question_pools WHERE id = '00000000-0000-0000-0000-00000000d001')),
+  'Pool B',
+  'questions move to new pools and removed pools are deleted'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,69 @@
+-- Availability windows and late work: run with `supabase test db`
+BEGIN;
+SELECT plan(5);
+
+-- Fixtures: an instructor and an assigned student
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor@test.local'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student@test.local');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student');
+
+-- Assignments outside their availability window: one not yet open, one already closed
+INSERT INTO public.assignments (id, title, instructor_id, available_from, available_until) VALUES
+  ('00000000-0000-0000-0000-00000000c008', 'Scheduled', '00000000-0000-0000-0000-0000000000a1', now() + interval '1 day', NULL),
+  ('00000000-0000-0000-0000-00000000c009', 'Closed', '00000000-0000-0000-0000-0000000000a1', NULL, now() - interval '1 day');
+
+INSERT INTO public.questions (assignment_id, text, options, correct_answer, order_number) VALUES
+  ('00000000-0000-0000-0000-00000000c008', 'Scheduled 1', '["1","2"]', 0, 0),
+  ('00000000-0000-0000-0000-00000000c009', 'Closed 1', '["1","2"]', 0, 0);
+
+-- Past due and closed to late work; the second one has been extended for the student
+INSERT INTO public.assignments (id, title, instructor_id, due_date, late_policy) VALUES
+  ('00000000-0000-0000-0000-00000000c010', 'Past due', '00000000-0000-0000-0000-0000000000a1', now() - interval '1 day', 'close'),
+  ('00000000-0000-0000-0000-00000000c011', 'Past due, extended', '00000000-0000-0000-0000-0000000000a1', now() - interval '1 day', 'close');
+
+INSERT INTO public.student_assignments (assignment_id, student_id) VALUES
+  ('00000000-0000-0000-0000-00000000c008', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c009', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c010', '00000000-0000-0000-0000-0000000000b1');
+
+INSERT INTO public.student_assignments (assignment_id, student_id, extended_due_date) VALUES
+  ('00000000-0000-0000-0000-00000000c011', '00000000-0000-0000-0000-0000000000b1', now() + interval '1 day');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000b1","role":"authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c008')),
+  0,
+  'a scheduled assignment lists no questions before it opens'
+);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.start_assignment_attempt('00000000-0000-0000-0000-00000000c008') $$,
+  'assignment_not_open',
+  'a scheduled assignment cannot be started'
+);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.start_assignment_attempt('00000000-0000-0000-0000-00000000c009') $$,
+  'assignment_closed',
+  'a closed assignment cannot be started'
+);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.start_assignment_attempt('00000000-0000-0000-0000-00000000c010') $$,
+  'past_due',
+  'an assignment closed to late work cannot be started after the due date'
+);
+
+SELECT lives_ok(
+  $$ SELECT * FROM public.start_assignment_attempt('00000000-0000-0000-0000-00000000c011') $$,
+  'an extended due date lets the student start'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
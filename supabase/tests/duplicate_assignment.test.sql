@@ -0,0 +1,60 @@
+-- Duplicating assignments: run with `supabase test db`
+BEGIN;
+SELECT plan(4);
+
+-- Fixtures: an instructor, an assigned student, and a pooled assignment
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor@test.local'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student@test.local');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student');
+
+INSERT INTO public.assignments (id, title, instructor_id, answer_reveal_policy) VALUES
+  ('00000000-0000-0000-0000-00000000c006', 'Pooled', '00000000-0000-0000-0000-0000000000a1', 'never');
+
+INSERT INTO public.question_pools (id, assignment_id, name, draw_count) VALUES
+  ('00000000-0000-0000-0000-00000000d006', '00000000-0000-0000-0000-00000000c006', 'Pool A', 1);
+
+INSERT INTO public.questions (assignment_id, pool_id, text, options, correct_answer, order_number) VALUES
+  ('00000000-0000-0000-0000-00000000c006', NULL, 'Fixed', '["1","2"]', 0, 0),
+  ('00000000-0000-0000-0000-00000000c006', '00000000-0000-0000-0000-00000000d006', 'Pooled 1', '["1","2"]', 0, 1),
+  ('00000000-0000-0000-0000-00000000c006', '00000000-0000-0000-0000-00000000d006', 'Pooled 2', '["1","2"]', 1, 2);
+
+INSERT INTO public.student_assignments (assignment_id, student_id) VALUES
+  ('00000000-0000-0000-0000-00000000c006', '00000000-0000-0000-0000-0000000000b1');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000b1","role":"authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.duplicate_assignment('00000000-0000-0000-0000-00000000c006', '00000000-0000-0000-0000-0000000000b1', 'Copy', NULL, '{}') $$,
+  'Not allowed to duplicate this assignment',
+  'student cannot duplicate an assignment'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000a1","role":"authenticated"}', true);
+
+SELECT lives_ok(
+  $$ SELECT public.duplicate_assignment('00000000-0000-0000-0000-00000000c006', '00000000-0000-0000-0000-0000000000a1', 'Pooled copy', NULL, '{00000000-0000-0000-0000-0000000000b1}') $$,
+  'owning instructor can duplicate an assignment'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.questions q
+   JOIN public.assignments a ON a.id = q.assignment_id
+   JOIN public.question_pools p ON p.id = q.pool_id AND p.assignment_id = a.id
+   WHERE a.title = 'Pooled copy'),
+  2,
+  'duplicating copies questions into the copy''s own pools'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.student_assignments sa JOIN public.assignments a ON a.id = sa.assignment_id WHERE a.title = 'Pooled copy'),
+  1,
+  'duplicating assigns the chosen students'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,90 @@
+-- Queued offline submissions: run with `supabase test db`
+BEGIN;
+SELECT plan(6);
+
+-- Fixtures: an instructor and an assigned student
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor@test.local'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student@test.local');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student');
+
+-- Late work loses 10% a day; the student started each attempt before the due date and submitted offline
+INSERT INTO public.assignments (id, title, instructor_id, due_date, late_policy, late_penalty_per_day, available_until) VALUES
+  ('00000000-0000-0000-0000-00000000c013', 'Queued offline', '00000000-0000-0000-0000-0000000000a1', now() - interval '1 hour', 'penalty', 10, NULL),
+  ('00000000-0000-0000-0000-00000000c014', 'Saved after the due date', '00000000-0000-0000-0000-0000000000a1', now() - interval '1 day', 'penalty', 10, NULL),
+  ('00000000-0000-0000-0000-00000000c015', 'Sent more than a day later', '00000000-0000-0000-0000-0000000000a1', now() - interval '30 hours', 'penalty', 10, NULL),
+  ('00000000-0000-0000-0000-00000000c016', 'Submitted during an outage', '00000000-0000-0000-0000-0000000000a1', now() - interval '10 minutes', 'penalty', 10, NULL),
+  ('00000000-0000-0000-0000-00000000c017', 'Submitted after closing', '00000000-0000-0000-0000-0000000000a1', NULL, 'penalty', 10, now() - interval '10 minutes');
+
+INSERT INTO public.questions (assignment_id, text, options, correct_answer, order_number) VALUES
+  ('00000000-0000-0000-0000-00000000c013', 'Offline 1', '["1","2"]', 0, 0),
+  ('00000000-0000-0000-0000-00000000c014', 'Offline 1', '["1","2"]', 0, 0),
+  ('00000000-0000-0000-0000-00000000c015', 'Offline 1', '["1","2"]', 0, 0),
+  ('00000000-0000-0000-0000-00000000c016', 'Offline 1', '["1","2"]', 0, 0),
+  ('00000000-0000-0000-0000-00000000c017', 'Offline 1', '["1","2"]', 0, 0);
+
+INSERT INTO public.student_assignments (assignment_id, student_id) VALUES
+  ('00000000-0000-0000-0000-00000000c013', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c014', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c015', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c016', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c017', '00000000-0000-0000-0000-0000000000b1');
+
+INSERT INTO public.assignment_attempts (assignment_id, student_id, created_at, saved_at) VALUES
+  ('00000000-0000-0000-0000-00000000c013', '00000000-0000-0000-0000-0000000000b1', now() - interval '3 hours', NULL),
+  ('00000000-0000-0000-0000-00000000c014', '00000000-0000-0000-0000-0000000000b1', now() - interval '2 days', now() - interval '1 hour'),
+  ('00000000-0000-0000-0000-00000000c015', '00000000-0000-0000-0000-0000000000b1', now() - interval '3 days', now() - interval '2 days'),
+  ('00000000-0000-0000-0000-00000000c016', '00000000-0000-0000-0000-0000000000b1', now() - interval '1 hour', now() - interval '25 minutes'),
+  ('00000000-0000-0000-0000-00000000c017', '00000000-0000-0000-0000-0000000000b1', now() - interval '1 hour', now() - interval '30 minutes');
+
+-- Submissions are recorded by the submit-assignment function with the service role
+SELECT set_config('request.jwt.claims', '{"role":"service_role"}', true);
+
+SELECT is(
+  (public.record_submission('00000000-0000-0000-0000-00000000c013', '00000000-0000-0000-0000-0000000000b1', '[]',
+    now() - interval '10 days') ->> 'days_late')::integer,
+  0,
+  'a queued submission is judged by when it was made, but never before its attempt started'
+);
+
+SELECT is(
+  (public.record_submission('00000000-0000-0000-0000-00000000c014', '00000000-0000-0000-0000-0000000000b1', '[]',
+    now() - interval '2 days') ->> 'days_late')::integer,
+  1,
+  'a queued submission is never judged before the attempt''s last autosave'
+);
+
+SELECT is(
+  (public.record_submission('00000000-0000-0000-0000-00000000c015', '00000000-0000-0000-0000-0000000000b1', '[]',
+    now() - interval '40 hours') ->> 'days_late')::integer,
+  1,
+  'a queued submission is never judged more than a day before it arrived'
+);
+
+-- The connection dropped for 20 minutes right after the autosave 25 minutes ago; the student
+-- pressed submit 11 minutes ago, just before the due date, and the queue sent it once back online
+SELECT is(
+  (public.record_submission('00000000-0000-0000-0000-00000000c016', '00000000-0000-0000-0000-0000000000b1', '[]',
+    now() - interval '11 minutes') ->> 'days_late')::integer,
+  0,
+  'a submission made during a 20-minute outage keeps its time'
+);
+
+SELECT is(
+  (SELECT submitted_at_reported FROM public.submissions WHERE assignment_id = '00000000-0000-0000-0000-00000000c016'),
+  true,
+  'a submission judged by its reported time is marked for staff'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.record_submission('00000000-0000-0000-0000-00000000c017', '00000000-0000-0000-0000-0000000000b1', '[]',
+       now() - interval '5 minutes') $$,
+  'assignment_closed',
+  'a reported time after the availability window closed is refused'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
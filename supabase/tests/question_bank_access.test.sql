@@ -0,0 +1,34 @@
+-- Question bank access: run with `supabase test db`
+BEGIN;
+SELECT plan(2);
+
+-- Fixtures: an instructor with one bank item, and a student
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor@test.local'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student@test.local');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student');
+
+INSERT INTO public.question_bank_items (instructor_id, text, options, correct_answer, topic) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'Bank Q1', '["1","2","3"]', 1, 'arithmetic');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000b1","role":"authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT correct_answer FROM public.question_bank_items $$,
+  'student cannot read the instructor''s question bank'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000a1","role":"authenticated"}', true);
+
+SELECT is(
+  (SELECT correct_answer FROM public.question_bank_items WHERE text = 'Bank Q1'),
+  1,
+  'instructor can read their own question bank'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,117 @@
+-- Per-attempt question sets: run with `supabase test db`
+BEGIN;
+SELECT plan(11);
+
+-- Fixtures: an instructor, an assigned student and a student of another class
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor@test.local'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student@test.local'),
+  ('00000000-0000-0000-0000-0000000000b2', 'other@test.local');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student'),
+  ('00000000-0000-0000-0000-0000000000b2', 'student');
+
+-- Pooled assignment: one fixed question, plus one drawn from a pool of two
+INSERT INTO public.assignments (id, title, instructor_id, answer_reveal_policy) VALUES
+  ('00000000-0000-0000-0000-00000000c006', 'Pooled', '00000000-0000-0000-0000-0000000000a1', 'never');
+
+INSERT INTO public.question_pools (id, assignment_id, name, draw_count) VALUES
+  ('00000000-0000-0000-0000-00000000d006', '00000000-0000-0000-0000-00000000c006', 'Pool A', 1);
+
+INSERT INTO public.questions (assignment_id, pool_id, text, options, correct_answer, order_number) VALUES
+  ('00000000-0000-0000-0000-00000000c006', NULL, 'Fixed', '["1","2"]', 0, 0),
+  ('00000000-0000-0000-0000-00000000c006', '00000000-0000-0000-0000-00000000d006', 'Pooled 1', '["1","2"]', 0, 1),
+  ('00000000-0000-0000-0000-00000000c006', '00000000-0000-0000-0000-00000000d006', 'Pooled 2', '["1","2"]', 1, 2);
+
+-- Shuffled assignment without pools
+INSERT INTO public.assignments (id, title, instructor_id, answer_reveal_policy, shuffle_questions) VALUES
+  ('00000000-0000-0000-0000-00000000c007', 'Shuffled', '00000000-0000-0000-0000-0000000000a1', 'never', true);
+
+INSERT INTO public.questions (assignment_id, text, options, correct_answer, order_number) VALUES
+  ('00000000-0000-0000-0000-00000000c007', 'Shuffled 1', '["1","2"]', 0, 0),
+  ('00000000-0000-0000-0000-00000000c007', 'Shuffled 2', '["1","2"]', 1, 1);
+
+INSERT INTO public.student_assignments (assignment_id, student_id) VALUES
+  ('00000000-0000-0000-0000-00000000c006', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c007', '00000000-0000-0000-0000-0000000000b1');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000b1","role":"authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c006')),
+  0,
+  'pooled questions are not listed before the attempt starts'
+);
+
+SELECT is(
+  public.assignment_question_count('00000000-0000-0000-0000-00000000c006'),
+  2,
+  'assigned student counts the fixed question and the pool draw'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.draw_attempt_questions('00000000-0000-0000-0000-00000000c006') $$,
+  '42501',
+  NULL,
+  'student cannot draw questions outside an attempt'
+);
+
+SELECT is(
+  (SELECT array_length(question_ids, 1) FROM public.start_assignment_attempt('00000000-0000-0000-0000-00000000c006')),
+  2,
+  'starting an attempt draws the fixed question and one pooled question'
+);
+
+SELECT is(
+  (SELECT question_ids FROM public.start_assignment_attempt('00000000-0000-0000-0000-00000000c006')),
+  (SELECT question_ids FROM public.assignment_attempts WHERE assignment_id = '00000000-0000-0000-0000-00000000c006'),
+  'restarting an open attempt keeps the same questions'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c006')),
+  2,
+  'student lists only the questions drawn for their attempt'
+);
+
+SELECT isnt(
+  (SELECT question_seed FROM public.start_assignment_attempt('00000000-0000-0000-0000-00000000c007')),
+  NULL,
+  'a shuffled assignment stores a question seed on the attempt'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c007')),
+  2,
+  'a shuffled assignment without pools lists every question'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.student_due_date('00000000-0000-0000-0000-00000000c006', '00000000-0000-0000-0000-0000000000b1') $$,
+  '42501',
+  NULL,
+  'student cannot read due dates directly'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000b2","role":"authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.assignment_question_count('00000000-0000-0000-0000-00000000c006') $$,
+  'Not allowed to view this assignment',
+  'unassigned student cannot count the questions of an assignment'
+);
+
+-- Staff see the whole pool
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000a1","role":"authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.get_assignment_questions('00000000-0000-0000-0000-00000000c006')),
+  3,
+  'owning instructor lists every pooled question'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
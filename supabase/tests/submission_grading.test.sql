@@ -0,0 +1,188 @@
+-- Grading answers and recalculating submission scores: run with `supabase test db`
+BEGIN;
+SELECT plan(14);
+
+-- Multiple-select scoring; src/lib/questionTypes.test.ts checks scoreMultipleSelect() with the same inputs
+SELECT is(
+  ARRAY[
+    public.multiple_select_points('{2,0}', '{0,2}', 'all_or_nothing'),
+    public.multiple_select_points('{0}', '{0,2}', 'all_or_nothing'),
+    public.multiple_select_points('{0,1,2}', '{0,2}', 'all_or_nothing')
+  ],
+  '{1,0,0}'::numeric[],
+  'all-or-nothing scores only the exact set of correct options, in any order'
+);
+
+SELECT is(
+  ARRAY[
+    public.multiple_select_points('{0}', '{0,2}', 'partial'),
+    public.multiple_select_points('{0,1}', '{0,2}', 'partial'),
+    public.multiple_select_points('{1,3}', '{0,2}', 'partial'),
+    public.multiple_select_points('{0,1,2}', '{0,2,3}', 'partial'),
+    public.multiple_select_points('{0,0,2}', '{0,2}', 'partial')
+  ],
+  '{0.5,0,0,0.33,1}'::numeric[],
+  'partial credit takes a wrong pick off a right one, never goes below zero and counts repeats once'
+);
+
+SELECT is(
+  ARRAY[
+    public.multiple_select_points(NULL, '{0,2}', 'partial'),
+    public.multiple_select_points('{}', '{0,2}', 'partial'),
+    public.multiple_select_points('{0}', '{}', 'partial')
+  ],
+  '{0,0,0}'::numeric[],
+  'no answer or an empty key scores nothing'
+);
+
+-- Numeric answers; src/lib/numericAnswer.test.ts checks isNumericAnswerCorrect() with the same inputs
+SELECT is(
+  ARRAY[
+    public.numeric_answer_correct('3.15', 3.14, 0.01, 'absolute', false),
+    public.numeric_answer_correct(' 3.13 ', 3.14, 0.01, 'absolute', false),
+    public.numeric_answer_correct('3.151', 3.14, 0.01, 'absolute', false),
+    public.numeric_answer_correct('0.4', 0.3, 0.1, 'absolute', false),
+    public.numeric_answer_correct('1e3', 1000, 0, 'absolute', false),
+    public.numeric_answer_correct('3.14abc', 3.14, 0.01, 'absolute', false),
+    public.numeric_answer_correct('', 0, 1, 'absolute', false),
+    public.numeric_answer_correct(NULL, 0, 1, 'absolute', false)
+  ],
+  '{t,t,f,t,t,f,f,f}'::boolean[],
+  'absolute tolerance includes its bounds and only plain numbers are read'
+);
+
+SELECT is(
+  ARRAY[
+    public.numeric_answer_correct('105', 100, 5, 'relative', false),
+    public.numeric_answer_correct('95', 100, 5, 'relative', false),
+    public.numeric_answer_correct('105.01', 100, 5, 'relative', false),
+    public.numeric_answer_correct('-180', -200, 10, 'relative', false),
+    public.numeric_answer_correct('-179', -200, 10, 'relative', false)
+  ],
+  '{t,t,f,t,f}'::boolean[],
+  'relative tolerance is a percentage of the expected value, also when it is negative'
+);
+
+SELECT is(
+  ARRAY[
+    public.numeric_answer_correct('3/4', 0.75, 0, 'absolute', true),
+    public.numeric_answer_correct(' 3 / 4 ', 0.75, 0, 'absolute', true),
+    public.numeric_answer_correct('-3/4', -0.75, 0, 'absolute', true),
+    public.numeric_answer_correct('1 1/2', 1.5, 0, 'absolute', true),
+    public.numeric_answer_correct('1/3', 0.333333333333, 0, 'absolute', true),
+    public.numeric_answer_correct('3/0', 0, 100, 'absolute', true),
+    public.numeric_answer_correct('3/4', 0.75, 0, 'absolute', false)
+  ],
+  '{t,t,t,t,t,f,f}'::boolean[],
+  'fractions and mixed numbers are read only when accepted, and never with a zero denominator'
+);
+
+-- Short answers; src/lib/shortAnswer.test.ts checks isShortAnswerCorrect() with the same inputs.
+-- The flags are case_sensitive, normalize_whitespace and ignore_spacing.
+SELECT is(
+  ARRAY[
+    public.short_answer_correct(U&'\1112\1161\11AB\1100\1173\11AF', '{한글}', '{}', false, false, false),
+    public.short_answer_correct('대한 민국', '{대한민국}', '{}', false, false, true),
+    public.short_answer_correct('대한 민국', '{대한민국}', '{}', false, true, false),
+    public.short_answer_correct('  new   york ', '{New York}', '{}', false, true, false),
+    public.short_answer_correct('  new   york ', '{New York}', '{}', false, false, false)
+  ],
+  '{t,t,f,t,f}'::boolean[],
+  'answers are compared in NFC, and spacing is ignored or collapsed only when asked'
+);
+
+SELECT is(
+  ARRAY[
+    public.short_answer_correct('seoul', '{Seoul}', '{}', false, true, false),
+    public.short_answer_correct('seoul', '{Seoul}', '{}', true, true, false),
+    public.short_answer_correct('   ', '{a}', '{}', false, true, false),
+    public.short_answer_correct(NULL, '{a}', '{}', false, true, false)
+  ],
+  '{t,f,f,f}'::boolean[],
+  'case matters only when asked, and a blank answer is never correct'
+);
+
+SELECT is(
+  ARRAY[
+    public.short_answer_correct('color', '{}', '{colou?r}', false, true, false),
+    public.short_answer_correct('COLOUR', '{}', '{colou?r}', false, true, false),
+    public.short_answer_correct('COLOUR', '{}', '{colou?r}', true, true, false),
+    public.short_answer_correct('colors', '{}', '{colou?r}', false, true, false),
+    public.short_answer_correct('(', '{}', '{(}', false, true, false)
+  ],
+  '{t,t,f,f,f}'::boolean[],
+  'patterns match the whole answer, and a broken pattern matches nothing'
+);
+
+-- Fixtures: an instructor, a student, and one submission with a correct answer
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor@test.local'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student@test.local');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student');
+
+INSERT INTO public.assignments (id, title, instructor_id) VALUES
+  ('00000000-0000-0000-0000-00000000c001', 'Graded', '00000000-0000-0000-0000-0000000000a1');
+
+INSERT INTO public.questions (id, assignment_id, text, options, correct_answer, order_number) VALUES
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000c001', 'Q1', '["1","2"]', 0, 0);
+
+INSERT INTO public.student_assignments (assignment_id, student_id) VALUES
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000b1');
+
+INSERT INTO public.submissions (id, assignment_id, student_id, score, total_questions) VALUES
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000b1', 0, 1);
+
+INSERT INTO public.student_answers (submission_id, question_id, selected_answer, is_correct) VALUES
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000e1', 0, true);
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role":"anon"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.recalculate_submission_score('00000000-0000-0000-0000-0000000000f1') $$,
+  '42501',
+  NULL,
+  'anonymous callers cannot recalculate a score'
+);
+
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"role":"authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.recalculate_submission_score('00000000-0000-0000-0000-0000000000f1') $$,
+  'Not allowed to grade this submission',
+  'a call without a user is not treated as the service role'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000b1","role":"authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.recalculate_submission_score('00000000-0000-0000-0000-0000000000f1') $$,
+  'Not allowed to grade this submission',
+  'student cannot recalculate their own score'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000a1","role":"authenticated"}', true);
+
+SELECT is(
+  public.recalculate_submission_score('00000000-0000-0000-0000-0000000000f1'),
+  1::numeric,
+  'owning instructor can recalculate a score'
+);
+
+RESET ROLE;
+SET LOCAL ROLE service_role;
+SELECT set_config('request.jwt.claims', '{"role":"service_role"}', true);
+
+SELECT is(
+  public.recalculate_submission_score('00000000-0000-0000-0000-0000000000f1'),
+  1::numeric,
+  'the service role can recalculate a score'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
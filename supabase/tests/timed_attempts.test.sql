@@ -0,0 +1,103 @@
+-- Timed attempts and autosave: run with `supabase test db`
+BEGIN;
+SELECT plan(8);
+
+-- Fixtures: an instructor and an assigned student
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor@test.local'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student@test.local');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'instructor'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student');
+
+-- Timed quiz; the student gets extra time on top of the limit
+INSERT INTO public.assignments (id, title, instructor_id, time_limit_minutes) VALUES
+  ('00000000-0000-0000-0000-00000000c012', 'Timed', '00000000-0000-0000-0000-0000000000a1', 10);
+
+INSERT INTO public.questions (id, assignment_id, text, options, correct_answer, order_number) VALUES
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000c012', 'Timed 1', '["1","2"]', 0, 0);
+
+INSERT INTO public.student_assignments (assignment_id, student_id, extra_time_minutes) VALUES
+  ('00000000-0000-0000-0000-00000000c012', '00000000-0000-0000-0000-0000000000b1', 5);
+
+-- A second timed quiz whose attempt ran out five minutes ago, with one autosaved answer
+INSERT INTO public.assignments (id, title, instructor_id, time_limit_minutes) VALUES
+  ('00000000-0000-0000-0000-00000000c014', 'Timed, expired', '00000000-0000-0000-0000-0000000000a1', 10);
+
+INSERT INTO public.questions (id, assignment_id, text, options, correct_answer, order_number) VALUES
+  ('00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-00000000c014', 'Expired 1', '["1","2"]', 0, 0);
+
+INSERT INTO public.student_assignments (assignment_id, student_id) VALUES
+  ('00000000-0000-0000-0000-00000000c014', '00000000-0000-0000-0000-0000000000b1');
+
+INSERT INTO public.assignment_attempts (assignment_id, student_id, question_ids, created_at, deadline, draft_answers, saved_at) VALUES
+  ('00000000-0000-0000-0000-00000000c014', '00000000-0000-0000-0000-0000000000b1', '{00000000-0000-0000-0000-0000000000e2}',
+   now() - interval '15 minutes', now() - interval '5 minutes',
+   '[{"question_id":"00000000-0000-0000-0000-0000000000e2","selected_answer":1}]', now() - interval '8 minutes');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-0000-0000-0000000000b1","role":"authenticated"}', true);
+
+SELECT is(
+  (SELECT deadline FROM public.start_assignment_attempt('00000000-0000-0000-0000-00000000c012')),
+  now() + interval '15 minutes',
+  'a timed attempt ends after the time limit plus the student''s extra time'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.save_attempt_draft('00000000-0000-0000-0000-00000000c012',
+    '[{"question_id":"00000000-0000-0000-0000-0000000000e1","selected_answer":1},{"question_id":"00000000-0000-0000-0000-0000000000ff","selected_answer":0}]') $$,
+  'student can autosave their open attempt'
+);
+
+SELECT is(
+  (SELECT draft_answers FROM public.start_assignment_attempt('00000000-0000-0000-0000-00000000c012')),
+  '[{"question_id":"00000000-0000-0000-0000-0000000000e1","selected_answer":1}]'::jsonb,
+  'resuming returns the autosaved answers, without answers to questions outside the attempt'
+);
+
+RESET ROLE;
+-- Pretend the attempt ran out well before the answers arrived
+UPDATE public.assignment_attempts SET deadline = now() - interval '5 minutes'
+WHERE assignment_id = '00000000-0000-0000-0000-00000000c012';
+
+SELECT throws_ok(
+  $$ SELECT public.save_attempt_draft('00000000-0000-0000-0000-00000000c012', '[]') $$,
+  'time_expired',
+  'autosave stops once the deadline has passed'
+);
+
+-- Submissions are recorded by the submit-assignment function with the service role
+SELECT set_config('request.jwt.claims', '{"role":"service_role"}', true);
+
+SELECT is(
+  (public.record_submission('00000000-0000-0000-0000-00000000c012', '00000000-0000-0000-0000-0000000000b1',
+    '[{"question_id":"00000000-0000-0000-0000-0000000000e1","selected_answer":0}]') ->> 'time_expired')::boolean,
+  true,
+  'answers arriving after the deadline are flagged as expired'
+);
+
+SELECT is(
+  (SELECT array_agg(sa.selected_answer) FROM public.student_answers sa JOIN public.submissions s ON s.id = sa.submission_id
+   WHERE s.assignment_id = '00000000-0000-0000-0000-00000000c012'),
+  '{1}'::integer[],
+  'answers arriving after the deadline are replaced by the last autosave'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.record_submission('00000000-0000-0000-0000-00000000c012', '00000000-0000-0000-0000-0000000000b1', '[]', NULL,
+    '00000000-0000-0000-0000-0000000000f1') $$,
+  'attempt_already_submitted',
+  'a queued submission for an attempt that is no longer open is refused'
+);
+
+SELECT is(
+  (public.record_submission('00000000-0000-0000-0000-00000000c014', '00000000-0000-0000-0000-0000000000b1',
+    '[{"question_id":"00000000-0000-0000-0000-0000000000e2","selected_answer":0}]', now() - interval '6 minutes') ->> 'time_expired')::boolean,
+  true,
+  'answers arriving after the deadline are expired even when the reported submission time is before it'
+);
+
+SELECT * FROM finish();
+ROLLBACK;